@@ -47,7 +47,10 @@ cp server/package.json server/dist/
 if [ -f server/bun.lock ]; then
   cp server/bun.lock server/dist/
 fi
-cp -r server/src server/dist/
+# The server rates stages with the game's own track code (src/sim), which lives outside server/, so the
+# entry is bundled rather than copied. The bundle keeps the name pm2 already runs.
+mkdir -p server/dist/src
+bun build server/src/index.ts --target=bun --external twitter-api-v2 --outfile server/dist/src/index.ts
 
 # Create tarball
 echo "📦 Packaging..."
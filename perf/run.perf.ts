@@ -1,11 +1,20 @@
-import { describe, it } from "vitest";
+import { describe, expect, it } from "vitest";
 import { execFileSync, spawnSync } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
 import { performance } from "node:perf_hooks";
 import zlib from "node:zlib";
 
-import { createProceduralTrackDefinition, createTrackFromDefinition, pointOnTrack } from "../src/sim/track";
+import {
+  createPointToPointTrackDefinition,
+  createProceduralTrackDefinition,
+  createTrackFromDefinition,
+  pointOnTrack,
+  projectToTrack,
+  type Track,
+  type TrackProjection
+} from "../src/sim/track";
+import { segmentIndexAtSM } from "../src/sim/track-index";
 import { generateEnemies, stepEnemy } from "../src/sim/enemy";
 
 function sh(cmd: string, args: string[]): string {
@@ -189,17 +198,24 @@ function computePctColumns(curr: BaseRow, prev: BaseRow | null): Pick<FullRow, (
   };
 }
 
+// One JSON file per run, shared by every benchmark below: each merges its results into it.
+const repoRoot = path.resolve(__dirname, "..");
+const runsDir = path.join(repoRoot, "perf", "runs");
+const commit = sh("git", ["rev-parse", "--short", "HEAD"]);
+const dateIso = new Date().toISOString();
+const runJsonPath = path.join(runsDir, `${dateIso.replace(/[:.]/g, "-")}_${commit}.json`);
+
+function mergeIntoRunJson(results: Record<string, unknown>): void {
+  fs.mkdirSync(runsDir, { recursive: true });
+  const existing = fs.existsSync(runJsonPath) ? JSON.parse(fs.readFileSync(runJsonPath, "utf8")) : {};
+  fs.writeFileSync(runJsonPath, JSON.stringify({ ...existing, ...results }, null, 2) + "\n", "utf8");
+}
+
 describe("perf: build + sim microbench", () => {
   it("records build time, dist size, and sim microbenchmarks", async () => {
-    const repoRoot = path.resolve(__dirname, "..");
     const perfDir = path.join(repoRoot, "perf");
-    const runsDir = path.join(perfDir, "runs");
     const historyPath = path.join(perfDir, "perf-history.tsv");
 
-    fs.mkdirSync(runsDir, { recursive: true });
-
-    const commit = sh("git", ["rev-parse", "--short", "HEAD"]);
-    const dateIso = new Date().toISOString();
     const label = process.env.PERF_LABEL ?? "default";
     const node = process.version;
 
@@ -319,7 +335,88 @@ describe("perf: build + sim microbench", () => {
     ];
     fs.writeFileSync(historyPath, outputLines.join("\n") + "\n", "utf8");
 
-    const jsonPath = path.join(runsDir, `${dateIso.replace(/[:.]/g, "-")}_${commit}.json`);
-    fs.writeFileSync(jsonPath, JSON.stringify(currentFull, null, 2) + "\n", "utf8");
+    mergeIntoRunJson(currentFull);
+  });
+});
+
+// The segment lookup pointOnTrack did before the binary search.
+function linearSegmentIndexAtSM(track: Track, s: number): number {
+  for (let i = 0; i < track.segmentLengthsM.length - 1; i++) {
+    const start = track.cumulativeLengthsM[i];
+    if (s >= start && s < start + track.segmentLengthsM[i]) return i;
+  }
+  return 0;
+}
+
+function nsPerCall(ops: number, fn: (i: number) => void): number {
+  for (let i = 0; i < Math.min(ops, 10_000); i++) fn(i); // warm up
+  const t0 = performance.now();
+  for (let i = 0; i < ops; i++) fn(i);
+  return nsPerOp((performance.now() - t0) * 1e6, ops);
+}
+
+type TrackIndexResult = {
+  stage: string;
+  projectToTrackScan_nsPerCall: number;
+  projectToTrackGrid_nsPerCall: number;
+  projectToTrackHinted_nsPerCall: number;
+  segmentAtSMScan_nsPerCall: number;
+  segmentAtSMBinary_nsPerCall: number;
+};
+
+describe("perf: track index", () => {
+  it("compares indexed track queries with full scans on 1800 m stages", () => {
+    // Stages about as long as generated ones get.
+    const tracks: Track[] = [];
+    for (let seed = 1; tracks.length < 4 && seed < 500; seed++) {
+      const track = createTrackFromDefinition(createPointToPointTrackDefinition(seed));
+      if (Math.abs(track.totalLengthM - 1800) < 100) tracks.push(track);
+    }
+    if (tracks.length === 0) throw new Error("no stage near 1800 m");
+
+    const ops = 100_000;
+    const rows: string[] = [];
+    const results: TrackIndexResult[] = [];
+    for (const track of tracks) {
+      const unindexed: Track = { ...track, index: undefined };
+      // A car's worth of positions: along the road, a few metres either side of it.
+      const samples = Array.from({ length: 1000 }, (_, i) => {
+        const { p, headingRad } = pointOnTrack(track, (i / 1000) * track.totalLengthM);
+        const sideM = Math.sin(i * 1.7) * 6;
+        return { x: p.x - Math.sin(headingRad) * sideM, y: p.y + Math.cos(headingRad) * sideM };
+      });
+      let hint: TrackProjection | undefined;
+      const scanNs = nsPerCall(ops, (i) => projectToTrack(unindexed, samples[i % samples.length]));
+      const gridNs = nsPerCall(ops, (i) => projectToTrack(track, samples[i % samples.length]));
+      const hintedNs = nsPerCall(ops, (i) => {
+        hint = projectToTrack(track, samples[i % samples.length], i % samples.length === 0 ? undefined : hint);
+      });
+      const sStep = track.totalLengthM / 997;
+      const lookupScanNs = nsPerCall(ops, (i) => linearSegmentIndexAtSM(track, (i * sStep) % track.totalLengthM));
+      const lookupNs = nsPerCall(ops, (i) => segmentIndexAtSM(track.cumulativeLengthsM, track.segmentLengthsM, (i * sStep) % track.totalLengthM));
+      results.push({
+        stage: `${Math.round(track.totalLengthM)} m / ${track.points.length - 1} segs`,
+        projectToTrackScan_nsPerCall: Math.round(scanNs),
+        projectToTrackGrid_nsPerCall: Math.round(gridNs),
+        projectToTrackHinted_nsPerCall: Math.round(hintedNs),
+        segmentAtSMScan_nsPerCall: Math.round(lookupScanNs),
+        segmentAtSMBinary_nsPerCall: Math.round(lookupNs)
+      });
+      rows.push(
+        [
+          `${Math.round(track.totalLengthM)} m / ${track.points.length - 1} segs`,
+          `projectToTrack scan ${Math.round(scanNs)} ns, grid ${Math.round(gridNs)} ns, hinted ${Math.round(hintedNs)} ns (x${(scanNs / hintedNs).toFixed(1)})`,
+          `segment at sM scan ${Math.round(lookupScanNs)} ns, binary search ${Math.round(lookupNs)} ns`
+        ].join(" | ")
+      );
+    }
+    console.log(["track index:", ...rows].join("\n  "));
+    mergeIntoRunJson({ trackIndex: results });
+
+    for (const r of results) {
+      expect(r.projectToTrackGrid_nsPerCall, r.stage).toBeLessThan(r.projectToTrackScan_nsPerCall);
+      expect(r.projectToTrackHinted_nsPerCall, r.stage).toBeLessThan(r.projectToTrackScan_nsPerCall);
+      expect(r.segmentAtSMBinary_nsPerCall, r.stage).toBeLessThan(r.segmentAtSMScan_nsPerCall);
+    }
   });
 });
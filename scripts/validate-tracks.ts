@@ -0,0 +1,106 @@
+// Generate every point-to-point stage in a seed range and check each against the track rules.
+//
+//   npm run tracks:validate -- --from 0 --to 999 --format tsv --out tracks.tsv
+//
+// JSON (the default) holds a summary and one entry per seed; TSV is one row per seed. A short summary
+// goes to stderr either way, and the exit code is 1 when any seed fails a check.
+
+import fs from "node:fs";
+
+import { auditStage, summarizeStageAudits, type StageAudit, type StageAuditSummary } from "../src/sim/stage-audit";
+
+type Args = { from: number; to: number; format: "json" | "tsv"; out: string | null };
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { from: 0, to: 999, format: "json", out: null };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--from") args.from = Number.parseInt(argv[++i] ?? "", 10);
+    else if (a === "--to") args.to = Number.parseInt(argv[++i] ?? "", 10);
+    else if (a === "--format") args.format = argv[++i] === "tsv" ? "tsv" : "json";
+    else if (a === "--out") args.out = argv[++i] ?? null;
+    else throw new Error(`unknown argument: ${a}`);
+  }
+  if (!Number.isInteger(args.from) || !Number.isInteger(args.to) || args.from > args.to) {
+    throw new Error(`bad seed range: --from ${args.from} --to ${args.to}`);
+  }
+  return args;
+}
+
+const TSV_COLUMNS = [
+  "seed",
+  "failures",
+  "attempts",
+  "rejectedCrossing",
+  "rejectedStraight",
+  "lengthM",
+  "totalTurnRad",
+  "cornerTypes",
+  "trees",
+  "rocks",
+  "debris",
+  "water",
+  "enemies",
+  "generateMs",
+  "propsMs",
+  "waterMs",
+  "enemiesMs"
+];
+
+function tsvRow(a: StageAudit): string {
+  return [
+    a.seed,
+    a.failures.join(","),
+    a.attempts,
+    a.rejections.crossing,
+    a.rejections.straight,
+    a.lengthM.toFixed(1),
+    a.totalTurnRad.toFixed(2),
+    a.cornerTypes.join(","),
+    a.counts.trees,
+    a.counts.rocks,
+    a.counts.debris,
+    a.counts.water,
+    a.counts.enemies,
+    a.timingsMs.generate.toFixed(2),
+    a.timingsMs.props.toFixed(2),
+    a.timingsMs.water.toFixed(2),
+    a.timingsMs.enemies.toFixed(2)
+  ].join("\t");
+}
+
+function describeSummary(s: StageAuditSummary): string {
+  const lines = [`${s.seeds} seeds, ${s.failed} failing`];
+  for (const [check, seeds] of Object.entries(s.failuresByCheck)) {
+    const shown = seeds.slice(0, 10).join(", ");
+    lines.push(`  ${check}: ${seeds.length} (${shown}${seeds.length > 10 ? ", ..." : ""})`);
+  }
+  lines.push(`  attempts: ${Object.entries(s.attemptsHistogram).map(([n, count]) => `${n}x${count}`).join(" ")}`);
+  lines.push(`  corners: ${Object.entries(s.cornerTypeHistogram).map(([type, count]) => `${type} ${count}`).join(", ")}`);
+  for (const [phase, t] of Object.entries(s.timingsMs)) {
+    lines.push(`  ${phase}: mean ${t.mean.toFixed(1)} ms, max ${t.max.toFixed(1)} ms (seed ${t.maxSeed})`);
+  }
+  return lines.join("\n");
+}
+
+function main(): void {
+  const args = parseArgs(process.argv);
+  const audits: StageAudit[] = [];
+  for (let seed = args.from; seed <= args.to; seed++) {
+    audits.push(auditStage(seed));
+    if ((seed - args.from + 1) % 100 === 0) process.stderr.write(`${seed - args.from + 1} seeds...\n`);
+  }
+  const summary = summarizeStageAudits(audits);
+
+  const output =
+    args.format === "tsv"
+      ? [TSV_COLUMNS.join("\t"), ...audits.map(tsvRow)].join("\n") + "\n"
+      : JSON.stringify({ from: args.from, to: args.to, summary, seeds: audits }, null, 2) + "\n";
+  if (args.out) fs.writeFileSync(args.out, output, "utf8");
+  else process.stdout.write(output);
+
+  process.stderr.write(describeSummary(summary) + "\n");
+  process.exitCode = summary.failed > 0 ? 1 : 0;
+}
+
+main();
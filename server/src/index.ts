@@ -26,6 +26,8 @@ type TurnConfig = {
 
 import { Database } from "bun:sqlite";
 import { postHighScore } from "./twitter";
+import { stageRating } from "./stage-rating";
+import { normalizeAssistsTag } from "../../src/sim/assists";
 
 const db = new Database("scores.sqlite", { create: true });
 db.run(
@@ -50,6 +52,9 @@ ensureColumn({ table: "high_scores", column: "seed", ddl: "TEXT DEFAULT '0'" });
 ensureColumn({ table: "high_scores", column: "user_id", ddl: "TEXT" });
 ensureColumn({ table: "high_scores", column: "mode", ddl: "TEXT" });
 ensureColumn({ table: "high_scores", column: "avg_speed_kmh", ddl: "REAL" });
+ensureColumn({ table: "high_scores", column: "assists", ddl: "TEXT DEFAULT ''" });
+ensureColumn({ table: "high_scores", column: "race_mode", ddl: "TEXT DEFAULT 'stage'" });
+ensureColumn({ table: "high_scores", column: "laps", ddl: "INTEGER DEFAULT 1" });
 
 ensureColumn({ table: "game_stats", column: "seed", ddl: "TEXT" });
 ensureColumn({ table: "game_stats", column: "user_id", ddl: "TEXT" });
@@ -58,8 +63,9 @@ ensureColumn({ table: "game_stats", column: "name", ddl: "TEXT" });
 ensureColumn({ table: "game_stats", column: "score_ms", ddl: "INTEGER" });
 ensureColumn({ table: "game_stats", column: "avg_speed_kmh", ddl: "REAL" });
 
-// Dedupe: one score per user per seed.
-db.run("CREATE UNIQUE INDEX IF NOT EXISTS high_scores_user_seed ON high_scores(user_id, seed)");
+// Dedupe: one score per user per board (seed + race mode + laps). Older DBs keyed on seed alone.
+db.run("DROP INDEX IF EXISTS high_scores_user_seed");
+db.run("CREATE UNIQUE INDEX IF NOT EXISTS high_scores_user_board ON high_scores(user_id, seed, race_mode, laps)");
 
 
 
@@ -151,6 +157,17 @@ function normalizeNetMode(s: unknown): "solo" | "host" | "client" | null {
   return null;
 }
 
+function normalizeRaceMode(s: unknown): "stage" | "circuit" {
+  return (s ?? "").toString().trim() === "circuit" ? "circuit" : "stage";
+}
+
+// Stages are always one lap; circuits run 1..10.
+function normalizeLaps(raceMode: "stage" | "circuit", s: unknown): number {
+  if (raceMode === "stage") return 1;
+  const n = Math.floor(Number(s));
+  return Number.isFinite(n) ? Math.max(1, Math.min(10, n)) : 1;
+}
+
 function sendJson(ws: ServerWebSocket<WsData>, msg: unknown): void {
   try {
     ws.send(JSON.stringify(msg));
@@ -252,7 +269,8 @@ const server = Bun.serve<WsData>({
             ok: true,
             seed,
             upvotes: typeof row?.upvotes === "number" ? row.upvotes : 0,
-            downvotes: typeof row?.downvotes === "number" ? row.downvotes : 0
+            downvotes: typeof row?.downvotes === "number" ? row.downvotes : 0,
+            rating: stageRating(seed, normalizeRaceMode(url.searchParams.get("raceMode")))
           }),
           { headers: jsonHeaders }
         );
@@ -328,7 +346,7 @@ const server = Bun.serve<WsData>({
     if (path === "/api/highscore") {
       if (req.method === "POST") {
         try {
-          const body = (await req.json()) as { name?: string; score?: number; seed?: string; userId?: string; mode?: string; avgSpeedKmH?: number; netMode?: string };
+          const body = (await req.json()) as { name?: string; score?: number; seed?: string; userId?: string; mode?: string; avgSpeedKmH?: number; netMode?: string; assists?: string; raceMode?: string; laps?: number };
           const name = normalizeName(body?.name);
           const seed = normalizeSeed(body?.seed);
           const userId = normalizeUserId(body?.userId);
@@ -336,6 +354,9 @@ const server = Bun.serve<WsData>({
           const netMode = normalizeNetMode(body?.netMode);
           const score = Math.max(0, Math.floor(Number(body?.score ?? 0)));
           const avgSpeedKmH = Number(body?.avgSpeedKmH);
+          const assists = normalizeAssistsTag(body?.assists);
+          const raceMode = normalizeRaceMode(body?.raceMode);
+          const laps = normalizeLaps(raceMode, body?.laps);
           if (!Number.isFinite(score) || score <= 0) {
             return new Response(JSON.stringify({ error: "invalid score" }), { status: 400, headers: jsonHeaders });
           }
@@ -346,14 +367,15 @@ const server = Bun.serve<WsData>({
             return new Response(JSON.stringify({ error: "missing userId" }), { status: 400, headers: jsonHeaders });
           }
 
-          // One score per user per seed; only keep improvements (lower time is better).
+          // One score per user per board; only keep improvements (lower time is better).
           db.run(
-            "INSERT INTO high_scores (name, score, seed, user_id, mode, avg_speed_kmh, t) VALUES (?, ?, ?, ?, ?, ?, ?) " +
-              "ON CONFLICT(user_id, seed) DO UPDATE SET " +
+            "INSERT INTO high_scores (name, score, seed, user_id, mode, avg_speed_kmh, assists, race_mode, laps, t) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) " +
+              "ON CONFLICT(user_id, seed, race_mode, laps) DO UPDATE SET " +
               "name = excluded.name, " +
               "mode = excluded.mode, " +
               "avg_speed_kmh = excluded.avg_speed_kmh, " +
               "t = CASE WHEN excluded.score < high_scores.score THEN excluded.t ELSE high_scores.t END, " +
+              "assists = CASE WHEN excluded.score < high_scores.score THEN excluded.assists ELSE high_scores.assists END, " +
               "score = CASE WHEN excluded.score < high_scores.score THEN excluded.score ELSE high_scores.score END",
             [
               name,
@@ -362,6 +384,9 @@ const server = Bun.serve<WsData>({
               userId,
               mode ?? "timeTrial",
               Number.isFinite(avgSpeedKmH) ? avgSpeedKmH : null,
+              assists,
+              raceMode,
+              laps,
               Date.now()
             ]
           );
@@ -381,19 +406,29 @@ const server = Bun.serve<WsData>({
       const seed = (url.searchParams.get("seed") ?? "").trim();
       const limitRaw = Number(url.searchParams.get("limit") ?? "10");
       const limit = Math.max(1, Math.min(50, Number.isFinite(limitRaw) ? Math.floor(limitRaw) : 10));
+      const raceMode = normalizeRaceMode(url.searchParams.get("raceMode"));
+      const laps = normalizeLaps(raceMode, url.searchParams.get("laps"));
 
       const rows = seed
-        ? (db.query("SELECT name, score, seed, t FROM high_scores WHERE seed = ? ORDER BY score ASC LIMIT ?").all(seed, limit) as any[])
-        : (db.query("SELECT name, score, seed, t FROM high_scores ORDER BY score ASC LIMIT ?").all(limit) as any[]);
+        ? (db
+            .query("SELECT name, score, seed, assists, t FROM high_scores WHERE seed = ? AND race_mode = ? AND laps = ? ORDER BY score ASC LIMIT ?")
+            .all(seed, raceMode, laps, limit) as any[])
+        : (db
+            .query("SELECT name, score, seed, assists, t FROM high_scores WHERE race_mode = ? AND laps = ? ORDER BY score ASC LIMIT ?")
+            .all(raceMode, laps, limit) as any[]);
 
       return new Response(
         JSON.stringify({
           ok: true,
           seed: seed || null,
+          raceMode,
+          laps,
+          rating: seed ? stageRating(seed, raceMode) : null,
           scores: rows.map((r) => ({
             name: typeof r?.name === "string" ? r.name : "anonymous",
             score: typeof r?.score === "number" ? r.score : 0,
             seed: typeof r?.seed === "string" ? r.seed : "0",
+            assists: typeof r?.assists === "string" ? r.assists : "",
             t: typeof r?.t === "number" ? r.t : 0
           }))
         }),
@@ -405,29 +440,30 @@ const server = Bun.serve<WsData>({
       const limitRaw = Number(url.searchParams.get("limit") ?? "10");
       const limit = Math.max(1, Math.min(50, Number.isFinite(limitRaw) ? Math.floor(limitRaw) : 10));
 
-      const totalTracksRow = db.query("SELECT COUNT(DISTINCT seed) AS n FROM high_scores").get() as any;
+      // Every board (seed + race mode + laps) counts as a track here.
+      const totalTracksRow = db.query("SELECT COUNT(*) AS n FROM (SELECT DISTINCT seed, race_mode, laps FROM high_scores)").get() as any;
       const totalTracks = typeof totalTracksRow?.n === "number" ? totalTracksRow.n : 0;
 
       // Count how many seeds each user holds the #1 time for (ties count as #1 too).
       const leaderRows = db.query(
         "WITH best AS (" +
-          " SELECT seed, MIN(score) AS best_score" +
+          " SELECT seed, race_mode, laps, MIN(score) AS best_score" +
           " FROM high_scores" +
-          " GROUP BY seed" +
+          " GROUP BY seed, race_mode, laps" +
         "), winners AS (" +
-          " SELECT hs.seed AS seed, hs.user_id AS user_id, hs.score AS score" +
+          " SELECT hs.seed AS seed, hs.race_mode AS race_mode, hs.laps AS laps, hs.user_id AS user_id, hs.score AS score" +
           " FROM high_scores hs" +
-          " JOIN best b ON b.seed = hs.seed AND b.best_score = hs.score" +
+          " JOIN best b ON b.seed = hs.seed AND b.race_mode = hs.race_mode AND b.laps = hs.laps AND b.best_score = hs.score" +
         "), win_counts AS (" +
-          " SELECT seed, COUNT(*) AS winners" +
+          " SELECT seed, race_mode, laps, COUNT(*) AS winners" +
           " FROM winners" +
-          " GROUP BY seed" +
+          " GROUP BY seed, race_mode, laps" +
         ")" +
         " SELECT w.user_id AS user_id," +
           " COUNT(*) AS first_place_tracks," +
           " SUM(CASE WHEN wc.winners = 1 THEN 1 ELSE 0 END) AS solo_first_place_tracks" +
         " FROM winners w" +
-        " JOIN win_counts wc ON wc.seed = w.seed" +
+        " JOIN win_counts wc ON wc.seed = w.seed AND wc.race_mode = w.race_mode AND wc.laps = w.laps" +
         " GROUP BY w.user_id" +
         " ORDER BY first_place_tracks DESC, solo_first_place_tracks DESC" +
         " LIMIT ?"
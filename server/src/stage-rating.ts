@@ -0,0 +1,34 @@
+import { createCircuitTrackDefinition, createPointToPointTrackDefinition } from "../../src/sim/track";
+import { analyzeStage, difficultyLabel } from "../../src/sim/track-analysis";
+
+export type StageRating = {
+  difficulty: number; // 1 (easy) to 10
+  label: string;
+  lengthM: number;
+  corners: number;
+  longestStraightM: number;
+};
+
+// Stages are generated from their seed, so a rating never changes; 1000 seeds x 2 modes is the most this holds.
+const cache = new Map<string, StageRating>();
+
+// Rating of the stage (or circuit) a numeric seed (0..999) generates. Other seeds are custom tracks the
+// server only knows by key, so they have none.
+export function stageRating(seed: string, raceMode: "stage" | "circuit"): StageRating | null {
+  if (!/^\d{1,3}$/.test(seed)) return null;
+  const n = Number.parseInt(seed, 10);
+  const key = `${raceMode}:${n}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const a = analyzeStage(raceMode === "circuit" ? createCircuitTrackDefinition(n) : createPointToPointTrackDefinition(n));
+  const rating: StageRating = {
+    difficulty: a.difficulty,
+    label: difficultyLabel(a.difficulty),
+    lengthM: Math.round(a.lengthM),
+    corners: a.corners.length,
+    longestStraightM: a.longestStraightM
+  };
+  cache.set(key, rating);
+  return rating;
+}
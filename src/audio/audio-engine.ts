@@ -70,6 +70,17 @@ export class EngineAudio {
         return true;
     }
 
+    /**
+     * Swap the engine voice (e.g. when the player picks another vehicle).
+     * Restarts the oscillators if running, since the harmonic set may change.
+     */
+    setParams(params: EngineAudioParams): void {
+        this.params = params;
+        if (!this.isRunning) return;
+        this.stop();
+        this.start();
+    }
+
     /**
      * Stop the engine audio
      */
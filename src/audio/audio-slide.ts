@@ -39,6 +39,24 @@ export function defaultSlideAudioParams(): SlideAudioParams {
                 gain: 0.78,
                 noiseType: "pink",
             },
+            ash: {
+                filterFreq: 700, // soft, dry hiss
+                filterQ: 1.2,
+                gain: 0.7,
+                noiseType: "pink",
+            },
+            mud: {
+                filterFreq: 300, // low squelch
+                filterQ: 1.1,
+                gain: 0.5,
+                noiseType: "pink",
+            },
+            rubble: {
+                filterFreq: 900, // crunchier than gravel
+                filterQ: 1.8,
+                gain: 0.76,
+                noiseType: "white",
+            },
             offtrack: {
                 filterFreq: 400, // very muffled
                 filterQ: 1.0,
@@ -0,0 +1,135 @@
+/**
+ * Pursuer audio: the storm wall's roar, or the swarm's drone, swelling as it closes in.
+ * One looping noise source on the environment channel; the filter decides which it sounds like.
+ */
+
+import type { PursuerKind } from "../sim/pursuer";
+import { getAudioContext, getEnvironmentChannel, isAudioUnlocked } from "./audio-context";
+
+function createBrownNoiseBuffer(ctx: AudioContext, durationSeconds: number): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const bufferSize = Math.floor(sampleRate * durationSeconds);
+  const buffer = ctx.createBuffer(1, bufferSize, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // Integrated white noise: the weight sits in the low end, like wind on a wall of sand.
+  let last = 0;
+  for (let i = 0; i < bufferSize; i++) {
+    const white = Math.random() * 2 - 1;
+    last = (last + 0.02 * white) / 1.02;
+    data[i] = last * 3.5;
+  }
+
+  return buffer;
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+export class StormAudio {
+  private source: AudioBufferSourceNode | null = null;
+  private filter: BiquadFilterNode | null = null;
+  private gainNode: GainNode | null = null;
+  // Swarm only: a fast tremolo on the gain turns the noise into wingbeats.
+  private lfo: OscillatorNode | null = null;
+  private lfoDepth: GainNode | null = null;
+  private isRunning = false;
+
+  start(): boolean {
+    if (this.isRunning) return true;
+
+    const ctx = getAudioContext();
+    const envChannel = getEnvironmentChannel();
+    if (!ctx || !envChannel || !isAudioUnlocked()) return false;
+
+    const src = ctx.createBufferSource();
+    src.buffer = createBrownNoiseBuffer(ctx, 2.0);
+    src.loop = true;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = 240;
+    filter.Q.value = 0.7;
+
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+
+    const lfo = ctx.createOscillator();
+    lfo.type = "sine";
+    lfo.frequency.value = 38;
+    const lfoDepth = ctx.createGain();
+    lfoDepth.gain.value = 0;
+    lfo.connect(lfoDepth);
+    lfoDepth.connect(gain.gain);
+
+    src.connect(filter);
+    filter.connect(gain);
+    gain.connect(envChannel);
+
+    src.start();
+    lfo.start();
+
+    this.source = src;
+    this.filter = filter;
+    this.gainNode = gain;
+    this.lfo = lfo;
+    this.lfoDepth = lfoDepth;
+    this.isRunning = true;
+    return true;
+  }
+
+  stop(): void {
+    for (const node of [this.source, this.lfo]) {
+      if (!node) continue;
+      try {
+        node.stop();
+        node.disconnect();
+      } catch {
+        // ignore
+      }
+    }
+    if (this.filter) this.filter.disconnect();
+    if (this.lfoDepth) this.lfoDepth.disconnect();
+    if (this.gainNode) this.gainNode.disconnect();
+
+    this.source = null;
+    this.filter = null;
+    this.gainNode = null;
+    this.lfo = null;
+    this.lfoDepth = null;
+    this.isRunning = false;
+  }
+
+  update(threat01: number, kind: PursuerKind, opts?: { timeScale?: number }): void {
+    if (!this.isRunning || !this.gainNode || !this.filter || !this.lfoDepth) return;
+
+    const ctx = getAudioContext();
+    if (!ctx) return;
+
+    const i = clamp01(threat01);
+    const now = ctx.currentTime;
+    const timeScale = Math.max(0.2, Math.min(1.0, Number(opts?.timeScale ?? 1.0)));
+    const pitchScale = 0.10 + 0.90 * timeScale;
+
+    // Quiet at the edge of hearing, then a steep swell over the last stretch.
+    const targetGain = i * i * 0.55;
+    this.gainNode.gain.setTargetAtTime(targetGain, now, 0.15);
+
+    if (kind === "swarm") {
+      this.filter.type = "bandpass";
+      this.filter.frequency.setTargetAtTime((380 + 260 * i) * pitchScale, now, 0.2);
+      this.filter.Q.setTargetAtTime(4, now, 0.2);
+      this.lfoDepth.gain.setTargetAtTime(targetGain * 0.6, now, 0.15);
+    } else {
+      this.filter.type = "lowpass";
+      this.filter.frequency.setTargetAtTime((180 + 900 * i) * pitchScale, now, 0.2);
+      this.filter.Q.setTargetAtTime(0.7, now, 0.2);
+      this.lfoDepth.gain.setTargetAtTime(0, now, 0.15);
+    }
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+}
@@ -1,6 +1,11 @@
-import { Game } from "./runtime/game";
+import { Game, type RaceMode } from "./runtime/game";
 import { TuningPanel } from "./runtime/tuning";
 import { initNetSession } from "./net/session";
+import { DEFAULT_VEHICLE_CLASS, builtInVehicle, builtInVehicles, isVehicleClassId } from "./sim/vehicle";
+import { CIRCUIT_LAP_CHOICES, DEFAULT_CIRCUIT_LAPS, clampLapCount } from "./sim/laps";
+import { createCircuitTrackDefinition, createPointToPointTrackDefinition } from "./sim/track";
+import { analyzeStage, formatDifficulty } from "./sim/track-analysis";
+import { trackFromShareCode } from "./sim/track-code";
 
 const canvas = document.getElementById("game");
 if (!(canvas instanceof HTMLCanvasElement)) {
@@ -132,6 +137,7 @@ const menuMultiBtn = document.getElementById("btn-menu-multiplayer") as HTMLButt
 
 const spTimeTrialBtn = document.getElementById("btn-sp-time-trial") as HTMLButtonElement | null;
 const spPracticeBtn = document.getElementById("btn-sp-practice") as HTMLButtonElement | null;
+const spCircuitBtn = document.getElementById("btn-sp-circuit") as HTMLButtonElement | null;
 const spBackBtn = document.getElementById("btn-sp-back") as HTMLButtonElement | null;
 const mpBackBtn = document.getElementById("btn-mp-back") as HTMLButtonElement | null;
 
@@ -151,18 +157,69 @@ const netPanel = document.getElementById("net-panel") as HTMLDivElement | null;
 const mobileOverlay = document.getElementById("mobile-overlay") as HTMLDivElement | null;
 const exitFsBtn = document.getElementById("fullscreen-toggle") as HTMLButtonElement | null;
 const startMenuSub = document.getElementById("start-menu-sub") as HTMLDivElement | null;
+const spStageInfo = document.getElementById("sp-stage-info") as HTMLDivElement | null;
 
 let lastMp: { mode: "host" | "client"; code: string } | null = null;
 
+// Vehicle picker. The choice is remembered; a joining client gets the host's vehicle instead.
+const VEHICLE_STORAGE_KEY = "spaceRally.vehicle";
+const vehicleSelect = document.getElementById("vehicle-select") as HTMLSelectElement | null;
+{
+  let savedVehicle: string | null = null;
+  try { savedVehicle = localStorage.getItem(VEHICLE_STORAGE_KEY); } catch { }
+  const initialVehicle = isVehicleClassId(savedVehicle) ? savedVehicle : DEFAULT_VEHICLE_CLASS;
+  if (vehicleSelect) {
+    for (const v of builtInVehicles()) {
+      const opt = document.createElement("option");
+      opt.value = v.id;
+      opt.textContent = v.name.toUpperCase();
+      vehicleSelect.appendChild(opt);
+    }
+    vehicleSelect.value = initialVehicle;
+    vehicleSelect.addEventListener("change", () => {
+      const id = vehicleSelect.value;
+      if (!isVehicleClassId(id)) return;
+      game.setVehicle(builtInVehicle(id));
+      try { localStorage.setItem(VEHICLE_STORAGE_KEY, id); } catch { }
+    });
+  }
+  game.setVehicle(builtInVehicle(initialVehicle));
+}
+
+// Circuit lap count, remembered like the vehicle.
+const CIRCUIT_LAPS_STORAGE_KEY = "spaceRally.circuitLaps";
+const circuitLapsSelect = document.getElementById("circuit-laps-select") as HTMLSelectElement | null;
+let circuitLaps = DEFAULT_CIRCUIT_LAPS;
+{
+  try { circuitLaps = clampLapCount(localStorage.getItem(CIRCUIT_LAPS_STORAGE_KEY)); } catch { }
+  if (circuitLapsSelect) {
+    for (const laps of CIRCUIT_LAP_CHOICES) {
+      const opt = document.createElement("option");
+      opt.value = String(laps);
+      opt.textContent = laps === 1 ? "1 LAP" : `${laps} LAPS`;
+      circuitLapsSelect.appendChild(opt);
+    }
+    if (!CIRCUIT_LAP_CHOICES.includes(circuitLaps)) circuitLaps = DEFAULT_CIRCUIT_LAPS;
+    circuitLapsSelect.value = String(circuitLaps);
+    circuitLapsSelect.addEventListener("change", () => {
+      circuitLaps = clampLapCount(circuitLapsSelect.value);
+      try { localStorage.setItem(CIRCUIT_LAPS_STORAGE_KEY, String(circuitLaps)); } catch { }
+    });
+  }
+}
+
 // Hide the old corner invite UI by default; we'll show it only in multiplayer.
 if (netPanel) netPanel.style.display = "none";
 
 // Ensure the touch overlay exists so the rotate-to-landscape prompt can show.
 // Controls stay hidden until `.started` is set on <body>.
 let looksTouch = "ontouchstart" in window || navigator.maxTouchPoints > 0;
+// A `?track=` link starts solo play on the shared track instead of a random stage.
+let sharedTrackCode: string | null = null;
 try {
   const url = new URL(window.location.href);
   if (url.searchParams.get("mobile") === "1" || url.searchParams.get("touch") === "1") looksTouch = true;
+  sharedTrackCode = url.searchParams.get("track");
 } catch {
   // ignore
 }
@@ -233,6 +290,26 @@ const setMenu = (mode: "root" | "single" | "multi"): void => {
   }
 };
 
+// Solo play starts on this stage; it's picked when the singleplayer menu opens so its rating can be shown there.
+let soloStageSeed: number | null = null;
+
+const previewSoloStage = (): void => {
+  const shared = sharedTrackCode !== null ? trackFromShareCode(sharedTrackCode) : null;
+  if (shared) {
+    const a = analyzeStage(shared);
+    if (spStageInfo) spStageInfo.textContent = `SHARED TRACK · ${(a.lengthM / 1000).toFixed(1)} KM · ${a.corners.length} CORNERS · DIFFICULTY ${formatDifficulty(a.difficulty)}`;
+    return;
+  }
+  soloStageSeed = game.randomStartStageSeed({ minSeed: 1, maxSeed: 1000 });
+  const stage = analyzeStage(createPointToPointTrackDefinition(soloStageSeed));
+  const circuit = analyzeStage(createCircuitTrackDefinition(soloStageSeed));
+  if (spStageInfo) {
+    spStageInfo.textContent =
+      `STAGE ${soloStageSeed} · ${(stage.lengthM / 1000).toFixed(1)} KM · ${stage.corners.length} CORNERS · DIFFICULTY ${formatDifficulty(stage.difficulty)}` +
+      ` | CIRCUIT ${formatDifficulty(circuit.difficulty)}`;
+  }
+};
+
 const finalizeStart = async (opts?: { multiplayer?: boolean }): Promise<void> => {
   // Wait for touch devices to settle into landscape before first frame.
   if (looksTouch && !isLandscape()) {
@@ -256,7 +333,10 @@ const finalizeStart = async (opts?: { multiplayer?: boolean }): Promise<void> =>
   if (looksTouch && mobileOverlay) mobileOverlay.style.display = "block";
 
   if (!opts?.multiplayer) {
-    game.pickRandomStartStage({ minSeed: 1, maxSeed: 1000 });
+    const shared = sharedTrackCode !== null && game.loadTrackShareCode(sharedTrackCode);
+    if (sharedTrackCode !== null && !shared) game.notify("SHARED TRACK LINK IS INVALID");
+    if (!shared && soloStageSeed !== null) game.loadStartStage(soloStageSeed);
+    else if (!shared) game.pickRandomStartStage({ minSeed: 1, maxSeed: 1000 });
   }
 
   game.setNetWaitForPeer(false);
@@ -264,12 +344,13 @@ const finalizeStart = async (opts?: { multiplayer?: boolean }): Promise<void> =>
   updateFullscreenUi();
 };
 
-const beginSolo = (mode: "timeTrial" | "practice"): void => {
+const beginSolo = (mode: "timeTrial" | "practice", raceMode: RaceMode = "stage"): void => {
   setMpError(null);
   pendingMultiplayerStart = null;
   setJoinUi("collapsed");
   setReconnectUi("hidden");
   game.setSoloMode(mode);
+  game.setRaceMode(raceMode, circuitLaps);
   game.unlockAudioFromUserGesture();
   if (looksTouch && wantsFullscreen) void enterFullscreenLandscape();
   void finalizeStart({ multiplayer: false });
@@ -408,6 +489,7 @@ document.addEventListener(
 
 menuSingleBtn?.addEventListener("click", (e) => {
   e.preventDefault();
+  previewSoloStage();
   setMenu("single");
 });
 
@@ -421,6 +503,11 @@ spTimeTrialBtn?.addEventListener("click", (e) => {
   beginSolo("timeTrial");
 });
 
+spCircuitBtn?.addEventListener("click", (e) => {
+  e.preventDefault();
+  beginSolo("timeTrial", "circuit");
+});
+
 spPracticeBtn?.addEventListener("click", (e) => {
   e.preventDefault();
   beginSolo("practice");
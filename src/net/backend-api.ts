@@ -5,10 +5,13 @@ type HighScoreRow = {
   score: number; // milliseconds (lower is better)
   seed: string;
   t: number;
+  assists?: string; // e.g. "ABS2 TC1"; absent when the run had none
 };
 
 export type BackendSoloMode = "timeTrial" | "practice";
 export type BackendNetMode = "solo" | "host" | "client";
+// Leaderboards are kept per seed, race mode and lap count; a stage counts as one lap.
+export type BackendRaceMode = "stage" | "circuit";
 
 // Scores should always go to the production backend (never a local server).
 const PROD_BACKEND_HTTP_ORIGIN = "https://spacerally.supercollider.hr";
@@ -109,6 +112,9 @@ export async function postHighScore(opts: {
   mode?: BackendSoloMode;
   avgSpeedKmH?: number;
   netMode?: BackendNetMode;
+  assists?: string;
+  raceMode?: BackendRaceMode;
+  laps?: number;
 }): Promise<{ ok: boolean }> {
   const base = PROD_BACKEND_HTTP_ORIGIN;
   const u = new URL("/api/highscore", base);
@@ -122,7 +128,10 @@ export async function postHighScore(opts: {
       userId: getOrCreateUserId(),
       mode: opts.mode,
       avgSpeedKmH: typeof opts.avgSpeedKmH === "number" ? opts.avgSpeedKmH : undefined,
-      netMode: opts.netMode
+      netMode: opts.netMode,
+      assists: opts.assists,
+      raceMode: opts.raceMode,
+      laps: opts.laps
     }),
     timeoutMs: 2500
   });
@@ -160,10 +169,17 @@ export async function getHighScoreChampions(opts?: { limit?: number }): Promise<
   };
 }
 
-export async function getHighScores(opts?: { seed?: string; limit?: number }): Promise<{ ok: boolean; scores: HighScoreRow[] }> {
+export async function getHighScores(opts?: {
+  seed?: string;
+  limit?: number;
+  raceMode?: BackendRaceMode;
+  laps?: number;
+}): Promise<{ ok: boolean; scores: HighScoreRow[] }> {
   const base = PROD_BACKEND_HTTP_ORIGIN;
   const u = new URL("/api/highscores", base);
   if (opts?.seed) u.searchParams.set("seed", opts.seed);
+  if (opts?.raceMode) u.searchParams.set("raceMode", opts.raceMode);
+  if (typeof opts?.laps === "number") u.searchParams.set("laps", String(Math.floor(opts.laps)));
   if (typeof opts?.limit === "number") u.searchParams.set("limit", String(Math.floor(opts.limit)));
 
   const { ok, json } = await fetchJson(u.toString(), { method: "GET", timeoutMs: 2000 });
@@ -175,7 +191,8 @@ export async function getHighScores(opts?: { seed?: string; limit?: number }): P
       name: typeof s?.name === "string" ? s.name : "anonymous",
       score: typeof s?.score === "number" ? s.score : 0,
       seed: typeof s?.seed === "string" ? s.seed : "0",
-      t: typeof s?.t === "number" ? s.t : 0
+      t: typeof s?.t === "number" ? s.t : 0,
+      assists: typeof s?.assists === "string" && s.assists ? s.assists : undefined
     });
   }
   return { ok: true, scores };
@@ -19,6 +19,15 @@ describe("net protocol (datachannel)", () => {
     }
   });
 
+  it("parses init with optional vehicleDef", () => {
+    const msg = parseDataChannelMessage(
+      JSON.stringify({ type: "init", trackDef: "{}", hostRole: "driver", vehicleDef: "{\"id\":\"truck\"}" })
+    );
+    expect(msg?.type).toBe("init");
+    if (msg?.type === "init") expect(msg.vehicleDef).toBe("{\"id\":\"truck\"}");
+    expect(parseDataChannelMessage(JSON.stringify({ type: "init", trackDef: "{}", hostRole: "driver", vehicleDef: 5 }))).toBeNull();
+  });
+
   it("parses nav with optional bulletTimeHeld", () => {
     const msg = parseDataChannelMessage(
       JSON.stringify({ type: "nav", aimX: 1, aimY: 2, shootHeld: true, weaponIndex: 0, bulletTimeHeld: true })
@@ -30,7 +30,7 @@ export type ServerMsg =
   | { type: string; [k: string]: unknown };
 
 export type DcReadyMsg = { type: "ready" };
-export type DcInitMsg = { type: "init"; trackDef: string; hostRole: NetRole };
+export type DcInitMsg = { type: "init"; trackDef: string; hostRole: NetRole; vehicleDef?: string };
 export type DcTrackMsg = { type: "track"; trackDef: string };
 
 // Host -> client snapshot. We keep this permissive because the snapshot shape evolves.
@@ -93,7 +93,13 @@ export function parseDataChannelMessage(data: string): DcMessage | null {
 
   if (type === "init") {
     if (!isString(parsed.trackDef) || !isNetRole(parsed.hostRole)) return null;
-    return { type: "init", trackDef: parsed.trackDef, hostRole: parsed.hostRole };
+    if ("vehicleDef" in parsed && parsed.vehicleDef !== undefined && !isString(parsed.vehicleDef)) return null;
+    return {
+      type: "init",
+      trackDef: parsed.trackDef,
+      hostRole: parsed.hostRole,
+      ...(isString(parsed.vehicleDef) ? { vehicleDef: parsed.vehicleDef } : {})
+    };
   }
 
   if (type === "track") {
@@ -14,6 +14,8 @@ class FakeGame {
 
   getSerializedTrackDef(): string { return JSON.stringify({ points: [{ x: 0, y: 0 }, { x: 0, y: 10 }], baseWidthM: 7.5 }); }
   loadSerializedTrackDef(_def: string): boolean { return true; }
+  getSerializedVehicleDef(): string { return JSON.stringify({ id: "rally", car: {}, engine: {} }); }
+  loadSerializedVehicleDef(_def: string): boolean { return true; }
 
   // Host snapshot / client input plumbing (no-op for handshake test)
   getNetSnapshot(): any { return { t: 0, car: { xM: 0, yM: 0, headingRad: 0 } }; }
@@ -355,7 +355,14 @@ export function initNetSession(
           }
         });
         try {
-          dc.send(JSON.stringify({ type: "init", trackDef: game.getSerializedTrackDef(), hostRole }));
+          dc.send(
+            JSON.stringify({
+              type: "init",
+              trackDef: game.getSerializedTrackDef(),
+              hostRole,
+              vehicleDef: game.getSerializedVehicleDef()
+            })
+          );
         } catch { }
 
         hostSendTimer = window.setInterval(() => {
@@ -443,6 +450,11 @@ export function initNetSession(
           setError("bad trackDef");
           return;
         }
+        // Older hosts don't send a vehicle; keep whatever the client has.
+        if (msg.vehicleDef && !game.loadSerializedVehicleDef(msg.vehicleDef)) {
+          setError("bad vehicleDef");
+          return;
+        }
 
         const hr = msg.hostRole === PlayerRole.DRIVER ? PlayerRole.DRIVER : PlayerRole.NAVIGATOR;
         clientRole = hr === PlayerRole.DRIVER ? PlayerRole.NAVIGATOR : PlayerRole.DRIVER;
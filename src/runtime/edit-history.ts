@@ -0,0 +1,34 @@
+// Undo/redo over whole snapshots. Snapshots are never mutated once recorded, so they can be shared.
+export class EditHistory<T> {
+  private undoStack: T[] = [];
+  private redoStack: T[] = [];
+
+  constructor(private readonly limit: number = 100) {}
+
+  /** Call with the state as it was before an edit. Anything redoable is forgotten. */
+  record(before: T): void {
+    this.undoStack.push(before);
+    if (this.undoStack.length > this.limit) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /** The state to go back to, or null when there is none. `current` becomes redoable. */
+  undo(current: T): T | null {
+    const prev = this.undoStack.pop();
+    if (prev === undefined) return null;
+    this.redoStack.push(current);
+    return prev;
+  }
+
+  redo(current: T): T | null {
+    const next = this.redoStack.pop();
+    if (next === undefined) return null;
+    this.undoStack.push(current);
+    return next;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -1,29 +1,135 @@
 import { KeyboardInput, TouchInput, CompositeInput, type GameInput, type InputState } from "./input";
-import { Renderer2D } from "./renderer2d";
+import { Renderer2D, trackZoneColor } from "./renderer2d";
 import { clamp } from "./math";
-import { createCarState, defaultCarParams, stepCar, type CarTelemetry } from "../sim/car";
+import { createCarState, createWheelsTelemetry, stepCar, type CarTelemetry } from "../sim/car";
 import type { NetSnapshot } from "./net-snapshot";
 import {
   createPointToPointTrackDefinition,
+  branchToMainSM,
+  createCircuitTrackDefinition,
   createTrackFromDefinition,
   parseTrackDefinition,
+  pointOnRoute,
   pointOnTrack,
   projectToTrack,
   serializeTrackDefinition,
   type TrackDefinition,
   type TrackProjection
 } from "../sim/track";
-import { surfaceForTrackSM, type Surface } from "../sim/surface";
-import { quietZonesFromSeed, resolveStageTheme, stageMetaFromSeed, zoneEdgeFade, zoneIntensityAtTrackDistance, zonesAtTrackDistance, type QuietZone, type StageThemeKind, type TrackZone, type TrackZoneKind } from "../sim/stage";
+import {
+  appendTrackPoint,
+  deleteTrackPoint,
+  eraseSpansAt,
+  insertTrackPoint,
+  moveTrackPoint,
+  paintSpan,
+  setTrackPointWidth,
+  trackPointWidthM
+} from "../sim/track-edit";
+import { analyzeStage, formatDifficulty, type TrackAnalysis } from "../sim/track-analysis";
+import { generatePacenotes, upcomingPacenotes, type Pacenote } from "../sim/pacenotes";
+import { trackCodeKey, trackFromShareCode, trackShareCode } from "../sim/track-code";
+import { importTrack } from "../sim/track-import";
+import { validateTrackShape, type TrackIssue } from "../sim/track-validation";
+import { EditHistory } from "./edit-history";
+import { LEGACY_SLOT_NAME, listTrackSlots, loadTrackSlot, saveTrackSlot } from "./track-slots";
+import { isLooseSurface, surfaceAlongTrack, surfaceForRoad, tireCoefficientsForSurface, type Surface } from "../sim/surface";
+import { STAGE_THEME_KINDS, quietZonesFromSeed, resolveStageTheme, stageMetaFromSeed, zoneEdgeFade, zoneIntensityAtTrackDistance, zonesAtTrackDistance, type QuietZone, type StageThemeKind, type TrackZone, type TrackZoneKind } from "../sim/stage";
 import { generateDebris, generateEdgeRocks, generateTrees, generateWaterBodies, pointToSegmentDistance, type CircleObstacle, type DebrisObstacle, type WaterBody } from "../sim/props";
 import { DriftDetector, DriftState, type DriftInfo } from "../sim/drift";
-import { createEngineState, defaultEngineParams, stepEngine, rpmFraction, shiftUp, shiftDown, type EngineState } from "../sim/engine";
+import {
+  createPursuerState,
+  parsePursuerState,
+  pursuerDamagePerS,
+  pursuerEngulfed,
+  pursuerFromSeed,
+  pursuerGapM,
+  pursuerThreat01,
+  stepPursuer,
+  type PursuerKind,
+  type PursuerPlan,
+  type PursuerState
+} from "../sim/pursuer";
+import { bowWaveHeightM, floodDamagePerS, floodStalls, generateRivers, onBridgeDeck, riverDepthAt, wadingSpeedKeep, type River } from "../sim/river";
+import { WIND_MAX_MS, nextBigGustInS, windAtTrackDistance, type WindSample } from "../sim/wind";
+import {
+  CLEAR_WEATHER,
+  findPuddles,
+  fogAtTrackDistance,
+  nextShowerInS,
+  puddleDepthAt,
+  puddleFill01,
+  rainAtTime,
+  weatherFromSeed,
+  weatherClockS,
+  wetnessAtTime,
+  type Puddle,
+  type Weather
+} from "../sim/weather";
+import { DEFAULT_VEHICLE_CLASS, builtInVehicle, parseVehicleDefinition, serializeVehicleDefinition, type VehicleDefinition } from "../sim/vehicle";
+import { drivelineTorqueNm, drivenWheelInertiaKgM2, drivenWheelSpeedMS } from "../sim/driveline";
+import {
+  DAMAGE_COMPONENTS,
+  applyExposureDamage,
+  applyFloodDamage,
+  applyImpactDamage,
+  applyLandingDamage,
+  createDamageState,
+  damageOf,
+  damageGripScale,
+  damageRollingResistanceScale,
+  damagedCarParams,
+  damagedEngineParams,
+  isWrecked,
+  parseDamageState,
+  stepDamage,
+  type DamageState
+} from "../sim/damage";
+import {
+  ambientTempForTheme,
+  createTireWearState,
+  stepTireWear,
+  tireGripScale,
+  tireWearCarParams,
+  type TireWearState
+} from "../sim/tire-wear";
+import {
+  createVerticalState,
+  elevationAtProjection,
+  gradeAccelBodyMS2,
+  stepVertical,
+  type VerticalState
+} from "../sim/elevation";
+import {
+  applyAssists,
+  assistsTag,
+  createAssistState,
+  defaultAssistSettings,
+  maxAssistSettings,
+  type AssistActivity,
+  type AssistLevel,
+  type AssistSettings,
+  type AssistState
+} from "../sim/assists";
+import {
+  alongTrackGapM,
+  circuitCheckpointsSM,
+  clampLapCount,
+  completeLap,
+  createLapTiming,
+  DEFAULT_CIRCUIT_LAPS,
+  parseLapTiming,
+  type LapTiming
+} from "../sim/laps";
+import { addFuel, createEngineState, fuelMassKg, stepEngine, rpmFraction, shiftUp, shiftDown, type EngineState } from "../sim/engine";
+import { storeParkingSpotAt } from "../sim/city";
 import { ParticlePool, getParticleConfig } from "./particles";
 import { unlockAudio, suspendAudio, resumeAudio } from "../audio/audio-context";
 import { EngineAudio } from "../audio/audio-engine";
 import { SlideAudio } from "../audio/audio-slide";
 import { EffectsAudio } from "../audio/audio-effects";
 import { RainAudio } from "../audio/audio-rain";
+import { StormAudio } from "../audio/audio-storm";
 import type { TuningPanel } from "./tuning";
 import { ProjectilePool } from "../sim/projectile";
 import { EnemyPool, EnemyType, generateEnemies } from "../sim/enemy";
@@ -54,6 +160,15 @@ export enum PlayerRole {
 }
 
 export type SoloMode = "timeTrial" | "practice";
+// Point-to-point stages, or laps of a closed circuit.
+export type RaceMode = "stage" | "circuit";
+
+// What a left drag does in the editor: move points, or paint a track zone or quiet zone along the road.
+type EditorTool = "points" | TrackZoneKind | "quiet";
+const EDITOR_TOOLS: readonly EditorTool[] = ["points", "rain", "fog", "eclipse", "electrical", "quiet"];
+
+// How far ahead (s) the windsock lights up and the minimap calls a big gust.
+const BIG_GUST_WARN_S = 2.5;
 
 
 type GameState = {
@@ -109,6 +224,17 @@ export class Game {
   private currentQuietZones: QuietZone[] = [];
   private netBroadcastTrackDef: ((trackDef: string) => void) | null = null;
   private soloMode: SoloMode = "timeTrial";
+  private raceMode: RaceMode = "stage";
+  private circuitLaps = DEFAULT_CIRCUIT_LAPS;
+  // Rating of the current stage as generated; shown on the finish panel. The definition it rates is
+  // kept so an editor drag can rate the stage once, when the drag ends.
+  private stageAnalysis: TrackAnalysis | null = null;
+  private stageRatingDef: TrackDefinition | null = null;
+  // Pacenotes for the current stage, made on first use once the hazards are placed, and whether the
+  // driver had them on screen this run (an assist on the leaderboard).
+  private pacenotes: Pacenote[] | null = null;
+  private pacenotesUsed = false;
+  private readonly pacenoteLookaheadM = 160;
 
   private finishPanel = {
     root: null as HTMLDivElement | null,
@@ -177,9 +303,12 @@ export class Game {
   private track!: ReturnType<typeof createTrackFromDefinition>; // Will be set in constructor
   private trackSegmentFillStyles: string[] = [];
   private trackSegmentShoulderStyles: string[] = [];
-  private trackSegmentSurfaceNames: ("tarmac" | "gravel" | "sand" | "ice" | "offtrack")[] = [];
+  private trackSegmentSurfaceNames: Surface["name"][] = [];
+  // The same per-segment styles for each branch of the track.
+  private branchSegmentStyles: { fill: string[]; shoulder: string[]; surfaceNames: Surface["name"][] }[] = [];
   private trees: CircleObstacle[] = [];
   private waterBodies: WaterBody[] = [];
+  private rivers: River[] = [];
   private debris: DebrisObstacle[] = [];
   private checkpointSM: number[] = [];
   private nextCheckpointIndex = 0;
@@ -188,13 +317,33 @@ export class Game {
   private raceStartTimeSeconds = 0;
   private raceFinished = false;
   private finishTimeSeconds: number | null = null;
+  // Circuits only: laps of the race in progress, and this player's best lap ever on the track.
+  private lapTiming: LapTiming | null = null;
+  private lapRecordS: number | null = null;
+  private readonly lapRecordStorageKeyPrefix = "space-rally-lap-record-";
   private wreckedTimeSeconds: number | null = null;
   private notificationText = "";
   private notificationTimeSeconds = 0;
-  private damage01 = 0;
-  private lastSurface: Surface = { name: "tarmac", frictionMu: 1, rollingResistanceN: 260 };
+  private damage: DamageState = createDamageState();
+  private tireWear: TireWearState = createTireWearState(ambientTempForTheme("temperate"));
+  // Height over the road profile; the load scale is what the last vertical step left on the tires.
+  private vertical: VerticalState = createVerticalState();
+  private verticalLoadScale = 1;
+  private carHeightM = 0; // above the road, for drawing; comes from snapshots on clients and in replays
+  // Driving assists: the controllers' state, which ones are intervening (dashboard lights) and the most
+  // help this run has had, which goes on the leaderboard with the time.
+  private assistState: AssistState = createAssistState();
+  private assistActivity: AssistActivity = { abs: false, tractionControl: false, stability: false };
+  private assistsUsed: AssistSettings = defaultAssistSettings();
+  private lastSurface: Surface = { name: "tarmac", frictionMu: 1, rollingResistanceN: 260, tire: tireCoefficientsForSurface("tarmac") };
   private currentStageThemeKind: StageThemeKind = "temperate";
   private currentStageZones: TrackZone[] = [];
+  private currentWind: WindSample | null = null;
+  private weather: Weather = CLEAR_WEATHER;
+  private puddles: Puddle[] = [];
+  // What chases the car on this stage, if anything; it sets off at the start line. Clients only get the state.
+  private pursuerPlan: PursuerPlan | null = null;
+  private pursuer: PursuerState | null = null;
   private showDebugMenu = false; // F to toggle debug/tires/tuning panels
   private showMinimap = true;
   private gear: "F" | "R" = "F";
@@ -228,19 +377,39 @@ export class Game {
   private readonly bulletTimeWeaponAdvantage = 0.32;
   private editorMode = false;
   private editorDragIndex: number | null = null;
+  private editorWidthDragIndex: number | null = null; // dragging a width handle rather than the point
   private editorHoverIndex: number | null = null;
   private editorPointerId: number | null = null;
+  // Whether the current drag already has its undo entry; a click that never moves adds none.
+  private editorDragRecorded = false;
+  private editorTool: EditorTool = "points";
+  // While painting a zone: where the drag started and where it is now, along the track.
+  private editorPaintFromSM: number | null = null;
+  private editorPaintToSM = 0;
+  private readonly editorZoneIntensity01 = 0.85;
+  private readonly editorHistory = new EditHistory<TrackDefinition>();
+  private editorIssues: TrackIssue[] = [];
+  private editorSlotName = LEGACY_SLOT_NAME;
   // Client interpolation quality tracking
   private netClientInterpolationDistance = 0;
   private netClientVelocityError = 0;
   // Engine simulation
-  private engineState: EngineState = createEngineState();
-  private readonly engineParams = defaultEngineParams();
+  private vehicle: VehicleDefinition = builtInVehicle(DEFAULT_VEHICLE_CLASS);
+  private engineParams = this.vehicle.engine;
+  private engineState: EngineState = createEngineState(this.engineParams);
+  private refuelling = false;
+  // Gas station pump: how close to the parking spot and how slow the car has to be, and the flow rate.
+  private readonly refuelSpotRadiusM = 2.5;
+  private readonly refuelMaxSpeedMS = 0.5;
+  private readonly refuelRateLPerS = 2;
+  // Touchdown vertical speed the suspension soaks up without damage.
+  private readonly landingDamageSpeedMS = 5;
   // Audio systems
-  private readonly engineAudio = new EngineAudio();
+  private readonly engineAudio = new EngineAudio(this.vehicle.audio);
   private readonly slideAudio = new SlideAudio();
   private readonly effectsAudio = new EffectsAudio();
   private readonly rainAudio = new RainAudio();
+  private readonly stormAudio = new StormAudio();
   private audioUnlocked = false;
   // Continuous audio state for network sync
   private continuousAudioState = { engineRpm: 0, engineThrottle: 0, slideIntensity: 0, surfaceName: "tarmac" as string };
@@ -319,10 +488,11 @@ export class Game {
       lateralForceRearN: 0,
       normalLoadFrontN: 0,
       normalLoadRearN: 0,
-      wheelspinIntensity: 0
+      wheelspinIntensity: 0,
+      wheels: createWheelsTelemetry()
     }
   };
-  private carParams = defaultCarParams();
+  private carParams = { ...this.vehicle.car };
 
   constructor(canvas: HTMLCanvasElement, tuning?: TuningPanel) {
     this.renderer = new Renderer2D(canvas);
@@ -382,7 +552,7 @@ export class Game {
     this.proceduralSeed = Math.floor(Math.random() * 1000);
 
     // Start with a point-to-point track
-    this.setTrack(createPointToPointTrackDefinition(this.proceduralSeed));
+    this.setTrack(this.createRaceTrackDefinition(this.proceduralSeed));
 
     this.initFinishPanel();
     this.initReplayPanel();
@@ -472,8 +642,15 @@ export class Game {
         return;
       }
 
+      if (this.editorMode && (e.ctrlKey || e.metaKey) && (e.code === "KeyZ" || e.code === "KeyY")) {
+        e.preventDefault();
+        if (e.code === "KeyY" || e.shiftKey) this.redoEditorEdit();
+        else this.undoEditorEdit();
+        return;
+      }
+
       if (e.code === "KeyR") {
-        if (this.damage01 >= 1) return;
+        if (isWrecked(this.damage)) return;
         if (this.netMode !== "client") this.reset();
       }
       if (e.code === "KeyN") this.randomizeTrack();
@@ -487,6 +664,16 @@ export class Game {
       if (e.code === "Digit4" && !this.editorMode) this.switchWeapon(3);
       if (e.code === "Digit1" && this.editorMode) this.saveEditorTrack(); // Changed from S
       if (e.code === "Digit2" && this.editorMode) this.loadEditorTrack(); // Changed from L
+      if (e.code === "Digit3" && this.editorMode) this.copyTrackShareLink();
+      if (e.code === "Digit4" && this.editorMode) this.importEditorTrack();
+      if (e.code === "Equal" && this.editorMode) this.nudgeEditorElevation(0.5);
+      if (e.code === "Minus" && this.editorMode) this.nudgeEditorElevation(-0.5);
+      if (e.code === "KeyP" && this.editorMode) this.cycleEditorTool();
+      if (e.code === "KeyB" && this.editorMode) this.cycleEditorTheme();
+      if (e.code === "KeyP" && !this.editorMode && this.tuning) {
+        this.tuning.values.pacenotes = !this.tuning.values.pacenotes;
+        this.showNotification(`PACENOTES: ${this.tuning.values.pacenotes ? "ON" : "OFF"}`);
+      }
       if (e.code === "KeyF") {
         this.showDebugMenu = !this.showDebugMenu;
         this.tuning?.setVisibility(this.showDebugMenu);
@@ -584,10 +771,60 @@ export class Game {
     return this.soloMode;
   }
 
+  /** Applies from the next track picked; `laps` only matters for circuits. */
+  public setRaceMode(mode: RaceMode, laps?: number): void {
+    this.raceMode = mode;
+    if (laps !== undefined) this.circuitLaps = clampLapCount(laps);
+  }
+
+  private createRaceTrackDefinition(seed: number): TrackDefinition {
+    return this.raceMode === "circuit"
+      ? createCircuitTrackDefinition(seed, this.circuitLaps)
+      : createPointToPointTrackDefinition(seed);
+  }
+
+  // Laps in a race on the current track: what the circuit says, and one for a stage.
+  private lapsTotal(): number {
+    return this.track.closed ? clampLapCount(this.trackDef.meta?.laps, 1) : 1;
+  }
+
+  // Distance a finished race covered, for the average speed.
+  private raceDistanceM(): number {
+    return this.track.totalLengthM * this.lapsTotal();
+  }
+
+  private leaderboardBoard(): { raceMode: RaceMode; laps: number } {
+    return this.track.closed ? { raceMode: "circuit", laps: this.lapsTotal() } : { raceMode: "stage", laps: 1 };
+  }
+
+  private loadLapRecord(): number | null {
+    try {
+      const raw = localStorage.getItem(this.lapRecordStorageKeyPrefix + this.getTrackSeedString());
+      const v = raw ? Number.parseFloat(raw) : NaN;
+      return Number.isFinite(v) && v > 0 ? v : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Returns true when the lap beats the stored record for this track.
+  private recordLap(lapTimeS: number): boolean {
+    if (this.lapRecordS !== null && lapTimeS >= this.lapRecordS) return false;
+    this.lapRecordS = lapTimeS;
+    try {
+      localStorage.setItem(this.lapRecordStorageKeyPrefix + this.getTrackSeedString(), lapTimeS.toFixed(3));
+    } catch {
+      // ignore
+    }
+    return true;
+  }
+
   private getTrackSeedString(): string {
     const seed = this.trackDef?.meta?.seed;
+    // Edited, shared and imported tracks get a board of their own, named after their share code.
+    if (this.trackDef?.meta?.source === "editor" || this.trackDef?.meta?.source === "import") return trackCodeKey(this.getTrackShareCode());
     if (typeof seed === "number" && Number.isFinite(seed)) return String(Math.floor(seed));
-    // Fallback: keep stable-ish for editor/imported tracks.
+    // Fallback: keep stable-ish for imported tracks.
     return "0";
   }
 
@@ -665,8 +902,17 @@ export class Game {
         // ignore
       }
 
-      const avgSpeedKmH = this.finishTimeSeconds !== null ? (this.track.totalLengthM / this.finishTimeSeconds) * 3.6 : undefined;
-      const res = await postHighScore({ name, scoreMs, seed, mode: this.soloMode, avgSpeedKmH, netMode: this.netMode });
+      const avgSpeedKmH = this.finishTimeSeconds !== null ? (this.raceDistanceM() / this.finishTimeSeconds) * 3.6 : undefined;
+      const res = await postHighScore({
+        name,
+        scoreMs,
+        seed,
+        mode: this.soloMode,
+        avgSpeedKmH,
+        netMode: this.netMode,
+        assists: assistsTag(this.assistsUsed, this.pacenotesUsed),
+        ...this.leaderboardBoard()
+      });
       if (this.finishPanel.msg) this.finishPanel.msg.textContent = res.ok ? "Score submitted." : "Score submit failed (offline?).";
       if (this.finishPanel.submit) this.finishPanel.submit.disabled = false;
 
@@ -996,13 +1242,19 @@ export class Game {
     if (!this.backendFinishedSent) {
       this.backendFinishedSent = true;
       const scoreMs = this.finishPanelScoreMs;
-      const avgSpeedKmH = this.finishTimeSeconds !== null ? (this.track.totalLengthM / this.finishTimeSeconds) * 3.6 : undefined;
+      const avgSpeedKmH = this.finishTimeSeconds !== null ? (this.raceDistanceM() / this.finishTimeSeconds) * 3.6 : undefined;
       const name = (this.finishPanel.name?.value ?? "").trim().slice(0, 40) || (localStorage.getItem("spaceRallyName") ?? "").trim().slice(0, 40) || "anonymous";
       void postGameStat({ type: "finished", seed: this.finishPanelSeed, mode: this.soloMode, name, scoreMs: scoreMs ?? undefined, avgSpeedKmH });
     }
 
     const timeS = this.finishTimeSeconds !== null ? this.finishTimeSeconds.toFixed(2) : "--";
-    if (this.finishPanel.sub) this.finishPanel.sub.textContent = `Time: ${timeS}s`;
+    const bestLapS = this.lapTiming?.bestLapS;
+    const difficulty = this.stageAnalysis ? ` | Difficulty: ${formatDifficulty(this.stageAnalysis.difficulty)}` : "";
+    if (this.finishPanel.sub) {
+      this.finishPanel.sub.textContent = typeof bestLapS === "number"
+        ? `Time: ${timeS}s (${this.lapTiming?.lapsTotal} laps, best lap ${bestLapS.toFixed(2)}s)${difficulty}`
+        : `Time: ${timeS}s${difficulty}`;
+    }
     if (this.finishPanel.record) this.finishPanel.record.textContent = "";
     if (this.finishPanel.msg) this.finishPanel.msg.textContent = "";
 
@@ -1045,7 +1297,7 @@ export class Game {
     const [votes, scores, champions] = await Promise.all([
       getTrackVotes(seed),
       // Fetch more than we display so we can show counts + ties.
-      getHighScores({ seed, limit: 100 }),
+      getHighScores({ seed, limit: 100, ...this.leaderboardBoard() }),
       getHighScoreChampions({ limit: 5 })
     ]);
 
@@ -1108,7 +1360,7 @@ export class Game {
       for (let i = 0; i < showN; i++) {
         const s = scores.scores[i];
         const sec = (s.score / 1000).toFixed(3);
-        lines.push(`${i + 1}. ${sec}s  ${s.name}`);
+        lines.push(`${i + 1}. ${sec}s  ${s.name}${s.assists ? `  [${s.assists}]` : ""}`);
       }
     } else {
       lines.push("(none yet)");
@@ -1179,7 +1431,11 @@ export class Game {
       raceStartTimeSeconds: this.raceStartTimeSeconds,
       raceFinished: this.raceFinished,
       finishTimeSeconds: this.finishTimeSeconds,
-      damage01: this.damage01,
+      lapTiming: this.lapTiming,
+      pursuer: this.pursuer && { ...this.pursuer },
+      damage01: this.damage.body01,
+      damage: { ...this.damage },
+      carHeightM: this.carHeightM,
       enemyKillCount: this.enemyKillCount,
       cameraMode: this.cameraMode,
       cameraRotationRad: this.cameraRotationRad,
@@ -1316,7 +1572,10 @@ export class Game {
     this.raceStartTimeSeconds = frame.raceStartTimeSeconds;
     this.raceFinished = frame.raceFinished;
     this.finishTimeSeconds = frame.finishTimeSeconds;
-    this.damage01 = clamp(frame.damage01, 0, 1);
+    this.lapTiming = parseLapTiming(frame.lapTiming);
+    this.pursuer = parsePursuerState(frame.pursuer);
+    this.damage = this.damageFromSnapshot(frame.damage, frame.damage01);
+    this.carHeightM = frame.carHeightM ?? 0;
     this.enemyKillCount = frame.enemyKillCount;
     this.cameraMode = frame.cameraMode;
     this.cameraRotationRad = frame.cameraRotationRad;
@@ -1369,7 +1628,12 @@ export class Game {
     this.raceStartTimeSeconds = pick.raceStartTimeSeconds;
     this.raceFinished = pick.raceFinished;
     this.finishTimeSeconds = pick.finishTimeSeconds;
-    this.damage01 = clamp(pick.damage01, 0, 1);
+    this.lapTiming = parseLapTiming(pick.lapTiming);
+    const pursuerA = parsePursuerState(a.pursuer);
+    const pursuerB = parsePursuerState(b.pursuer);
+    this.pursuer = pursuerA && pursuerB ? { ...(t >= 0.5 ? pursuerB : pursuerA), sM: lerp(pursuerA.sM, pursuerB.sM) } : t >= 0.5 ? pursuerB : pursuerA;
+    this.damage = this.damageFromSnapshot(pick.damage, pick.damage01);
+    this.carHeightM = lerp(a.carHeightM ?? 0, b.carHeightM ?? 0);
     this.enemyKillCount = pick.enemyKillCount;
     this.cameraMode = pick.cameraMode;
     this.cameraRotationRad = lerpAngle(a.cameraRotationRad, b.cameraRotationRad);
@@ -1502,7 +1766,8 @@ export class Game {
 
     // Restore initial deterministic state.
     this.controlsLocked = false;
-    this.damage01 = 0;
+    this.damage = createDamageState();
+    this.tireWear = createTireWearState(ambientTempForTheme(this.currentStageThemeKind));
     this.wreckedTimeSeconds = null;
     this.raceFinished = false;
     this.raceActive = true;
@@ -1510,12 +1775,17 @@ export class Game {
     this.finishTimeSeconds = null;
     this.state.timeSeconds = inputs.startTimeSeconds;
     this.state.car = { ...inputs.startCar };
-    this.engineState = { ...inputs.startEngine };
+    // Replays recorded before the clutch existed lack its state.
+    this.engineState = { ...createEngineState(this.engineParams), ...inputs.startEngine };
+    this.resetVertical();
+    this.assistState = createAssistState();
     this.gear = inputs.startGear;
 
     // Match the in-race state at the moment we started recording.
     this.nextCheckpointIndex = 1;
     this.insideActiveGate = true;
+    this.lapTiming = this.track.closed ? createLapTiming(this.lapsTotal(), inputs.startTimeSeconds) : null;
+    this.pursuer = this.pursuerPlan ? createPursuerState(this.pursuerPlan, this.checkpointSM[0]) : null;
 
     this.replayInputPlayback = {
       rec,
@@ -1610,10 +1880,51 @@ export class Game {
     this.netStatusLines = lines;
   }
 
+  public setVehicle(def: VehicleDefinition): void {
+    this.vehicle = def;
+    this.carParams = { ...def.car };
+    this.engineParams = { ...def.engine };
+    this.engineState = createEngineState(this.engineParams);
+    this.engineAudio.setParams(def.audio);
+    // The tuning sliders are applied every step, so they have to start from the new car.
+    this.tuning?.loadCarParams(this.carParams);
+  }
+
+  public getVehicle(): VehicleDefinition {
+    return this.vehicle;
+  }
+
+  public getSerializedVehicleDef(): string {
+    return serializeVehicleDefinition(this.vehicle);
+  }
+
+  public loadSerializedVehicleDef(json: string): boolean {
+    const def = parseVehicleDefinition(json);
+    if (!def) return false;
+    this.setVehicle(def);
+    return true;
+  }
+
   public getSerializedTrackDef(): string {
     return serializeTrackDefinition(this.trackDef);
   }
 
+  /**
+   * Code for a `?track=` link to the current track. It is marked as an editor track so the widths
+   * arrive exactly as driven here rather than being varied again from the seed.
+   */
+  public getTrackShareCode(): string {
+    return trackShareCode({ ...this.trackDef, meta: { ...(this.trackDef.meta ?? {}), source: "editor" } });
+  }
+
+  public loadTrackShareCode(code: string): boolean {
+    const def = trackFromShareCode(code);
+    if (!def) return false;
+    this.setTrack({ ...def, meta: { ...(def.meta ?? {}), source: "editor" } });
+    this.reset();
+    return true;
+  }
+
   public loadSerializedTrackDef(json: string): boolean {
     const def = parseTrackDefinition(json);
     if (!def) return false;
@@ -1644,7 +1955,11 @@ export class Game {
     raceStartTimeSeconds?: number;
     raceFinished?: boolean;
     finishTimeSeconds?: number | null;
+    lapTiming?: LapTiming | null;
+    pursuer?: PursuerState | null;
     damage01?: number;
+    damage?: DamageState;
+    carHeightM?: number;
     enemyKillCount?: number;
     cameraMode?: "follow" | "runner";
     cameraRotationRad?: number;
@@ -1726,9 +2041,12 @@ export class Game {
       }
     }
     if (snapshot.finishTimeSeconds !== undefined) this.finishTimeSeconds = snapshot.finishTimeSeconds;
+    if (snapshot.lapTiming !== undefined) this.lapTiming = parseLapTiming(snapshot.lapTiming);
+    if (snapshot.pursuer !== undefined) this.pursuer = parsePursuerState(snapshot.pursuer);
+    if (typeof snapshot.carHeightM === "number") this.carHeightM = snapshot.carHeightM;
     if (typeof snapshot.damage01 === "number") {
-      this.damage01 = clamp(snapshot.damage01, 0, 1);
-      if (this.damage01 >= 1) {
+      this.damage = this.damageFromSnapshot(snapshot.damage, snapshot.damage01);
+      if (isWrecked(this.damage)) {
         if (this.wreckedTimeSeconds === null) this.wreckedTimeSeconds = this.state.timeSeconds;
         if (!this.backendWreckedSent) {
           this.backendWreckedSent = true;
@@ -1776,7 +2094,7 @@ export class Game {
   }
 
   public setTouchShootHeld(held: boolean): void {
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return;
     if (this.role !== PlayerRole.NAVIGATOR) return;
     this.shootHeld = held;
     if (held && !this.audioUnlocked) {
@@ -1785,7 +2103,7 @@ export class Game {
   }
 
   public touchShootPulse(): void {
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return;
     if (this.role !== PlayerRole.NAVIGATOR) return;
     if (!this.audioUnlocked) {
       this.tryUnlockAudio();
@@ -1810,7 +2128,7 @@ export class Game {
 
   public getNavigatorShootHeld(): boolean {
     // Touch uses shootHeld; keyboard uses lastInputState.shoot (KeyL).
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return false;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return false;
     return (this.role === PlayerRole.NAVIGATOR) && (this.shootHeld || !!this.lastInputState.shoot);
   }
 
@@ -1862,17 +2180,27 @@ export class Game {
   }
 
   private toggleEditorMode(): void {
+    if (this.editorDragging()) this.rateStage();
     this.editorMode = !this.editorMode;
     this.editorDragIndex = null;
+    this.editorWidthDragIndex = null;
     this.editorHoverIndex = null;
     this.editorPointerId = null;
+    this.editorPaintFromSM = null;
 
     // Editing and procedural generation go well together; pause driving feel by resetting timer state.
     if (this.editorMode) {
       this.raceActive = false;
+      this.editorHistory.clear();
+      this.editorIssues = validateTrackShape(this.trackDef.points);
     }
   }
 
+  // Whether a point or a width handle is being dragged.
+  private editorDragging(): boolean {
+    return this.editorPointerId !== null && (this.editorDragIndex !== null || this.editorWidthDragIndex !== null);
+  }
+
   private editorWorldPointFromEvent(e: PointerEvent): { x: number; y: number } {
     const rect = this.canvas.getBoundingClientRect();
     const xCss = e.clientX - rect.left;
@@ -1897,10 +2225,126 @@ export class Game {
     return bestI;
   }
 
+  // Point `index`'s width handle sits on the left edge of the road; (nx, ny) points out from the centerline.
+  private editorWidthHandle(index: number): { x: number; y: number; nx: number; ny: number } {
+    const points = this.trackDef.points;
+    const i = Math.max(0, Math.min(index, points.length - 2));
+    const a = points[i];
+    const b = points[i + 1] ?? a;
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = -(b.y - a.y) / len;
+    const ny = (b.x - a.x) / len;
+    const halfM = trackPointWidthM(this.trackDef, index) * 0.5;
+    const p = points[index];
+    return { x: p.x + nx * halfM, y: p.y + ny * halfM, nx, ny };
+  }
+
+  private nearestEditorWidthHandle(p: { x: number; y: number }, maxDistM: number): number | null {
+    let bestI: number | null = null;
+    let bestD = maxDistM;
+    for (let i = 0; i < this.trackDef.points.length; i++) {
+      const h = this.editorWidthHandle(i);
+      const d = Math.hypot(h.x - p.x, h.y - p.y);
+      if (d <= bestD) {
+        bestD = d;
+        bestI = i;
+      }
+    }
+    return bestI;
+  }
+
   private applyEditorDef(next: TrackDefinition): void {
-    // Keep the editor track identifiable.
-    next.meta = { ...(next.meta ?? {}), name: next.meta?.name ?? "Custom", source: "editor" };
-    this.setTrack(next);
+    // Keep the editor track identifiable; an imported road stays one while it is touched up.
+    // Snapshots in the undo history are shared, so copy rather than mutate.
+    const source = next.meta?.source === "import" ? "import" : "editor";
+    this.setTrack({ ...next, meta: { ...(next.meta ?? {}), name: next.meta?.name ?? "Custom", source } });
+    this.editorIssues = validateTrackShape(this.trackDef.points);
+  }
+
+  // An edit the user can undo.
+  private commitEditorDef(next: TrackDefinition): void {
+    this.editorHistory.record(this.trackDef);
+    this.applyEditorDef(next);
+  }
+
+  // One step of a drag; the first step that changes anything records the undo entry for the whole drag.
+  private dragEditorDef(next: TrackDefinition): void {
+    if (!this.editorDragRecorded) {
+      this.editorHistory.record(this.trackDef);
+      this.editorDragRecorded = true;
+    }
+    this.applyEditorDef(next);
+  }
+
+  private undoEditorEdit(): void {
+    const prev = this.editorHistory.undo(this.trackDef);
+    if (prev) this.applyEditorDef(prev);
+  }
+
+  private redoEditorEdit(): void {
+    const next = this.editorHistory.redo(this.trackDef);
+    if (next) this.applyEditorDef(next);
+  }
+
+  // A copy of the editor track's elevations, or undefined when it has none (or they don't match).
+  private editorElevations(): number[] | undefined {
+    const elevationsM = this.trackDef.elevationsM;
+    return elevationsM && elevationsM.length === this.trackDef.points.length ? elevationsM.slice() : undefined;
+  }
+
+  private nudgeEditorElevation(deltaM: number): void {
+    const index = this.editorDragIndex ?? this.editorHoverIndex;
+    if (index === null) return;
+    const elevationsM = this.editorElevations() ?? this.trackDef.points.map(() => 0);
+    elevationsM[index] = clamp(elevationsM[index] + deltaM, -50, 50);
+    this.commitEditorDef({ ...this.trackDef, elevationsM });
+  }
+
+  private cycleEditorTool(): void {
+    const i = EDITOR_TOOLS.indexOf(this.editorTool);
+    this.editorTool = EDITOR_TOOLS[(i + 1) % EDITOR_TOOLS.length];
+    if (this.editorDragging()) this.rateStage();
+    this.editorDragIndex = null;
+    this.editorWidthDragIndex = null;
+    this.editorPaintFromSM = null;
+  }
+
+  private cycleEditorTheme(): void {
+    const i = STAGE_THEME_KINDS.indexOf(this.currentStageThemeKind);
+    const kind = STAGE_THEME_KINDS[(i + 1) % STAGE_THEME_KINDS.length];
+    this.commitEditorDef({ ...this.trackDef, meta: { ...(this.trackDef.meta ?? {}), theme: { kind } } });
+    this.showNotification(`THEME: ${resolveStageTheme({ kind }).name.toUpperCase()}`);
+  }
+
+  // Lay the current paint tool's zone over the road between two distances along it.
+  private paintEditorZone(fromSM: number, toSM: number): void {
+    const totalM = this.track.totalLengthM;
+    const tool = this.editorTool;
+    if (tool === "points" || !(totalM > 0)) return;
+    const span = { start01: Math.min(fromSM, toSM) / totalM, end01: Math.max(fromSM, toSM) / totalM };
+    if (span.end01 - span.start01 < 0.005) return;
+    const meta = this.trackDef.meta ?? {};
+    if (tool === "quiet") {
+      this.commitEditorDef({ ...this.trackDef, meta: { ...meta, quietZones: paintSpan(this.currentQuietZones, span) } });
+      return;
+    }
+    const zones = paintSpan(this.currentStageZones, { kind: tool, ...span, intensity01: this.editorZoneIntensity01 }, (z) => z.kind === tool);
+    this.commitEditorDef({ ...this.trackDef, meta: { ...meta, zones } });
+  }
+
+  private eraseEditorZoneAt(sM: number): void {
+    const totalM = this.track.totalLengthM;
+    const tool = this.editorTool;
+    if (tool === "points" || !(totalM > 0)) return;
+    const t01 = sM / totalM;
+    const meta = this.trackDef.meta ?? {};
+    if (tool === "quiet") {
+      const quietZones = eraseSpansAt(this.currentQuietZones, t01);
+      if (quietZones.length !== this.currentQuietZones.length) this.commitEditorDef({ ...this.trackDef, meta: { ...meta, quietZones } });
+      return;
+    }
+    const zones = eraseSpansAt(this.currentStageZones, t01, (z) => z.kind === tool);
+    if (zones.length !== this.currentStageZones.length) this.commitEditorDef({ ...this.trackDef, meta: { ...meta, zones } });
   }
 
   private onPointerDown = (e: PointerEvent): void => {
@@ -1908,41 +2352,56 @@ export class Game {
     e.preventDefault();
 
     const p = this.editorWorldPointFromEvent(e);
+
+    // Zone tools: drag along the road to paint, right click to erase.
+    if (this.editorTool !== "points") {
+      const sM = projectToTrack(this.track, p).sM;
+      if (e.button === 2) {
+        this.eraseEditorZoneAt(sM);
+        return;
+      }
+      this.editorPaintFromSM = sM;
+      this.editorPaintToSM = sM;
+      this.editorPointerId = e.pointerId;
+      this.canvas.setPointerCapture(e.pointerId);
+      return;
+    }
+
     const hit = this.nearestEditorPointIndex(p, 0.9);
 
     // Right click deletes.
     if (e.button === 2) {
       if (hit === null) return;
       if (this.trackDef.points.length <= 6) return; // keep a minimally sane loop
-
-      const points = this.trackDef.points.slice();
-      points.splice(hit, 1);
-
-      let segmentWidthsM = this.trackDef.segmentWidthsM ? this.trackDef.segmentWidthsM.slice() : undefined;
-      if (segmentWidthsM && segmentWidthsM.length === this.trackDef.points.length) {
-        segmentWidthsM.splice(hit, 1);
-      }
-
-      this.applyEditorDef({ ...this.trackDef, points, segmentWidthsM });
+      this.commitEditorDef(deleteTrackPoint(this.trackDef, hit));
       return;
     }
 
-    // Left click selects/drags or adds.
+    // Left click selects/drags a point or a width handle, splits the road, or adds.
     if (hit !== null) {
+      this.editorDragRecorded = false;
       this.editorDragIndex = hit;
       this.editorPointerId = e.pointerId;
       this.canvas.setPointerCapture(e.pointerId);
       return;
     }
 
-    const points = this.trackDef.points.concat([{ x: p.x, y: p.y }]);
-    const baseWidthM = this.trackDef.baseWidthM;
-    const segmentWidthsM = this.trackDef.segmentWidthsM
-      ? this.trackDef.segmentWidthsM.concat([this.trackDef.segmentWidthsM[this.trackDef.segmentWidthsM.length - 1] ?? baseWidthM])
-      : undefined;
+    const handle = this.nearestEditorWidthHandle(p, 0.9);
+    if (handle !== null) {
+      this.editorDragRecorded = false;
+      this.editorWidthDragIndex = handle;
+      this.editorPointerId = e.pointerId;
+      this.canvas.setPointerCapture(e.pointerId);
+      return;
+    }
 
-    this.applyEditorDef({ ...this.trackDef, points, segmentWidthsM });
-    this.editorDragIndex = points.length - 1;
+    const proj = projectToTrack(this.track, p);
+    const onRoad = proj.branchIndex === undefined && proj.distanceToCenterlineM <= proj.widthM * 0.5;
+    const next = onRoad ? insertTrackPoint(this.trackDef, proj.segmentIndex, p) : appendTrackPoint(this.trackDef, p);
+    // The new point and dragging it into place undo as one edit.
+    this.commitEditorDef(next);
+    this.editorDragRecorded = true;
+    this.editorDragIndex = onRoad ? proj.segmentIndex + 1 : next.points.length - (next.closed ? 2 : 1);
     this.editorPointerId = e.pointerId;
     this.canvas.setPointerCapture(e.pointerId);
   };
@@ -1951,11 +2410,25 @@ export class Game {
     if (!this.editorMode) return;
     const p = this.editorWorldPointFromEvent(e);
 
-    if (this.editorDragIndex !== null && this.editorPointerId === e.pointerId) {
-      const points = this.trackDef.points.slice();
-      points[this.editorDragIndex] = { x: p.x, y: p.y };
-      this.applyEditorDef({ ...this.trackDef, points });
-      return;
+    if (this.editorPointerId === e.pointerId) {
+      if (this.editorDragIndex !== null) {
+        const q = this.trackDef.points[this.editorDragIndex];
+        if (q.x !== p.x || q.y !== p.y) this.dragEditorDef(moveTrackPoint(this.trackDef, this.editorDragIndex, p));
+        return;
+      }
+      if (this.editorWidthDragIndex !== null) {
+        const i = this.editorWidthDragIndex;
+        const h = this.editorWidthHandle(i);
+        const q = this.trackDef.points[i];
+        const widthM = 2 * Math.max(0, (p.x - q.x) * h.nx + (p.y - q.y) * h.ny);
+        const next = setTrackPointWidth(this.trackDef, i, widthM);
+        if (trackPointWidthM(next, i) !== trackPointWidthM(this.trackDef, i)) this.dragEditorDef(next);
+        return;
+      }
+      if (this.editorPaintFromSM !== null) {
+        this.editorPaintToSM = projectToTrack(this.track, p).sM;
+        return;
+      }
     }
 
     this.editorHoverIndex = this.nearestEditorPointIndex(p, 0.9);
@@ -1964,8 +2437,12 @@ export class Game {
   private onPointerUp = (e: PointerEvent): void => {
     if (!this.editorMode) return;
     if (this.editorPointerId !== e.pointerId) return;
+    if (this.editorPaintFromSM !== null) this.paintEditorZone(this.editorPaintFromSM, this.editorPaintToSM);
+    if (this.editorDragging()) this.rateStage();
     this.editorPointerId = null;
     this.editorDragIndex = null;
+    this.editorWidthDragIndex = null;
+    this.editorPaintFromSM = null;
     try {
       this.canvas.releasePointerCapture(e.pointerId);
     } catch {
@@ -1974,22 +2451,111 @@ export class Game {
   };
 
   private saveEditorTrack(): void {
-    const json = serializeTrackDefinition({
+    const saved = listTrackSlots(localStorage);
+    const name = window.prompt(`Save track as${saved.length > 0 ? ` (saved: ${saved.join(", ")})` : ""}`, this.editorSlotName)?.trim();
+    if (!name) return;
+    saveTrackSlot(localStorage, name, {
       ...this.trackDef,
-      meta: { ...(this.trackDef.meta ?? {}), name: "Custom", source: "editor" }
+      meta: { ...(this.trackDef.meta ?? {}), name, source: "editor" }
     });
-    localStorage.setItem("spaceRally.trackDef", json);
+    this.editorSlotName = name;
+    const issues = this.editorIssues.length;
+    this.showNotification(issues > 0 ? `SAVED "${name}" - ${issues} SHAPE ISSUE${issues === 1 ? "" : "S"}` : `SAVED "${name}"`);
   }
 
   private loadEditorTrack(): void {
-    const json = localStorage.getItem("spaceRally.trackDef");
-    if (!json) return;
-    const def = parseTrackDefinition(json);
-    if (!def) return;
-    this.setTrack({ ...def, meta: { ...(def.meta ?? {}), name: def.meta?.name ?? "Custom", source: "editor" } });
+    const saved = listTrackSlots(localStorage);
+    if (saved.length === 0) {
+      this.showNotification("NO SAVED TRACKS");
+      return;
+    }
+    const suggested = saved.includes(this.editorSlotName) ? this.editorSlotName : saved[0];
+    const name = window.prompt(`Load track (${saved.join(", ")})`, suggested)?.trim();
+    if (!name) return;
+    const def = loadTrackSlot(localStorage, name);
+    if (!def) {
+      this.showNotification(`NO TRACK "${name}"`);
+      return;
+    }
+    this.editorSlotName = name;
+    this.editorHistory.clear();
+    this.applyEditorDef({ ...def, meta: { ...(def.meta ?? {}), name: def.meta?.name ?? name } });
     this.reset();
   }
 
+  // A real road from a GPX or GeoJSON file, picked with a file input.
+  private importEditorTrack(): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".gpx,.geojson,.json";
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text().then(
+        (text) => {
+          const result = importTrack(text, { fileName: file.name });
+          if (!result.ok) {
+            this.showNotification(`IMPORT FAILED - ${result.error.toUpperCase()}`);
+            return;
+          }
+          this.editorHistory.clear();
+          this.applyEditorDef(result.def);
+          this.reset();
+          this.showNotification(`IMPORTED "${result.def.meta?.name}" - ${(this.track.totalLengthM / 1000).toFixed(1)} KM`);
+        },
+        () => this.showNotification("IMPORT FAILED - COULD NOT READ FILE")
+      );
+    });
+    input.click();
+  }
+
+  private copyTrackShareLink(): void {
+    const url = new URL(window.location.href);
+    url.search = "";
+    url.searchParams.set("track", this.getTrackShareCode());
+    const link = url.toString();
+    if (!navigator.clipboard) {
+      window.prompt("Share link", link);
+      return;
+    }
+    navigator.clipboard.writeText(link).then(
+      () => this.showNotification("SHARE LINK COPIED"),
+      () => window.prompt("Share link", link)
+    );
+  }
+
+  private editorControlLines(): string[] {
+    const tool = this.editorTool;
+    const crossings = this.editorIssues.filter((i) => i.kind === "crossing").length;
+    const straights = this.editorIssues.length - crossings;
+    return [
+      `EDITOR MODE`,
+      ...(tool === "points"
+        ? [
+          `Left click/drag  move point`,
+          `Click on road    insert point`,
+          `Click elsewhere  add point`,
+          `Drag handle      set width`,
+          `Right click      delete point`,
+          `+ / -           raise / lower point`
+        ]
+        : [
+          `Drag along road  paint ${tool} zone`,
+          `Right click      erase ${tool} zone`
+        ]),
+      `P               tool: ${tool}`,
+      `B               theme: ${this.currentStageThemeKind}`,
+      `Ctrl+Z / Ctrl+Y  undo / redo`,
+      `1 / 2           save / load "${this.editorSlotName}"`,
+      `3               copy share link`,
+      `4               import GPX / GeoJSON`,
+      `T               exit editor`,
+      ...(this.editorIssues.length > 0
+        ? [``, `! ${crossings} crossing(s), ${straights} long straight(s)`]
+        : [``, `Shape OK`])
+    ];
+  }
+
   private toggleCameraMode(): void {
     this.cameraMode = this.cameraMode === "follow" ? "runner" : "follow";
   }
@@ -2006,6 +2572,70 @@ export class Game {
     }
   }
 
+  // A branch laid with one surface overrides the stage's surface plan for its length.
+  private surfaceAt(proj: TrackProjection, offTrack: boolean): Surface {
+    const branch = proj.branchIndex !== undefined ? this.track.branches?.[proj.branchIndex] : undefined;
+    const wetness01 = wetnessAtTime(this.weather, this.weatherTimeS());
+    if (branch?.surface) return surfaceForRoad(branch.surface, offTrack, this.currentStageThemeKind, wetness01);
+    const trackSeed = this.trackDef.meta?.seed ?? 1;
+    return surfaceAlongTrack(this.track.surfaces, this.track.totalLengthM, proj.sM, offTrack, trackSeed, this.currentStageThemeKind, wetness01);
+  }
+
+  private resetVertical(): void {
+    const proj = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM });
+    this.vertical = createVerticalState(elevationAtProjection(this.track, proj).elevationM);
+    this.verticalLoadScale = 1;
+    this.carHeightM = 0;
+  }
+
+  // Follow the road's elevation profile: load changes over crests and dips, flight off jumps and the
+  // landing that ends it.
+  private stepVerticalMotion(projection: TrackProjection, dtSeconds: number): void {
+    const ground = elevationAtProjection(this.track, projection);
+    const trackHeading = Math.atan2(-projection.normal.x, projection.normal.y);
+    const cosH = Math.cos(this.state.car.headingRad);
+    const sinH = Math.sin(this.state.car.headingRad);
+    const vxW = this.state.car.vxMS * cosH - this.state.car.vyMS * sinH;
+    const vyW = this.state.car.vxMS * sinH + this.state.car.vyMS * cosH;
+    const alongMS = vxW * Math.cos(trackHeading) + vyW * Math.sin(trackHeading);
+
+    const result = stepVertical(
+      this.vertical,
+      { zM: ground.elevationM, vzMS: ground.grade * alongMS, accelMS2: ground.curvaturePerM * alongMS * alongMS },
+      dtSeconds
+    );
+    this.vertical = result.state;
+    this.verticalLoadScale = result.loadScale;
+    this.carHeightM = this.vertical.airborne ? Math.max(0, this.vertical.zM - ground.elevationM) : 0;
+
+    if (result.landingSpeedMS > this.landingDamageSpeedMS) {
+      const excessMS = result.landingSpeedMS - this.landingDamageSpeedMS;
+      this.damage = applyLandingDamage(this.damage, excessMS * 0.04);
+      const shake = Math.min(1, excessMS * 0.25);
+      this.cameraShakeX = (Math.random() - 0.5) * shake;
+      this.cameraShakeY = (Math.random() - 0.5) * shake;
+      this.showNotification("HARD LANDING");
+    }
+  }
+
+  // Stopped in a gas station's parking spot: the tank fills at the pump rate.
+  private stepRefuelling(speedMS: number, dtSeconds: number): void {
+    const parked =
+      speedMS < this.refuelMaxSpeedMS &&
+      [this.track.startCity, this.track.endCity].some(
+        (city) => city && storeParkingSpotAt(city, "Gas Station", this.state.car.xM, this.state.car.yM, this.refuelSpotRadiusM)
+      );
+    const full = this.engineState.fuelL >= this.engineParams.fuelTankL;
+    if (!parked || full) {
+      if (this.refuelling && full) this.showNotification("TANK FULL");
+      this.refuelling = false;
+      return;
+    }
+    if (!this.refuelling) this.showNotification("REFUELLING");
+    this.refuelling = true;
+    this.engineState = addFuel(this.engineState, this.engineParams, this.refuelRateLPerS * dtSeconds);
+  }
+
   private showNotification(text: string): void {
     this.notificationText = text;
     this.notificationTimeSeconds = this.state.timeSeconds;
@@ -2042,7 +2672,7 @@ export class Game {
     }
 
     this.proceduralSeed = seed;
-    const def = createPointToPointTrackDefinition(this.proceduralSeed);
+    const def = this.createRaceTrackDefinition(this.proceduralSeed);
     this.setTrack(def);
     this.reset();
   }
@@ -2059,7 +2689,11 @@ export class Game {
   public pickRandomStartStage(opts?: { minSeed?: number; maxSeed?: number }): number {
     // In multiplayer client mode, the host owns track selection.
     if (this.netMode === "client") return this.trackDef.meta?.seed ?? this.proceduralSeed;
+    return this.loadStartStage(this.randomStartStageSeed(opts));
+  }
 
+  // A random stage seed, avoiding the one played last.
+  public randomStartStageSeed(opts?: { minSeed?: number; maxSeed?: number }): number {
     const minSeed = Math.max(0, Math.floor(opts?.minSeed ?? 0));
     const maxSeed = Math.min(999, Math.max(minSeed, Math.floor(opts?.maxSeed ?? 999)));
 
@@ -2089,9 +2723,12 @@ export class Game {
     for (let i = 0; i < 10 && Number.isFinite(lastSeed) && seed === lastSeed; i++) {
       seed = randomIntInclusive(minSeed, maxSeed);
     }
+    return seed;
+  }
 
+  public loadStartStage(seed: number): number {
     this.proceduralSeed = seed;
-    const def = createPointToPointTrackDefinition(this.proceduralSeed);
+    const def = this.createRaceTrackDefinition(this.proceduralSeed);
     this.setTrack(def);
     this.reset();
     localStorage.setItem(this.startStageSeedStorageKey, String(seed));
@@ -2111,7 +2748,7 @@ export class Game {
     const isTouch = isTouchMode();
     if (isTouch) return;
 
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return;
 
     if (this.netMode === "client" && this.role === PlayerRole.NAVIGATOR) {
       // Client is authoritative for their own shooting
@@ -2142,7 +2779,7 @@ export class Game {
   private onShootPointerDown = (e: PointerEvent): void => {
     // Avoid interfering with editor interactions.
     if (this.editorMode) return;
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return;
     // Only shoot in shooter role.
     if (this.role !== PlayerRole.NAVIGATOR) return;
     // Only use pointerdown shooting for touch/pen to avoid double-firing with click on desktop mouse.
@@ -2380,7 +3017,7 @@ export class Game {
 
   private computeDesiredBulletTimeActive(): boolean {
     if (this.editorMode) return false;
-    if (this.controlsLocked || this.raceFinished || this.damage01 >= 1) return false;
+    if (this.controlsLocked || this.raceFinished || isWrecked(this.damage)) return false;
     if (this.bulletTimeRemainingS <= 1e-6) return false;
 
     // In client mode, host is authoritative; we follow the host's active flag.
@@ -2471,7 +3108,11 @@ export class Game {
     raceStartTimeSeconds: number;
     raceFinished: boolean;
     finishTimeSeconds: number | null;
+    lapTiming: LapTiming | null;
+    pursuer: PursuerState | null;
     damage01: number;
+    damage: DamageState;
+    carHeightM: number;
     enemyKillCount: number;
     cameraMode: "follow" | "runner";
     cameraRotationRad: number;
@@ -2522,7 +3163,11 @@ export class Game {
       raceStartTimeSeconds: this.raceStartTimeSeconds,
       raceFinished: this.raceFinished,
       finishTimeSeconds: this.finishTimeSeconds,
-      damage01: this.damage01,
+      lapTiming: this.lapTiming,
+      pursuer: this.pursuer && { ...this.pursuer },
+      damage01: this.damage.body01,
+      damage: { ...this.damage },
+      carHeightM: this.carHeightM,
       enemyKillCount: this.enemyKillCount,
       cameraMode: this.cameraMode,
       cameraRotationRad: this.cameraRotationRad,
@@ -2709,6 +3354,18 @@ export class Game {
     this.mouseWorldY = worldPos.y;
   }
 
+  // Rate the current stage, and size the pursuer by the rating.
+  private rateStage(): void {
+    if (!this.stageRatingDef) return;
+    this.stageAnalysis = analyzeStage(this.stageRatingDef);
+    const seed = this.stageRatingDef.meta?.seed;
+    const spawnEnemies = !(this.netMode === "solo" && this.soloMode === "practice");
+    // Nothing chases practice runs, and a circuit has no "behind".
+    this.pursuerPlan = spawnEnemies && !this.track.closed && typeof seed === "number" && Number.isFinite(seed)
+      ? pursuerFromSeed(seed, this.currentStageThemeKind, this.stageAnalysis.difficulty)
+      : null;
+  }
+
   private setTrack(def: TrackDefinition): void {
     this.resetFinishPanel();
 
@@ -2732,12 +3389,17 @@ export class Game {
       def = { ...def, meta: { ...meta, theme, zones } };
     }
 
+    // Rated before the widths vary below, the same way the menu and the server rate it.
+    this.stageRatingDef = def;
+
     const themeRef = def.meta?.theme ?? { kind: "temperate" as const };
     this.currentStageThemeKind = themeRef.kind;
     this.currentStageZones = def.meta?.zones ?? [];
+    // Seeded stages get their weather from the seed; authored tracks keep to their painted zones.
+    this.weather = typeof seed === "number" && Number.isFinite(seed) ? weatherFromSeed(seed, themeRef.kind) : CLEAR_WEATHER;
 
     const trackSeed = def.meta?.seed ?? 1;
-    this.currentQuietZones = quietZonesFromSeed(trackSeed);
+    this.currentQuietZones = def.meta?.quietZones ?? quietZonesFromSeed(trackSeed);
     this.trackSegmentFillStyles = [];
     this.trackSegmentShoulderStyles = [];
     this.trackSegmentSurfaceNames = [];
@@ -2758,60 +3420,82 @@ export class Game {
     const clamp01 = (v: number): number => Math.max(0, Math.min(1, v));
     const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
 
-    const computedWidths: number[] = new Array(initialTrack.points.length);
-    for (let i = 0; i < initialTrack.points.length; i++) {
-      const midSM = initialTrack.cumulativeLengthsM[i] + initialTrack.segmentLengthsM[i] * 0.5;
-      const surface = surfaceForTrackSM(initialTrack.totalLengthM, midSM, false, trackSeed, themeRef.kind);
-
-      const baseW = (def.segmentWidthsM && def.segmentWidthsM.length === initialTrack.points.length)
-        ? (def.segmentWidthsM[i] ?? def.baseWidthM)
-        : def.baseWidthM;
-
-      // Deterministic per-segment variability.
-      const r = widthRand01(i);
-      let minMult = 0.70;
-      let maxMult = 1.10;
-      if (surface.name === "tarmac") {
-        minMult = 0.75;
-        maxMult = 1.08;
-      } else if (surface.name === "gravel" || surface.name === "sand") {
-        // Gravel/sand routes: can be very tight squeezes or moderately wide sections.
-        minMult = 0.30;
-        maxMult = 1.40;
-      } else if (surface.name === "ice") {
-        minMult = 0.50;
-        maxMult = 1.25;
-      }
+    const varyWidths = (): number[] => {
+      const computedWidths: number[] = new Array(initialTrack.points.length);
+      for (let i = 0; i < initialTrack.points.length; i++) {
+        const midSM = initialTrack.cumulativeLengthsM[i] + initialTrack.segmentLengthsM[i] * 0.5;
+        const surface = surfaceAlongTrack(initialTrack.surfaces, initialTrack.totalLengthM, midSM, false, trackSeed, themeRef.kind);
+
+        const baseW = (def.segmentWidthsM && def.segmentWidthsM.length === initialTrack.points.length)
+          ? (def.segmentWidthsM[i] ?? def.baseWidthM)
+          : def.baseWidthM;
+
+        // Deterministic per-segment variability.
+        const r = widthRand01(i);
+        let minMult = 0.70;
+        let maxMult = 1.10;
+        if (surface.name === "tarmac") {
+          minMult = 0.75;
+          maxMult = 1.08;
+        } else if (isLooseSurface(surface.name)) {
+          // Gravel/sand routes: can be very tight squeezes or moderately wide sections.
+          minMult = 0.30;
+          maxMult = 1.40;
+        } else if (surface.name === "ice") {
+          minMult = 0.50;
+          maxMult = 1.25;
+        }
 
-      // Bias toward the center for tarmac, but allow extremes for gravel.
-      const shaped = surface.name === "tarmac" ? (0.5 + (r - 0.5) * 0.55) : r;
-      const mult = lerp(minMult, maxMult, clamp01(shaped));
-      computedWidths[i] = baseW * mult;
-    }
+        // Bias toward the center for tarmac, but allow extremes for gravel.
+        const shaped = surface.name === "tarmac" ? (0.5 + (r - 0.5) * 0.55) : r;
+        const mult = lerp(minMult, maxMult, clamp01(shaped));
+        computedWidths[i] = baseW * mult;
+      }
 
-    // Smooth once to avoid sharp width discontinuities.
-    for (let pass = 0; pass < 1; pass++) {
-      for (let i = 0; i < computedWidths.length; i++) {
-        const a = computedWidths[(i - 1 + computedWidths.length) % computedWidths.length];
-        const b = computedWidths[i];
-        const c = computedWidths[(i + 1) % computedWidths.length];
-        computedWidths[i] = (a + b * 2 + c) / 4;
+      // Smooth once to avoid sharp width discontinuities.
+      for (let pass = 0; pass < 1; pass++) {
+        for (let i = 0; i < computedWidths.length; i++) {
+          const a = computedWidths[(i - 1 + computedWidths.length) % computedWidths.length];
+          const b = computedWidths[i];
+          const c = computedWidths[(i + 1) % computedWidths.length];
+          computedWidths[i] = (a + b * 2 + c) / 4;
+        }
       }
-    }
+      return computedWidths;
+    };
+    // Editor and imported tracks keep the widths they were given; varying them again on every edit would compound.
+    const authoredWidths =
+      (def.meta?.source === "editor" || def.meta?.source === "import") && def.segmentWidthsM && def.segmentWidthsM.length === initialTrack.points.length
+        ? def.segmentWidthsM
+        : null;
 
     // Rebuild track with the computed widths so projection/collisions match visuals.
-    def = { ...def, segmentWidthsM: computedWidths };
+    def = { ...def, segmentWidthsM: authoredWidths ?? varyWidths() };
     this.trackDef = def;
     this.track = createTrackFromDefinition(def);
+    this.puddles = findPuddles(this.track);
 
     for (let i = 0; i < this.track.points.length; i++) {
       const midSM = this.track.cumulativeLengthsM[i] + this.track.segmentLengthsM[i] * 0.5;
-      const surface = surfaceForTrackSM(this.track.totalLengthM, midSM, false, trackSeed, themeRef.kind);
+      const surface = surfaceAlongTrack(this.track.surfaces, this.track.totalLengthM, midSM, false, trackSeed, themeRef.kind);
       this.trackSegmentFillStyles.push(surfaceFillStyle(surface));
       // Track type flavor: a solid, stable underlay beneath the road.
       this.trackSegmentShoulderStyles.push(theme.offtrackBgColor);
       this.trackSegmentSurfaceNames.push(surface.name);
     }
+    this.branchSegmentStyles = (this.track.branches ?? []).map((branch) => {
+      const styles = { fill: [] as string[], shoulder: [] as string[], surfaceNames: [] as Surface["name"][] };
+      for (let i = 0; i < branch.route.points.length; i++) {
+        const midSM = branch.route.cumulativeLengthsM[i] + branch.route.segmentLengthsM[i] * 0.5;
+        const surface = branch.surface
+          ? surfaceForRoad(branch.surface, false, themeRef.kind)
+          : surfaceAlongTrack(this.track.surfaces, this.track.totalLengthM, branchToMainSM(branch, midSM), false, trackSeed, themeRef.kind);
+        styles.fill.push(surfaceFillStyle(surface));
+        styles.shoulder.push(theme.offtrackBgColor);
+        styles.surfaceNames.push(surface.name);
+      }
+      return styles;
+    });
 
     // Track layout: 0-50m city, 50m START, route, end-50m FINISH, last 50m city
     const cityLength = 50;
@@ -2819,17 +3503,24 @@ export class Game {
     const finishLinePos = this.track.totalLengthM - cityLength; // Entrance to ending city
     const raceDistance = finishLinePos - startLinePos;
 
-    this.checkpointSM = [
-      startLinePos, // START LINE at exit of starting city
-      startLinePos + raceDistance * 0.33,
-      startLinePos + raceDistance * 0.66,
-      finishLinePos // FINISH LINE at entrance to ending city
-    ];
+    this.checkpointSM = this.track.closed
+      ? circuitCheckpointsSM(this.track.totalLengthM, startLinePos) // one line is the start and, after the last lap, the finish
+      : [
+          startLinePos, // START LINE at exit of starting city
+          startLinePos + raceDistance * 0.33,
+          startLinePos + raceDistance * 0.66,
+          finishLinePos // FINISH LINE at entrance to ending city
+        ];
+    this.lapRecordS = this.loadLapRecord();
 
     const treeSeed = Math.floor(def.meta?.seed ?? 20260123);
     this.trees = generateTrees(this.track, { seed: treeSeed, themeKind: themeRef.kind });
     this.trees.push(...generateEdgeRocks(this.track, { seed: treeSeed + 4242, themeKind: themeRef.kind, trackSeed }));
     this.waterBodies = generateWaterBodies(this.track, { seed: treeSeed + 777, quietZones: this.currentQuietZones });
+    this.rivers = generateRivers(this.track, { seed: treeSeed + 2929, themeKind: themeRef.kind, quietZones: this.currentQuietZones });
+    // Nothing grows midstream.
+    this.trees = this.trees.filter((t) => !this.rivers.some((r) => riverDepthAt(r, t) > 0));
+    this.pacenotes = null;
     const spawnEnemies = !(this.netMode === "solo" && this.soloMode === "practice");
     if (spawnEnemies) {
       const enemies = generateEnemies(this.track, { seed: treeSeed + 1337, quietZones: this.currentQuietZones });
@@ -2837,6 +3528,9 @@ export class Game {
     } else {
       this.enemyPool.clear();
     }
+    // Rating walks the whole stage, too slow for every step of an editor drag.
+    if (!this.editorDragging()) this.rateStage();
+    this.pursuer = null;
 
     // If we're the host, broadcast track changes so clients refresh immediately (minimap, hazards, etc).
     if (this.netMode === "host" && this.netBroadcastTrackDef) {
@@ -2854,6 +3548,7 @@ export class Game {
     this.raceStartTimeSeconds = this.state.timeSeconds;
     this.raceFinished = false;
     this.finishTimeSeconds = null;
+    this.lapTiming = null;
     this.nextCheckpointIndex = 0;
     this.insideActiveGate = false;
   }
@@ -2867,6 +3562,7 @@ export class Game {
       this.slideAudio.start();
       this.effectsAudio.start();
       this.rainAudio.start();
+      this.stormAudio.start();
     }
   }
 
@@ -2956,7 +3652,7 @@ export class Game {
 
     this.applyTuning();
 
-    const inputsEnabled = this.damage01 < 1 && !this.controlsLocked;
+    const inputsEnabled = !isWrecked(this.damage) && !this.controlsLocked;
     const rawInput = this.lastInputState;
 
     // Split input by role - although keyboard allows both for solo testing, 
@@ -3022,12 +3718,12 @@ export class Game {
     const projectionBefore = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM });
     const roadHalfWidthM = projectionBefore.widthM * 0.5;
     const offTrack = projectionBefore.distanceToCenterlineM > roadHalfWidthM;
-    const trackSeed = this.trackDef.meta?.seed ?? 1;
     const activeZones = this.currentStageZones.length
       ? zonesAtTrackDistance(this.track.totalLengthM, projectionBefore.sM, this.currentStageZones)
       : [];
 
     const rainIntensity = zoneIntensityAtTrackDistance(this.track.totalLengthM, projectionBefore.sM, this.currentStageZones, "rain", { rampM: 35 });
+    this.currentWind = windAtTrackDistance(this.track.totalLengthM, projectionBefore.sM, this.currentStageZones, this.state.timeSeconds);
     const sandIntensity = activeZones
       .filter((z) => z.kind === "sandstorm")
       .reduce((m, z) => Math.max(m, z.intensity01), 0);
@@ -3039,59 +3735,144 @@ export class Game {
     const zoneGripMult = clamp(rainGripMult * sandGripMult, 0.62, 1.0);
     const zoneRRMult = clamp(1 + 0.22 * sandIntensity, 1.0, 1.35);
 
-    const baseSurface = surfaceForTrackSM(
-      this.track.totalLengthM,
-      projectionBefore.sM,
-      offTrack,
-      trackSeed,
-      this.currentStageThemeKind
-    );
+    // Standing water in the dips: the tires skate on it and it drags at the car.
+    const puddleDepth = projectionBefore.branchIndex === undefined
+      ? puddleDepthAt(this.puddles, projectionBefore.sM, projectionBefore.lateralOffsetM, puddleFill01(wetnessAtTime(this.weather, this.weatherTimeS())))
+      : 0;
+
+    const baseSurface = this.surfaceAt(projectionBefore, offTrack);
     this.lastSurface = {
       ...baseSurface,
-      frictionMu: clamp(baseSurface.frictionMu * zoneGripMult, 0.18, 1.8),
-      rollingResistanceN: clamp(baseSurface.rollingResistanceN * zoneRRMult, 80, 2500)
+      frictionMu: clamp(baseSurface.frictionMu * zoneGripMult * (1 - 0.35 * puddleDepth), 0.18, 1.8),
+      rollingResistanceN: clamp(baseSurface.rollingResistanceN * zoneRRMult + 900 * puddleDepth, 80, 2500)
     };
 
+    // Launch control arms on the start line: standing still, brake (or handbrake) and throttle held.
+    const launchControl = this.tuning?.values.launchControl ?? false;
+    const launchArmed =
+      launchControl && !this.raceActive && this.gear === "F" && speedMSNow < 0.5 && throttle > 0.5 && Math.max(brake, handbrake) > 0.5;
+
+    // Assists sit between the pedals and the car: traction control trims the throttle the engine sees,
+    // ABS and stability control work the brakes wheel by wheel.
+    const assistSettings = this.assistSettings();
+    this.assistsUsed = maxAssistSettings(this.assistsUsed, assistSettings);
+    const assisted = applyAssists(
+      assistSettings,
+      this.assistState,
+      { throttle: Math.abs(throttle), brake, handbrake },
+      this.state.car,
+      this.carParams,
+      this.state.carTelemetry,
+      this.lastSurface.frictionMu,
+      dtSeconds
+    );
+    this.assistState = assisted.state;
+    this.assistActivity = assisted.active;
+
     // Step engine simulation BEFORE car simulation to use its output
+    const wasStalled = this.engineState.stalled;
+    const fuelBefore = this.engineState.fuelL;
     const engineResult = stepEngine(
       this.engineState,
-      this.engineParams,
+      damagedEngineParams(this.engineParams, this.damage),
       {
-        throttle: Math.abs(throttle),
-        speedMS: this.speedMS(),
-        manualTransmission: this.tuning?.values.manualTransmission ?? true
+        throttle: assisted.throttle,
+        // The engine is tied to the driven wheels, so wheelspin revs it up.
+        speedMS: (this.gear === "R" ? -1 : 1) * drivenWheelSpeedMS(this.state.car, this.carParams),
+        wheelRadiusM: this.carParams.wheelRadiusM,
+        wheelInertiaKgM2: drivenWheelInertiaKgM2(this.carParams),
+        manualTransmission: this.tuning?.values.manualTransmission ?? true,
+        clutchPedal: inputsEnabled && (isDriverLocal || isDriverRemote) ? driverInput.clutch ?? 0 : 0,
+        reverse: this.gear === "R",
+        launchControl: launchArmed,
+        antiLag: launchControl
       },
       dtSeconds
     );
     this.engineState = engineResult.state;
-
-    // Adjust effective throttle for car physics based on engine power band and gear torque
-    const effectiveThrottle = throttle * engineResult.powerMultiplier * engineResult.torqueScale;
+    if (this.engineState.stalled && !wasStalled) this.showNotification("STALLED - CLUTCH (SHIFT) TO RESTART");
+    if (this.engineState.fuelL <= 0 && fuelBefore > 0) this.showNotification("OUT OF FUEL");
+    this.stepRefuelling(speedMSNow, dtSeconds);
+    const coolantBefore = this.damage.coolant01;
+    this.damage = stepDamage(this.damage, rpmFraction(this.engineState, this.engineParams), dtSeconds);
+    if (coolantBefore > 0 && this.damage.coolant01 <= 0) this.showNotification("RADIATOR EMPTY - ENGINE OVERHEATING");
+
+    // Engine torque through the gearbox; the car's differentials split it between the wheels.
+    // The Acceleration slider still tunes engineForceN, so it scales torque against the stock value.
+    const powerScale = this.carParams.engineForceN / Math.max(1, this.vehicle.car.engineForceN);
+    const driveTorqueNm =
+      drivelineTorqueNm(this.engineParams, this.engineState, engineResult.clutchTorqueNm, this.gear === "R") * powerScale;
 
     const bulletScale = this.getBulletTimeScale();
     const steerRateScale =
       this.bulletTimeActive && bulletScale > 1e-6 ? this.bulletTimeSteerAdvantage / bulletScale : 1.0;
     const brakeForceScale =
       this.bulletTimeActive && bulletScale > 1e-6 ? this.bulletTimeBrakeAdvantage / bulletScale : 1.0;
+    const wornParams = tireWearCarParams(damagedCarParams(this.carParams, this.damage), this.tireWear);
+    // The fuel on board is part of the car's weight, and of its resistance to turning: the yaw inertia
+    // scales with the mass, as if the fuel were spread like the rest of the car.
+    const fueledMassKg = wornParams.massKg + fuelMassKg(this.engineState);
+    const damagedParams = {
+      ...wornParams,
+      massKg: fueledMassKg,
+      inertiaYawKgM2: wornParams.inertiaYawKgM2 * (fueledMassKg / wornParams.massKg)
+    };
     const carParamsForStep =
       steerRateScale !== 1.0 || brakeForceScale !== 1.0
         ? {
-            ...this.carParams,
-            maxSteerRateRadS: this.carParams.maxSteerRateRadS * steerRateScale,
-            brakeForceN: this.carParams.brakeForceN * brakeForceScale,
-            handbrakeForceN: this.carParams.handbrakeForceN * brakeForceScale
+            ...damagedParams,
+            maxSteerRateRadS: damagedParams.maxSteerRateRadS * steerRateScale,
+            brakeForceN: damagedParams.brakeForceN * brakeForceScale,
+            handbrakeForceN: damagedParams.handbrakeForceN * brakeForceScale
           }
-        : this.carParams;
+        : damagedParams;
+
+    // Gravity pulls down the road's slope, but only while the wheels are on it.
+    const trackHeadingBefore = Math.atan2(-projectionBefore.normal.x, projectionBefore.normal.y);
+    const gradeAccel = this.vertical.airborne
+      ? { x: 0, y: 0 }
+      : gradeAccelBodyMS2(
+          elevationAtProjection(this.track, projectionBefore).grade,
+          this.state.car.headingRad - trackHeadingBefore
+        );
 
     const stepped = stepCar(
       this.state.car,
       carParamsForStep,
-      { steer, throttle: effectiveThrottle, brake, handbrake },
+      {
+        steer,
+        throttle,
+        brake,
+        handbrake,
+        driveTorqueNm,
+        drivelineInertiaKgM2: engineResult.reflectedInertiaKgM2,
+        brakeScale: assisted.brakeScale,
+        extraBrakeN: assisted.extraBrakeN
+      },
       dtSeconds,
-      { frictionMu: this.lastSurface.frictionMu, rollingResistanceN: this.lastSurface.rollingResistanceN }
+      {
+        frictionMu: this.lastSurface.frictionMu,
+        rollingResistanceN: this.lastSurface.rollingResistanceN * damageRollingResistanceScale(this.damage),
+        tire: this.lastSurface.tire,
+        gripScaleFront: tireGripScale(this.tireWear.front) * damageGripScale(this.damage, "front"),
+        gripScaleRear: tireGripScale(this.tireWear.rear) * damageGripScale(this.damage, "rear"),
+        loadScale: this.verticalLoadScale,
+        gradeAccelXMS2: gradeAccel.x,
+        gradeAccelYMS2: gradeAccel.y,
+        windXMS: this.currentWind?.xMS,
+        windYMS: this.currentWind?.yMS
+      }
     );
     this.state.car = stepped.state;
     this.state.carTelemetry = stepped.telemetry;
+    this.tireWear = stepTireWear(
+      this.tireWear,
+      stepped.telemetry,
+      this.speedMS(),
+      this.lastSurface.name,
+      ambientTempForTheme(this.currentStageThemeKind),
+      dtSeconds
+    );
     this.driftInfo = this.driftDetector.detect(stepped.telemetry, this.speedMS(), this.state.timeSeconds);
 
     // Track total distance driven
@@ -3124,7 +3905,7 @@ export class Game {
 
     // Hard braking can kick up gravel/sand even without a big yaw slip.
     const surfaceName = this.lastSurface.name;
-    const surfaceIsLoose = surfaceName === "gravel" || surfaceName === "sand" || surfaceName === "offtrack";
+    const surfaceIsLoose = isLooseSurface(surfaceName) || surfaceName === "offtrack";
     const brakeSurfaceScale = surfaceIsLoose ? 1.0 : 0.35;
     const brakeIntensity = clamp(brake * clamp(speedMS / 18, 0, 1) * brakeSurfaceScale * clamp(1.35 - surfaceFriction, 0, 1), 0, 1);
 
@@ -3191,7 +3972,7 @@ export class Game {
       }
     }
 
-    this.particlePool.update(dtSeconds);
+    this.particlePool.update(dtSeconds, this.windVector());
     this.projectilePool.update(dtSeconds);
     this.enemyPool.update(dtSeconds, this.track);
     this.emitColossusFire(dtSeconds);
@@ -3219,11 +4000,12 @@ export class Game {
       this.cameraRotationRad = 0;
     }
 
-    const projectionAfter = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM });
+    const projectionAfter = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM }, projectionBefore);
     this.resolveHardBoundary(projectionAfter);
 
-    const projectionFinal = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM });
+    const projectionFinal = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM }, projectionAfter);
     this.updateCheckpointsAndRace(projectionFinal);
+    this.stepVerticalMotion(projectionFinal, dtSeconds);
 
     this.updateDebrisWarnings(projectionFinal);
 
@@ -3231,9 +4013,11 @@ export class Game {
     this.updateDebris(dtSeconds);
     this.resolveDebrisCollisions();
     this.resolveBuildingCollisions();
+    this.resolveRailingCollisions();
     this.resolveEnemyCollisions();
-    this.checkWaterHazards(dtSeconds);
-    if (this.damage01 >= 1) {
+    this.checkWaterHazards(projectionFinal, dtSeconds);
+    this.stepPursuit(projectionFinal, dtSeconds);
+    if (isWrecked(this.damage)) {
       if (this.wreckedTimeSeconds === null) this.wreckedTimeSeconds = this.state.timeSeconds;
       if (!this.backendWreckedSent) {
         this.backendWreckedSent = true;
@@ -3245,7 +4029,7 @@ export class Game {
         });
       }
       this.stopReplayRecording(true);
-      this.damage01 = 1;
+      this.damage = { ...this.damage, body01: 1 };
       this.state.car.vxMS = 0;
       this.state.car.vyMS = 0;
       this.state.car.yawRateRadS = 0;
@@ -3259,7 +4043,7 @@ export class Game {
     this.recordReplayFrame(dtSeconds);
 
     // End input replay once we reach a terminal race state.
-    if (this.replayInputPlayback && !this.replayInputPlayback.ended && (this.raceFinished || this.damage01 >= 1)) {
+    if (this.replayInputPlayback && !this.replayInputPlayback.ended && (this.raceFinished || isWrecked(this.damage))) {
       this.replayInputPlayback.ended = true;
       this.updateReplayPanelUi();
     }
@@ -3280,7 +4064,7 @@ export class Game {
     // Hide touch controls after finish/wrecked (or when hard-locked) so the UI matches the lockout.
     const driverGroup = document.getElementById("driver-group");
     const navGroup = document.getElementById("navigator-group");
-    if (this.raceFinished || this.damage01 >= 1 || this.controlsLocked || this.replayPlayback || this.replayInputPlayback) {
+    if (this.raceFinished || isWrecked(this.damage) || this.controlsLocked || this.replayPlayback || this.replayInputPlayback) {
       if (driverGroup) driverGroup.style.display = "none";
       if (navGroup) navGroup.style.display = "none";
     } else {
@@ -3375,7 +4159,7 @@ export class Game {
       }
 
       // Animate locally-emitted particle effects on the client (client doesn't run `step()`).
-      this.particlePool.update(dt);
+      this.particlePool.update(dt, this.windVector());
     }
 
     const perfStartMs = performance.now();
@@ -3384,11 +4168,11 @@ export class Game {
     const isTouch = isTouchMode();
 
     // Show NEW TRACK button when finished or wrecked.
-    const showNewTrack = (this.raceFinished || this.damage01 >= 1) && this.netMode !== "client" && !this.replayPlayback;
+    const showNewTrack = (this.raceFinished || isWrecked(this.damage)) && this.netMode !== "client" && !this.replayPlayback;
     const newTrackBtn = document.getElementById("btn-new-track") as HTMLButtonElement | null;
     if (newTrackBtn) {
       newTrackBtn.style.display = showNewTrack ? "block" : "none";
-      newTrackBtn.textContent = this.damage01 >= 1 ? "Go try another one" : "New Track";
+      newTrackBtn.textContent = isWrecked(this.damage) ? "Go try another one" : "New Track";
     }
 
     const showFinishPanel = this.raceFinished && this.finishPanelShown && !this.replayPlayback && !this.replayInputPlayback;
@@ -3452,6 +4236,16 @@ export class Game {
       this.renderer.drawCity(this.track.endCity);
     }
 
+    // Branches first: where they join, the main road is drawn over their ends.
+    (this.track.branches ?? []).forEach((branch, i) => {
+      const styles = this.branchSegmentStyles[i];
+      this.renderer.drawTrack({
+        ...branch.route,
+        segmentFillStyles: styles?.fill,
+        segmentShoulderStyles: styles?.shoulder,
+        segmentSurfaceNames: styles?.surfaceNames
+      });
+    });
     this.renderer.drawTrack({
       ...this.track,
       segmentFillStyles: this.trackSegmentFillStyles,
@@ -3459,12 +4253,34 @@ export class Game {
       segmentSurfaceNames: this.trackSegmentSurfaceNames
     });
     if (this.editorMode) {
+      const spans = [
+        ...this.currentStageZones.map((z) => ({ ...z, color: trackZoneColor(z.kind) })),
+        ...this.currentQuietZones.map((z) => ({ ...z, color: "rgba(120, 230, 140, 0.45)" }))
+      ];
+      if (this.editorPaintFromSM !== null && this.editorTool !== "points" && this.track.totalLengthM > 0) {
+        spans.push({
+          start01: Math.min(this.editorPaintFromSM, this.editorPaintToSM) / this.track.totalLengthM,
+          end01: Math.max(this.editorPaintFromSM, this.editorPaintToSM) / this.track.totalLengthM,
+          color: "rgba(255, 255, 255, 0.6)"
+        });
+      }
+      this.renderer.drawTrackSpans({ track: this.track, spans, widthM: 1.2 });
+      const points = this.trackDef.points;
       this.renderer.drawTrackEditorPoints({
-        points: this.trackDef.points,
-        activeIndex: this.editorDragIndex ?? this.editorHoverIndex
+        points,
+        elevationsM: this.trackDef.elevationsM,
+        activeIndex: this.editorDragIndex ?? this.editorHoverIndex,
+        widthHandles: this.editorTool === "points" && points.length >= 2 ? points.map((_, i) => this.editorWidthHandle(i)) : undefined,
+        activeHandleIndex: this.editorWidthDragIndex,
+        issuePoints: this.editorIssues.map((issue) => {
+          const [a, b] = issue.kind === "crossing" ? [issue.segmentA, issue.segmentA + 1] : [issue.startIndex, issue.endIndex];
+          return { x: (points[a].x + points[b].x) * 0.5, y: (points[a].y + points[b].y) * 0.5 };
+        })
       });
     }
+    this.renderer.drawRivers(this.rivers);
     this.renderer.drawWater(this.waterBodies);
+    this.renderer.drawPuddles(this.puddles, puddleFill01(wetnessAtTime(this.weather, this.weatherTimeS())));
     this.renderer.drawTrees(this.trees);
     this.renderer.drawDebris(this.debris);
     const enemiesToDraw = (this.replayPlayback && this.netRemoteEnemies)
@@ -3472,15 +4288,31 @@ export class Game {
       : (this.netMode === "client" && this.netRemoteEnemies ? this.netRemoteEnemies : this.enemyPool.getActive());
     this.renderer.drawEnemies(enemiesToDraw);
     this.renderer.drawParticles(this.particlePool.getActiveParticles());
-    // Draw start line at the first checkpoint position (edge of starting city)
-    const start = pointOnTrack(this.track, this.checkpointSM[0]);
-    const startProj = projectToTrack(this.track, start.p);
-    this.renderer.drawStartLine({
-      x: start.p.x,
-      y: start.p.y,
-      headingRad: start.headingRad,
-      widthM: startProj.widthM
-    });
+    if (this.pursuer) {
+      const look = pursuerLook(this.pursuer.kind, this.currentStageThemeKind);
+      this.renderer.drawPursuer({
+        kind: this.pursuer.kind,
+        rgb: look.rgb,
+        rows: this.pursuerTrail(70, 10).map((s) => {
+          const at = pointOnTrack(this.track, s);
+          return { x: at.p.x, y: at.p.y, headingRad: at.headingRad };
+        }),
+        widthM: this.track.widthM * 2.6,
+        timeSeconds: this.state.timeSeconds
+      });
+    }
+    // Draw start line at the first checkpoint position (edge of starting city). A circuit's start is
+    // its finish line.
+    if (!this.track.closed) {
+      const start = pointOnTrack(this.track, this.checkpointSM[0]);
+      const startProj = projectToTrack(this.track, start.p);
+      this.renderer.drawStartLine({
+        x: start.p.x,
+        y: start.p.y,
+        headingRad: start.headingRad,
+        widthM: startProj.widthM
+      });
+    }
 
     // Draw finish line (always visible)
     const finishSM = this.checkpointSM[this.checkpointSM.length - 1];
@@ -3497,7 +4329,8 @@ export class Game {
     if (this.nextCheckpointIndex < this.checkpointSM.length) {
       const isFinishNext = this.nextCheckpointIndex === this.checkpointSM.length - 1;
       if (!isFinishNext) {
-        const activeGate = pointOnTrack(this.track, this.checkpointSM[this.nextCheckpointIndex]);
+        const gateSM = this.checkpointSM[this.nextCheckpointIndex];
+        const activeGate = pointOnTrack(this.track, gateSM);
         const activeGateProj = projectToTrack(this.track, activeGate.p);
         this.renderer.drawCheckpointLine({
           x: activeGate.p.x,
@@ -3505,6 +4338,17 @@ export class Game {
           headingRad: activeGate.headingRad,
           widthM: activeGateProj.widthM
         });
+        // Gates inside a fork stand across the other route too.
+        (this.track.branches ?? []).forEach((branch, i) => {
+          if (gateSM < branch.fromSM || gateSM > branch.toSM) return;
+          const branchGate = pointOnRoute(this.track, gateSM, i);
+          this.renderer.drawCheckpointLine({
+            x: branchGate.p.x,
+            y: branchGate.p.y,
+            headingRad: branchGate.headingRad,
+            widthM: branchGate.widthM
+          });
+        });
       }
     }
     this.renderer.drawCar({
@@ -3514,7 +4358,11 @@ export class Game {
       speed: this.speedMS(),
       rollOffsetM: this.visualRollOffsetM,
       pitchOffsetM: this.visualPitchOffsetM,
-      braking: this.lastInputState.brake > 0.1
+      heightM: this.carHeightM,
+      braking: this.lastInputState.brake > 0.1,
+      lengthM: this.vehicle.visual.lengthM,
+      widthM: this.vehicle.visual.widthM,
+      bodyColor: this.vehicle.visual.bodyColor
     });
 
     // Draw enemy fireballs (circular, distinct from bullet tracers)
@@ -3570,6 +4418,10 @@ export class Game {
 
     // Client navigator doesn't run `step()`, so emit deterministic cues here too.
     this.updateDebrisWarnings(proj);
+    this.currentWind = windAtTrackDistance(this.track.totalLengthM, proj.sM, this.currentStageZones, this.state.timeSeconds);
+    const wind = this.currentWind;
+    const pursuerGap = this.pursuer ? pursuerGapM(this.pursuer, proj.sM) : Infinity;
+    const pursuerThreat = this.pursuer && !this.raceFinished ? pursuerThreat01(pursuerGap) : 0;
 
     let rainIntensity = 0;
     let fogIntensity = 0;
@@ -3593,6 +4445,8 @@ export class Game {
       sandIntensity = activeZones.filter((z) => z.kind === "sandstorm").reduce((m, z) => Math.max(m, z.intensity01), 0);
       electricalIntensity = activeZones.filter((z) => z.kind === "electrical").reduce((m, z) => Math.max(m, z.intensity01), 0);
     }
+    rainIntensity = Math.max(rainIntensity, rainAtTime(this.weather, this.weatherTimeS()));
+    fogIntensity = Math.max(fogIntensity, fogAtTrackDistance(this.weather, this.track.totalLengthM, proj.sM, this.weatherTimeS()));
 
     // Desert maps should never have fog (even if a legacy track definition includes it).
     // Temperate and arctic can have fog as a weather zone.
@@ -3603,6 +4457,7 @@ export class Game {
 
     // Update rain audio (ambient pink-ish noise). Intentionally loud.
     if (this.audioUnlocked) this.rainAudio.update(rainIntensity, { timeScale: this.getBulletTimeScale() });
+    if (this.audioUnlocked) this.stormAudio.update(pursuerThreat, this.pursuer?.kind ?? "storm", { timeScale: this.getBulletTimeScale() });
 
     if (fogIntensity > 0.02) {
       // Fog should ramp in/out like rain, and be a bit more intense.
@@ -3616,6 +4471,12 @@ export class Game {
       this.renderer.drawFog(this.state.car.xM, this.state.car.yM, radius);
       this.renderer.drawScreenOverlay(`rgba(170, 120, 55, ${clamp(0.04 + 0.10 * sandIntensity, 0, 0.18)})`);
     }
+    if (this.pursuer && pursuerThreat > 0.02) {
+      // It closes in: first a tint, then the view shrinks, and inside it there is little left to see.
+      const look = pursuerLook(this.pursuer.kind, this.currentStageThemeKind);
+      if (pursuerThreat > 0.6) this.renderer.drawFog(this.state.car.xM, this.state.car.yM, 30 + 180 * (1 - pursuerThreat));
+      this.renderer.drawScreenOverlay(`rgba(${look.rgb}, ${clamp(0.04 + 0.32 * pursuerThreat * pursuerThreat, 0, 0.36)})`);
+    }
     if (eclipseIntensity > 0.02) {
       this.renderer.drawEclipseOverlay({
         intensity01: eclipseIntensity,
@@ -3645,15 +4506,7 @@ export class Game {
         anchorX: "left",
         title: "Controls",
         lines: this.editorMode
-          ? [
-            `EDITOR MODE`,
-            `Left click/drag  move point`,
-            `Left click empty add point`,
-            `Right click      delete point`,
-            `1               save track`,
-            `2               load track`,
-            `T               exit editor`
-          ]
+          ? this.editorControlLines()
           : [
             `🏎️ DRIVING`,
             `W / ↑      throttle`,
@@ -3663,6 +4516,7 @@ export class Game {
             ``,
             `⚙️ GEARBOX`,
             `J / K      shift down / up`,
+            `Shift      clutch (manual)`,
             `O          toggle auto/man`,
             ``,
             `🔫 SHOOTING`,
@@ -3674,6 +4528,7 @@ export class Game {
             `N          new route`,
             `C          camera: ${this.cameraMode}`,
             `M          minimap: ${this.showMinimap ? "ON" : "OFF"}`,
+            `P          pacenotes: ${this.tuning?.values.pacenotes ? "ON" : "OFF"}`,
             `T          editor`,
           ]
       });
@@ -3696,6 +4551,14 @@ export class Game {
       else if (this.raceFinished) stageLine = `FINISHED: ${this.finishTimeSeconds?.toFixed(2)}s`;
 
       const lines = [stageLine];
+      if (this.lapTiming) {
+        const laps = this.lapTiming;
+        if (!this.raceFinished) {
+          lines.push(`LAP ${laps.lap}/${laps.lapsTotal}  ${(nowTimeSeconds - laps.lapStartS).toFixed(2)}s`);
+        }
+        if (laps.bestLapS !== null) lines.push(`BEST LAP ${laps.bestLapS.toFixed(2)}s`);
+      }
+      if (this.track.closed && this.lapRecordS !== null) lines.push(`RECORD ${this.lapRecordS.toFixed(2)}s`);
 
       this.renderer.drawPanel({
         x: rightStackX,
@@ -3707,6 +4570,43 @@ export class Game {
       rightStackY += 68; // Slim panel
     }
 
+    // 2a'. Windsock, while in a wind zone
+    const bigGustInS = wind ? nextBigGustInS(wind.profile, this.state.timeSeconds, BIG_GUST_WARN_S) : null;
+    if (!this.editorMode && !showFinishPanel && wind && wind.speedMS > 0.5) {
+      const sock = this.renderer.drawWindsock({
+        x: rightStackX,
+        y: rightStackY,
+        relTowardRad: wind.profile.towardRad - this.state.car.headingRad,
+        speedKmH: wind.speedMS * 3.6,
+        strength01: wind.speedMS / WIND_MAX_MS,
+        warn: bigGustInS !== null
+      });
+      rightStackY += sock.height + 8;
+    }
+
+    // 2b. Pacenotes (Top Center)
+    if (!this.editorMode && !showFinishPanel && this.pacenotesVisible()) {
+      this.pacenotes ??= generatePacenotes(this.track, {
+        trackSeed: this.trackDef.meta?.seed ?? 1,
+        themeKind: this.currentStageThemeKind,
+        debris: this.debris,
+        water: this.waterBodies,
+        rivers: this.rivers,
+        zones: this.currentStageZones
+      });
+      const upcoming = upcomingPacenotes(this.pacenotes, this.track, proj.sM, this.pacenoteLookaheadM);
+      if (upcoming.length > 0) {
+        this.renderer.drawPanel({
+          x: width / 2,
+          y: hudPadding,
+          anchorX: "center",
+          title: "Pacenotes",
+          lines: upcoming.map(({ note, distanceM }) => `${String(Math.round(distanceM)).padStart(3)}m  ${note.text.toUpperCase()}`)
+        });
+      }
+      if (this.raceActive && (this.netMode === "solo" || this.role === PlayerRole.DRIVER)) this.pacenotesUsed = true;
+    }
+
     // 2c. Minimap
     // Show if:
     // 1. Role is NAVIGATOR (always)
@@ -3716,7 +4616,7 @@ export class Game {
     if (canShowMinimap) {
       // Minimap warnings (driver hinting). Keep these simple; full zone intel is for the navigator.
       const warningTextLines: string[] = [];
-      const calloutsEnabled = proj.sM >= this.checkpointSM[0];
+      const calloutsEnabled = this.track.closed || proj.sM >= this.checkpointSM[0];
       const calloutLookaheadM = 150;
       const rainLookaheadM = calloutLookaheadM;
       const narrowLookaheadM = calloutLookaheadM;
@@ -3750,6 +4650,8 @@ export class Game {
             warningTextLines.push(`RAIN IN ${Math.round(best)}m`);
           }
         }
+        const showerInS = rainIntensity < 0.05 ? nextShowerInS(this.weather, this.weatherTimeS(), 20) : null;
+        if (showerInS !== null) warningTextLines.push(`RAIN IN ${Math.ceil(showerInS)}s`);
 
         // Upcoming eclipse (solar eclipse / darkness zone)
         const eclipseActive = activeZoneKinds.includes("eclipse");
@@ -3766,13 +4668,30 @@ export class Game {
           }
         }
 
+        // Upcoming wind, then the big gusts inside it
+        if (!activeZoneKinds.includes("wind") && this.currentStageZones.length > 0) {
+          let best = Infinity;
+          for (const z of this.currentStageZones) {
+            if (z.kind !== "wind") continue;
+            const d = forwardDistM(z.start01 * this.track.totalLengthM);
+            if (d >= 0 && d <= calloutLookaheadM) best = Math.min(best, d);
+          }
+          if (Number.isFinite(best) && best > hideImminentM) {
+            warningTextLines.push(`WIND IN ${Math.round(best)}m`);
+          }
+        }
+        if (wind && bigGustInS !== null) {
+          const fromLeft = Math.sin(wind.profile.towardRad - this.state.car.headingRad) > 0;
+          warningTextLines.push(`BIG GUST FROM ${fromLeft ? "LEFT" : "RIGHT"}`);
+        }
+
         // Upcoming narrow road segments (based on per-segment width profile)
         if (this.track.segmentWidthsM && this.track.segmentWidthsM.length > 0) {
           const base = this.track.widthM;
           // Only warn for VERY narrow segments (avoid spamming on mild squeezes).
           const narrowThreshold = base * 0.64;
           const currentW = this.track.segmentWidthsM[proj.segmentIndex] ?? base;
-          if (currentW > narrowThreshold) {
+          if (currentW > narrowThreshold && proj.branchIndex === undefined) {
             let best = Infinity;
             for (let i = 0; i < this.track.segmentWidthsM.length; i++) {
               const idx = loops ? (proj.segmentIndex + i) % this.track.segmentWidthsM.length : proj.segmentIndex + i;
@@ -3826,9 +4745,14 @@ export class Game {
         carY: this.state.car.yM,
         carHeading: this.state.car.headingRad,
         waterBodies: this.waterBodies,
+        rivers: this.rivers,
         enemies: minimapEnemies,
         debris: this.debris,
         segmentSurfaceNames: this.trackSegmentSurfaceNames,
+        branches: (this.track.branches ?? []).map((branch, i) => ({
+          points: branch.route.points,
+          surfaceName: branch.surface ?? this.branchSegmentStyles[i]?.surfaceNames[0] ?? "tarmac"
+        })),
         start: startMM,
         finish: finishMM,
         offsetX: minimapOffsetX,
@@ -3840,7 +4764,14 @@ export class Game {
         statusTextLines: (this.role === PlayerRole.NAVIGATOR && electricalIntensity > 0.05)
           ? ["ERROR", "ELECTRICAL STORM"]
           : undefined,
-        warningTextLines: this.netMode === "client" ? [] : warningTextLines
+        warningTextLines: this.netMode === "client" ? [] : warningTextLines,
+        pursuer: this.pursuer
+          ? {
+            points: this.pursuerTrail(150, 10).map((s) => pointOnTrack(this.track, s).p),
+            rgb: pursuerLook(this.pursuer.kind, this.currentStageThemeKind).rgb,
+            label: `${pursuerLook(this.pursuer.kind, this.currentStageThemeKind).name} ${pursuerGap > 0 ? `${Math.round(pursuerGap)}m` : "!"}`
+          }
+          : undefined
       });
     }
 
@@ -3853,7 +4784,6 @@ export class Game {
       const proj = projectToTrack(this.track, { x: this.state.car.xM, y: this.state.car.yM });
       const roadHalfWidthM = proj.widthM * 0.5;
       const offTrack = proj.distanceToCenterlineM > roadHalfWidthM;
-      const trackSeed = this.trackDef.meta?.seed ?? 1;
       const activeZones = this.currentStageZones.length
         ? zonesAtTrackDistance(this.track.totalLengthM, proj.sM, this.currentStageZones)
         : [];
@@ -3864,13 +4794,7 @@ export class Game {
       const sandGripMult = 1 - 0.18 * sandI;
       const zoneGripMult = clamp(rainGripMult * sandGripMult, 0.55, 1.0);
 
-      const baseSurface = surfaceForTrackSM(
-        this.track.totalLengthM,
-        proj.sM,
-        offTrack,
-        trackSeed,
-        this.currentStageThemeKind
-      );
+      const baseSurface = this.surfaceAt(proj, offTrack);
       const gripMu = clamp(baseSurface.frictionMu * zoneGripMult, 0.18, 1.8);
 
       const zoneSummary = this.currentStageZones.length > 0
@@ -3894,6 +4818,9 @@ export class Game {
           `theme: ${theme.name} (${theme.kind})`,
           `zones: ${zoneSummary}`,
           `zones now: ${activeSummary}  rain:${rainIntensity.toFixed(2)} fog:${fogIntensity.toFixed(2)} elec:${electricalIntensity.toFixed(2)}`,
+          `weather: rain ${rainAtTime(this.weather, this.weatherTimeS()).toFixed(2)}  wet ${wetnessAtTime(this.weather, this.weatherTimeS()).toFixed(2)}  puddles ${this.puddles.length}`,
+          `pursuer: ${this.pursuer ? `${this.pursuer.kind} gap ${pursuerGap.toFixed(0)}m at ${this.pursuer.speedMS.toFixed(1)}m/s` : "-"}`,
+          `wind: ${wind ? `${wind.speedMS.toFixed(1)}m/s x${wind.gustFactor.toFixed(2)}` : "-"}`,
           `camera: ${this.cameraMode}`,
           `speed: ${speedMS.toFixed(2)} m/s (${speedKmH.toFixed(0)} km/h)`,
           `grip: ${baseSurface.name}${offTrack ? " (offtrack)" : ""}  mu: ${baseSurface.frictionMu.toFixed(2)} x zone ${zoneGripMult.toFixed(2)} = ${gripMu.toFixed(2)}`,
@@ -3910,6 +4837,16 @@ export class Game {
       });
     }
 
+    // Component damage: both roles, so the navigator can call out what's broken.
+    if (DAMAGE_COMPONENTS.some((c) => damageOf(this.damage, c.key) > 0) || this.damage.coolant01 < 1) {
+      this.renderer.drawDamagePanel({
+        components: DAMAGE_COMPONENTS.map((c) => ({ label: c.label, damage01: damageOf(this.damage, c.key) })),
+        coolant01: this.damage.coolant01,
+        x: width - hudPadding,
+        y: height * 0.28
+      });
+    }
+
     // Draw Weapon HUD - Suppressed for Driver and for touch (touch uses HTML ammo above weapon buttons)
     if (this.weapons.length > 0 && this.role === PlayerRole.NAVIGATOR && !isTouch) {
       const currentWeapon = this.weapons[this.currentWeaponIndex];
@@ -3937,7 +4874,13 @@ export class Game {
           `FzF: ${this.state.carTelemetry.normalLoadFrontN.toFixed(0)} N  FxF: ${this.state.carTelemetry.longitudinalForceFrontN.toFixed(0)} N`,
           `FzR: ${this.state.carTelemetry.normalLoadRearN.toFixed(0)} N  FxR: ${this.state.carTelemetry.longitudinalForceRearN.toFixed(0)} N`,
           `FyF: ${this.state.carTelemetry.lateralForceFrontN.toFixed(0)} N`,
-          `FyR: ${this.state.carTelemetry.lateralForceRearN.toFixed(0)} N`
+          `FyR: ${this.state.carTelemetry.lateralForceRearN.toFixed(0)} N`,
+          `Fz FL/FR: ${this.state.carTelemetry.wheels[0].normalLoadN.toFixed(0)} / ${this.state.carTelemetry.wheels[1].normalLoadN.toFixed(0)} N`,
+          `Fz RL/RR: ${this.state.carTelemetry.wheels[2].normalLoadN.toFixed(0)} / ${this.state.carTelemetry.wheels[3].normalLoadN.toFixed(0)} N`,
+          `slip F: ${this.state.carTelemetry.wheels[0].slipRatio.toFixed(2)} / ${this.state.carTelemetry.wheels[1].slipRatio.toFixed(2)}  R: ${this.state.carTelemetry.wheels[2].slipRatio.toFixed(2)} / ${this.state.carTelemetry.wheels[3].slipRatio.toFixed(2)}`,
+          `temp F: ${this.tireWear.front.tempC.toFixed(0)}°C  R: ${this.tireWear.rear.tempC.toFixed(0)}°C`,
+          `wear F: ${(this.tireWear.front.wear01 * 100).toFixed(1)}%  R: ${(this.tireWear.rear.wear01 * 100).toFixed(1)}%`,
+          `grip F: x${tireGripScale(this.tireWear.front).toFixed(2)}  R: x${tireGripScale(this.tireWear.rear).toFixed(2)}`
         ],
         anchorX: "left"
       });
@@ -3981,10 +4924,12 @@ export class Game {
         rpm: this.engineState.rpm,
         maxRpm: this.engineParams.maxRpm,
         redlineRpm: this.engineParams.redlineRpm,
-        gear: this.engineState.gear,
+        gear: this.engineState.stalled ? "ST" : this.engineState.launchArmed ? "LC" : this.engineState.gear,
         speedKmH: this.speedMS() * 3.6,
-        damage01: this.damage01,
+        damage01: this.damage.body01,
+        fuel01: this.engineState.fuelL / Math.max(1e-6, this.engineParams.fuelTankL),
         totalDistanceKm: this.totalDistanceM / 1000,
+        assists: this.assistLights(),
         layout: isTouch ? "left" : "bottom"
       });
     }
@@ -4005,8 +4950,8 @@ export class Game {
     // Drift indicator removed (future: vibration-driven feedback)
 
     // Damage overlay (red vignette)
-    if (this.damage01 > 0.15) {
-      this.renderer.drawDamageOverlay({ damage01: this.damage01 });
+    if (this.damage.body01 > 0.15) {
+      this.renderer.drawDamageOverlay({ damage01: this.damage.body01 });
     }
 
     // Rain visual effect: blue tint + falling streak noise (over everything).
@@ -4014,7 +4959,12 @@ export class Game {
     if (rainIntensity > 0.05) {
       const rainStartMs = performance.now();
       this.renderer.drawScreenOverlay(`rgba(28, 95, 220, ${clamp(0.04 + 0.14 * rainIntensity, 0, 0.22)})`);
-      this.renderer.drawRain({ intensity01: rainIntensity, timeSeconds: this.state.timeSeconds });
+      const cosCam = Math.cos(this.cameraRotationRad);
+      const sinCam = Math.sin(this.cameraRotationRad);
+      const drift = wind
+        ? { x: (wind.xMS * cosCam - wind.yMS * sinCam) / WIND_MAX_MS, y: (wind.xMS * sinCam + wind.yMS * cosCam) / WIND_MAX_MS }
+        : undefined;
+      this.renderer.drawRain({ intensity01: rainIntensity, timeSeconds: this.state.timeSeconds, drift });
       this.perfTimingsMs.rain = performance.now() - rainStartMs;
     }
 
@@ -4061,7 +5011,7 @@ export class Game {
       this.renderer.drawCenterText({ text: "WAITING", subtext: "Invite the gunner to join" });
     }
 
-    if (this.damage01 >= 1) {
+    if (isWrecked(this.damage)) {
       this.renderer.drawCenterText({
         text: "DELIVERY FAILED",
         subtext: "Also, you've wrecked your car and almost died."
@@ -4100,12 +5050,35 @@ export class Game {
     return Math.hypot(this.state.car.vxMS, this.state.car.vyMS);
   }
 
+  private assistSettings(): AssistSettings {
+    const t = this.tuning?.values;
+    if (!t) return defaultAssistSettings();
+    const level = (v: number) => clamp(Math.round(v), 0, 2) as AssistLevel;
+    return { abs: level(t.absLevel), tractionControl: level(t.tractionControlLevel), stability: level(t.stabilityLevel) };
+  }
+
+  // A co-op navigator reads the notes out; drivers and solo players see them only with the assist on.
+  private pacenotesVisible(): boolean {
+    if (this.tuning?.values.pacenotes) return true;
+    return this.netMode !== "solo" && this.role === PlayerRole.NAVIGATOR;
+  }
+
+  private assistLights(): { label: string; active: boolean }[] {
+    const settings = this.assistSettings();
+    const lights: { label: string; active: boolean }[] = [];
+    if (settings.abs > 0) lights.push({ label: "ABS", active: this.assistActivity.abs });
+    if (settings.tractionControl > 0) lights.push({ label: "TC", active: this.assistActivity.tractionControl });
+    if (settings.stability > 0) lights.push({ label: "ESC", active: this.assistActivity.stability });
+    return lights;
+  }
+
   private applyTuning(): void {
     if (!this.tuning) return;
     const t = this.tuning.values;
     this.carParams.engineForceN = clamp(t.engineForceN, 4000, 45000);
     this.carParams.maxSteerRad = clamp((t.maxSteerDeg * Math.PI) / 180, 0.15, 1.2);
     this.carParams.driveBiasFront = clamp(t.driveBiasFront01, 0, 1);
+    this.carParams.tireModel = t.pacejkaTires ? "pacejka" : "linear";
   }
 
   private updateVisualDynamics(dtSeconds: number): void {
@@ -4278,15 +5251,23 @@ export class Game {
     this.raceStartTimeSeconds = this.state.timeSeconds;
     this.raceFinished = false;
     this.finishTimeSeconds = null;
+    this.lapTiming = null;
+    this.pursuer = null;
     this.resetFinishPanel();
     this.controlsLocked = false;
-    this.damage01 = 0;
+    this.damage = createDamageState();
+    this.tireWear = createTireWearState(ambientTempForTheme(this.currentStageThemeKind));
     this.wreckedTimeSeconds = null;
     this.state.car.steerAngleRad = 0;
     this.visualRollOffsetM = 0;
     this.visualRollVel = 0;
     this.driftDetector.reset();
-    this.engineState = createEngineState();
+    this.engineState = createEngineState(this.engineParams);
+    this.refuelling = false;
+    this.resetVertical();
+    this.assistState = createAssistState();
+    this.assistsUsed = this.assistSettings();
+    this.pacenotesUsed = false;
     this.particlePool.reset();
     this.particleAccumulator = 0;
     this.projectilePool.clear();
@@ -4309,6 +5290,7 @@ export class Game {
 
     // Deterministic on-road debris (biome-tuned)
     this.debris = generateDebris(this.track, { seed: treeSeed + 3333, themeKind: this.currentStageThemeKind, quietZones: this.currentQuietZones });
+    this.pacenotes = null;
   }
 
   private wrapDeltaSForward(fromSM: number, toSM: number): number {
@@ -4319,6 +5301,11 @@ export class Game {
     return d;
   }
 
+  // Air velocity for particles, in world m/s.
+  private windVector(): { x: number; y: number } | undefined {
+    return this.currentWind ? { x: this.currentWind.xMS, y: this.currentWind.yMS } : undefined;
+  }
+
   private updateDebrisWarnings(proj: TrackProjection): void {
     if (!this.debris.length) return;
     // Only the navigator should get this cue.
@@ -4326,7 +5313,7 @@ export class Game {
     // P2 shouldn't get on-screen callouts.
     if (this.netMode === "client") return;
     // No callouts until after leaving the start city.
-    if (proj.sM < this.checkpointSM[0]) return;
+    if (!this.track.closed && proj.sM < this.checkpointSM[0]) return;
 
     const nowS = proj.sM;
     let best: DebrisObstacle | null = null;
@@ -4353,7 +5340,7 @@ export class Game {
 
   private resolveDebrisCollisions(): void {
     if (this.debris.length === 0) return;
-    if (this.damage01 >= 1) return;
+    if (isWrecked(this.damage)) return;
     // Host/solo sim only; clients receive debrisDestroyed + particle events.
     if (this.netMode === "client") return;
 
@@ -4408,7 +5395,7 @@ export class Game {
       this.state.car.vxMS *= 0.985;
       this.state.car.vyMS *= 0.985;
       if (speed > 18) {
-        this.damage01 = clamp(this.damage01 + 0.0012 * twist, 0, 1);
+        this.addImpactDamage(0.0012 * twist, -nx, -ny);
       }
 
       // Shatter into splinters immediately.
@@ -4548,7 +5535,7 @@ export class Game {
     // Client doesn't run sim.
     if (this.netMode === "client") return;
     if (dtSeconds <= 0) return;
-    if (this.damage01 >= 1) return;
+    if (isWrecked(this.damage)) return;
     if (this.raceFinished) return;
 
     // Deterministic phase accumulator for firing patterns.
@@ -4617,9 +5604,9 @@ export class Game {
       const dx = p.x - this.state.car.xM;
       const dy = p.y - this.state.car.yM;
       const d = Math.hypot(dx, dy);
-      if (d < 1.05 && this.damage01 < 1) {
+      if (d < 1.05 && !isWrecked(this.damage)) {
         // Fireballs should hurt a bit, but mostly destabilize handling.
-        this.damage01 = clamp(this.damage01 + 0.06, 0, 1);
+        this.addImpactDamage(0.06, dx, dy);
 
         // Destabilize: yaw kick + slight speed loss.
         const cosH = Math.cos(this.state.car.headingRad);
@@ -4658,7 +5645,7 @@ export class Game {
 
   private updateCheckpointsAndRace(proj: TrackProjection): void {
     if (this.raceFinished) return; // Don't update if race is done
-    if (this.damage01 >= 1) return; // Stop timer/progression when wrecked
+    if (isWrecked(this.damage)) return; // Stop timer/progression when wrecked
 
     const speed = this.speedMS();
     if (speed < 1.5) {
@@ -4667,7 +5654,8 @@ export class Game {
     }
 
     const gateSM = this.checkpointSM[this.nextCheckpointIndex];
-    const gate = pointOnTrack(this.track, gateSM);
+    // A gate inside a fork stands across both routes; use the one the car is on.
+    const gate = pointOnRoute(this.track, gateSM, proj.branchIndex);
     const tx = Math.cos(gate.headingRad);
     const ty = Math.sin(gate.headingRad);
 
@@ -4676,7 +5664,7 @@ export class Game {
 
     // Effectively infinite gate line (no lateral requirement); keep a modest along-track window
     // to avoid false triggers when far away.
-    const nearGate = Math.abs(proj.sM - gateSM) < 18;
+    const nearGate = alongTrackGapM(proj.sM, gateSM, this.track.totalLengthM, !!this.track.closed) < 18;
 
     const cosH = Math.cos(this.state.car.headingRad);
     const sinH = Math.sin(this.state.car.headingRad);
@@ -4692,12 +5680,28 @@ export class Game {
         // Start the race timer when crossing the start line
         this.raceActive = true;
         this.raceStartTimeSeconds = this.state.timeSeconds;
+        this.lapTiming = this.track.closed ? createLapTiming(this.lapsTotal(), this.state.timeSeconds) : null;
+        this.pursuer = this.pursuerPlan ? createPursuerState(this.pursuerPlan, this.checkpointSM[0]) : null;
         this.startReplayRecording();
         this.nextCheckpointIndex = 1;
-        this.showNotification("GO!");
+        this.showNotification(this.pursuer ? `GO! ${pursuerLook(this.pursuer.kind, this.currentStageThemeKind).name} BEHIND YOU` : "GO!");
+        this.playNetEffect("checkpoint", 0.8);
+      } else if (this.nextCheckpointIndex === this.checkpointSM.length - 1 && this.lapTiming && this.lapTiming.lap < this.lapTiming.lapsTotal) {
+        // Circuit line with laps to go: round again.
+        const lap = completeLap(this.lapTiming, this.state.timeSeconds);
+        this.lapTiming = lap.timing;
+        const record = this.recordLap(lap.lapTimeS);
+        this.nextCheckpointIndex = 1;
+        const tag = record ? " LAP RECORD!" : lap.isBestLap && lap.timing.lapTimesS.length > 1 ? " BEST" : "";
+        this.showNotification(`LAP ${lap.timing.lap}/${lap.timing.lapsTotal} - ${lap.lapTimeS.toFixed(2)}s${tag}`);
         this.playNetEffect("checkpoint", 0.8);
       } else if (this.nextCheckpointIndex === this.checkpointSM.length - 1) {
         // Finish line!
+        if (this.lapTiming) {
+          const lap = completeLap(this.lapTiming, this.state.timeSeconds);
+          this.lapTiming = lap.timing;
+          this.recordLap(lap.lapTimeS);
+        }
         this.raceFinished = true;
         this.raceActive = false;
         this.finishTimeSeconds = this.state.timeSeconds - this.raceStartTimeSeconds;
@@ -4734,6 +5738,20 @@ export class Game {
     }
   }
 
+  /** Damage from a hit; (towardX, towardY) points from the car to the contact in world space. */
+  private addImpactDamage(amount: number, towardX: number, towardY: number): void {
+    const cosH = Math.cos(this.state.car.headingRad);
+    const sinH = Math.sin(this.state.car.headingRad);
+    const localX = towardX * cosH + towardY * sinH;
+    const localY = -towardX * sinH + towardY * cosH;
+    this.damage = applyImpactDamage(this.damage, amount, localX, localY);
+  }
+
+  // Recordings and peers from before component damage only carry the body meter.
+  private damageFromSnapshot(damage: unknown, damage01: number): DamageState {
+    return parseDamageState(damage) ?? { ...createDamageState(), body01: clamp(damage01, 0, 1) };
+  }
+
   private resolveHardBoundary(proj: TrackProjection): void {
     const roadHalfWidthM = proj.widthM * 0.5;
     const hardBoundaryHalfWidthM = roadHalfWidthM + 3.5;
@@ -4772,7 +5790,7 @@ export class Game {
 
     const impact = Math.max(0, vN);
     if (impact > 2) {
-      this.damage01 = clamp(this.damage01 + impact * 0.02, 0, 1);
+      this.addImpactDamage(impact * 0.02, nx, ny);
       // Camera shake based on impact
       const shakeIntensity = Math.min(impact * 0.15, 1.5);
       this.cameraShakeX = (Math.random() - 0.5) * shakeIntensity;
@@ -4782,7 +5800,7 @@ export class Game {
   }
 
   private resolveTreeCollisions(): void {
-    if (this.damage01 >= 1) return;
+    if (isWrecked(this.damage)) return;
 
     const carRadius = 0.85; // Slightly tighter for narrow trunks
     for (const tree of this.trees) {
@@ -4851,7 +5869,7 @@ export class Game {
         const impact = vN < 0 ? Math.abs(vN) : 0;
         if (impact > 1) {
           const dmg = 0.032;
-          this.damage01 = clamp(this.damage01 + impact * dmg, 0, 1);
+          this.addImpactDamage(impact * dmg, -nx, -ny);
           const shakeIntensity = Math.min(impact * 0.26, 2.6);
           this.cameraShakeX = (Math.random() - 0.5) * shakeIntensity;
           this.cameraShakeY = (Math.random() - 0.5) * shakeIntensity;
@@ -4903,7 +5921,7 @@ export class Game {
       const impact = vN < 0 ? Math.abs(vN) : 0;
       if (impact > 1) {
         const dmg = tree.kind === "rock" ? 0.032 : 0.05;
-        this.damage01 = clamp(this.damage01 + impact * dmg, 0, 1);
+        this.addImpactDamage(impact * dmg, -nx, -ny);
         const shakeIntensity = Math.min(impact * (tree.kind === "rock" ? 0.26 : 0.25), 2.6);
         this.cameraShakeX = (Math.random() - 0.5) * shakeIntensity;
         this.cameraShakeY = (Math.random() - 0.5) * shakeIntensity;
@@ -4913,7 +5931,7 @@ export class Game {
   }
 
   private resolveBuildingCollisions(): void {
-    if (this.damage01 >= 1) return;
+    if (isWrecked(this.damage)) return;
 
     const carRadius = 0.85;
     const cities = [this.track.startCity, this.track.endCity].filter(Boolean);
@@ -4966,7 +5984,7 @@ export class Game {
         const impact = vN < 0 ? Math.abs(vN) : 0;
         if (impact > 1) {
           // More collision HP: reduce damage per impact
-          this.damage01 = clamp(this.damage01 + impact * 0.07, 0, 1);
+          this.addImpactDamage(impact * 0.07, -nx, -ny);
           const shakeIntensity = Math.min(impact * 0.35, 3.5);
           this.cameraShakeX = (Math.random() - 0.5) * shakeIntensity;
           this.cameraShakeY = (Math.random() - 0.5) * shakeIntensity;
@@ -4989,9 +6007,12 @@ export class Game {
     }
   }
 
-  private checkWaterHazards(dtSeconds: number): void {
+  private checkWaterHazards(proj: TrackProjection, dtSeconds: number): void {
+    // Jumps clear the water.
+    if (this.vertical.airborne) return;
     const carX = this.state.car.xM;
     const carY = this.state.car.yM;
+    this.wadeRivers(proj, dtSeconds);
 
     let inAnyWater = false;
 
@@ -5027,6 +6048,141 @@ export class Game {
     }
   }
 
+  // Rivers: wading slows the car in proportion to the depth, and water over the air intake (the bow wave
+  // counts) floods the engine. Bridge decks are dry.
+  private wadeRivers(proj: TrackProjection, dtSeconds: number): void {
+    const car = { x: this.state.car.xM, y: this.state.car.yM };
+    let depthM = 0;
+    for (const river of this.rivers) {
+      if (proj.branchIndex === undefined && onBridgeDeck(river, proj.sM, proj.lateralOffsetM)) continue;
+      depthM = Math.max(depthM, riverDepthAt(river, car));
+    }
+    if (depthM <= 0) return;
+
+    const keep = wadingSpeedKeep(depthM, dtSeconds);
+    this.state.car.vxMS *= keep;
+    this.state.car.vyMS *= keep;
+    this.state.car.yawRateRadS *= keep * keep;
+
+    const speedMS = Math.hypot(this.state.car.vxMS, this.state.car.vyMS);
+    const waterHeightM = bowWaveHeightM(depthM, speedMS);
+    this.damage = applyFloodDamage(this.damage, floodDamagePerS(waterHeightM) * dtSeconds);
+    if (floodStalls(waterHeightM) && !this.engineState.stalled) {
+      this.engineState = { ...this.engineState, stalled: true };
+      const manual = this.tuning?.values.manualTransmission ?? true;
+      this.showNotification(manual ? "ENGINE FLOODED - CLUTCH (SHIFT) TO RESTART" : "ENGINE FLOODED");
+    }
+
+    // Spray off the nose, more of it the faster and deeper the car goes in.
+    if (speedMS > 2 && Math.random() < Math.min(1, speedMS * depthM * 0.25)) {
+      const cosH = Math.cos(this.state.car.headingRad);
+      const sinH = Math.sin(this.state.car.headingRad);
+      const noseX = car.x + cosH * this.carParams.cgToFrontAxleM;
+      const noseY = car.y + sinH * this.carParams.cgToFrontAxleM;
+      for (const side of [-1, 1]) {
+        this.emitParticles({
+          x: noseX - sinH * side * 0.8,
+          y: noseY + cosH * side * 0.8,
+          vx: cosH * speedMS * 0.4 - sinH * side * (2 + Math.random() * 3),
+          vy: sinH * speedMS * 0.4 + cosH * side * (2 + Math.random() * 3),
+          lifetime: 0.5 + Math.random() * 0.3,
+          sizeM: 0.25 + depthM * 0.4,
+          color: "rgba(215, 232, 245, 0.8)",
+          count: 1 + Math.floor(speedMS * depthM * 0.2)
+        });
+      }
+    }
+  }
+
+  // Bridge railings: solid, like the buildings, but flat, so the car slides along them.
+  private resolveRailingCollisions(): void {
+    if (isWrecked(this.damage)) return;
+
+    const carRadius = 0.9;
+    for (const river of this.rivers) {
+      const bridge = river.bridge;
+      if (!bridge) continue;
+      const first = bridge.railings[0][0];
+      const reachM = river.spanM + 20;
+      if ((this.state.car.xM - first.x) ** 2 + (this.state.car.yM - first.y) ** 2 > reachM * reachM) continue;
+
+      for (const railing of bridge.railings) {
+        for (let i = 0; i < railing.length - 1; i++) {
+          const a = railing[i];
+          const b = railing[i + 1];
+          const cp = closestPointOnSegment(this.state.car.xM, this.state.car.yM, a.x, a.y, b.x, b.y);
+          const dx = this.state.car.xM - cp.x;
+          const dy = this.state.car.yM - cp.y;
+          const dist = Math.hypot(dx, dy);
+          if (dist >= carRadius || dist < 1e-6) continue;
+
+          const nx = dx / dist;
+          const ny = dy / dist;
+          this.state.car.xM += nx * (carRadius - dist);
+          this.state.car.yM += ny * (carRadius - dist);
+
+          const cosH = Math.cos(this.state.car.headingRad);
+          const sinH = Math.sin(this.state.car.headingRad);
+          const vxW = this.state.car.vxMS * cosH - this.state.car.vyMS * sinH;
+          const vyW = this.state.car.vxMS * sinH + this.state.car.vyMS * cosH;
+
+          const vN = vxW * nx + vyW * ny;
+          const tx = -ny;
+          const ty = nx;
+          const vT = vxW * tx + vyW * ty;
+
+          const restitution = 0.2;
+          const tangentialDamping = 0.7;
+          const newVN = vN < 0 ? -vN * restitution : vN;
+          const newVT = vT * tangentialDamping;
+
+          const newVxW = newVN * nx + newVT * tx;
+          const newVyW = newVN * ny + newVT * ty;
+          this.state.car.vxMS = newVxW * cosH + newVyW * sinH;
+          this.state.car.vyMS = -newVxW * sinH + newVyW * cosH;
+          this.state.car.yawRateRadS *= 0.5;
+
+          const impact = vN < 0 ? -vN : 0;
+          if (impact > 2) {
+            this.addImpactDamage(impact * 0.03, -nx, -ny);
+            const shakeIntensity = Math.min(impact * 0.2, 2);
+            this.cameraShakeX = (Math.random() - 0.5) * shakeIntensity;
+            this.cameraShakeY = (Math.random() - 0.5) * shakeIntensity;
+            this.collisionFlashAlpha = Math.min(impact * 0.1, 0.4);
+          }
+        }
+      }
+    }
+  }
+
+  private weatherTimeS(): number {
+    return weatherClockS(this.state.timeSeconds, this.raceActive || this.raceFinished ? this.raceStartTimeSeconds : null);
+  }
+
+  // Track distances from the pursuer's front back `lengthM` into it, every `stepM`; none behind the road's start.
+  private pursuerTrail(lengthM: number, stepM: number): number[] {
+    const out: number[] = [];
+    if (!this.pursuer) return out;
+    for (let d = 0; d <= lengthM; d += stepM) {
+      const s = this.pursuer.sM - d;
+      if (s < 0) break;
+      out.push(s);
+    }
+    return out;
+  }
+
+  private stepPursuit(proj: TrackProjection, dtSeconds: number): void {
+    if (!this.pursuer || !this.pursuerPlan || !this.raceActive || this.raceFinished || isWrecked(this.damage)) return;
+    this.pursuer = stepPursuer(this.pursuerPlan, this.pursuer, this.state.timeSeconds - this.raceStartTimeSeconds, proj.sM, dtSeconds);
+    const gapM = pursuerGapM(this.pursuer, proj.sM);
+    if (pursuerEngulfed(gapM)) {
+      this.damage = { ...this.damage, body01: 1 };
+      this.showNotification(`SWALLOWED BY THE ${pursuerLook(this.pursuer.kind, this.currentStageThemeKind).name}`);
+      return;
+    }
+    this.damage = applyExposureDamage(this.damage, pursuerDamagePerS(gapM) * dtSeconds);
+  }
+
   /**
    * Client-side projectile update for navigator shooting.
    * Client is authoritative for their own projectiles - updates, collision detection,
@@ -5373,7 +6529,7 @@ export class Game {
   }
 
   private resolveEnemyCollisions(): void {
-    if (this.damage01 >= 1) return;
+    if (isWrecked(this.damage)) return;
 
     const carRadius = 0.85;
     for (const enemy of this.enemyPool.getActive()) {
@@ -5415,7 +6571,7 @@ export class Game {
         this.state.car.yawRateRadS += lateralImpact;
 
         const contactSeverity = isColossus ? Math.max(impact, overlap * 4.0) : impact;
-        this.damage01 = clamp(this.damage01 + baseDamage + contactSeverity * damageRate, 0, 1);
+        this.addImpactDamage(baseDamage + contactSeverity * damageRate, -nx, -ny);
 
         // Camera shake
         const shakeIntensity = Math.min(contactSeverity * (isColossus ? 0.85 : (isTank ? 0.5 : (isZombie ? 0.12 : 0.22))), 3.2);
@@ -5511,6 +6667,21 @@ function closestPointOnPolygon(px: number, py: number, poly: { x: number; y: num
   return { x: bestX, y: bestY };
 }
 
+// What the pursuer is called on the HUD and the color it is drawn in (r, g, b), by what the stage is like.
+function pursuerLook(kind: PursuerKind, themeKind: StageThemeKind): { name: string; rgb: string } {
+  if (kind === "swarm") return { name: "SWARM", rgb: "28, 34, 20" };
+  switch (themeKind) {
+    case "desert":
+      return { name: "SANDSTORM", rgb: "168, 120, 62" };
+    case "arctic":
+      return { name: "BLIZZARD", rgb: "222, 228, 238" };
+    case "volcanic":
+      return { name: "ASH CLOUD", rgb: "58, 52, 52" };
+    default:
+      return { name: "STORM", rgb: "44, 48, 66" };
+  }
+}
+
 function surfaceFillStyle(surface: Surface): string {
   switch (surface.name) {
     case "tarmac":
@@ -5521,6 +6692,16 @@ function surfaceFillStyle(surface: Surface): string {
       return "rgba(200, 180, 120, 1.0)"; // Pale tan - sand (opaque)
     case "ice":
       return "rgba(180, 220, 245, 1.0)"; // Light blue - ice (opaque)
+    case "ash":
+      return "rgba(95, 90, 92, 1.0)"; // Soft charcoal - volcanic ash (opaque)
+    case "lava-crust":
+      return "rgba(58, 40, 38, 1.0)"; // Near-black crust (opaque)
+    case "mud":
+      return "rgba(98, 80, 55, 1.0)"; // Wet brown - mud (opaque)
+    case "broken-tarmac":
+      return "rgba(92, 95, 100, 1.0)"; // Faded asphalt (opaque)
+    case "rubble":
+      return "rgba(150, 142, 130, 1.0)"; // Concrete dust - rubble (opaque)
     case "offtrack":
       return "rgba(100, 130, 90, 1.0)"; // Green-gray - grass (opaque)
   }
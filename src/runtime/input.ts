@@ -1,10 +1,11 @@
-export type CarAxis = "steer" | "throttle" | "brake" | "handbrake";
+export type CarAxis = "steer" | "throttle" | "brake" | "handbrake" | "clutch";
 
 export interface InputState {
   steer: number;      // [-1, 1]
   throttle: number;   // [0, 1]
   brake: number;      // [0, 1]
   handbrake: number;  // [0, 1]
+  clutch?: number;    // [0, 1], only used with the manual gearbox
   shoot: boolean;
   fromKeyboard?: boolean;
 }
@@ -22,7 +23,8 @@ export class KeyboardInput implements GameInput {
     steer: { negative: ["KeyA", "ArrowLeft"], positive: ["KeyD", "ArrowRight"] },
     throttle: { positive: ["KeyW", "ArrowUp"] },
     brake: { positive: ["KeyS", "ArrowDown"] },
-    handbrake: { positive: ["Space"] }
+    handbrake: { positive: ["Space"] },
+    clutch: { positive: ["ShiftLeft", "ShiftRight"] }
   };
 
   constructor(target: Window) {
@@ -42,6 +44,7 @@ export class KeyboardInput implements GameInput {
       throttle: this.axis("throttle"),
       brake: this.axis("brake"),
       handbrake: this.axis("handbrake"),
+      clutch: this.axis("clutch"),
       shoot: this.isDown("KeyL"),
       fromKeyboard: true
     };
@@ -308,6 +311,7 @@ export class CompositeInput implements GameInput {
       throttle: Math.max(...states.map(s => s.throttle)),
       brake: Math.max(...states.map(s => s.brake)),
       handbrake: Math.max(...states.map(s => s.handbrake)),
+      clutch: Math.max(...states.map(s => s.clutch ?? 0)),
       shoot: states.some(s => s.shoot),
       fromKeyboard: states.some(s => s.fromKeyboard)
     };
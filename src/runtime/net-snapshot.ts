@@ -1,5 +1,9 @@
 // Shared snapshot type used by networking and replay recording/playback.
 
+import type { DamageState } from "../sim/damage";
+import type { LapTiming } from "../sim/laps";
+import type { PursuerState } from "../sim/pursuer";
+
 export type NetSnapshot = {
   t: number;
   car: {
@@ -67,7 +71,11 @@ export type NetSnapshot = {
   raceStartTimeSeconds: number;
   raceFinished: boolean;
   finishTimeSeconds: number | null;
-  damage01: number;
+  damage01: number; // body damage, the wreck meter
+  damage?: DamageState; // per component; absent in recordings from before it existed
+  carHeightM?: number; // above the road while airborne
+  lapTiming?: LapTiming | null; // circuits only
+  pursuer?: PursuerState | null; // stages with something chasing the car
   enemyKillCount: number;
   cameraMode: "follow" | "runner";
   cameraRotationRad: number;
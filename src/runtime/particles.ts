@@ -64,7 +64,10 @@ export class ParticlePool {
         }
     }
 
-    update(dtSeconds: number): void {
+    // Particles slow to the wind's velocity (world frame, m/s), so dust and spray blow downwind.
+    update(dtSeconds: number, wind?: { x: number; y: number }): void {
+        const windX = wind?.x ?? 0;
+        const windY = wind?.y ?? 0;
         for (const p of this.particles) {
             if (!p.active) continue;
 
@@ -77,10 +80,10 @@ export class ParticlePool {
             p.x += p.vx * dtSeconds;
             p.y += p.vy * dtSeconds;
 
-            // Apply drag
-            const drag = 0.92;
-            p.vx *= Math.pow(drag, dtSeconds * 60);
-            p.vy *= Math.pow(drag, dtSeconds * 60);
+            // Apply drag (against the air, which may be moving)
+            const drag = Math.pow(0.92, dtSeconds * 60);
+            p.vx = windX + (p.vx - windX) * drag;
+            p.vy = windY + (p.vy - windY) * drag;
         }
     }
 
@@ -131,6 +134,41 @@ export function getParticleConfig(surface: Surface): {
                 lifetime: 0.8, // Linger longer
                 spawnRate: 80 // Lots of ice spray
             };
+        case "ash":
+            return {
+                color: "rgba(110, 105, 105, 0.85)", // dark ash cloud
+                sizeM: 0.48,
+                lifetime: 1.8,
+                spawnRate: 130
+            };
+        case "lava-crust":
+            return {
+                color: "rgba(150, 90, 70, 0.75)", // grit with a warm cast
+                sizeM: 0.26,
+                lifetime: 0.7,
+                spawnRate: 50
+            };
+        case "mud":
+            return {
+                color: "rgba(95, 75, 50, 0.90)", // heavy mud spatter
+                sizeM: 0.36,
+                lifetime: 0.6, // falls fast
+                spawnRate: 90
+            };
+        case "broken-tarmac":
+            return {
+                color: "rgba(185, 185, 190, 0.75)",
+                sizeM: 0.32,
+                lifetime: 0.9,
+                spawnRate: 55
+            };
+        case "rubble":
+            return {
+                color: "rgba(205, 195, 180, 0.85)", // concrete dust
+                sizeM: 0.44,
+                lifetime: 1.4,
+                spawnRate: 110
+            };
         case "offtrack":
             return {
                 color: "rgba(150, 130, 100, 0.70)", // Brown/tan dust (not green)
@@ -1,6 +1,8 @@
 import { clamp } from "./math";
 import type { City } from "../sim/city";
+import type { PropLook } from "../sim/props";
 import type { TrackZone, TrackZoneKind } from "../sim/stage";
+import type { Surface } from "../sim/surface";
 
 type Camera2D = {
   centerX: number;
@@ -12,6 +14,24 @@ type Camera2D = {
   screenCenterYCssPx?: number;
 };
 
+/** Map/editor tint for a track zone. */
+export function trackZoneColor(kind: TrackZoneKind): string {
+  switch (kind) {
+    case "rain":
+      return "rgba(80, 160, 255, 0.55)";
+    case "fog":
+      return "rgba(200, 220, 255, 0.45)";
+    case "eclipse":
+      return "rgba(40, 40, 50, 0.55)";
+    case "electrical":
+      return "rgba(175, 110, 255, 0.65)";
+    case "sandstorm":
+      return "rgba(230, 185, 95, 0.55)";
+    case "wind":
+      return "rgba(170, 235, 215, 0.55)";
+  }
+}
+
 export class Renderer2D {
   readonly ctx: CanvasRenderingContext2D;
   private readonly canvas: HTMLCanvasElement;
@@ -533,7 +553,7 @@ export class Renderer2D {
     segmentWidthsM?: number[];
     segmentFillStyles?: string[];
     segmentShoulderStyles?: string[];
-    segmentSurfaceNames?: ("tarmac" | "gravel" | "sand" | "ice" | "offtrack")[];
+    segmentSurfaceNames?: Surface["name"][];
   }): void {
     const ctx = this.ctx;
     if (track.points.length < 2) return;
@@ -821,37 +841,60 @@ export class Renderer2D {
     ctx.restore();
   }
 
-  drawCar(car: { x: number; y: number; headingRad: number; speed: number; rollOffsetM?: number; pitchOffsetM?: number; braking?: boolean }): void {
+  drawCar(car: {
+    x: number;
+    y: number;
+    headingRad: number;
+    speed: number;
+    rollOffsetM?: number;
+    pitchOffsetM?: number;
+    heightM?: number; // above the road (jumps)
+    braking?: boolean;
+    lengthM?: number;
+    widthM?: number;
+    bodyColor?: string;
+  }): void {
     const ctx = this.ctx;
     ctx.save();
     ctx.translate(car.x, car.y);
     ctx.rotate(car.headingRad);
 
-    const length = 1.85;
-    const width = 0.93;
+    const length = car.lengthM ?? 1.85;
+    const width = car.widthM ?? 0.93;
     const braking = car.braking ?? false;
 
     // Dynamics gain (Boosted for better feel)
     const roll = (car.rollOffsetM ?? 0) * 1.2;
     const pitch = (car.pitchOffsetM ?? 0) * 1.5;
 
+    // Airborne: the shadow stays on the road, offset away from the sun (down-right in world space)
+    // and fading, while the car grows towards the camera.
+    const height = Math.max(0, car.heightM ?? 0);
+    const cosH = Math.cos(car.headingRad);
+    const sinH = Math.sin(car.headingRad);
+    const sunX = height * 0.7;
+    const sunY = height * 0.9;
+
     // 1. BASE SHADOW - Very subtle, opposite direction, and high clarity
-    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.fillStyle = `rgba(0, 0, 0, ${(0.55 / (1 + height * 0.35)).toFixed(3)})`;
     ctx.beginPath();
     const shadowL = length * 1.05;
     const shadowW = width * 1.1;
     // OPPOSITE Dynamic Shift: Shadow peeks out from the other side (very subtle)
-    const shadowShiftY = -roll * 0.3;
-    const shadowShiftX = -pitch * 0.25;
+    const shadowShiftY = -roll * 0.3 + (-sunX * sinH + sunY * cosH);
+    const shadowShiftX = -pitch * 0.25 + (sunX * cosH + sunY * sinH);
 
     ctx.rect(-shadowL * 0.5 + shadowShiftX, -shadowW * 0.5 + shadowShiftY, shadowL, shadowW);
     ctx.fill();
 
+    const heightScale = 1 + height * 0.08;
+    ctx.scale(heightScale, heightScale);
+
     // 2. MAIN BODY - Pure White (Minimal shift)
     const bodyShiftY = roll * 0.25;
     const bodyShiftX = pitch * 0.15;
 
-    ctx.fillStyle = "rgba(242, 246, 250, 0.95)";
+    ctx.fillStyle = car.bodyColor ?? "rgba(242, 246, 250, 0.95)";
     ctx.strokeStyle = "rgba(30, 40, 60, 0.9)";
     ctx.lineWidth = 2 / this.camera.pixelsPerMeter;
 
@@ -899,7 +942,7 @@ export class Renderer2D {
     ctx.restore();
   }
 
-  drawTrees(trees: { id?: number; x: number; y: number; r: number; kind?: "tree" | "rock"; rotationRad?: number; poly?: { x: number; y: number }[] }[]): void {
+  drawTrees(trees: { id?: number; x: number; y: number; r: number; kind?: "tree" | "rock"; rotationRad?: number; poly?: { x: number; y: number }[]; look?: PropLook }[]): void {
     const ctx = this.ctx;
     ctx.save();
 
@@ -944,7 +987,7 @@ export class Renderer2D {
           ctx.closePath();
           ctx.fill();
 
-          ctx.fillStyle = `rgba(${c}, ${c}, ${c2}, 0.95)`;
+          ctx.fillStyle = rockFillStyle(c, c2, t.look);
           ctx.strokeStyle = "rgba(35, 40, 50, 0.90)";
           ctx.lineWidth = 0.08;
           ctx.beginPath();
@@ -1008,7 +1051,7 @@ export class Renderer2D {
         ctx.fill();
 
         // Main rock
-        ctx.fillStyle = `rgba(${c}, ${c}, ${c2}, 0.95)`;
+        ctx.fillStyle = rockFillStyle(c, c2, t.look);
         ctx.strokeStyle = "rgba(35, 40, 50, 0.90)";
         ctx.lineWidth = 0.08;
         ctx.beginPath();
@@ -1032,18 +1075,37 @@ export class Renderer2D {
         continue;
       }
 
-      // Brown tree trunk (narrower)
-      ctx.fillStyle = "rgba(90, 60, 40, 1.0)";
+      if (t.look === "pillar") {
+        // Concrete pillar stump, square to the world grid like the buildings it held up.
+        const half = t.r * 0.45;
+        ctx.fillStyle = "rgba(150, 148, 140, 1.0)";
+        ctx.strokeStyle = "rgba(70, 68, 64, 1.0)";
+        ctx.lineWidth = 0.08;
+        ctx.fillRect(t.x - half, t.y - half, half * 2, half * 2);
+        ctx.strokeRect(t.x - half, t.y - half, half * 2, half * 2);
+        continue;
+      }
+
+      // Tree trunk (narrower): brown, burnt black, or pale cypress.
+      ctx.fillStyle = t.look === "charred" ? "rgba(38, 32, 30, 1.0)" : t.look === "cypress" ? "rgba(120, 105, 80, 1.0)" : "rgba(90, 60, 40, 1.0)";
       ctx.beginPath();
       ctx.arc(t.x, t.y, t.r * 0.4, 0, Math.PI * 2);
       ctx.fill();
 
       // Trunk outline
-      ctx.strokeStyle = "rgba(50, 35, 20, 1.0)";
+      ctx.strokeStyle = t.look === "charred" ? "rgba(120, 45, 25, 1.0)" : "rgba(50, 35, 20, 1.0)";
       ctx.lineWidth = 0.08;
       ctx.beginPath();
       ctx.arc(t.x, t.y, t.r * 0.4, 0, Math.PI * 2);
       ctx.stroke();
+
+      if (t.look === "cypress") {
+        // Buttressed base spreading into the water.
+        ctx.strokeStyle = "rgba(80, 70, 50, 0.6)";
+        ctx.beginPath();
+        ctx.arc(t.x, t.y, t.r * 0.62, 0, Math.PI * 2);
+        ctx.stroke();
+      }
     }
     ctx.restore();
   }
@@ -1307,9 +1369,218 @@ export class Renderer2D {
     ctx.restore();
   }
 
-  drawTrackEditorPoints(opts: { points: { x: number; y: number }[]; activeIndex?: number | null }): void {
+  // Rivers (see sim/river.ts): banks, then the water, lighter where it is shallow enough to ford, then any
+  // bridge deck across it between its railings.
+  drawRivers(
+    rivers: {
+      points: { x: number; y: number }[];
+      widthM: number;
+      depthM: number;
+      bridge: { deckWidthM: number; railings: [{ x: number; y: number }[], { x: number; y: number }[]] } | null;
+    }[]
+  ): void {
+    if (rivers.length === 0) return;
+    const ctx = this.ctx;
+    ctx.save();
+
+    const pad = this.getViewRadiusWorldMeters(10);
+    const cx = this.camera.centerX;
+    const cy = this.camera.centerY;
+    const trace = (points: { x: number; y: number }[]): void => {
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+    };
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+
+    for (const river of rivers) {
+      if (river.points.length < 2) continue;
+      const reach = pad + river.widthM;
+      if (!river.points.some((p) => Math.abs(p.x - cx) < reach && Math.abs(p.y - cy) < reach)) continue;
+
+      trace(river.points);
+      ctx.strokeStyle = "rgba(95, 80, 55, 0.55)";
+      ctx.lineWidth = river.widthM + 2.5;
+      ctx.stroke();
+      const deep01 = Math.min(1, river.depthM / 1.5);
+      ctx.strokeStyle = `rgba(40, 90, 140, ${0.5 + 0.3 * deep01})`;
+      ctx.lineWidth = river.widthM;
+      ctx.stroke();
+      // Current running down the middle.
+      ctx.strokeStyle = "rgba(120, 170, 210, 0.3)";
+      ctx.lineWidth = river.widthM * 0.25;
+      ctx.setLineDash([3, 5]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const bridge = river.bridge;
+      if (!bridge) continue;
+      const [left, right] = bridge.railings;
+      ctx.fillStyle = "rgba(120, 105, 90, 1)";
+      ctx.beginPath();
+      ctx.moveTo(left[0].x, left[0].y);
+      for (const p of left) ctx.lineTo(p.x, p.y);
+      for (let i = right.length - 1; i >= 0; i--) ctx.lineTo(right[i].x, right[i].y);
+      ctx.closePath();
+      ctx.fill();
+      // Planks across the deck.
+      ctx.strokeStyle = "rgba(80, 65, 50, 0.6)";
+      ctx.lineWidth = 0.12;
+      ctx.beginPath();
+      for (let i = 0; i < left.length; i++) {
+        ctx.moveTo(left[i].x, left[i].y);
+        ctx.lineTo(right[i].x, right[i].y);
+      }
+      ctx.stroke();
+      ctx.strokeStyle = "rgba(210, 205, 195, 0.95)";
+      ctx.lineWidth = 0.3;
+      for (const railing of bridge.railings) {
+        trace(railing);
+        ctx.stroke();
+      }
+    }
+
+    ctx.restore();
+  }
+
+  // The pursuer (see sim/pursuer.ts), drawn in the world from its front edge back. `rows` run across the
+  // road at steps behind the front; `rgb` is its color without alpha.
+  drawPursuer(opts: {
+    kind: "storm" | "swarm";
+    rgb: string;
+    rows: { x: number; y: number; headingRad: number }[];
+    widthM: number;
+    timeSeconds: number;
+  }): void {
     const ctx = this.ctx;
     ctx.save();
+    const t = opts.timeSeconds;
+    const rows = opts.rows;
+
+    for (let r = rows.length - 1; r >= 0; r--) {
+      const row = rows[r];
+      const depth01 = rows.length > 1 ? r / (rows.length - 1) : 1;
+      // Across the road (the right-hand normal of the heading).
+      const nx = -Math.sin(row.headingRad);
+      const ny = Math.cos(row.headingRad);
+      const fx = Math.cos(row.headingRad);
+      const fy = Math.sin(row.headingRad);
+
+      if (opts.kind === "storm") {
+        const puffs = 7;
+        for (let i = 0; i < puffs; i++) {
+          const across = (i / (puffs - 1) - 0.5) * opts.widthM;
+          const churn = Math.sin(t * 1.7 + i * 2.3 + r * 1.1);
+          const x = row.x + nx * across + fx * churn * 2.5;
+          const y = row.y + ny * across + fy * churn * 2.5;
+          const radius = 5 + 3 * depth01 + 1.5 * Math.sin(t * 2.1 + i * 1.3 + r);
+          ctx.fillStyle = `rgba(${opts.rgb}, ${0.22 + 0.5 * depth01})`;
+          ctx.beginPath();
+          ctx.arc(x, y, Math.max(1, radius), 0, Math.PI * 2);
+          ctx.fill();
+        }
+      } else {
+        const bugs = 40;
+        ctx.fillStyle = `rgba(${opts.rgb}, ${0.45 + 0.45 * depth01})`;
+        for (let i = 0; i < bugs; i++) {
+          const seed = i * 12.9898 + r * 78.233;
+          const across = (Math.sin(seed) * 0.5) * opts.widthM + Math.sin(t * 9 + seed) * 1.2;
+          const along = Math.cos(seed * 1.7) * 4 + Math.cos(t * 11 + seed * 0.7) * 1.2;
+          ctx.fillRect(row.x + nx * across + fx * along - 0.15, row.y + ny * across + fy * along - 0.15, 0.3, 0.3);
+        }
+      }
+    }
+
+    // Lightning in the storm wall: a short flash every few seconds.
+    if (opts.kind === "storm" && rows.length > 2 && Math.sin(t * 0.9) * Math.sin(t * 7.3) > 0.93) {
+      const row = rows[Math.floor(rows.length / 2)];
+      ctx.fillStyle = "rgba(235, 240, 255, 0.35)";
+      ctx.beginPath();
+      ctx.arc(row.x, row.y, opts.widthM * 0.6, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }
+
+  // Standing water on the road. A part-filled puddle is a smaller, fainter one; its radii scale with the
+  // square root of the fill, as in puddleDepthAt.
+  drawPuddles(puddles: { x: number; y: number; rotationRad: number; lengthM: number; widthM: number; depth01: number }[], fill01: number): void {
+    if (fill01 <= 0.01 || puddles.length === 0) return;
+    const ctx = this.ctx;
+    ctx.save();
+
+    const pad = this.getViewRadiusWorldMeters(10);
+    const cx = this.camera.centerX;
+    const cy = this.camera.centerY;
+    const rSq = pad * pad;
+    const scale = Math.sqrt(fill01);
+
+    for (const p of puddles) {
+      const dxC = p.x - cx;
+      const dyC = p.y - cy;
+      if (dxC * dxC + dyC * dyC > rSq) continue;
+      const rx = p.lengthM * 0.5 * scale;
+      const ry = p.widthM * 0.5 * scale;
+
+      ctx.save();
+      ctx.translate(p.x, p.y);
+      ctx.rotate(p.rotationRad);
+      ctx.fillStyle = `rgba(70, 95, 120, ${(0.35 + 0.3 * p.depth01) * fill01})`;
+      ctx.beginPath();
+      ctx.ellipse(0, 0, rx, ry, 0, 0, Math.PI * 2);
+      ctx.fill();
+      // Sky sheen on the water.
+      ctx.fillStyle = `rgba(190, 210, 230, ${0.18 * fill01})`;
+      ctx.beginPath();
+      ctx.ellipse(-rx * 0.15, -ry * 0.2, rx * 0.55, ry * 0.35, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    }
+
+    ctx.restore();
+  }
+
+  drawTrackEditorPoints(opts: {
+    points: { x: number; y: number }[];
+    elevationsM?: number[];
+    activeIndex?: number | null;
+    widthHandles?: { x: number; y: number }[]; // one per point, on the road edge
+    activeHandleIndex?: number | null;
+    issuePoints?: { x: number; y: number }[]; // where the track breaks the shape rules
+  }): void {
+    const ctx = this.ctx;
+    ctx.save();
+
+    if (opts.widthHandles) {
+      const half = 0.22;
+      ctx.lineWidth = 0.06;
+      for (let i = 0; i < opts.widthHandles.length; i++) {
+        const h = opts.widthHandles[i];
+        const p = opts.points[i];
+        const active = opts.activeHandleIndex === i;
+        ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+        ctx.beginPath();
+        ctx.moveTo(p.x, p.y);
+        ctx.lineTo(h.x, h.y);
+        ctx.stroke();
+        ctx.fillStyle = active ? "rgba(255, 205, 105, 0.95)" : "rgba(140, 255, 190, 0.75)";
+        ctx.strokeStyle = "rgba(0,0,0,0.45)";
+        ctx.fillRect(h.x - half, h.y - half, half * 2, half * 2);
+        ctx.strokeRect(h.x - half, h.y - half, half * 2, half * 2);
+      }
+    }
+
+    if (opts.issuePoints) {
+      ctx.strokeStyle = "rgba(255, 70, 60, 0.9)";
+      ctx.lineWidth = 0.3;
+      for (const p of opts.issuePoints) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 2.5, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
 
     const r = 0.32;
     for (let i = 0; i < opts.points.length; i++) {
@@ -1331,13 +1602,53 @@ export class Renderer2D {
         ctx.font = "0.55px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace";
         ctx.textBaseline = "middle";
         ctx.textAlign = "center";
-        ctx.fillText(String(i), p.x, p.y - 0.7);
+        const elevationM = opts.elevationsM?.[i];
+        const label = elevationM !== undefined && elevationM !== 0 ? `${i} (${elevationM.toFixed(1)}m)` : String(i);
+        ctx.fillText(label, p.x, p.y - 0.7);
       }
     }
 
     ctx.restore();
   }
 
+  /** Bands along the centerline between fractions of the track's length (editor zone painting). */
+  drawTrackSpans(opts: {
+    track: { points: { x: number; y: number }[]; cumulativeLengthsM: number[]; totalLengthM: number };
+    spans: { start01: number; end01: number; color: string }[];
+    widthM: number;
+  }): void {
+    const { points, cumulativeLengthsM: cum, totalLengthM } = opts.track;
+    if (points.length < 2 || !(totalLengthM > 0)) return;
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.lineWidth = opts.widthM;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    for (const span of opts.spans) {
+      const startM = span.start01 * totalLengthM;
+      const endM = span.end01 * totalLengthM;
+      ctx.strokeStyle = span.color;
+      ctx.beginPath();
+      let started = false;
+      for (let i = 0; i < points.length - 1; i++) {
+        const segStartM = cum[i];
+        const segLenM = cum[i + 1] - segStartM;
+        if (cum[i + 1] < startM || segStartM > endM) continue;
+        const a = points[i];
+        const b = points[i + 1];
+        const t0 = segLenM > 0 ? clamp((startM - segStartM) / segLenM, 0, 1) : 0;
+        const t1 = segLenM > 0 ? clamp((endM - segStartM) / segLenM, 0, 1) : 1;
+        if (!started) {
+          ctx.moveTo(a.x + (b.x - a.x) * t0, a.y + (b.y - a.y) * t0);
+          started = true;
+        }
+        ctx.lineTo(a.x + (b.x - a.x) * t1, a.y + (b.y - a.y) * t1);
+      }
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
   drawParticles(particles: { x: number; y: number; sizeM: number; color: string; lifetime: number; maxLifetime: number }[]): void {
     const ctx = this.ctx;
     ctx.save();
@@ -1508,6 +1819,66 @@ export class Renderer2D {
     ctx.restore();
   }
 
+  /**
+   * Windsock dial (screen space, top-right corner at x/y). The car points up; the sock streams the way the
+   * wind blows, longer the stronger it is. `warn` rings it for a big gust on its way.
+   */
+  drawWindsock(opts: { x: number; y: number; relTowardRad: number; speedKmH: number; strength01: number; warn?: boolean }): { height: number } {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+
+    const size = 76;
+    const left = opts.x - size;
+    const cx = left + size / 2;
+    const cy = opts.y + 34;
+    ctx.fillStyle = "rgba(0,0,0,0.55)";
+    ctx.fillRect(left, opts.y, size, size + 14);
+
+    ctx.strokeStyle = opts.warn ? "rgba(255, 170, 60, 0.95)" : "rgba(232,236,241,0.35)";
+    ctx.lineWidth = opts.warn ? 3 : 1.5;
+    ctx.beginPath();
+    ctx.arc(cx, cy, 27, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // The car, nose up.
+    ctx.fillStyle = "rgba(232,236,241,0.55)";
+    ctx.beginPath();
+    ctx.moveTo(cx, cy - 9);
+    ctx.lineTo(cx - 5, cy + 7);
+    ctx.lineTo(cx + 5, cy + 7);
+    ctx.closePath();
+    ctx.fill();
+
+    // Sock: tapered, striped, from the pole at the center.
+    const dirX = Math.sin(opts.relTowardRad);
+    const dirY = -Math.cos(opts.relTowardRad);
+    const len = 8 + 16 * clamp(opts.strength01, 0, 1);
+    const stripes = 4;
+    for (let i = 0; i < stripes; i++) {
+      const a = (i / stripes) * len;
+      const b = ((i + 1) / stripes) * len;
+      const wa = 5 * (1 - (0.5 * i) / stripes);
+      const wb = 5 * (1 - (0.5 * (i + 1)) / stripes);
+      ctx.fillStyle = i % 2 === 0 ? "rgba(255, 110, 50, 0.95)" : "rgba(245, 245, 245, 0.95)";
+      ctx.beginPath();
+      ctx.moveTo(cx + dirX * a - dirY * wa, cy + dirY * a + dirX * wa);
+      ctx.lineTo(cx + dirX * b - dirY * wb, cy + dirY * b + dirX * wb);
+      ctx.lineTo(cx + dirX * b + dirY * wb, cy + dirY * b - dirX * wb);
+      ctx.lineTo(cx + dirX * a + dirY * wa, cy + dirY * a - dirX * wa);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.font = "12px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillStyle = "rgba(232,236,241,0.95)";
+    ctx.fillText(`WIND ${Math.round(opts.speedKmH)}`, cx, opts.y + size - 6);
+    ctx.restore();
+    return { height: size + 14 };
+  }
+
   drawCenterText(opts: { text: string; subtext?: string }): void {
     const ctx = this.ctx;
     ctx.save();
@@ -1735,7 +2106,9 @@ export class Renderer2D {
     gear: number | string;
     speedKmH: number;
     damage01: number;
+    fuel01?: number;
     totalDistanceKm?: number;
+    assists?: { label: string; active: boolean }[]; // enabled assists; active ones light up
     layout?: "bottom" | "left";
   }): void {
     const ctx = this.ctx;
@@ -1876,6 +2249,17 @@ export class Renderer2D {
     ctx.fillStyle = "rgba(180, 220, 255, 0.7)";
     ctx.fillText("GEAR", gearX, centerY + 35 * scale);
 
+    // Assist lights under the gear: dim while armed, amber while intervening
+    if (opts.assists && opts.assists.length > 0) {
+      ctx.font = `bold ${Math.round(11 * scale)}px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace`;
+      const spacing = 30 * scale;
+      const firstX = gearX - ((opts.assists.length - 1) * spacing) / 2;
+      opts.assists.forEach((a, i) => {
+        ctx.fillStyle = a.active ? "rgba(255, 190, 60, 1)" : "rgba(180, 220, 255, 0.35)";
+        ctx.fillText(a.label, firstX + i * spacing, centerY + 54 * scale);
+      });
+    }
+
     // DAMAGE INDICATOR - WIDER bar
     let dmgX = centerX - radius - 55; // Slightly adjusted pos
     if (dmgX < 12) dmgX = centerX + radius + 18;
@@ -1900,6 +2284,20 @@ export class Renderer2D {
     ctx.textAlign = "center";
     ctx.fillText(`${Math.round(health * 100)}%`, dmgX + dmgWidth / 2, dmgY + dmgHeight + 14 * scale);
 
+    // Fuel gauge: a narrow bar on the outside of the damage bar
+    if (opts.fuel01 !== undefined) {
+      const fuelWidth = 8 * scale;
+      const fuelX = dmgX < centerX ? dmgX - fuelWidth - 6 * scale : dmgX + dmgWidth + 6 * scale;
+      const fuel = Math.max(0, Math.min(1, opts.fuel01));
+      const fuelH = dmgHeight * fuel;
+      ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+      ctx.fillRect(fuelX, dmgY, fuelWidth, dmgHeight);
+      ctx.fillStyle = fuel > 0.15 ? "rgba(255, 170, 60, 0.9)" : "rgba(255, 60, 60, 0.9)";
+      ctx.fillRect(fuelX, dmgY + (dmgHeight - fuelH), fuelWidth, fuelH);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+      ctx.fillText("F", fuelX + fuelWidth / 2, dmgY + dmgHeight + 14 * scale);
+    }
+
     // Total distance driven (if provided)
     if (opts.totalDistanceKm !== undefined) {
       ctx.font = `bold ${Math.round(12 * scale)}px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace`;
@@ -1995,6 +2393,39 @@ export class Renderer2D {
     ctx.restore();
   }
 
+  /** Per-component damage: one small bar each, right-aligned at (x, y). Coolant shows once it leaks. */
+  drawDamagePanel(opts: { components: { label: string; damage01: number }[]; coolant01: number; x: number; y: number }): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+
+    const barW = 46;
+    const barH = 6;
+    const rowH = 14;
+    const rows = opts.coolant01 < 1
+      ? [...opts.components, { label: "H2O", damage01: 1 - opts.coolant01 }]
+      : opts.components;
+
+    ctx.font = "bold 10px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    rows.forEach((row, i) => {
+      const health = Math.max(0, 1 - row.damage01);
+      const cy = opts.y + i * rowH + rowH / 2;
+      const barX = opts.x - barW;
+
+      ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+      ctx.fillRect(barX, cy - barH / 2, barW, barH);
+      ctx.fillStyle = health > 0.6 ? "rgba(80, 255, 200, 0.9)" : health > 0.3 ? "rgba(255, 200, 60, 0.9)" : "rgba(255, 60, 60, 0.9)";
+      ctx.fillRect(barX, cy - barH / 2, barW * health, barH);
+
+      ctx.fillStyle = health > 0.3 ? "rgba(255, 255, 255, 0.7)" : "rgba(255, 120, 120, 0.95)";
+      ctx.fillText(row.label, barX - 6, cy);
+    });
+
+    ctx.restore();
+  }
+
   drawCrosshair(x: number, y: number): void {
     const ctx = this.ctx;
     ctx.save();
@@ -2071,9 +2502,12 @@ export class Renderer2D {
     carY: number;
     carHeading: number;
     waterBodies?: { x: number; y: number; radiusX: number; radiusY: number; rotation: number }[];
+    rivers?: { points: { x: number; y: number }[]; widthM: number }[];
     enemies?: { x: number; y: number; type?: string }[];
     debris?: { x: number; y: number; lengthM: number; rotationRad: number; integrity01?: number }[];
-    segmentSurfaceNames?: ("tarmac" | "gravel" | "sand" | "ice" | "offtrack")[];
+    segmentSurfaceNames?: Surface["name"][];
+    // Alternate routes off the main road; drawn underneath it so the junctions read as the main line.
+    branches?: { points: { x: number; y: number }[]; surfaceName: Surface["name"] }[];
     start?: { x: number; y: number };
     finish?: { x: number; y: number };
     offsetX?: number;
@@ -2084,6 +2518,8 @@ export class Renderer2D {
     activeZones?: { kind: TrackZoneKind; intensity01: number }[];
     statusTextLines?: string[];
     warningTextLines?: string[];
+    // The stretch of road the pursuer covers, front first.
+    pursuer?: { points: { x: number; y: number }[]; rgb: string; label: string };
   }): void {
     const ctx = this.ctx;
     ctx.save();
@@ -2150,7 +2586,7 @@ export class Renderer2D {
     // 3. Move world so car is at (0,0) (which is visually center)
     ctx.translate(-opts.carX, -opts.carY);
 
-    const minimapRoadColorForSurface = (name: "tarmac" | "gravel" | "sand" | "ice" | "offtrack"): string => {
+    const minimapRoadColorForSurface = (name: Surface["name"]): string => {
       switch (name) {
         case "tarmac":
           return "rgba(160, 180, 200, 0.85)";
@@ -2160,26 +2596,21 @@ export class Renderer2D {
           return "rgba(220, 205, 150, 0.88)";
         case "ice":
           return "rgba(150, 220, 255, 0.9)";
+        case "ash":
+          return "rgba(120, 115, 115, 0.88)";
+        case "lava-crust":
+          return "rgba(200, 95, 60, 0.9)";
+        case "mud":
+          return "rgba(130, 105, 70, 0.88)";
+        case "broken-tarmac":
+          return "rgba(150, 160, 170, 0.85)";
+        case "rubble":
+          return "rgba(185, 175, 160, 0.85)";
         case "offtrack":
           return "rgba(140, 160, 120, 0.6)";
       }
     };
 
-    const zoneColorForKind = (kind: TrackZoneKind): string => {
-      switch (kind) {
-        case "rain":
-          return "rgba(80, 160, 255, 0.55)";
-        case "fog":
-          return "rgba(200, 220, 255, 0.45)";
-        case "eclipse":
-          return "rgba(40, 40, 50, 0.55)";
-        case "electrical":
-          return "rgba(175, 110, 255, 0.65)";
-        case "sandstorm":
-          return "rgba(230, 185, 95, 0.55)";
-      }
-    };
-
     // Draw track (wider + surface-colored segments)
     const pts: { x: number; y: number }[] = opts.track?.points ?? [];
     const hasPts = pts.length >= 2;
@@ -2195,6 +2626,19 @@ export class Renderer2D {
       ctx.lineJoin = "round";
       ctx.lineCap = "round";
 
+      for (const branch of opts.branches ?? []) {
+        if (branch.points.length < 2) continue;
+        ctx.beginPath();
+        ctx.moveTo(branch.points[0].x, branch.points[0].y);
+        for (let i = 1; i < branch.points.length; i++) ctx.lineTo(branch.points[i].x, branch.points[i].y);
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.35)";
+        ctx.lineWidth = 11 / scale;
+        ctx.stroke();
+        ctx.strokeStyle = minimapRoadColorForSurface(branch.surfaceName);
+        ctx.lineWidth = 7 / scale;
+        ctx.stroke();
+      }
+
       // Dark underlay for contrast
       ctx.strokeStyle = "rgba(0, 0, 0, 0.35)";
       ctx.lineWidth = 13 / scale;
@@ -2209,7 +2653,7 @@ export class Renderer2D {
       ctx.lineWidth = lw;
       const names = opts.segmentSurfaceNames;
       for (let i = 0; i < pts.length - 1; i++) {
-        const surfaceName = (names?.[i] ?? "tarmac") as "tarmac" | "gravel" | "sand" | "ice" | "offtrack";
+        const surfaceName = (names?.[i] ?? "tarmac") as Surface["name"];
         ctx.strokeStyle = minimapRoadColorForSurface(surfaceName);
         ctx.beginPath();
         ctx.moveTo(pts[i].x, pts[i].y);
@@ -2218,7 +2662,7 @@ export class Renderer2D {
       }
       if (shouldLoop) {
         const i = pts.length - 1;
-        const surfaceName = (names?.[i] ?? names?.[0] ?? "tarmac") as "tarmac" | "gravel" | "sand" | "ice" | "offtrack";
+        const surfaceName = (names?.[i] ?? names?.[0] ?? "tarmac") as Surface["name"];
         ctx.strokeStyle = minimapRoadColorForSurface(surfaceName);
         ctx.beginPath();
         ctx.moveTo(pts[i].x, pts[i].y);
@@ -2242,7 +2686,7 @@ export class Renderer2D {
             if (Math.abs(segStart01 - z.start01) < 0.025) {
               labeledZones.add(z);
               const labelText = z.kind === "rain" ? "RAIN" : z.kind === "fog" ? "FOG" : z.kind === "electrical" ? "⚡" : z.kind.toUpperCase();
-              const labelColor = z.kind === "rain" ? "rgba(80, 160, 255, 0.95)" : z.kind === "fog" ? "rgba(180, 180, 190, 0.95)" : "rgba(255, 220, 80, 0.95)";
+              const labelColor = z.kind === "rain" ? "rgba(80, 160, 255, 0.95)" : z.kind === "fog" ? "rgba(180, 180, 190, 0.95)" : z.kind === "wind" ? "rgba(170, 235, 215, 0.95)" : "rgba(255, 220, 80, 0.95)";
               ctx.font = `bold ${11 / scale}px sans-serif`;
               ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
               ctx.fillText(labelText, pts[i].x + 2 / scale, pts[i].y + 1 / scale);
@@ -2255,6 +2699,23 @@ export class Renderer2D {
       }
     }
 
+    // Rivers, over the road where they cross it, so the crossing shows.
+    if (opts.rivers) {
+      ctx.save();
+      ctx.strokeStyle = "rgba(40, 120, 200, 0.6)";
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      for (const river of opts.rivers) {
+        if (river.points.length < 2) continue;
+        ctx.lineWidth = Math.max(river.widthM, 2 / scale);
+        ctx.beginPath();
+        ctx.moveTo(river.points[0].x, river.points[0].y);
+        for (let i = 1; i < river.points.length; i++) ctx.lineTo(river.points[i].x, river.points[i].y);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
     // Draw water bodies
     if (opts.waterBodies) {
       ctx.fillStyle = "rgba(40, 120, 200, 0.6)";
@@ -2343,6 +2804,32 @@ export class Renderer2D {
       }
     }
 
+    // Pursuer: a thick band over the road it has swallowed, with its front marked.
+    if (opts.pursuer && opts.pursuer.points.length >= 2) {
+      const pts = opts.pursuer.points;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.strokeStyle = `rgba(${opts.pursuer.rgb}, 0.75)`;
+      ctx.lineWidth = 14 / scale;
+      ctx.beginPath();
+      ctx.moveTo(pts[0].x, pts[0].y);
+      for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+      ctx.stroke();
+      ctx.fillStyle = "rgba(255, 90, 60, 0.95)";
+      ctx.beginPath();
+      ctx.arc(pts[0].x, pts[0].y, 5 / scale, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.font = `bold ${10 / scale}px monospace`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "bottom";
+      ctx.lineWidth = 2.4 / scale;
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.9)";
+      ctx.strokeText(opts.pursuer.label, pts[0].x, pts[0].y - 7 / scale);
+      ctx.fillStyle = "rgba(255, 200, 180, 0.95)";
+      ctx.fillText(opts.pursuer.label, pts[0].x, pts[0].y - 7 / scale);
+    }
+
     // START / FINISH markers
     const drawMinimapLabel = (x: number, y: number, text: string, bg: string, fg: string): void => {
       ctx.save();
@@ -2446,7 +2933,7 @@ export class Renderer2D {
       const baseX = minimapX + pad;
       let y = minimapY + pad;
       for (const u of unique.slice(0, 4)) {
-        const swatch = zoneColorForKind(u.kind);
+        const swatch = trackZoneColor(u.kind);
         ctx.fillStyle = "rgba(0, 0, 0, 0.35)";
         ctx.fillRect(baseX - 3, y - 2, 96, 14);
 
@@ -2501,6 +2988,7 @@ export class Renderer2D {
       const colorFor = (text: string): { bg: string; fg: string; prefix: string } => {
         if (text.includes("RAIN")) return { bg: "rgba(35, 90, 140, 0.72)", fg: "rgba(210, 240, 255, 0.98)", prefix: "!" };
         if (text.includes("DEBRIS")) return { bg: "rgba(140, 70, 25, 0.74)", fg: "rgba(255, 235, 210, 0.98)", prefix: "!" };
+        if (text.includes("WIND") || text.includes("GUST")) return { bg: "rgba(30, 110, 95, 0.74)", fg: "rgba(215, 255, 240, 0.98)", prefix: "!" };
         if (text.includes("NARROW")) return { bg: "rgba(120, 110, 30, 0.74)", fg: "rgba(255, 248, 210, 0.98)", prefix: "!" };
         return { bg: "rgba(0, 0, 0, 0.65)", fg: "rgba(255, 245, 220, 0.95)", prefix: "!" };
       };
@@ -2695,7 +3183,8 @@ export class Renderer2D {
     ctx.restore();
   }
 
-  drawRain(opts: { intensity01: number; timeSeconds: number }): void {
+  // `drift` is the wind in screen axes as a fraction of a strong wind; it slants and carries the streaks.
+  drawRain(opts: { intensity01: number; timeSeconds: number; drift?: { x: number; y: number } }): void {
     const ctx = this.ctx;
     const intensity = clamp(opts.intensity01, 0, 1);
     if (intensity < 0.02) return;
@@ -2732,6 +3221,8 @@ export class Renderer2D {
     ctx.beginPath();
 
     const baseSpeed = 900 + 2600 * intensity;
+    const driftX = clamp(opts.drift?.x ?? 0, -1.5, 1.5);
+    const driftY = clamp(opts.drift?.y ?? 0, -1.5, 1.5);
     for (let i = 0; i < count; i++) {
       const h0 = hash(i * 3 + 1);
       const h1 = hash(i * 3 + 2);
@@ -2740,12 +3231,13 @@ export class Renderer2D {
       const ry = to01(h1);
       const rv = to01(h2);
 
-      const x = rx * (w + 220) - 110;
+      const speed = baseSpeed * (0.65 + 0.7 * rv) * (1 + 0.4 * driftY);
+      const x0 = rx * (w + 220) + t * speed * driftX * 0.6;
+      const x = (((x0 % (w + 220)) + (w + 220)) % (w + 220)) - 110;
       const y0 = ry * (h + 260) - 130;
-      const speed = baseSpeed * (0.65 + 0.7 * rv);
       const y = ((y0 + t * speed) % (h + 260)) - 130;
 
-      const slant = -0.25 + 0.5 * rx;
+      const slant = -0.25 + 0.5 * rx + driftX * 0.9;
       // Longer streaks to compensate for fewer particles
       const len = 14 + 32 * (0.25 + 0.75 * intensity) * (0.4 + 0.6 * rv);
       const dx = slant * len;
@@ -2774,6 +3266,13 @@ export class Renderer2D {
   }
 }
 
+// Gray rock by default; basalt is near black, rubble the warm gray of broken concrete.
+function rockFillStyle(c: number, c2: number, look?: PropLook): string {
+  if (look === "basalt") return `rgba(${Math.round(c * 0.45)}, ${Math.round(c * 0.42)}, ${Math.round(c2 * 0.45)}, 0.95)`;
+  if (look === "rubble") return `rgba(${c + 45}, ${c + 40}, ${c + 30}, 0.95)`;
+  return `rgba(${c}, ${c}, ${c2}, 0.95)`;
+}
+
 function parseRgba(s: string): { r: number; g: number; b: number; a: number } | null {
   const m = s.match(/rgba\((\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([0-9.]+)\s*\)/);
   if (!m) return null;
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { serializeTrackDefinition, type TrackDefinition } from "../sim/track";
+import { LEGACY_SLOT_NAME, listTrackSlots, loadTrackSlot, saveTrackSlot } from "./track-slots";
+
+function memoryStorage(): Pick<Storage, "getItem" | "setItem"> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value)
+  };
+}
+
+const def: TrackDefinition = { points: [{ x: 0, y: 0 }, { x: 50, y: 0 }], baseWidthM: 8 };
+
+describe("editor save slots", () => {
+  it("keeps named tracks apart", () => {
+    const storage = memoryStorage();
+    saveTrackSlot(storage, "hairpins", def);
+    saveTrackSlot(storage, "flat out", { ...def, baseWidthM: 12 });
+    expect(listTrackSlots(storage)).toEqual(["flat out", "hairpins"]);
+    expect(loadTrackSlot(storage, "hairpins")?.baseWidthM).toBe(8);
+    expect(loadTrackSlot(storage, "flat out")?.baseWidthM).toBe(12);
+    expect(loadTrackSlot(storage, "missing")).toBeNull();
+  });
+
+  it("offers the track saved before slots existed", () => {
+    const storage = memoryStorage();
+    storage.setItem("spaceRally.trackDef", serializeTrackDefinition(def));
+    expect(listTrackSlots(storage)).toEqual([LEGACY_SLOT_NAME]);
+    expect(loadTrackSlot(storage, LEGACY_SLOT_NAME)?.points).toHaveLength(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { parseTrackDefinition, serializeTrackDefinition, type TrackDefinition } from "../sim/track";
+
+// Named editor tracks in localStorage, kept together as one name -> track JSON map.
+const SLOTS_KEY = "spaceRally.trackSlots";
+// Where the editor kept its single saved track before slots; it shows up as this slot.
+const LEGACY_KEY = "spaceRally.trackDef";
+export const LEGACY_SLOT_NAME = "Custom";
+
+type SlotStorage = Pick<Storage, "getItem" | "setItem">;
+
+function readSlots(storage: SlotStorage): Record<string, string> {
+  try {
+    const raw = JSON.parse(storage.getItem(SLOTS_KEY) ?? "{}") as unknown;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+    const slots: Record<string, string> = {};
+    for (const [name, json] of Object.entries(raw)) if (typeof json === "string") slots[name] = json;
+    return slots;
+  } catch {
+    return {};
+  }
+}
+
+export function listTrackSlots(storage: SlotStorage): string[] {
+  const names = Object.keys(readSlots(storage));
+  if (storage.getItem(LEGACY_KEY) && !names.includes(LEGACY_SLOT_NAME)) names.push(LEGACY_SLOT_NAME);
+  return names.sort((a, b) => a.localeCompare(b));
+}
+
+export function saveTrackSlot(storage: SlotStorage, name: string, def: TrackDefinition): void {
+  const slots = readSlots(storage);
+  slots[name] = serializeTrackDefinition(def);
+  storage.setItem(SLOTS_KEY, JSON.stringify(slots));
+}
+
+export function loadTrackSlot(storage: SlotStorage, name: string): TrackDefinition | null {
+  const json = readSlots(storage)[name] ?? (name === LEGACY_SLOT_NAME ? storage.getItem(LEGACY_KEY) : null);
+  return json ? parseTrackDefinition(json) : null;
+}
@@ -4,9 +4,18 @@ export type TuningValues = {
   driveBiasFront01: number;
   showArrows: boolean;
   manualTransmission: boolean;
+  launchControl: boolean;
+  pacejkaTires: boolean;
+  // Driving assists: 0 = off, 1 = low, 2 = high.
+  absLevel: number;
+  tractionControlLevel: number;
+  stabilityLevel: number;
+  // Pacenote callouts for the driver; a co-op navigator always has them.
+  pacenotes: boolean;
 };
 
-import { defaultCarParams } from "../sim/car";
+import { ASSIST_LEVEL_LABELS } from "../sim/assists";
+import { defaultCarParams, type CarParams } from "../sim/car";
 
 export class TuningPanel {
   readonly values: TuningValues;
@@ -14,6 +23,7 @@ export class TuningPanel {
   private readonly root: HTMLDivElement;
   private readonly sliders: Record<string, HTMLInputElement> = {};
   private readonly labels: Record<string, HTMLSpanElement> = {};
+  private tireCheckbox: HTMLInputElement | null = null;
 
   constructor(container: HTMLElement, initial?: Partial<TuningValues>) {
     const carDefaults = defaultCarParams();
@@ -22,7 +32,13 @@ export class TuningPanel {
       maxSteerDeg: initial?.maxSteerDeg ?? (carDefaults.maxSteerRad * 180) / Math.PI,
       driveBiasFront01: initial?.driveBiasFront01 ?? carDefaults.driveBiasFront,
       showArrows: initial?.showArrows ?? false,
-      manualTransmission: initial?.manualTransmission ?? false // Automatic is default
+      manualTransmission: initial?.manualTransmission ?? false, // Automatic is default
+      launchControl: initial?.launchControl ?? true,
+      pacejkaTires: initial?.pacejkaTires ?? carDefaults.tireModel === "pacejka",
+      absLevel: initial?.absLevel ?? 0,
+      tractionControlLevel: initial?.tractionControlLevel ?? 0,
+      stabilityLevel: initial?.stabilityLevel ?? 0,
+      pacenotes: initial?.pacenotes ?? false
     };
 
     this.root = document.createElement("div");
@@ -52,6 +68,13 @@ export class TuningPanel {
     this.root.appendChild(
       this.sliderRow("driveBiasFront01", "FWD %", 0, 1, 0.01, this.values.driveBiasFront01)
     );
+    this.root.appendChild(this.sliderRow("absLevel", "ABS", 0, 2, 1, this.values.absLevel));
+    this.root.appendChild(
+      this.sliderRow("tractionControlLevel", "Traction control", 0, 2, 1, this.values.tractionControlLevel)
+    );
+    this.root.appendChild(
+      this.sliderRow("stabilityLevel", "Stability control", 0, 2, 1, this.values.stabilityLevel)
+    );
 
     // Manual transmission checkbox
     const manualRow = document.createElement("label");
@@ -74,6 +97,48 @@ export class TuningPanel {
     manualRow.appendChild(manualTxt);
     this.root.appendChild(manualRow);
 
+    // Launch control checkbox
+    const launchRow = document.createElement("label");
+    launchRow.style.display = "flex";
+    launchRow.style.alignItems = "center";
+    launchRow.style.gap = "8px";
+    launchRow.style.marginTop = "8px";
+    launchRow.style.userSelect = "none";
+
+    const launchCb = document.createElement("input");
+    launchCb.type = "checkbox";
+    launchCb.checked = this.values.launchControl;
+    launchCb.addEventListener("change", () => {
+      this.values.launchControl = launchCb.checked;
+    });
+    launchRow.appendChild(launchCb);
+
+    const launchTxt = document.createElement("span");
+    launchTxt.textContent = "Launch control + anti-lag (brake+gas at start)";
+    launchRow.appendChild(launchTxt);
+    this.root.appendChild(launchRow);
+
+    // Pacenotes checkbox
+    const notesRow = document.createElement("label");
+    notesRow.style.display = "flex";
+    notesRow.style.alignItems = "center";
+    notesRow.style.gap = "8px";
+    notesRow.style.marginTop = "8px";
+    notesRow.style.userSelect = "none";
+
+    const notesCb = document.createElement("input");
+    notesCb.type = "checkbox";
+    notesCb.checked = this.values.pacenotes;
+    notesCb.addEventListener("change", () => {
+      this.values.pacenotes = notesCb.checked;
+    });
+    notesRow.appendChild(notesCb);
+
+    const notesTxt = document.createElement("span");
+    notesTxt.textContent = "Pacenotes assist (P)";
+    notesRow.appendChild(notesTxt);
+    this.root.appendChild(notesRow);
+
     // Show arrows checkbox
     const arrowsRow = document.createElement("label");
     arrowsRow.style.display = "flex";
@@ -95,6 +160,28 @@ export class TuningPanel {
     arrowsRow.appendChild(txt);
     this.root.appendChild(arrowsRow);
 
+    // Tire model checkbox
+    const tireRow = document.createElement("label");
+    tireRow.style.display = "flex";
+    tireRow.style.alignItems = "center";
+    tireRow.style.gap = "8px";
+    tireRow.style.marginTop = "8px";
+    tireRow.style.userSelect = "none";
+
+    const tireCb = document.createElement("input");
+    tireCb.type = "checkbox";
+    tireCb.checked = this.values.pacejkaTires;
+    tireCb.addEventListener("change", () => {
+      this.values.pacejkaTires = tireCb.checked;
+    });
+    tireRow.appendChild(tireCb);
+    this.tireCheckbox = tireCb;
+
+    const tireTxt = document.createElement("span");
+    tireTxt.textContent = "Pacejka tires (per-surface curves)";
+    tireRow.appendChild(tireTxt);
+    this.root.appendChild(tireRow);
+
     container.appendChild(this.root);
     this.refreshLabels();
 
@@ -108,6 +195,24 @@ export class TuningPanel {
     if (input instanceof HTMLInputElement) input.checked = on;
   }
 
+  // Reset the sliders to a freshly selected vehicle's values.
+  loadCarParams(car: CarParams): void {
+    this.values.engineForceN = car.engineForceN;
+    this.values.maxSteerDeg = (car.maxSteerRad * 180) / Math.PI;
+    this.values.driveBiasFront01 = car.driveBiasFront;
+    this.values.pacejkaTires = car.tireModel === "pacejka";
+
+    const set = (key: keyof TuningValues, v: number) => {
+      const slider = this.sliders[String(key)];
+      if (slider) slider.value = String(v);
+    };
+    set("engineForceN", this.values.engineForceN);
+    set("maxSteerDeg", this.values.maxSteerDeg);
+    set("driveBiasFront01", this.values.driveBiasFront01);
+    if (this.tireCheckbox) this.tireCheckbox.checked = this.values.pacejkaTires;
+    this.refreshLabels();
+  }
+
   setVisibility(visible: boolean): void {
     this.root.style.display = visible ? "block" : "none";
   }
@@ -192,5 +297,10 @@ export class TuningPanel {
 
     const bias = this.labels["driveBiasFront01"];
     if (bias) bias.textContent = `${Math.round(this.values.driveBiasFront01 * 100)}%`;
+
+    for (const key of ["absLevel", "tractionControlLevel", "stabilityLevel"] as const) {
+      const label = this.labels[key];
+      if (label) label.textContent = ASSIST_LEVEL_LABELS[this.values[key]] ?? "OFF";
+    }
   }
 }
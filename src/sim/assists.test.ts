@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { applyAssists, assistsTag, createAssistState, defaultAssistSettings, normalizeAssistsTag, type AssistSettings } from "./assists";
+import { createCarState, defaultCarParams, stepCar, type CarState, type CarTelemetry } from "./car";
+
+const ALL_HIGH: AssistSettings = { abs: 2, tractionControl: 2, stability: 2 };
+
+// Drive the car for a second and a half with the assists in the loop, the way the game does.
+function drive(
+  settings: AssistSettings,
+  start: CarState,
+  input: (i: number) => { steer: number; throttle: number; brake: number; driveTorqueNm?: number },
+  frictionMu: number
+) {
+  const params = defaultCarParams();
+  let car = start;
+  let assist = createAssistState();
+  let telemetry: CarTelemetry = stepCar(car, params, { steer: 0, throttle: 0, brake: 0, handbrake: 0 }, 1 / 120).telemetry;
+  let lockedSteps = 0;
+  let maxSpin = 0;
+  let maxLateYawRadS = 0;
+  for (let i = 0; i < 180; i++) {
+    const pedals = input(i);
+    const aided = applyAssists(settings, assist, { ...pedals, handbrake: 0 }, car, params, telemetry, frictionMu, 1 / 120);
+    assist = aided.state;
+    const driveTorqueNm = pedals.driveTorqueNm !== undefined ? pedals.driveTorqueNm * (aided.throttle / Math.max(1e-6, pedals.throttle)) : undefined;
+    const stepped = stepCar(
+      car,
+      params,
+      { ...pedals, throttle: aided.throttle, handbrake: 0, driveTorqueNm, brakeScale: aided.brakeScale, extraBrakeN: aided.extraBrakeN },
+      1 / 120,
+      { frictionMu }
+    );
+    car = stepped.state;
+    telemetry = stepped.telemetry;
+    if (telemetry.wheels.some((w) => w.slipRatio < -0.5)) lockedSteps++;
+    maxSpin = Math.max(maxSpin, ...telemetry.wheels.map((w) => w.slipRatio));
+    if (i > 90) maxLateYawRadS = Math.max(maxLateYawRadS, Math.abs(car.yawRateRadS));
+  }
+  return { car, lockedSteps, maxSpin, maxLateYawRadS };
+}
+
+describe("driving assists", () => {
+  it("ABS keeps the wheels turning under full braking", () => {
+    const start = { ...createCarState(), vxMS: 25 };
+    const brake = () => ({ steer: 0, throttle: 0, brake: 1 });
+    expect(drive(defaultAssistSettings(), start, brake, 0.5).lockedSteps).toBeGreaterThan(100);
+    expect(drive({ ...defaultAssistSettings(), abs: 2 }, start, brake, 0.5).lockedSteps).toBeLessThan(20);
+  });
+
+  it("traction control cuts wheelspin on launch", () => {
+    const launch = () => ({ steer: 0, throttle: 1, brake: 0, driveTorqueNm: 3000 });
+    const off = drive(defaultAssistSettings(), createCarState(), launch, 0.6);
+    const on = drive({ ...defaultAssistSettings(), tractionControl: 2 }, createCarState(), launch, 0.6);
+    expect(off.maxSpin).toBeGreaterThan(5);
+    expect(on.maxSpin).toBeLessThan(1);
+    expect(on.car.xM).toBeGreaterThanOrEqual(off.car.xM * 0.95);
+  });
+
+  it("stability control catches the oversteer after a swerve", () => {
+    const start = { ...createCarState(), vxMS: 25 };
+    const swerve = (i: number) => ({ steer: i < 40 ? 1 : i < 90 ? -1 : 0, throttle: 0.5, brake: 0, driveTorqueNm: 300 });
+    const off = drive(defaultAssistSettings(), start, swerve, 0.7);
+    const on = drive({ ...defaultAssistSettings(), stability: 2 }, start, swerve, 0.7);
+    expect(on.maxLateYawRadS).toBeLessThan(off.maxLateYawRadS * 0.75);
+    expect(Math.abs(on.car.headingRad)).toBeLessThan(Math.abs(off.car.headingRad));
+  });
+
+  it("does nothing when every assist is off", () => {
+    const car = { ...createCarState(), vxMS: 20, yawRateRadS: 2 };
+    const telemetry = stepCar(car, defaultCarParams(), { steer: 0, throttle: 0, brake: 1, handbrake: 0 }, 1 / 120).telemetry;
+    const out = applyAssists(defaultAssistSettings(), createAssistState(), { throttle: 0.7, brake: 1, handbrake: 0 }, car, defaultCarParams(), telemetry, 1, 1 / 120);
+    expect(out.throttle).toBe(0.7);
+    expect(out.brakeScale).toEqual([1, 1, 1, 1]);
+    expect(out.extraBrakeN).toEqual([0, 0, 0, 0]);
+    expect(assistsTag(defaultAssistSettings())).toBe("");
+    expect(assistsTag(ALL_HIGH)).toBe("ABS2 TC2 ESC2");
+    expect(assistsTag(defaultAssistSettings(), true)).toBe("PN");
+  });
+
+  it("keeps every part of a tag the server is sent, pacenotes included", () => {
+    expect(normalizeAssistsTag(assistsTag(ALL_HIGH, true))).toBe("ABS2 TC2 ESC2 PN");
+    expect(normalizeAssistsTag(" pn  abs1 PN ")).toBe("PN ABS1");
+    expect(normalizeAssistsTag("ABS3 TC0 PNX <b>")).toBe("");
+    expect(normalizeAssistsTag(undefined)).toBe("");
+  });
+});
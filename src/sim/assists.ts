@@ -0,0 +1,162 @@
+import { clamp } from "../runtime/math";
+import type { CarParams, CarState, CarTelemetry, WheelValues } from "./car";
+
+// Driving aids between the pedals and the car. Like the real thing they react to what the wheel
+// sensors read a moment ago (the previous step's telemetry), so they pulse rather than predict.
+export type AssistLevel = 0 | 1 | 2; // off, low, high
+
+export type AssistSettings = {
+  abs: AssistLevel;
+  tractionControl: AssistLevel;
+  stability: AssistLevel;
+};
+
+export type AssistState = {
+  brakeScale: WheelValues; // ABS: share of the pedal each wheel gets
+  throttleScale: number; // traction control cut
+};
+
+export type AssistActivity = {
+  abs: boolean;
+  tractionControl: boolean;
+  stability: boolean;
+};
+
+export const ASSIST_LEVEL_LABELS: readonly string[] = ["OFF", "LOW", "HIGH"];
+
+const G = 9.81;
+// Below this the slip readings are noise and nothing needs catching.
+const ASSIST_MIN_SPEED_MS = 2;
+// Per level (index 1 = low, 2 = high). Low steps in late and gently; high keeps the car tidy.
+const ABS_LOCK_SLIP = [Infinity, 0.3, 0.15];
+const TC_SPIN_SLIP = [Infinity, 0.35, 0.18];
+const TC_MIN_THROTTLE = [1, 0.45, 0.15];
+const ESC_YAW_MARGIN_RAD_S = [Infinity, 0.35, 0.15];
+const ESC_GAIN_PER_RAD_S = [0, 0.5, 1.0];
+// Stability braking on one front wheel tops out at this share of the car's weight.
+const ESC_MAX_BRAKE_SHARE = 0.35;
+// ABS releases fast and reapplies slower; traction control likewise.
+const ABS_RELEASE_PER_S = 14;
+const ABS_APPLY_PER_S = 6;
+const TC_CUT_PER_S = 8;
+const TC_RESTORE_PER_S = 3;
+
+export function defaultAssistSettings(): AssistSettings {
+  return { abs: 0, tractionControl: 0, stability: 0 };
+}
+
+export function createAssistState(): AssistState {
+  return { brakeScale: [1, 1, 1, 1], throttleScale: 1 };
+}
+
+/**
+ * Short tag for leaderboards, e.g. "ABS2 TC1"; empty when every assist is off. `pacenotes` adds "PN" for a
+ * driver who had the callouts on screen.
+ */
+export function assistsTag(settings: AssistSettings, pacenotes: boolean = false): string {
+  const parts: string[] = [];
+  if (settings.abs > 0) parts.push(`ABS${settings.abs}`);
+  if (settings.tractionControl > 0) parts.push(`TC${settings.tractionControl}`);
+  if (settings.stability > 0) parts.push(`ESC${settings.stability}`);
+  if (pacenotes) parts.push("PN");
+  return parts.join(" ");
+}
+
+/**
+ * A leaderboard tag as a client sent it, cut down to the parts assistsTag writes (each once, in the
+ * order sent); empty for none.
+ */
+export function normalizeAssistsTag(raw: unknown): string {
+  const v = (raw ?? "").toString().trim().toUpperCase();
+  const parts = v.split(/\s+/).filter((p) => /^((ABS|TC|ESC)[12]|PN)$/.test(p));
+  return [...new Set(parts)].join(" ");
+}
+
+/** The strongest level of each assist across two settings; a run is tagged with the most help it had. */
+export function maxAssistSettings(a: AssistSettings, b: AssistSettings): AssistSettings {
+  return {
+    abs: Math.max(a.abs, b.abs) as AssistLevel,
+    tractionControl: Math.max(a.tractionControl, b.tractionControl) as AssistLevel,
+    stability: Math.max(a.stability, b.stability) as AssistLevel
+  };
+}
+
+/**
+ * Yaw rate the driver is asking for: the kinematic rate for the current steer angle, capped by what
+ * the tires can hold on this surface.
+ */
+export function referenceYawRateRadS(car: CarState, params: CarParams, steerAngleRad: number, frictionMu: number): number {
+  const vx = car.vxMS;
+  const kinematic = (vx * Math.tan(steerAngleRad)) / Math.max(0.5, params.wheelbaseM);
+  const limit = (Math.max(0.1, frictionMu) * G) / Math.max(1, Math.abs(vx));
+  return clamp(kinematic, -limit, limit);
+}
+
+/**
+ * One step of the assists. Returns the throttle to send to the engine, the per-wheel brake controls
+ * for the car and which assists are intervening (for the dashboard lights).
+ */
+export function applyAssists(
+  settings: AssistSettings,
+  state: AssistState,
+  input: { throttle: number; brake: number; handbrake: number },
+  car: CarState,
+  params: CarParams,
+  telemetry: CarTelemetry,
+  frictionMu: number,
+  dtSeconds: number
+): { state: AssistState; throttle: number; brakeScale: WheelValues; extraBrakeN: WheelValues; active: AssistActivity } {
+  const speedMS = Math.hypot(car.vxMS, car.vyMS);
+  const moving = speedMS > ASSIST_MIN_SPEED_MS && car.vxMS > 0;
+  const wheels = telemetry.wheels;
+
+  // ABS: a wheel slipping backwards past the threshold is about to lock; let it spin back up.
+  const brakeScale = state.brakeScale.map((scale, i) => {
+    if (settings.abs === 0 || input.brake <= 0 || !moving) return 1;
+    const locking = wheels[i].slipRatio < -ABS_LOCK_SLIP[settings.abs];
+    return clamp(scale + (locking ? -ABS_RELEASE_PER_S : ABS_APPLY_PER_S) * dtSeconds, 0, 1);
+  }) as WheelValues;
+  const absActive = brakeScale.some((s) => s < 0.98);
+
+  // Traction control: driven wheels turning well past the ground cut the throttle.
+  let tcScale = 1;
+  if (settings.tractionControl > 0 && input.throttle > 0) {
+    const spin = Math.max(...wheels.map((w) => (w.driveTorqueNm > 0 ? w.slipRatio : 0)));
+    const spinning = spin > TC_SPIN_SLIP[settings.tractionControl];
+    tcScale = clamp(
+      state.throttleScale + (spinning ? -TC_CUT_PER_S : TC_RESTORE_PER_S) * dtSeconds,
+      TC_MIN_THROTTLE[settings.tractionControl],
+      1
+    );
+  }
+  const tcActive = tcScale < 0.98;
+  let throttleScale = tcScale;
+
+  // Stability control: rotating faster than the steering asks for is oversteer. Braking the outside
+  // front wheel pulls the nose back out. Left alone while the handbrake is up, so it can still be
+  // used to turn the car on purpose.
+  const extraBrakeN: WheelValues = [0, 0, 0, 0];
+  let escActive = false;
+  if (settings.stability > 0 && moving && input.handbrake < 0.1) {
+    const yawRefRadS = referenceYawRateRadS(car, params, telemetry.steerAngleRad, frictionMu);
+    const r = car.yawRateRadS;
+    const excessRadS = Math.abs(r - yawRefRadS) - ESC_YAW_MARGIN_RAD_S[settings.stability];
+    if (Math.abs(r) > Math.abs(yawRefRadS) && excessRadS > 0) {
+      const weightN = params.massKg * G;
+      const brakeN = Math.min(ESC_MAX_BRAKE_SHARE * weightN, ESC_GAIN_PER_RAD_S[settings.stability] * excessRadS * weightN);
+      // Turning left too fast: brake the front right; turning right: the front left.
+      extraBrakeN[r > 0 ? 1 : 0] = brakeN;
+      escActive = true;
+      // Power only makes a spin worse.
+      throttleScale *= 1 - 0.5 * clamp(brakeN / (ESC_MAX_BRAKE_SHARE * weightN), 0, 1);
+    }
+  }
+
+  return {
+    state: { brakeScale, throttleScale: tcScale },
+    throttle: input.throttle * throttleScale,
+    brakeScale,
+    extraBrakeN,
+    active: { abs: absActive, tractionControl: tcActive, stability: escActive }
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { createCarState, defaultCarParams, stepCar } from "./car";
+import { createCarState, defaultCarParams, stepCar, stepCarBicycle, stepCarFourWheel } from "./car";
+import { tireCoefficientsForSurface } from "./surface";
 
 describe("car physics sanity", () => {
   it("does not generate NaNs", () => {
@@ -122,3 +123,83 @@ describe("car physics sanity", () => {
     expect(turning.maxAbsYDelta).toBeGreaterThan(6.0);
   });
 });
+
+describe("four-wheel model", () => {
+  const dt = 1 / 120;
+  const env = { frictionMu: 1.10, rollingResistanceN: 260, aeroDragNPerMS2: 10 };
+
+  it("matches the bicycle model in a straight line", () => {
+    const bike = defaultCarParams();
+    const fourWheel = { ...defaultCarParams(), vehicleModel: "fourWheel" as const };
+
+    let a = createCarState();
+    let b = createCarState();
+    for (let i = 0; i < 360; i++) {
+      const controls = { steer: 0, throttle: i < 240 ? 1 : 0, brake: i < 240 ? 0 : 1, handbrake: 0 };
+      a = stepCarBicycle(a, bike, controls, dt, env).state;
+      b = stepCarFourWheel(b, fourWheel, controls, dt, env).state;
+    }
+
+    expect(b.xM).toBeCloseTo(a.xM, 3);
+    expect(b.vxMS).toBeCloseTo(a.vxMS, 3);
+    expect(Math.abs(b.yM)).toBeLessThan(1e-6);
+  });
+
+  it("moves load onto the outside wheels in a turn", () => {
+    const params = { ...defaultCarParams(), vehicleModel: "fourWheel" as const };
+    let cur = createCarState();
+    cur.vxMS = 18;
+    let telemetry = stepCar(cur, params, { steer: 0.4, throttle: 0.3, brake: 0, handbrake: 0 }, dt, env).telemetry;
+    for (let i = 0; i < 240; i++) {
+      const out = stepCar(cur, params, { steer: 0.4, throttle: 0.3, brake: 0, handbrake: 0 }, dt, env);
+      cur = out.state;
+      telemetry = out.telemetry;
+    }
+
+    // Positive steer turns left, so the right-hand wheels are on the outside.
+    expect(cur.yawRateRadS).toBeGreaterThan(0.2);
+    const [fl, fr, rl, rr] = telemetry.wheels;
+    expect(fr.normalLoadN).toBeGreaterThan(fl.normalLoadN * 1.3);
+    expect(rr.normalLoadN).toBeGreaterThan(rl.normalLoadN * 1.3);
+
+    const totalN = telemetry.wheels.reduce((sum, w) => sum + w.normalLoadN, 0);
+    expect(totalN).toBeCloseTo(telemetry.normalLoadFrontN + telemetry.normalLoadRearN, 3);
+  });
+
+  it("locks the unloaded inside wheel first when braking in a turn", () => {
+    const params = { ...defaultCarParams(), vehicleModel: "fourWheel" as const };
+    let cur = createCarState();
+    cur.vxMS = 20;
+    for (let i = 0; i < 240; i++) {
+      cur = stepCar(cur, params, { steer: 0.4, throttle: 0.2, brake: 0, handbrake: 0 }, dt, env).state;
+    }
+
+    // Wheels have inertia now, so give the brakes a few steps to stop the inside wheel.
+    let wheels = stepCar(cur, params, { steer: 0.4, throttle: 0, brake: 0.65, handbrake: 0 }, dt, env).telemetry.wheels;
+    for (let i = 0; i < 30 && wheels[0].angularVelocityRadS !== 0; i++) {
+      const out = stepCar(cur, params, { steer: 0.4, throttle: 0, brake: 0.65, handbrake: 0 }, dt, env);
+      cur = out.state;
+      wheels = out.telemetry.wheels;
+    }
+    const [fl, fr] = wheels;
+    expect(fl.slipRatio).toBe(-1);
+    expect(fr.slipRatio).toBeGreaterThan(-1);
+  });
+});
+
+describe("pacejka tire model in stepCar", () => {
+  it("still turns under throttle on tarmac and gravel", () => {
+    const params = { ...defaultCarParams(), tireModel: "pacejka" as const };
+    const dt = 1 / 120;
+    for (const name of ["tarmac", "gravel"] as const) {
+      const env = { frictionMu: name === "tarmac" ? 1.1 : 0.93, rollingResistanceN: 260, tire: tireCoefficientsForSurface(name) };
+      let cur = createCarState();
+      cur.vxMS = 12;
+      for (let i = 0; i < 240; i++) {
+        cur = stepCar(cur, params, { steer: 1, throttle: 1, brake: 0, handbrake: 0 }, dt, env).state;
+      }
+      expect(Number.isFinite(cur.xM)).toBe(true);
+      expect(cur.headingRad).toBeGreaterThan(1.0);
+    }
+  });
+});
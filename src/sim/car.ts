@@ -1,23 +1,48 @@
 import { clamp } from "../runtime/math";
+import {
+  PEAK_SLIP_RATIO,
+  applyWheelBrake,
+  coupleDifferential,
+  longitudinalForceFromSlip,
+  slipRatio,
+  stepWheelSpin,
+  type DifferentialParams,
+  type WheelSpinInput
+} from "./driveline";
+import { tireModelForKind, type TireCoefficients, type TireModelKind } from "./tire";
+import { windForceBody } from "./wind";
+
+// "bicycle" lumps each axle into one tire; "fourWheel" resolves each wheel with lateral load transfer.
+export type VehicleModel = "bicycle" | "fourWheel";
 
 export type CarParams = {
+  vehicleModel: VehicleModel;
+  tireModel: TireModelKind;
   massKg: number;
   inertiaYawKgM2: number;
   wheelbaseM: number;
   cgToFrontAxleM: number;
   cgToRearAxleM: number;
   cgHeightM: number;
+  trackWidthM: number; // left-right wheel spacing (four-wheel model only)
+  rollStiffnessFront01: number; // 0..1, share of lateral load transfer taken by the front axle
   corneringStiffnessFrontNPerRad: number;
   corneringStiffnessRearNPerRad: number;
   frictionMu: number;
   maxSteerRad: number;
+  steerOffsetRad: number; // wheel angle with the steering centered (misalignment; + pulls left)
   maxSteerRateRadS: number;
-  engineForceN: number;
+  engineForceN: number; // arcade drive force, only used when controls carry no driveTorqueNm
   engineFadeSpeedMS: number;
   brakeForceN: number;
   handbrakeForceN: number;
   handbrakeRearGripScale: number; // 0..1 (lower = more slide)
-  driveBiasFront: number; // 0 = RWD, 1 = FWD
+  driveBiasFront: number; // center differential static split: 0 = RWD, 1 = FWD
+  centerDiff: DifferentialParams; // only used when both axles are driven
+  frontDiff: DifferentialParams;
+  rearDiff: DifferentialParams;
+  wheelRadiusM: number;
+  wheelInertiaKgM2: number; // per wheel, including its share of the driveline
   brakeBiasFront: number; // 0 = rear-only, 1 = front-only
   relaxationLengthFrontM: number;
   relaxationLengthRearM: number;
@@ -42,8 +67,21 @@ export type CarControls = {
   throttle: number; // [-1..1] (reverse allowed)
   brake: number; // [0..1]
   handbrake: number; // [0..1]
+  // Torque into the center differential from the engine and gearbox. When absent, throttle drives the
+  // wheels through the old arcade engineForceN curve.
+  driveTorqueNm?: number;
+  // Engine inertia seen at the wheels while the clutch is locked; shared between the driven axles.
+  drivelineInertiaKgM2?: number;
+  // Driving assists, per wheel. brakeScale is the share of the pedal each wheel gets (ABS lets go of a
+  // locking wheel); extraBrakeN is brake force on top of the pedal (stability control).
+  brakeScale?: WheelValues;
+  extraBrakeN?: WheelValues;
 };
 
+// Front-left, front-right, rear-left, rear-right.
+export type WheelValues = [number, number, number, number];
+export type WheelOmegas = WheelValues;
+
 export type CarState = {
   xM: number;
   yM: number;
@@ -61,8 +99,25 @@ export type CarState = {
   // Tire slip angle state (relaxation).
   alphaFrontRad: number;
   alphaRearRad: number;
+
+  // Wheel spin (rad/s). Missing on states created before wheels had their own speed; those start
+  // free-rolling.
+  wheelOmegaRadS?: WheelOmegas;
+};
+
+export type WheelTelemetry = {
+  normalLoadN: number;
+  slipAngleRad: number;
+  slipRatio: number; // + = driving, -1 = locked
+  angularVelocityRadS: number;
+  driveTorqueNm: number;
+  longitudinalForceN: number;
+  lateralForceN: number;
 };
 
+// Front-left, front-right, rear-left, rear-right.
+export type CarWheelsTelemetry = [WheelTelemetry, WheelTelemetry, WheelTelemetry, WheelTelemetry];
+
 export type CarTelemetry = {
   steerAngleRad: number;
   slipAngleFrontInstantRad: number;
@@ -76,6 +131,7 @@ export type CarTelemetry = {
   normalLoadFrontN: number;
   normalLoadRearN: number;
   wheelspinIntensity: number; // 0..1, how much wheels are spinning beyond grip
+  wheels: CarWheelsTelemetry;
 };
 
 export function defaultCarParams(): CarParams {
@@ -83,16 +139,21 @@ export function defaultCarParams(): CarParams {
   const cgToFrontAxleM = 1.1;
   const cgToRearAxleM = wheelbaseM - cgToFrontAxleM;
   return {
+    vehicleModel: "bicycle",
+    tireModel: "linear",
     massKg: 1080,
     inertiaYawKgM2: 1350,
     wheelbaseM,
     cgToFrontAxleM,
     cgToRearAxleM,
     cgHeightM: 0.55,
+    trackWidthM: 1.5,
+    rollStiffnessFront01: 0.55,
     corneringStiffnessFrontNPerRad: 105000,
     corneringStiffnessRearNPerRad: 98000,
     frictionMu: 1.22,
     maxSteerRad: 1.0,
+    steerOffsetRad: 0,
     maxSteerRateRadS: 8.0,
     engineForceN: 30500,
     engineFadeSpeedMS: 58,
@@ -100,6 +161,11 @@ export function defaultCarParams(): CarParams {
     handbrakeForceN: 7000,
     handbrakeRearGripScale: 0.55,
     driveBiasFront: 0.70, // 70% front, 30% rear (mostly FWD)
+    centerDiff: { type: "lsd", preloadNm: 150, lockingCoeff: 0.25 },
+    frontDiff: { type: "open", preloadNm: 0, lockingCoeff: 0 },
+    rearDiff: { type: "lsd", preloadNm: 80, lockingCoeff: 0.3 },
+    wheelRadiusM: 0.32,
+    wheelInertiaKgM2: 1.2,
     brakeBiasFront: 0.65,
     // Shorter relaxation => less "springy" snap, still enough transient for flicks.
     relaxationLengthFrontM: 0.7,
@@ -138,19 +204,456 @@ export function createCarState(): CarState {
   };
 }
 
+export function createWheelsTelemetry(): CarWheelsTelemetry {
+  const wheel = (): WheelTelemetry => ({
+    normalLoadN: 0,
+    slipAngleRad: 0,
+    slipRatio: 0,
+    angularVelocityRadS: 0,
+    driveTorqueNm: 0,
+    longitudinalForceN: 0,
+    lateralForceN: 0
+  });
+  return [wheel(), wheel(), wheel(), wheel()];
+}
+
+type CarEnvironment = {
+  frictionMu?: number;
+  rollingResistanceN?: number;
+  aeroDragNPerMS2?: number;
+  tire?: TireCoefficients; // surface force-curve shape (used by the Pacejka tire model)
+  // Per-axle multipliers on the surface friction (tire temperature and wear).
+  gripScaleFront?: number;
+  gripScaleRear?: number;
+  // Elevation: tire load multiplier from crests and dips (0 in the air) and gravity down the slope,
+  // in the body frame.
+  loadScale?: number;
+  gradeAccelXMS2?: number;
+  gradeAccelYMS2?: number;
+  // Wind: world-frame air velocity. Pushes the body sideways and turns it downwind (see wind.ts).
+  windXMS?: number;
+  windYMS?: number;
+};
+
+// Tarmac-like shape when the caller doesn't provide a surface.
+const DEFAULT_TIRE: TireCoefficients = { stiffnessScale: 1, shapeC: 1.35, curvatureE: -0.4 };
+
+// Wheel surface speed over ground speed (m/s) where the arcade drive force starts to cut.
+const LEGACY_SPIN_LIMIT_MS = 4;
+// Cornering stiffness grows less than linearly with load, so load transfer costs an axle grip.
+const TIRE_LOAD_SENSITIVITY_EXP = 0.8;
+
 export function stepCar(
   state: CarState,
   params: CarParams,
   controls: CarControls,
   dtSeconds: number,
-  environment?: { frictionMu?: number; rollingResistanceN?: number; aeroDragNPerMS2?: number }
+  environment?: CarEnvironment
+): { state: CarState; telemetry: CarTelemetry } {
+  return params.vehicleModel === "fourWheel"
+    ? stepCarFourWheel(state, params, controls, dtSeconds, environment)
+    : stepCarBicycle(state, params, controls, dtSeconds, environment);
+}
+
+/** Single-track model: each axle is one tire. Kept as the reference the four-wheel model is compared to. */
+export function stepCarBicycle(
+  state: CarState,
+  params: CarParams,
+  controls: CarControls,
+  dtSeconds: number,
+  environment?: CarEnvironment
+): { state: CarState; telemetry: CarTelemetry } {
+  const step = prepareStep(state, params, controls, dtSeconds, environment);
+  const {
+    muFront,
+    muRear,
+    steerAngleRad,
+    steerFrac01,
+    normalLoadFrontN,
+    normalLoadRearN,
+    alphaFrontRad,
+    alphaRearRad,
+    rearGripScale,
+    lowSpeedForceFade,
+    driveFrontNm,
+    driveRearNm,
+    brakeFrontNm,
+    brakeRearNm,
+    extraInertiaFront,
+    extraInertiaRear,
+    wheelOmegaRadS
+  } = step;
+
+  const a = params.cgToFrontAxleM;
+  const b = params.cgToRearAxleM;
+  const cosSteer = Math.cos(steerAngleRad);
+  const sinSteer = Math.sin(steerAngleRad);
+
+  // Each axle is one wheel carrying the axle's load, torque and twice the wheel inertia.
+  const frontInertia = 2 * params.wheelInertiaKgM2 + extraInertiaFront;
+  const rearInertia = 2 * params.wheelInertiaKgM2 + extraInertiaRear;
+  const maxFFront = muFront * normalLoadFrontN;
+  const maxFRear = muRear * normalLoadRearN;
+  // Assist: reserve some front tire capacity for lateral force when steering.
+  const fxLimitFront = maxFFront * lerp(1, clamp(params.frontFxLimitAtFullSteer01, 0.2, 1), steerFrac01);
+
+  const vxFrontWheelMS = state.vxMS * cosSteer + (state.vyMS + a * state.yawRateRadS) * sinSteer;
+  const vxRearWheelMS = state.vxMS;
+
+  const frontSpin: WheelSpinInput = {
+    omegaRadS: (wheelOmegaRadS[0] + wheelOmegaRadS[1]) * 0.5,
+    driveTorqueNm: driveFrontNm,
+    vxWheelMS: vxFrontWheelMS,
+    capacityN: fxLimitFront,
+    inertiaKgM2: frontInertia,
+    radiusM: params.wheelRadiusM
+  };
+  const rearSpin: WheelSpinInput = {
+    omegaRadS: (wheelOmegaRadS[2] + wheelOmegaRadS[3]) * 0.5,
+    driveTorqueNm: driveRearNm,
+    vxWheelMS: vxRearWheelMS,
+    capacityN: maxFRear,
+    inertiaKgM2: rearInertia,
+    radiusM: params.wheelRadiusM
+  };
+  let omegaFront = stepWheelSpin(frontSpin, dtSeconds);
+  let omegaRear = stepWheelSpin(rearSpin, dtSeconds);
+  if (hasCenterDifferential(params)) {
+    [omegaFront, omegaRear] = coupleDifferential(
+      params.centerDiff,
+      omegaFront,
+      omegaRear,
+      frontInertia,
+      rearInertia,
+      driveFrontNm + driveRearNm,
+      dtSeconds
+    );
+  }
+  omegaFront = applyWheelBrake(omegaFront, brakeFrontNm, frontSpin, dtSeconds);
+  omegaRear = applyWheelBrake(omegaRear, brakeRearNm, rearSpin, dtSeconds);
+
+  const slipRatioFront = slipRatio(omegaFront, params.wheelRadiusM, vxFrontWheelMS);
+  const slipRatioRear = slipRatio(omegaRear, params.wheelRadiusM, vxRearWheelMS);
+  const longitudinalForceFrontN = longitudinalForceFromSlip(slipRatioFront, fxLimitFront);
+  const longitudinalForceRearN = longitudinalForceFromSlip(slipRatioRear, maxFRear);
+
+  const tireModel = tireModelForKind(params.tireModel);
+  const tire = environment?.tire ?? DEFAULT_TIRE;
+  const ellipseP = Math.max(1.05, params.tractionEllipseP);
+
+  const lateralForceFrontN =
+    lowSpeedForceFade *
+    tireModel.lateralForceN({
+      slipAngleRad: alphaFrontRad,
+      longitudinalForceN: longitudinalForceFrontN,
+      normalLoadN: normalLoadFrontN,
+      frictionMu: muFront,
+      corneringStiffnessNPerRad: params.corneringStiffnessFrontNPerRad,
+      tractionEllipseP: ellipseP,
+      gripScale: 1,
+      coefficients: tire
+    });
+  const lateralForceRearN =
+    lowSpeedForceFade *
+    tireModel.lateralForceN({
+      slipAngleRad: alphaRearRad,
+      longitudinalForceN: longitudinalForceRearN,
+      normalLoadN: normalLoadRearN,
+      frictionMu: muRear,
+      corneringStiffnessNPerRad: params.corneringStiffnessRearNPerRad,
+      tractionEllipseP: ellipseP,
+      gripScale: rearGripScale,
+      coefficients: tire
+    });
+
+  // Resolve front wheel forces (steered) into the body frame.
+  const fxBodyN =
+    longitudinalForceRearN + longitudinalForceFrontN * cosSteer - lateralForceFrontN * sinSteer;
+  const fyBodyN =
+    lateralForceRearN + lateralForceFrontN * cosSteer + longitudinalForceFrontN * sinSteer;
+  // One axle has no left and right, so braking one side (stability control) is a yaw moment of its own.
+  const halfTrackM = Math.max(0.2, params.trackWidthM) * 0.5;
+  const sideBrakeN = clamp(step.brakeSideDiffN, -(maxFFront + maxFRear) * 0.5, (maxFFront + maxFRear) * 0.5);
+  const yawMomentNm =
+    a * (lateralForceFrontN * cosSteer + longitudinalForceFrontN * sinSteer) -
+    b * lateralForceRearN +
+    halfTrackM * sideBrakeN * step.longDir * lowSpeedForceFade;
+
+  const nextState = integrateBody(state, params, step, fxBodyN, fyBodyN, yawMomentNm, dtSeconds, [
+    omegaFront,
+    omegaFront,
+    omegaRear,
+    omegaRear
+  ]);
+
+  const halfWheel = (
+    normalLoadN: number,
+    slipAngleRad: number,
+    slip: number,
+    angularVelocityRadS: number,
+    driveTorqueNm: number,
+    longitudinalForceN: number,
+    lateralForceN: number
+  ): WheelTelemetry => ({
+    normalLoadN: normalLoadN * 0.5,
+    slipAngleRad,
+    slipRatio: slip,
+    angularVelocityRadS,
+    driveTorqueNm: driveTorqueNm * 0.5,
+    longitudinalForceN: longitudinalForceN * 0.5,
+    lateralForceN: lateralForceN * 0.5
+  });
+  const front = () =>
+    halfWheel(
+      normalLoadFrontN,
+      alphaFrontRad,
+      slipRatioFront,
+      omegaFront,
+      driveFrontNm,
+      longitudinalForceFrontN,
+      lateralForceFrontN
+    );
+  const rear = () =>
+    halfWheel(normalLoadRearN, alphaRearRad, slipRatioRear, omegaRear, driveRearNm, longitudinalForceRearN, lateralForceRearN);
+  const wheels: CarWheelsTelemetry = [front(), front(), rear(), rear()];
+
+  return {
+    state: nextState,
+    telemetry: {
+      steerAngleRad,
+      slipAngleFrontInstantRad: step.slipAngleFrontInstantRad,
+      slipAngleRearInstantRad: step.slipAngleRearInstantRad,
+      slipAngleFrontRad: alphaFrontRad,
+      slipAngleRearRad: alphaRearRad,
+      longitudinalForceFrontN,
+      longitudinalForceRearN,
+      lateralForceFrontN,
+      lateralForceRearN,
+      normalLoadFrontN,
+      normalLoadRearN,
+      wheelspinIntensity: wheelspinIntensityFromWheels(wheels),
+      wheels
+    }
+  };
+}
+
+/**
+ * Four-wheel model: same inputs and integration as the bicycle model, but each wheel has its own
+ * position, load, slip angle and traction ellipse. Body roll moves load to the outside wheels
+ * (cgHeightM over trackWidthM), which unloads the inside wheels and lets a single wheel lock or spin.
+ */
+export function stepCarFourWheel(
+  state: CarState,
+  params: CarParams,
+  controls: CarControls,
+  dtSeconds: number,
+  environment?: CarEnvironment
 ): { state: CarState; telemetry: CarTelemetry } {
+  const step = prepareStep(state, params, controls, dtSeconds, environment);
+  const {
+    muFront,
+    muRear,
+    steerAngleRad,
+    steerFrac01,
+    speedMS,
+    normalLoadFrontN,
+    normalLoadRearN,
+    alphaFrontRad,
+    alphaRearRad,
+    slipAngleFrontInstantRad,
+    slipAngleRearInstantRad,
+    rearGripScale,
+    lowSpeedForceFade,
+    driveFrontNm,
+    driveRearNm,
+    extraInertiaFront,
+    extraInertiaRear,
+    wheelOmegaRadS
+  } = step;
+
+  const a = params.cgToFrontAxleM;
+  const b = params.cgToRearAxleM;
+  const halfTrackM = Math.max(0.2, params.trackWidthM) * 0.5;
+
+  // Roll: lateral load transfer from the steady-state lateral accel (vx * r), split between axles by
+  // roll stiffness. Positive ay (turning left) moves load onto the right-hand wheels.
+  const ayMS2 = state.vxMS * state.yawRateRadS;
+  const lateralTransferN = (params.massKg * ayMS2 * params.cgHeightM) / (2 * halfTrackM);
+  const frontShare = clamp(params.rollStiffnessFront01, 0, 1);
+  const transferFrontN = clamp(lateralTransferN * frontShare, -normalLoadFrontN * 0.5, normalLoadFrontN * 0.5);
+  const transferRearN = clamp(lateralTransferN * (1 - frontShare), -normalLoadRearN * 0.5, normalLoadRearN * 0.5);
+
+  const layout = [
+    { xM: a, yM: halfTrackM, front: true, normalLoadN: normalLoadFrontN * 0.5 - transferFrontN },
+    { xM: a, yM: -halfTrackM, front: true, normalLoadN: normalLoadFrontN * 0.5 + transferFrontN },
+    { xM: -b, yM: halfTrackM, front: false, normalLoadN: normalLoadRearN * 0.5 - transferRearN },
+    { xM: -b, yM: -halfTrackM, front: false, normalLoadN: normalLoadRearN * 0.5 + transferRearN }
+  ];
+
+  const tireModel = tireModelForKind(params.tireModel);
+  const tire = environment?.tire ?? DEFAULT_TIRE;
+  const ellipseP = Math.max(1.05, params.tractionEllipseP);
+  const frontFxLimitScale = lerp(1, clamp(params.frontFxLimitAtFullSteer01, 0.2, 1), steerFrac01);
+  const cosSteer = Math.cos(steerAngleRad);
+  const sinSteer = Math.sin(steerAngleRad);
+  const slipDenom = Math.max(0.75, Math.abs(state.vxMS), speedMS);
+  const inertia = params.wheelInertiaKgM2;
+
+  // Wheel spin first: drive torque against the tire, then the differentials, then the brakes.
+  const spin: WheelSpinInput[] = layout.map((w, i) => {
+    const vxW = state.vxMS - state.yawRateRadS * w.yM;
+    const vyW = state.vyMS + state.yawRateRadS * w.xM;
+    const maxFN = (w.front ? muFront : muRear) * w.normalLoadN;
+    return {
+      omegaRadS: wheelOmegaRadS[i],
+      driveTorqueNm: (w.front ? driveFrontNm : driveRearNm) * 0.5,
+      vxWheelMS: w.front ? vxW * cosSteer + vyW * sinSteer : vxW,
+      capacityN: w.front ? maxFN * frontFxLimitScale : maxFN,
+      inertiaKgM2: inertia + (w.front ? extraInertiaFront : extraInertiaRear) * 0.5,
+      radiusM: params.wheelRadiusM
+    };
+  });
+  const omega = spin.map((w) => stepWheelSpin(w, dtSeconds));
+  if (params.driveBiasFront > 0) {
+    const i = spin[0].inertiaKgM2;
+    [omega[0], omega[1]] = coupleDifferential(params.frontDiff, omega[0], omega[1], i, i, driveFrontNm, dtSeconds);
+  }
+  if (params.driveBiasFront < 1) {
+    const i = spin[2].inertiaKgM2;
+    [omega[2], omega[3]] = coupleDifferential(params.rearDiff, omega[2], omega[3], i, i, driveRearNm, dtSeconds);
+  }
+  if (hasCenterDifferential(params)) {
+    const frontAxle = (omega[0] + omega[1]) * 0.5;
+    const rearAxle = (omega[2] + omega[3]) * 0.5;
+    const [frontAxleNext, rearAxleNext] = coupleDifferential(
+      params.centerDiff,
+      frontAxle,
+      rearAxle,
+      2 * spin[0].inertiaKgM2,
+      2 * spin[2].inertiaKgM2,
+      driveFrontNm + driveRearNm,
+      dtSeconds
+    );
+    omega[0] += frontAxleNext - frontAxle;
+    omega[1] += frontAxleNext - frontAxle;
+    omega[2] += rearAxleNext - rearAxle;
+    omega[3] += rearAxleNext - rearAxle;
+  }
+  for (let i = 0; i < spin.length; i++) {
+    omega[i] = applyWheelBrake(omega[i], step.brakeWheelNm[i], spin[i], dtSeconds);
+  }
+
+  let fxBodyN = 0;
+  let fyBodyN = 0;
+  let yawMomentNm = 0;
+  let longitudinalForceFrontN = 0;
+  let longitudinalForceRearN = 0;
+  let lateralForceFrontN = 0;
+  let lateralForceRearN = 0;
+  const wheels = createWheelsTelemetry();
+
+  for (let i = 0; i < layout.length; i++) {
+    const w = layout[i];
+    const steer = w.front ? steerAngleRad : 0;
+
+    // Each wheel sees the body velocity plus the yaw contribution at its own position. The axle's
+    // relaxed slip angle carries the tire lag; the per-wheel offset is applied on top of it.
+    const vxWheel = state.vxMS - state.yawRateRadS * w.yM;
+    const vyWheel = state.vyMS + state.yawRateRadS * w.xM;
+    const wheelInstantRad =
+      speedMS < 0.4 ? 0 : Math.atan2(vyWheel, Math.max(slipDenom, Math.abs(vxWheel))) - steer;
+    const alphaRad = w.front
+      ? alphaFrontRad + (wheelInstantRad - slipAngleFrontInstantRad)
+      : alphaRearRad + (wheelInstantRad - slipAngleRearInstantRad);
+
+    const slip = slipRatio(omega[i], params.wheelRadiusM, spin[i].vxWheelMS);
+    const fxN = longitudinalForceFromSlip(slip, spin[i].capacityN);
+
+    const axleLoadN = w.front ? normalLoadFrontN : normalLoadRearN;
+    const loadRatio = axleLoadN > 0 ? w.normalLoadN / (axleLoadN * 0.5) : 0;
+    const axleStiffness = w.front ? params.corneringStiffnessFrontNPerRad : params.corneringStiffnessRearNPerRad;
+    const fyN =
+      lowSpeedForceFade *
+      tireModel.lateralForceN({
+        slipAngleRad: alphaRad,
+        longitudinalForceN: fxN,
+        normalLoadN: w.normalLoadN,
+        frictionMu: w.front ? muFront : muRear,
+        corneringStiffnessNPerRad:
+          0.5 * axleStiffness * Math.pow(Math.max(0, loadRatio), TIRE_LOAD_SENSITIVITY_EXP),
+        tractionEllipseP: ellipseP,
+        gripScale: w.front ? 1 : rearGripScale,
+        coefficients: tire
+      });
+
+    const cos = w.front ? cosSteer : 1;
+    const sin = w.front ? sinSteer : 0;
+    const fxBody = fxN * cos - fyN * sin;
+    const fyBody = fyN * cos + fxN * sin;
+    fxBodyN += fxBody;
+    fyBodyN += fyBody;
+    yawMomentNm += w.xM * fyBody - w.yM * fxBody;
+
+    if (w.front) {
+      longitudinalForceFrontN += fxN;
+      lateralForceFrontN += fyN;
+    } else {
+      longitudinalForceRearN += fxN;
+      lateralForceRearN += fyN;
+    }
+
+    wheels[i] = {
+      normalLoadN: w.normalLoadN,
+      slipAngleRad: alphaRad,
+      slipRatio: slip,
+      angularVelocityRadS: omega[i],
+      driveTorqueNm: spin[i].driveTorqueNm,
+      longitudinalForceN: fxN,
+      lateralForceN: fyN
+    };
+  }
+
+  const nextState = integrateBody(state, params, step, fxBodyN, fyBodyN, yawMomentNm, dtSeconds, [
+    omega[0],
+    omega[1],
+    omega[2],
+    omega[3]
+  ]);
+
+  return {
+    state: nextState,
+    telemetry: {
+      steerAngleRad,
+      slipAngleFrontInstantRad,
+      slipAngleRearInstantRad,
+      slipAngleFrontRad: alphaFrontRad,
+      slipAngleRearRad: alphaRearRad,
+      longitudinalForceFrontN,
+      longitudinalForceRearN,
+      lateralForceFrontN,
+      lateralForceRearN,
+      normalLoadFrontN,
+      normalLoadRearN,
+      wheelspinIntensity: wheelspinIntensityFromWheels(wheels),
+      wheels
+    }
+  };
+}
+
+type PreparedStep = ReturnType<typeof prepareStep>;
+
+// Everything both vehicle models share up to the tire forces: steering, drive and brake torques, drag,
+// longitudinal load transfer and relaxed axle slip angles.
+function prepareStep(
+  state: CarState,
+  params: CarParams,
+  controls: CarControls,
+  dtSeconds: number,
+  environment?: CarEnvironment
+) {
   const surfaceMu = environment?.frictionMu ?? params.frictionMu;
-  
-  // On low-grip surfaces, cornering stiffness drops dramatically (tires respond less to slip angle).
-  // This makes ice/rain feel "floaty" and unpredictable rather than just slow.
-  // Blend: high-grip surfaces (mu~1.2) get full stiffness; ice (mu~0.1) gets ~15% stiffness.
-  const stiffnessScale = clamp(0.1 + 0.75 * (surfaceMu / 1.2), 0.1, 1.0);
+  const muFront = surfaceMu * Math.max(0, environment?.gripScaleFront ?? 1);
+  const muRear = surfaceMu * Math.max(0, environment?.gripScaleRear ?? 1);
 
   const steerInput = clamp(controls.steer, -1, 1);
   const throttle = clamp(controls.throttle, -1, 1);
@@ -161,12 +664,13 @@ export function stepCar(
   // Steering limit should follow momentum (speed), not throttle. Keep full steering at low speed
   // (e.g. launch) and reduce only after we're moving quickly.
   const steerLimiter = lerp(1, 0.38, clamp((speedMS - 5) / 20, 0, 1));
-  const steerCmdRad = steerInput * params.maxSteerRad * steerLimiter;
+  const steerCmdRad = steerInput * params.maxSteerRad * steerLimiter + params.steerOffsetRad;
   const maxDeltaSteer = Math.max(0.1, params.maxSteerRateRadS) * dtSeconds;
   const steerAngleRad = state.steerAngleRad + clamp(steerCmdRad - state.steerAngleRad, -maxDeltaSteer, maxDeltaSteer);
 
   const g = 9.81;
-  const weightN = params.massKg * g;
+  const loadScale = Math.max(0, environment?.loadScale ?? 1);
+  const weightN = params.massKg * g * loadScale;
   const normalLoadFrontStaticN = (weightN * params.cgToRearAxleM) / params.wheelbaseM;
   const normalLoadRearStaticN = (weightN * params.cgToFrontAxleM) / params.wheelbaseM;
 
@@ -175,36 +679,83 @@ export function stepCar(
   const r = state.yawRateRadS;
   const a = params.cgToFrontAxleM;
   const b = params.cgToRearAxleM;
+  const wheelRadiusM = Math.max(0.05, params.wheelRadiusM);
 
-  // Wheel longitudinal forces (requested). Important: aero drag is NOT a tire force, so it should
+  // Drive torque into the center differential. Without an engine/driveline upstream we fall back to
+  // the old arcade force (engineForceN with a speed fade). Aero drag is NOT a tire force, so it should
   // not steal lateral capacity via the traction circle.
-  const engineFade = clamp(1 - speedMS / Math.max(1, params.engineFadeSpeedMS), 0.35, 1);
   const steerFrac01 = clamp(Math.abs(steerAngleRad) / Math.max(1e-6, params.maxSteerRad), 0, 1);
   const torqueCut = 1 - clamp(params.torqueCutOnSteer01, 0, 1) * steerFrac01;
-  const engineScale = throttle < 0 ? Math.max(1, params.reverseEngineScale) : 1;
-  const driveTotalN = throttle * params.engineForceN * engineFade * engineScale * torqueCut;
+  // States from before wheel spin existed (tests, old replays, net snapshots) start free-rolling.
+  const wheelOmegaRadS = state.wheelOmegaRadS ?? freeRollingWheelOmega(state, params, wheelRadiusM);
+  let driveTotalNm: number;
+  if (controls.driveTorqueNm !== undefined) {
+    driveTotalNm = controls.driveTorqueNm * torqueCut;
+  } else {
+    const engineFade = clamp(1 - speedMS / Math.max(1, params.engineFadeSpeedMS), 0.35, 1);
+    const engineScale = throttle < 0 ? Math.max(1, params.reverseEngineScale) : 1;
+    // No engine here to hit a rev limiter, so cut drive once the wheels spin well past the ground.
+    const wheelSurfaceMS = Math.max(...wheelOmegaRadS.map(Math.abs)) * wheelRadiusM;
+    const overspeedCut = clamp(1 - (wheelSurfaceMS - speedMS - LEGACY_SPIN_LIMIT_MS) / LEGACY_SPIN_LIMIT_MS, 0, 1);
+    driveTotalNm =
+      throttle * params.engineForceN * engineFade * engineScale * torqueCut * overspeedCut * wheelRadiusM;
+  }
   const brakeTotalN = brake * params.brakeForceN;
 
-  const driveFrontN = driveTotalN * clamp(params.driveBiasFront, 0, 1);
-  const driveRearN = driveTotalN - driveFrontN;
-
-  const brakeFrontNMag = brakeTotalN * clamp(params.brakeBiasFront, 0, 1);
-  const brakeRearNMag = brakeTotalN - brakeFrontNMag + handbrake * params.handbrakeForceN;
+  // Static split of the center differential; LSD/locked centers move torque on top of this.
+  const driveFrontNm = driveTotalNm * clamp(params.driveBiasFront, 0, 1);
+  const driveRearNm = driveTotalNm - driveFrontNm;
+  const drivelineInertia = Math.max(0, controls.drivelineInertiaKgM2 ?? 0);
+  const extraInertiaFront = drivelineInertia * clamp(params.driveBiasFront, 0, 1);
+  const extraInertiaRear = drivelineInertia - extraInertiaFront;
+
+  const pedalFrontN = brakeTotalN * clamp(params.brakeBiasFront, 0, 1);
+  const pedalRearN = brakeTotalN - pedalFrontN;
+  const brakeScale = controls.brakeScale;
+  const extraBrakeN = controls.extraBrakeN;
+  const brakeWheelN = [0, 1, 2, 3].map((i) => {
+    const front = i < 2;
+    const pedalN = (front ? pedalFrontN : pedalRearN) * 0.5 * clamp(brakeScale?.[i] ?? 1, 0, 1);
+    const handbrakeN = front ? 0 : handbrake * params.handbrakeForceN * 0.5;
+    return pedalN + handbrakeN + Math.max(0, extraBrakeN?.[i] ?? 0);
+  });
+  const brakeFrontNMag = brakeWheelN[0] + brakeWheelN[1];
+  const brakeRearNMag = brakeWheelN[2] + brakeWheelN[3];
+  const brakeFrontNm = brakeFrontNMag * wheelRadiusM;
+  const brakeRearNm = brakeRearNMag * wheelRadiusM;
+  const brakeWheelNm = brakeWheelN.map((n) => n * wheelRadiusM) as WheelValues;
+  // Left minus right; only the bicycle model needs it, the four-wheel model brakes each wheel.
+  const brakeSideDiffN = brakeWheelN[0] + brakeWheelN[2] - brakeWheelN[1] - brakeWheelN[3];
 
   const longDir =
     Math.abs(state.vxMS) > 0.2 ? Math.sign(state.vxMS) : throttle !== 0 ? Math.sign(throttle) : 1;
-  const brakeFrontN = brakeFrontNMag * longDir;
-  const brakeRearN = brakeRearNMag * longDir;
 
-  const fxFrontRequestN = driveFrontN - brakeFrontN;
-  const fxRearRequestN = driveRearN - brakeRearN;
+  // Requested axle forces, only used to estimate longitudinal load transfer below.
+  const fxFrontRequestN = driveFrontNm / wheelRadiusM - brakeFrontNMag * longDir;
+  const fxRearRequestN = driveRearNm / wheelRadiusM - brakeRearNMag * longDir;
 
   // External drag (applied opposite body velocity; does not affect traction circle).
-  const rollingResistanceN = environment?.rollingResistanceN ?? params.rollingResistanceN;
+  const rollingResistanceN = (environment?.rollingResistanceN ?? params.rollingResistanceN) * Math.min(1, loadScale);
   const aeroDragNPerMS2 = environment?.aeroDragNPerMS2 ?? params.aeroDragNPerMS2;
   const dragMagN = (rollingResistanceN + aeroDragNPerMS2 * speedMS * speedMS) * clamp(speedMS / 0.5, 0, 1);
   const dragX = speedMS > 1e-6 ? -dragMagN * (state.vxMS / speedMS) : 0;
   const dragY = speedMS > 1e-6 ? -dragMagN * (state.vyMS / speedMS) : 0;
+  const lowSpeedBase = clamp(speedMS / Math.max(0.4, params.lowSpeedForceFadeMS), 0, 1);
+  const lowSpeedForceFade = lowSpeedBase * lowSpeedBase;
+  // Near a standstill the tire forces fade out, and nothing would stop the wind creeping the car along.
+  // Static grip takes over from them: sideways always, along the car as far as the brakes hold it.
+  const staticHold = 1 - lowSpeedForceFade;
+  const gripHoldN = (muFront * normalLoadFrontStaticN + muRear * normalLoadRearStaticN) * staticHold;
+  const brakeHoldN = Math.min(gripHoldN, (brakeFrontNMag + brakeRearNMag) * staticHold);
+  const wind =
+    environment?.windXMS || environment?.windYMS
+      ? pastStaticGrip(
+          windForceBody(environment.windXMS ?? 0, environment.windYMS ?? 0, state.headingRad, vx, vy, aeroDragNPerMS2),
+          brakeHoldN,
+          gripHoldN,
+          gripHoldN * Math.min(a, b)
+        )
+      : { xN: 0, yN: 0, yawMomentNm: 0 };
 
   // Weight transfer approximation from *realized* longitudinal accel (positive = accelerating).
   // Important: using the raw requested drive force here can massively over-unload the front axle on a
@@ -218,11 +769,10 @@ export function stepCar(
 
   // First pass: clamp longitudinal forces with static loads, then estimate ax from that.
   const cosSteer0 = Math.cos(steerAngleRad);
-  const steerFrac01_0 = steerFrac01;
-  const maxFFront0 = surfaceMu * normalLoadFrontStaticN;
-  const maxFRear0 = surfaceMu * normalLoadRearStaticN;
+  const maxFFront0 = muFront * normalLoadFrontStaticN;
+  const maxFRear0 = muRear * normalLoadRearStaticN;
   const fxLimitFront0 =
-    maxFFront0 * lerp(1, clamp(params.frontFxLimitAtFullSteer01, 0.2, 1), steerFrac01_0);
+    maxFFront0 * lerp(1, clamp(params.frontFxLimitAtFullSteer01, 0.2, 1), steerFrac01);
   const longFront0 = clamp(fxFrontRequestN, -fxLimitFront0, fxLimitFront0);
   const longRear0 = clamp(fxRearRequestN, -maxFRear0, maxFRear0);
   const fxLongBodyApprox0 = longRear0 + longFront0 * cosSteer0;
@@ -250,64 +800,91 @@ export function stepCar(
   const alphaRearRad =
     state.alphaRearRad + (slipAngleRearInstantRad - state.alphaRearRad) * clamp(blendRear, 0, 1);
 
-  // Traction circle per axle: Fx steals available Fy.
-  const maxFFront = surfaceMu * normalLoadFrontN;
-  const maxFRear = surfaceMu * normalLoadRearN;
+  const rearGripScale = lerp(1, clamp(params.handbrakeRearGripScale, 0.05, 1), handbrake);
 
-  // Assist: reserve some front tire capacity for lateral force when steering.
-  const fxLimitFront =
-    maxFFront *
-    lerp(1, clamp(params.frontFxLimitAtFullSteer01, 0.2, 1), steerFrac01);
-  const longitudinalForceFrontN = clamp(fxFrontRequestN, -fxLimitFront, fxLimitFront);
-  const longitudinalForceRearN = clamp(fxRearRequestN, -maxFRear, maxFRear);
+  return {
+    surfaceMu,
+    loadScale,
+    gradeAccelXMS2: environment?.gradeAccelXMS2 ?? 0,
+    gradeAccelYMS2: environment?.gradeAccelYMS2 ?? 0,
+    muFront,
+    muRear,
+    steerAngleRad,
+    steerFrac01,
+    speedMS,
+    dragX,
+    dragY,
+    wind,
+    normalLoadFrontN,
+    normalLoadRearN,
+    slipAngleFrontInstantRad,
+    slipAngleRearInstantRad,
+    alphaFrontRad,
+    alphaRearRad,
+    rearGripScale,
+    lowSpeedForceFade,
+    driveFrontNm,
+    driveRearNm,
+    brakeFrontNm,
+    brakeRearNm,
+    brakeWheelNm,
+    brakeSideDiffN,
+    longDir,
+    extraInertiaFront,
+    extraInertiaRear,
+    wheelOmegaRadS
+  };
+}
 
-  const ellipseP = Math.max(1.05, params.tractionEllipseP);
-  const lateralCapFrontN = lateralCapacity(maxFFront, longitudinalForceFrontN, ellipseP);
-  const lateralCapRearBaseN = lateralCapacity(maxFRear, longitudinalForceRearN, ellipseP);
-  const rearGripScale = lerp(1, clamp(params.handbrakeRearGripScale, 0.05, 1), handbrake);
-  const lateralCapRearN = lateralCapRearBaseN * rearGripScale;
+// What is left of an external push once static grip has taken up to `holdXN`, `holdYN` and `holdYawNm` of it.
+function pastStaticGrip(
+  push: { xN: number; yN: number; yawMomentNm: number },
+  holdXN: number,
+  holdYN: number,
+  holdYawNm: number
+): { xN: number; yN: number; yawMomentNm: number } {
+  const past = (f: number, hold: number): number => Math.sign(f) * Math.max(0, Math.abs(f) - hold);
+  return { xN: past(push.xN, holdXN), yN: past(push.yN, holdYN), yawMomentNm: past(push.yawMomentNm, holdYawNm) };
+}
 
-  const lowSpeedBase = clamp(speedMS / Math.max(0.4, params.lowSpeedForceFadeMS), 0, 1);
-  const lowSpeedForceFade = lowSpeedBase * lowSpeedBase;
+function freeRollingWheelOmega(state: CarState, params: CarParams, wheelRadiusM: number): WheelOmegas {
+  const yawSpeedMS = state.yawRateRadS * params.trackWidthM * 0.5;
+  const leftRadS = (state.vxMS - yawSpeedMS) / wheelRadiusM;
+  const rightRadS = (state.vxMS + yawSpeedMS) / wheelRadiusM;
+  return [leftRadS, rightRadS, leftRadS, rightRadS];
+}
 
-  const lateralForceFrontN =
-    lowSpeedForceFade *
-    clamp(
-      -params.corneringStiffnessFrontNPerRad * stiffnessScale * alphaFrontRad,
-      -lateralCapFrontN,
-      lateralCapFrontN
-    );
-  const lateralForceRearN =
-    lowSpeedForceFade *
-    clamp(
-      -params.corneringStiffnessRearNPerRad * stiffnessScale * rearGripScale * alphaRearRad,
-      -lateralCapRearN,
-      lateralCapRearN
-    );
+function hasCenterDifferential(params: CarParams): boolean {
+  // FWD/RWD have nothing on the other axle to couple to.
+  return params.driveBiasFront > 0 && params.driveBiasFront < 1;
+}
 
-  // Bicycle model equations in body frame.
+// Body-frame equations of motion shared by both vehicle models.
+function integrateBody(
+  state: CarState,
+  params: CarParams,
+  step: PreparedStep,
+  fxBodyN: number,
+  fyBodyN: number,
+  yawMomentNm: number,
+  dtSeconds: number,
+  wheelOmegaRadS: WheelOmegas
+): CarState {
+  const { surfaceMu, loadScale, speedMS, dragX, dragY, wind } = step;
   const m = params.massKg;
   const iz = params.inertiaYawKgM2;
+  const vx = state.vxMS;
+  const vy = state.vyMS;
+  const r = state.yawRateRadS;
 
-  const cosSteer = Math.cos(steerAngleRad);
-  const sinSteer = Math.sin(steerAngleRad);
-
-  // Resolve front wheel forces (steered) into the body frame.
-  const fxBodyN =
-    longitudinalForceRearN + longitudinalForceFrontN * cosSteer - lateralForceFrontN * sinSteer;
-  const fyBodyN =
-    lateralForceRearN + lateralForceFrontN * cosSteer + longitudinalForceFrontN * sinSteer;
-
-  const dvx = (fxBodyN + dragX) / m + vy * r;
-  const dvy = (fyBodyN + dragY) / m - vx * r;
-  let dr =
-    (a * (lateralForceFrontN * cosSteer + longitudinalForceFrontN * sinSteer) - b * lateralForceRearN) /
-    iz;
+  const dvx = (fxBodyN + dragX + wind.xN) / m + step.gradeAccelXMS2 + vy * r;
+  const dvy = (fyBodyN + dragY + wind.yN) / m + step.gradeAccelYMS2 - vx * r;
+  let dr = (yawMomentNm + wind.yawMomentNm) / iz;
 
   // Approximate pneumatic trail / aligning torque: damps yaw-rate at speed without directly
   // killing lateral velocity. This reduces post-handbrake wobble while keeping motion physical-ish.
   // IMPORTANT: Scale with grip so ice/rain let the car keep spinning once it starts.
-  const alignScale = clamp(speedMS / Math.max(0.5, params.aligningYawDampingSpeedMS), 0, 1);
+  const alignScale = clamp(speedMS / Math.max(0.5, params.aligningYawDampingSpeedMS), 0, 1) * Math.min(1, loadScale);
   const alignGripScale = clamp(0.05 + 0.95 * (surfaceMu / 1.2), 0.05, 1.0);
   const mzAlign = -state.yawRateRadS * Math.max(0, params.aligningYawDampingNmPerRadS) * alignScale * alignGripScale;
   dr += mzAlign / iz;
@@ -337,60 +914,28 @@ export function stepCar(
   const xDot = nextVx * cosH - nextVyDamped * sinH;
   const yDot = nextVx * sinH + nextVyDamped * cosH;
 
-  const nextState: CarState = {
+  return {
     xM: state.xM + xDot * dtSeconds,
     yM: state.yM + yDot * dtSeconds,
     headingRad: nextHeading,
     vxMS: nextVx,
     vyMS: nextVyDamped,
     yawRateRadS: nextRDamped,
-    steerAngleRad,
-    alphaFrontRad,
-    alphaRearRad
+    steerAngleRad: step.steerAngleRad,
+    alphaFrontRad: step.alphaFrontRad,
+    alphaRearRad: step.alphaRearRad,
+    wheelOmegaRadS
   };
+}
 
-  // Calculate wheelspin intensity: when requested force exceeds available grip
-  // Focus on drive wheels (mostly rear in our 30/70 split)
-  // Only count positive (driving) forces, not braking
-  const driveForceRequestedRear = Math.max(0, fxRearRequestN);
-  const availableGripRear = maxFRear;
-  const rearSpinRatio = availableGripRear > 0 ? driveForceRequestedRear / availableGripRear : 0;
-  const rearExcess = Math.max(0, rearSpinRatio - 0.92); // Start showing wheelspin at 92% grip usage (higher threshold)
-
-  const driveForceRequestedFront = Math.max(0, fxFrontRequestN);
-  const availableGripFront = fxLimitFront;
-  const frontSpinRatio = availableGripFront > 0 ? driveForceRequestedFront / availableGripFront : 0;
-  const frontExcess = Math.max(0, frontSpinRatio - 0.92);
-
-  // Weight rear more heavily since we're RWD-biased, reduced multiplier for subtler effect
-  const wheelspinIntensity = clamp((rearExcess * 0.7 + frontExcess * 0.3) * 8, 0, 1);
-
-  return {
-    state: nextState,
-    telemetry: {
-      steerAngleRad,
-      slipAngleFrontInstantRad,
-      slipAngleRearInstantRad,
-      slipAngleFrontRad: alphaFrontRad,
-      slipAngleRearRad: alphaRearRad,
-      longitudinalForceFrontN,
-      longitudinalForceRearN,
-      lateralForceFrontN,
-      lateralForceRearN,
-      normalLoadFrontN,
-      normalLoadRearN,
-      wheelspinIntensity
-    }
-  };
+// Driven-wheel slip well past the tire's peak reads as wheelspin; rear spin counts a little more.
+function wheelspinIntensityFromWheels(wheels: CarWheelsTelemetry): number {
+  const excess = (w: WheelTelemetry) => (w.driveTorqueNm > 0 ? Math.max(0, w.slipRatio - 1.5 * PEAK_SLIP_RATIO) : 0);
+  const front = Math.max(excess(wheels[0]), excess(wheels[1]));
+  const rear = Math.max(excess(wheels[2]), excess(wheels[3]));
+  return clamp(Math.max(front * 0.8, rear) * 2.5, 0, 1);
 }
 
 function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
-
-function lateralCapacity(maxF: number, fx: number, p: number): number {
-  if (maxF <= 0) return 0;
-  const x = clamp(Math.abs(fx) / maxF, 0, 1);
-  const inside = 1 - Math.pow(x, p);
-  return maxF * Math.pow(Math.max(0, inside), 1 / p);
-}
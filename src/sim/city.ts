@@ -44,6 +44,17 @@ const STORE_NAMES = [
   "Paint Shop",
 ];
 
+/**
+ * The parking spot of the named store that (x, y) is parked in, i.e. within `radiusM` of the spot.
+ */
+export function storeParkingSpotAt(city: City, storeName: string, x: number, y: number, radiusM: number): ParkingSpot | null {
+  for (const spot of city.parkingSpots) {
+    if (city.buildings[spot.buildingIndex]?.name !== storeName) continue;
+    if (Math.hypot(x - spot.x, y - spot.y) <= radiusM) return spot;
+  }
+  return null;
+}
+
 export function generateCity(
   centerX: number,
   centerY: number,
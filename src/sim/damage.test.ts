@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, defaultCarParams, stepCar } from "./car";
+import {
+  applyImpactDamage,
+  createDamageState,
+  damageGripScale,
+  damageRollingResistanceScale,
+  damagedCarParams,
+  damagedEngineParams,
+  isWrecked,
+  parseDamageState,
+  stepDamage,
+  type DamageState
+} from "./damage";
+import { defaultEngineParams } from "./engine";
+
+describe("component damage", () => {
+  it("spreads an impact by where it lands", () => {
+    const front = applyImpactDamage(createDamageState(), 0.2, 1, 0);
+    expect(front.body01).toBeCloseTo(0.2, 9);
+    expect(front.engine01).toBeGreaterThan(0);
+    expect(front.radiator01).toBeGreaterThan(front.engine01);
+    expect(front.tireRear01).toBe(0);
+
+    const rear = applyImpactDamage(createDamageState(), 0.2, -1, 0);
+    expect(rear.engine01).toBe(0);
+    expect(rear.radiator01).toBe(0);
+    expect(rear.tireRear01).toBeGreaterThan(0);
+
+    const right = applyImpactDamage(createDamageState(), 0.2, 0, -1);
+    expect(right.steering01).toBeGreaterThan(0);
+    expect(right.steeringPullDir).toBe(-1);
+    expect(applyImpactDamage(createDamageState(), 0.2, 0, 1).steeringPullDir).toBe(1);
+  });
+
+  it("wrecks the car once the body is gone", () => {
+    let state = createDamageState();
+    for (let i = 0; i < 10; i++) state = applyImpactDamage(state, 0.15, 1, 0);
+    expect(state.body01).toBe(1);
+    expect(isWrecked(state)).toBe(true);
+    for (const v of Object.values(state)) expect(Math.abs(v)).toBeLessThanOrEqual(1);
+  });
+
+  it("leaks coolant from a holed radiator, then cooks the engine", () => {
+    let state = { ...createDamageState(), radiator01: 1 };
+    for (let i = 0; i < 60 * 20; i++) state = stepDamage(state, 1, 1 / 60);
+    expect(state.coolant01).toBeGreaterThan(0);
+    expect(state.engine01).toBe(0);
+
+    for (let i = 0; i < 60 * 10; i++) state = stepDamage(state, 1, 1 / 60);
+    expect(state.coolant01).toBe(0);
+    expect(state.engine01).toBeGreaterThan(0.1);
+  });
+
+  it("leaves the parameters alone when nothing is broken", () => {
+    const car = defaultCarParams();
+    const engine = defaultEngineParams();
+    expect(damagedCarParams(car, createDamageState())).toBe(car);
+    expect(damagedEngineParams(engine, createDamageState())).toBe(engine);
+    expect(damagedEngineParams(engine, { ...createDamageState(), engine01: 1 }).peakTorqueNm).toBeLessThan(engine.peakTorqueNm * 0.5);
+  });
+
+  it("bent steering pulls the car towards the damaged side", () => {
+    const params = damagedCarParams(defaultCarParams(), { ...createDamageState(), steering01: 1, steeringPullDir: -1 });
+    let cur = { ...createCarState(), vxMS: 15 };
+    for (let i = 0; i < 120; i++) {
+      cur = stepCar(cur, params, { steer: 0, throttle: 0.3, brake: 0, handbrake: 0 }, 1 / 120).state;
+    }
+    expect(cur.headingRad).toBeLessThan(-0.05);
+  });
+
+  it("a punctured front tire costs front grip and drags, on the surface the car is on", () => {
+    const car = defaultCarParams();
+    const surface = { frictionMu: 0.8, rollingResistanceN: 200 };
+    const drive = (damage: DamageState, steer: number) => {
+      const params = damagedCarParams(car, damage);
+      const environment = {
+        ...surface,
+        rollingResistanceN: surface.rollingResistanceN * damageRollingResistanceScale(damage),
+        gripScaleFront: damageGripScale(damage, "front"),
+        gripScaleRear: damageGripScale(damage, "rear")
+      };
+      let cur = { ...createCarState(), vxMS: 20 };
+      for (let i = 0; i < 120; i++) cur = stepCar(cur, params, { steer, throttle: 0, brake: 0, handbrake: 0 }, 1 / 120, environment).state;
+      return cur;
+    };
+    const intact = createDamageState();
+    const flat = { ...createDamageState(), tireFront01: 1 };
+
+    // Full lock at speed: the flat front washes wide, so the car turns less.
+    expect(Math.abs(drive(flat, 1).headingRad)).toBeLessThan(Math.abs(drive(intact, 1).headingRad) * 0.9);
+    // Coasting straight, it slows sooner.
+    expect(drive(flat, 0).vxMS).toBeLessThan(drive(intact, 0).vxMS - 0.1);
+    expect(damageGripScale(flat, "rear")).toBe(1);
+  });
+
+  it("parses network damage and rejects malformed input", () => {
+    const state = applyImpactDamage(createDamageState(), 0.3, 0.5, -0.5);
+    expect(parseDamageState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+    expect(parseDamageState(null)).toBeNull();
+    expect(parseDamageState({ body01: 0.5 })).toBeNull();
+    expect(parseDamageState({ ...state, engine01: 7 })?.engine01).toBe(1);
+  });
+});
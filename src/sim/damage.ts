@@ -0,0 +1,172 @@
+import { clamp } from "../runtime/math";
+import type { CarParams } from "./car";
+import type { EngineParams } from "./engine";
+
+// Every component runs 0 (intact) .. 1 (destroyed). Body is the structural meter: the car is wrecked
+// when it reaches 1, the others only change how it drives.
+export type DamageState = {
+  body01: number;
+  engine01: number; // power loss
+  steering01: number; // bent rack/tie rods: the car pulls to one side and loses lock
+  steeringPullDir: number; // -1 pulls right, +1 pulls left (towards the side that was hit)
+  tireFront01: number; // puncture / deflation, per axle
+  tireRear01: number;
+  suspension01: number; // dampers and mounts: less grip, more body roll
+  radiator01: number; // leak rate
+  coolant01: number; // 1 = full; once empty the engine overheats
+};
+
+export type DamageComponent = "body" | "engine" | "steering" | "tireFront" | "tireRear" | "suspension" | "radiator";
+
+export const DAMAGE_COMPONENTS: readonly { key: DamageComponent; label: string }[] = [
+  { key: "body", label: "BODY" },
+  { key: "engine", label: "ENG" },
+  { key: "radiator", label: "RAD" },
+  { key: "steering", label: "STR" },
+  { key: "suspension", label: "SUS" },
+  { key: "tireFront", label: "TYR F" },
+  { key: "tireRear", label: "TYR R" }
+];
+
+export function createDamageState(): DamageState {
+  return {
+    body01: 0,
+    engine01: 0,
+    steering01: 0,
+    steeringPullDir: 1,
+    tireFront01: 0,
+    tireRear01: 0,
+    suspension01: 0,
+    radiator01: 0,
+    coolant01: 1
+  };
+}
+
+export function damageOf(state: DamageState, component: DamageComponent): number {
+  return state[`${component}01`];
+}
+
+export function isWrecked(state: DamageState): boolean {
+  return state.body01 >= 1;
+}
+
+// Full radiator damage empties the coolant in this many seconds.
+const COOLANT_LEAK_SECONDS = 25;
+// Engine damage per second with no coolant, at full revs (a third of that at idle).
+const OVERHEAT_DAMAGE_PER_S = 0.05;
+
+/**
+ * Spread one impact over the components. `amount` is what the hit costs the body (the old single
+ * damage meter); `localX`/`localY` point from the car towards the contact in the car frame
+ * (x forward, y left) and decide which components take the rest.
+ */
+export function applyImpactDamage(state: DamageState, amount: number, localX: number, localY: number): DamageState {
+  if (!(amount > 0)) return state;
+  const len = Math.hypot(localX, localY);
+  const x = len > 1e-6 ? localX / len : 1;
+  const y = len > 1e-6 ? localY / len : 0;
+  const front = Math.max(0, x);
+  const rear = Math.max(0, -x);
+  const side = Math.abs(y);
+  const add = (v: number, share: number) => clamp(v + amount * share, 0, 1);
+  return {
+    ...state,
+    body01: add(state.body01, 1),
+    engine01: add(state.engine01, 0.7 * front),
+    radiator01: add(state.radiator01, 1.6 * front),
+    steering01: add(state.steering01, 0.9 * front + 0.8 * side),
+    steeringPullDir: side > 0.3 ? (y > 0 ? 1 : -1) : state.steeringPullDir,
+    suspension01: add(state.suspension01, 0.4 * front + 0.9 * side + 0.6 * rear),
+    tireFront01: add(state.tireFront01, 0.8 * front + 0.6 * side),
+    tireRear01: add(state.tireRear01, 1.0 * rear + 0.6 * side)
+  };
+}
+
+/** A heavy landing: the suspension and tires take most of it, the body some. */
+export function applyLandingDamage(state: DamageState, amount: number): DamageState {
+  if (!(amount > 0)) return state;
+  const add = (v: number, share: number) => clamp(v + amount * share, 0, 1);
+  return {
+    ...state,
+    body01: add(state.body01, 0.5),
+    suspension01: add(state.suspension01, 1.4),
+    tireFront01: add(state.tireFront01, 0.5),
+    tireRear01: add(state.tireRear01, 0.5)
+  };
+}
+
+/** Caught in a storm or a swarm: the body takes it, and grit in the intake and the radiator takes some more. */
+export function applyExposureDamage(state: DamageState, amount: number): DamageState {
+  if (!(amount > 0)) return state;
+  const add = (v: number, share: number) => clamp(v + amount * share, 0, 1);
+  return {
+    ...state,
+    body01: add(state.body01, 1),
+    engine01: add(state.engine01, 0.3),
+    radiator01: add(state.radiator01, 0.4)
+  };
+}
+
+/** Water in the air intake: only the engine takes it. */
+export function applyFloodDamage(state: DamageState, amount: number): DamageState {
+  if (!(amount > 0)) return state;
+  return { ...state, engine01: clamp(state.engine01 + amount, 0, 1) };
+}
+
+/** Damage that grows by itself: a holed radiator leaks, and a dry engine cooks. */
+export function stepDamage(state: DamageState, rpm01: number, dtSeconds: number): DamageState {
+  if (state.radiator01 <= 0 || dtSeconds <= 0) return state;
+  const coolant01 = Math.max(0, state.coolant01 - (state.radiator01 / COOLANT_LEAK_SECONDS) * dtSeconds);
+  const overheat = coolant01 > 0 ? 0 : OVERHEAT_DAMAGE_PER_S * (0.33 + 0.67 * clamp(rpm01, 0, 1)) * dtSeconds;
+  return { ...state, coolant01, engine01: clamp(state.engine01 + overheat, 0, 1) };
+}
+
+/**
+ * Car parameters with the damage applied. Returns `params` itself when nothing is damaged. Grip and
+ * rolling resistance come from the surface, so their share is in damageGripScale and
+ * damageRollingResistanceScale, applied on top of it.
+ */
+export function damagedCarParams(params: CarParams, state: DamageState): CarParams {
+  const { steering01, tireFront01, tireRear01, suspension01 } = state;
+  if (steering01 <= 0 && tireFront01 <= 0 && tireRear01 <= 0 && suspension01 <= 0) return params;
+  return {
+    ...params,
+    steerOffsetRad: params.steerOffsetRad + state.steeringPullDir * 0.05 * steering01,
+    maxSteerRad: params.maxSteerRad * (1 - 0.3 * steering01),
+    // A flat tire barely holds a slip angle.
+    corneringStiffnessFrontNPerRad: params.corneringStiffnessFrontNPerRad * (1 - 0.55 * tireFront01),
+    corneringStiffnessRearNPerRad: params.corneringStiffnessRearNPerRad * (1 - 0.55 * tireRear01),
+    cgHeightM: params.cgHeightM * (1 + 0.4 * suspension01),
+    aligningYawDampingNmPerRadS: params.aligningYawDampingNmPerRadS * (1 - 0.5 * suspension01)
+  };
+}
+
+/** Multiplier on one axle's grip: damaged suspension costs both axles some, a flat tire its own axle more. */
+export function damageGripScale(state: DamageState, axle: "front" | "rear"): number {
+  const tire01 = axle === "front" ? state.tireFront01 : state.tireRear01;
+  return 1 - 0.15 * state.suspension01 - 0.4 * tire01;
+}
+
+/** Multiplier on rolling resistance: flat tires drag. */
+export function damageRollingResistanceScale(state: DamageState): number {
+  return 1 + 1.25 * (state.tireFront01 + state.tireRear01);
+}
+
+/** Engine parameters with the damage applied. Returns `params` itself when the engine is intact. */
+export function damagedEngineParams(params: EngineParams, state: DamageState): EngineParams {
+  if (state.engine01 <= 0) return params;
+  return { ...params, peakTorqueNm: params.peakTorqueNm * (1 - 0.7 * state.engine01) };
+}
+
+/** Validate damage from the network or a replay; older peers and recordings send none. */
+export function parseDamageState(raw: unknown): DamageState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const v = raw as Record<string, unknown>;
+  const out = createDamageState();
+  for (const key of Object.keys(out) as (keyof DamageState)[]) {
+    const n = v[key];
+    if (typeof n !== "number" || !Number.isFinite(n)) return null;
+    out[key] = key === "steeringPullDir" ? (n < 0 ? -1 : 1) : clamp(n, 0, 1);
+  }
+  return out;
+}
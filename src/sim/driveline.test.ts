@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, defaultCarParams, stepCar, type CarParams, type CarState } from "./car";
+import { coupleDifferential, longitudinalForceFromSlip, openDifferential, PEAK_SLIP_RATIO } from "./driveline";
+
+const dt = 1 / 120;
+const ice = { frictionMu: 0.25, rollingResistanceN: 120 };
+
+function drive(
+  params: CarParams,
+  controls: { steer: number; brake?: number; driveTorqueNm: number },
+  steps: number,
+  env = ice,
+  start?: CarState
+) {
+  let state = start ?? createCarState();
+  let telemetry = stepCar(state, params, { throttle: 0, brake: 0, handbrake: 0, ...controls }, dt, env).telemetry;
+  for (let i = 0; i < steps; i++) {
+    const out = stepCar(state, params, { throttle: 0, brake: 0, handbrake: 0, ...controls }, dt, env);
+    state = out.state;
+    telemetry = out.telemetry;
+  }
+  return { state, telemetry };
+}
+
+describe("driveline", () => {
+  it("longitudinal force peaks at the peak slip ratio and falls off past it", () => {
+    expect(longitudinalForceFromSlip(PEAK_SLIP_RATIO * 0.5, 5000)).toBeCloseTo(2500, 6);
+    expect(longitudinalForceFromSlip(PEAK_SLIP_RATIO, 5000)).toBeCloseTo(5000, 6);
+    const spinning = longitudinalForceFromSlip(1, 5000);
+    expect(spinning).toBeLessThan(5000);
+    expect(spinning).toBeGreaterThan(0);
+    expect(longitudinalForceFromSlip(-1, 5000)).toBeCloseTo(-spinning, 6);
+  });
+
+  it("differentials couple wheel speeds according to their type", () => {
+    expect(coupleDifferential(openDifferential(), 40, 10, 1, 1, 2000, dt)).toEqual([40, 10]);
+
+    const [la, lb] = coupleDifferential({ type: "locked", preloadNm: 0, lockingCoeff: 0 }, 40, 10, 1, 3, 2000, dt);
+    expect(la).toBeCloseTo(lb, 9);
+    // Angular momentum is conserved.
+    expect(la * 1 + lb * 3).toBeCloseTo(40 + 30, 9);
+
+    const lsd = { type: "lsd" as const, preloadNm: 100, lockingCoeff: 0.5 };
+    const [sa, sb] = coupleDifferential(lsd, 40, 10, 1, 1, 2000, dt);
+    expect(sa - sb).toBeGreaterThan(0);
+    expect(sa - sb).toBeLessThan(30);
+    expect(40 - sa).toBeCloseTo((100 + 0.5 * 2000) * dt, 9);
+  });
+
+  it("spins the driven wheels when torque exceeds grip", () => {
+    const params = defaultCarParams();
+    const { telemetry } = drive(params, { steer: 0, driveTorqueNm: 6000 }, 90);
+    expect(telemetry.wheels[0].slipRatio).toBeGreaterThan(0.3);
+    expect(telemetry.wheelspinIntensity).toBeGreaterThan(0.5);
+
+    const gentle = drive(params, { steer: 0, driveTorqueNm: 300 }, 90).telemetry;
+    expect(gentle.wheels[0].slipRatio).toBeLessThan(PEAK_SLIP_RATIO);
+    expect(gentle.wheelspinIntensity).toBe(0);
+  });
+
+  it("locks the wheels under hard braking on ice", () => {
+    const start = { ...createCarState(), vxMS: 20 };
+    const { state, telemetry } = drive(defaultCarParams(), { steer: 0, brake: 1, driveTorqueNm: 0 }, 30, ice, start);
+    expect(state.vxMS).toBeGreaterThan(10);
+    for (const w of telemetry.wheels) {
+      expect(w.angularVelocityRadS).toBe(0);
+      expect(w.slipRatio).toBe(-1);
+    }
+  });
+
+  it("AWD puts more power down than RWD on a low-grip launch", () => {
+    const awd = { ...defaultCarParams(), driveBiasFront: 0.5 };
+    const rwd = { ...defaultCarParams(), driveBiasFront: 0 };
+    const a = drive(awd, { steer: 0, driveTorqueNm: 4000 }, 240).state;
+    const r = drive(rwd, { steer: 0, driveTorqueNm: 4000 }, 240).state;
+    expect(a.vxMS).toBeGreaterThan(r.vxMS * 1.3);
+  });
+
+  it("an open differential lets the unloaded inside wheel spin, a locked one does not", () => {
+    const tarmac = { frictionMu: 1.1, rollingResistanceN: 260 };
+    const base: CarParams = { ...defaultCarParams(), vehicleModel: "fourWheel", driveBiasFront: 0 };
+    const start = { ...createCarState(), vxMS: 12 };
+    const spread = (rearDiff: CarParams["rearDiff"]) => {
+      const { telemetry } = drive({ ...base, rearDiff }, { steer: 0.6, driveTorqueNm: 2600 }, 60, tarmac, start);
+      // Turning left: the rear-left wheel is on the inside.
+      return telemetry.wheels[2].angularVelocityRadS - telemetry.wheels[3].angularVelocityRadS;
+    };
+
+    expect(spread(openDifferential())).toBeGreaterThan(5);
+    expect(Math.abs(spread({ type: "locked", preloadNm: 0, lockingCoeff: 0 }))).toBeLessThan(1e-6);
+  });
+});
@@ -0,0 +1,132 @@
+import { clamp } from "../runtime/math";
+import type { CarParams, CarState } from "./car";
+import type { EngineParams, EngineState } from "./engine";
+
+// open: fixed torque split, each side free to spin.
+// lsd: clutch pack resists speed difference with preload + a share of the input torque.
+// locked: both sides forced to the same speed.
+export type DifferentialType = "open" | "lsd" | "locked";
+
+export type DifferentialParams = {
+  type: DifferentialType;
+  preloadNm: number; // lsd: locking torque available with no drive torque
+  lockingCoeff: number; // lsd: extra locking torque per Nm of input torque (0..1)
+};
+
+export function openDifferential(): DifferentialParams {
+  return { type: "open", preloadNm: 0, lockingCoeff: 0 };
+}
+
+export function isDifferentialType(v: unknown): v is DifferentialType {
+  return v === "open" || v === "lsd" || v === "locked";
+}
+
+// Slip ratio at peak longitudinal force, and what's left once the tire is fully spinning/locked.
+export const PEAK_SLIP_RATIO = 0.1;
+const SLIDING_FORCE_RATIO = 0.9;
+// Slip ratio (in multiples of the peak) over which force falls from peak to sliding.
+const SLIP_FALLOFF_PEAKS = 4;
+// Below this speed slip ratio uses a fixed denominator, otherwise it is undefined at rest.
+const SLIP_RATIO_MIN_SPEED_MS = 3;
+
+/**
+ * Clutch output torque through gearbox and final drive, i.e. what arrives at the center differential.
+ * Reverse uses the first-gear ratio and flips the sign (engine braking included).
+ */
+export function drivelineTorqueNm(engine: EngineParams, state: EngineState, clutchTorqueNm: number, reverse = false): number {
+  const gearIndex = reverse ? 0 : Math.min(state.gear - 1, engine.gearRatios.length - 1);
+  const gearRatio = engine.gearRatios[Math.max(0, gearIndex)] ?? 1;
+  const torqueNm = clutchTorqueNm * gearRatio * engine.finalDriveRatio * clamp(engine.drivetrainEfficiency, 0, 1);
+  return reverse ? -torqueNm : torqueNm;
+}
+
+/**
+ * Road speed of the driven wheels (what the engine sees through the gearbox, including wheelspin).
+ * Negative when they turn backwards.
+ */
+export function drivenWheelSpeedMS(state: CarState, params: CarParams): number {
+  const omega = state.wheelOmegaRadS;
+  if (!omega) return state.vxMS;
+  const front = (omega[0] + omega[1]) * 0.5;
+  const rear = (omega[2] + omega[3]) * 0.5;
+  const bias = clamp(params.driveBiasFront, 0, 1);
+  return (front * bias + rear * (1 - bias)) * params.wheelRadiusM;
+}
+
+/** Rotating inertia of the driven wheels together, as the gearbox sees it at the axle. */
+export function drivenWheelInertiaKgM2(params: CarParams): number {
+  const drivenAxles = (params.driveBiasFront > 0 ? 1 : 0) + (params.driveBiasFront < 1 ? 1 : 0);
+  return 2 * drivenAxles * params.wheelInertiaKgM2;
+}
+
+export function slipRatio(omegaRadS: number, radiusM: number, vxWheelMS: number): number {
+  return (omegaRadS * radiusM - vxWheelMS) / Math.max(SLIP_RATIO_MIN_SPEED_MS, Math.abs(vxWheelMS));
+}
+
+/** Longitudinal tire force from slip ratio: linear to the peak, then falling to the sliding value. */
+export function longitudinalForceFromSlip(slip: number, capacityN: number): number {
+  if (capacityN <= 0) return 0;
+  const x = slip / PEAK_SLIP_RATIO;
+  const ax = Math.abs(x);
+  if (ax <= 1) return capacityN * x;
+  const fall = clamp((ax - 1) / SLIP_FALLOFF_PEAKS, 0, 1);
+  return Math.sign(x) * capacityN * (1 - (1 - SLIDING_FORCE_RATIO) * fall);
+}
+
+export type WheelSpinInput = {
+  omegaRadS: number;
+  driveTorqueNm: number;
+  vxWheelMS: number; // ground speed along the wheel's heading
+  capacityN: number; // available longitudinal grip
+  inertiaKgM2: number;
+  radiusM: number;
+};
+
+/**
+ * Advance one wheel's spin under drive torque and tire force. The tire force is linearized around the
+ * current slip and solved implicitly; at low speed the tire is far too stiff for an explicit step at 120 Hz.
+ * Brakes are applied separately (after the differentials) with applyWheelBrake.
+ */
+export function stepWheelSpin(w: WheelSpinInput, dtSeconds: number): number {
+  const fxN = longitudinalForceFromSlip(slipRatio(w.omegaRadS, w.radiusM, w.vxWheelMS), w.capacityN);
+  return w.omegaRadS + (dtSeconds * (w.driveTorqueNm - fxN * w.radiusM)) / effectiveInertia(w, dtSeconds);
+}
+
+/** Brakes act as Coulomb friction: they can stop (lock) a wheel but never spin it backwards. */
+export function applyWheelBrake(omegaRadS: number, brakeTorqueNm: number, w: WheelSpinInput, dtSeconds: number): number {
+  const brakeDeltaRadS = (dtSeconds * Math.max(0, brakeTorqueNm)) / effectiveInertia(w, dtSeconds);
+  if (Math.abs(omegaRadS) <= brakeDeltaRadS) return 0;
+  return omegaRadS - Math.sign(omegaRadS) * brakeDeltaRadS;
+}
+
+// Wheel inertia plus the tire's resistance to a change in slip over one step.
+function effectiveInertia(w: WheelSpinInput, dtSeconds: number): number {
+  const denom = Math.max(SLIP_RATIO_MIN_SPEED_MS, Math.abs(w.vxWheelMS));
+  const inLinearRange = Math.abs(slipRatio(w.omegaRadS, w.radiusM, w.vxWheelMS)) <= PEAK_SLIP_RATIO;
+  const stiffnessNmPerRadS = inLinearRange ? ((w.capacityN / PEAK_SLIP_RATIO) * w.radiusM * w.radiusM) / denom : 0;
+  return Math.max(1e-3, w.inertiaKgM2) + dtSeconds * stiffnessNmPerRadS;
+}
+
+/**
+ * Differential coupling between two outputs after they were stepped independently. Applies the angular
+ * impulse that pulls their speeds together, limited by what the differential can transmit this step.
+ */
+export function coupleDifferential(
+  diff: DifferentialParams,
+  omegaA: number,
+  omegaB: number,
+  inertiaA: number,
+  inertiaB: number,
+  inputTorqueNm: number,
+  dtSeconds: number
+): [number, number] {
+  if (diff.type === "open") return [omegaA, omegaB];
+  const dOmega = omegaA - omegaB;
+  const impulseToEqualize = dOmega / (1 / inertiaA + 1 / inertiaB);
+  const maxImpulse =
+    diff.type === "locked"
+      ? Math.abs(impulseToEqualize)
+      : (Math.max(0, diff.preloadNm) + clamp(diff.lockingCoeff, 0, 1) * Math.abs(inputTorqueNm)) * dtSeconds;
+  const impulse = clamp(impulseToEqualize, -maxImpulse, maxImpulse);
+  return [omegaA - impulse / inertiaA, omegaB + impulse / inertiaB];
+}
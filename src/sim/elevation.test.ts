@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, defaultCarParams, stepCar } from "./car";
+import {
+  createVerticalState,
+  elevationAtTrackSM,
+  generateElevationProfile,
+  gradeAccelBodyMS2,
+  stepVertical
+} from "./elevation";
+import { createPointToPointTrackDefinition, createTrackFromDefinition, type TrackDefinition } from "./track";
+
+// A straight road along +x, one point every 10 m.
+function straightTrack(elevationsM: number[]) {
+  const def: TrackDefinition = {
+    points: elevationsM.map((_, i) => ({ x: i * 10, y: 0 })),
+    baseWidthM: 8,
+    elevationsM
+  };
+  return createTrackFromDefinition(def);
+}
+
+describe("elevation", () => {
+  it("passes through the points with a continuous grade", () => {
+    const track = straightTrack([0, 0, 1, 3, 4, 4, 4]);
+    expect(elevationAtTrackSM(track, 20).elevationM).toBeCloseTo(1, 9);
+    expect(elevationAtTrackSM(track, 30).elevationM).toBeCloseTo(3, 9);
+    expect(elevationAtTrackSM(track, 25).grade).toBeGreaterThan(0.1);
+    expect(elevationAtTrackSM(track, 29.99).grade).toBeCloseTo(elevationAtTrackSM(track, 30.01).grade, 3);
+    // Crest at the top of the climb, dip at its foot.
+    expect(elevationAtTrackSM(track, 38).curvaturePerM).toBeLessThan(0);
+    expect(elevationAtTrackSM(track, 12).curvaturePerM).toBeGreaterThan(0);
+
+    const flat = createTrackFromDefinition({ points: [{ x: 0, y: 0 }, { x: 10, y: 0 }], baseWidthM: 8 });
+    expect(elevationAtTrackSM(flat, 5)).toEqual({ elevationM: 0, grade: 0, curvaturePerM: 0 });
+  });
+
+  it("generates hills and jumps that stay flat through the cities", () => {
+    const def = createPointToPointTrackDefinition(7);
+    expect(def.elevationsM).toHaveLength(def.points.length);
+    const track = createTrackFromDefinition(def);
+    expect(elevationAtTrackSM(track, 10).elevationM).toBe(0);
+    expect(elevationAtTrackSM(track, track.totalLengthM - 10).elevationM).toBe(0);
+
+    let sharpestCrest = 0;
+    for (let s = 0; s < track.totalLengthM; s += 1) {
+      sharpestCrest = Math.min(sharpestCrest, elevationAtTrackSM(track, s).curvaturePerM);
+    }
+    // Something on the stage throws the car below 25 m/s.
+    expect(-sharpestCrest * 25 * 25).toBeGreaterThan(9.81);
+    expect(generateElevationProfile(def.points, 7, { flatEndsM: 50 })).toEqual(def.elevationsM);
+  });
+
+  it("unloads the tires over a crest and launches off a sharp one", () => {
+    const gentle = stepVertical(createVerticalState(), { zM: 0, vzMS: 0, accelMS2: -4 }, 1 / 60);
+    expect(gentle.state.airborne).toBe(false);
+    expect(gentle.loadScale).toBeCloseTo(1 - 4 / 9.81, 6);
+
+    const dip = stepVertical(createVerticalState(), { zM: 0, vzMS: 0, accelMS2: 6 }, 1 / 60);
+    expect(dip.loadScale).toBeGreaterThan(1.5);
+
+    let state = stepVertical(createVerticalState(), { zM: 0, vzMS: 3, accelMS2: -15 }, 1 / 60).state;
+    expect(state.airborne).toBe(true);
+    let landingSpeedMS = 0;
+    for (let i = 0; i < 240 && state.airborne; i++) {
+      const step = stepVertical(state, { zM: -1, vzMS: -1, accelMS2: 0 }, 1 / 60);
+      state = step.state;
+      landingSpeedMS = step.landingSpeedMS;
+      if (state.airborne) expect(step.loadScale).toBe(0);
+    }
+    expect(state.airborne).toBe(false);
+    expect(state.zM).toBe(-1);
+    expect(landingSpeedMS).toBeGreaterThan(3);
+  });
+
+  it("gives the car no grip in the air and pulls it down slopes", () => {
+    const params = defaultCarParams();
+    const moving = { ...createCarState(), vxMS: 20 };
+    const controls = { steer: 1, throttle: 1, brake: 0, handbrake: 0 };
+    for (const vehicleModel of ["bicycle", "fourWheel"] as const) {
+      let air = moving;
+      for (let i = 0; i < 30; i++) air = stepCar(air, { ...params, vehicleModel }, controls, 1 / 60, { loadScale: 0 }).state;
+      expect(Math.abs(air.yawRateRadS)).toBeLessThan(1e-6);
+      expect(Math.abs(air.vyMS)).toBeLessThan(1e-6);
+      expect(air.vxMS).toBeLessThanOrEqual(20);
+    }
+
+    const climb = gradeAccelBodyMS2(0.2, 0);
+    expect(climb.x).toBeLessThan(-1.5);
+    expect(climb.y).toBeCloseTo(0, 9);
+    let rolling = createCarState();
+    for (let i = 0; i < 60; i++) {
+      rolling = stepCar(rolling, params, { steer: 0, throttle: 0, brake: 0, handbrake: 0 }, 1 / 60, {
+        gradeAccelXMS2: climb.x,
+        gradeAccelYMS2: climb.y
+      }).state;
+    }
+    expect(rolling.vxMS).toBeLessThan(-0.3);
+  });
+});
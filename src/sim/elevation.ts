@@ -0,0 +1,209 @@
+import { clamp } from "../runtime/math";
+import { mulberry32 } from "./rng";
+import type { Track, TrackProjection, Vec2 } from "./track";
+
+const G = 9.81;
+
+// Road height under a point along the centerline. Between track points the height follows a cubic
+// Hermite curve, so the grade is continuous and crests have a curvature rather than a kink.
+export type ElevationSample = {
+  elevationM: number;
+  grade: number; // dh/ds, rise over run
+  curvaturePerM: number; // d2h/ds2; negative over crests, positive in dips
+};
+
+export type VerticalState = {
+  zM: number; // body height in world space
+  vzMS: number;
+  airborne: boolean;
+  airTimeS: number;
+};
+
+export function createVerticalState(groundZM: number = 0): VerticalState {
+  return { zM: groundZM, vzMS: 0, airborne: false, airTimeS: 0 };
+}
+
+function segmentAt(cum: number[], sM: number): number {
+  let lo = 0;
+  let hi = cum.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (cum[mid] <= sM) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+function slopeAtPoint(cum: number[], elevations: number[], i: number): number {
+  const last = elevations.length - 1;
+  const a = Math.max(0, i - 1);
+  const b = Math.min(last, i + 1);
+  const ds = cum[b] - cum[a];
+  return ds > 1e-6 ? (elevations[b] - elevations[a]) / ds : 0;
+}
+
+/** Height, grade and vertical curvature of the road at `sM`. Flat when the track has no elevation. */
+export function elevationAtTrackSM(track: Track, sM: number): ElevationSample {
+  const elevations = track.elevationsM;
+  if (!elevations || elevations.length !== track.points.length || track.points.length < 2) {
+    return { elevationM: 0, grade: 0, curvaturePerM: 0 };
+  }
+  return sampleProfile(track.cumulativeLengthsM, elevations, sM);
+}
+
+/** Like `elevationAtTrackSM`, but follows a branch when the projection is on one. */
+export function elevationAtProjection(track: Track, proj: TrackProjection): ElevationSample {
+  const branch = proj.branchIndex !== undefined ? track.branches?.[proj.branchIndex] : undefined;
+  if (branch && proj.branchSM !== undefined) return elevationAtTrackSM(branch.route, proj.branchSM);
+  return elevationAtTrackSM(track, proj.sM);
+}
+
+// `cum` is the distance along the road at each point.
+function sampleProfile(cum: number[], elevations: number[], sM: number): ElevationSample {
+  const s = clamp(sM, 0, cum[cum.length - 1]);
+  const i = segmentAt(cum, s);
+  const lengthM = cum[i + 1] - cum[i];
+  if (!(lengthM > 1e-6)) return { elevationM: elevations[i], grade: 0, curvaturePerM: 0 };
+
+  const t = clamp((s - cum[i]) / lengthM, 0, 1);
+  const h0 = elevations[i];
+  const h1 = elevations[i + 1];
+  const m0 = slopeAtPoint(cum, elevations, i) * lengthM;
+  const m1 = slopeAtPoint(cum, elevations, i + 1) * lengthM;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const elevationM =
+    (2 * t3 - 3 * t2 + 1) * h0 + (t3 - 2 * t2 + t) * m0 + (-2 * t3 + 3 * t2) * h1 + (t3 - t2) * m1;
+  const dhdt = (6 * t2 - 6 * t) * h0 + (3 * t2 - 4 * t + 1) * m0 + (-6 * t2 + 6 * t) * h1 + (3 * t2 - 2 * t) * m1;
+  const d2hdt2 = (12 * t - 6) * h0 + (6 * t - 4) * m0 + (-12 * t + 6) * h1 + (6 * t - 2) * m1;
+  return { elevationM, grade: dhdt / lengthM, curvaturePerM: d2hdt2 / (lengthM * lengthM) };
+}
+
+/**
+ * Rolling hills with a few jumps for a generated route. The first and last `flatEndsM` metres stay
+ * level (the cities), and everything blends into them.
+ */
+export function generateElevationProfile(points: Vec2[], seed: number, opts?: { closed?: boolean; flatEndsM?: number }): number[] {
+  const rand = mulberry32((Math.floor(seed) ^ 0x5eed) >>> 0 || 1);
+  const closed = opts?.closed ?? false;
+  const flatEndsM = closed ? 0 : Math.max(0, opts?.flatEndsM ?? 0);
+
+  const sAt: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    sAt.push(sAt[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const totalM = sAt[sAt.length - 1] + (closed && points.length > 1
+    ? Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y)
+    : 0);
+  if (!(totalM > 1)) return points.map(() => 0);
+
+  // Hill wavelengths are whole fractions of a closed loop so the profile joins up.
+  const hills = [
+    { amplitudeM: 4 + rand() * 4, wavelengthM: 380 + rand() * 220, phase: rand() * Math.PI * 2 },
+    { amplitudeM: 1 + rand() * 1.5, wavelengthM: 110 + rand() * 60, phase: rand() * Math.PI * 2 }
+  ].map((h) => (closed ? { ...h, wavelengthM: totalM / Math.max(1, Math.round(totalM / h.wavelengthM)) } : h));
+
+  // Jumps are crests sharp enough to throw the car at a given speed. How high that is depends on how
+  // finely the track is sampled, so each one is scaled against the curve the points actually make.
+  const jumpCount = closed ? 1 + Math.floor(rand() * 2) : 2 + Math.floor(rand() * 2);
+  const jumps: { sM: number; launchSpeedMS: number }[] = [];
+  const usable = totalM - 2 * flatEndsM;
+  for (let j = 0; j < jumpCount && usable > 200; j++) {
+    // Landing in the middle of a hairpin is no fun: look for a straight part of the slot.
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const slot = (j + 0.15 + rand() * 0.7) / jumpCount;
+      const sM = flatEndsM + usable * (0.1 + 0.8 * slot);
+      if (attempt < 7 && headingChangeAround(points, sAt, sM, 30) > 0.3) continue;
+      jumps.push({ sM, launchSpeedMS: 17 + rand() * 8 });
+      break;
+    }
+  }
+  const crestHalfWidthM = 12;
+
+  const heights = sAt.map((s) => {
+    let h = 0;
+    for (const hill of hills) h += hill.amplitudeM * Math.sin((s / hill.wavelengthM) * Math.PI * 2 + hill.phase);
+    return h;
+  });
+  for (const jump of jumps) {
+    // Centre the crest on a point so sparse tracks still have a peak to fly off.
+    let peak = 0;
+    for (let i = 1; i < sAt.length; i++) if (Math.abs(sAt[i] - jump.sM) < Math.abs(sAt[peak] - jump.sM)) peak = i;
+    const halfWidthM = Math.max(crestHalfWidthM, sAt[Math.min(sAt.length - 1, peak + 1)] - sAt[peak], sAt[peak] - sAt[Math.max(0, peak - 1)]);
+    const bump = sAt.map((s) => {
+      const x = (s - sAt[peak]) / halfWidthM;
+      return Math.abs(x) < 1 ? Math.cos((x * Math.PI) / 2) ** 2 : 0;
+    });
+    const curvaturePerM = -sampleProfile(sAt, bump, sAt[peak]).curvaturePerM;
+    if (!(curvaturePerM > 1e-6)) continue;
+    const heightM = G / (jump.launchSpeedMS * jump.launchSpeedMS) / curvaturePerM;
+    for (let i = 0; i < heights.length; i++) heights[i] += heightM * bump[i];
+  }
+  if (flatEndsM > 0) {
+    const blendM = 80;
+    for (let i = 0; i < heights.length; i++) {
+      const fromEnd = Math.min(sAt[i], totalM - sAt[i]) - flatEndsM;
+      const w = clamp(fromEnd / blendM, 0, 1);
+      heights[i] *= w * w * (3 - 2 * w);
+    }
+  }
+  return heights;
+}
+
+function headingAt(points: Vec2[], sAt: number[], sM: number): number {
+  let i = 0;
+  while (i < sAt.length - 2 && sAt[i + 1] < sM) i++;
+  const a = points[i];
+  const b = points[Math.min(points.length - 1, i + 1)];
+  return Math.atan2(b.y - a.y, b.x - a.x);
+}
+
+function headingChangeAround(points: Vec2[], sAt: number[], sM: number, windowM: number): number {
+  const d = headingAt(points, sAt, sM + windowM) - headingAt(points, sAt, sM - windowM);
+  return Math.abs(Math.atan2(Math.sin(d), Math.cos(d)));
+}
+
+/**
+ * Follow the road or fly. `ground` is the road under the car: its height, how fast it rises under the
+ * car (grade times speed along the track) and the vertical acceleration it takes to stay on it
+ * (curvature times speed squared). When the road drops away faster than gravity the car leaves it.
+ * Returns the tire load multiplier (0 in the air) and the vertical speed at touchdown, if it landed.
+ */
+export function stepVertical(
+  state: VerticalState,
+  ground: { zM: number; vzMS: number; accelMS2: number },
+  dtSeconds: number
+): { state: VerticalState; loadScale: number; landingSpeedMS: number } {
+  if (!state.airborne) {
+    if (ground.accelMS2 < -G) {
+      return {
+        state: { zM: state.zM + ground.vzMS * dtSeconds, vzMS: ground.vzMS - G * dtSeconds, airborne: true, airTimeS: dtSeconds },
+        loadScale: 0,
+        landingSpeedMS: 0
+      };
+    }
+    return {
+      state: { zM: ground.zM, vzMS: ground.vzMS, airborne: false, airTimeS: 0 },
+      loadScale: clamp(1 + ground.accelMS2 / G, 0, 3),
+      landingSpeedMS: 0
+    };
+  }
+
+  const vzMS = state.vzMS - G * dtSeconds;
+  const zM = state.zM + vzMS * dtSeconds;
+  if (zM > ground.zM) {
+    return { state: { zM, vzMS, airborne: true, airTimeS: state.airTimeS + dtSeconds }, loadScale: 0, landingSpeedMS: 0 };
+  }
+  return {
+    state: { zM: ground.zM, vzMS: ground.vzMS, airborne: false, airTimeS: 0 },
+    loadScale: 1,
+    landingSpeedMS: Math.max(0, ground.vzMS - vzMS)
+  };
+}
+
+/** The body-frame pull of gravity down the road's slope; `relHeadingRad` is the car's heading minus the track's. */
+export function gradeAccelBodyMS2(grade: number, relHeadingRad: number): { x: number; y: number } {
+  // Along the track the slope pulls back with g*sin(atan(grade)).
+  const along = -G * (grade / Math.sqrt(1 + grade * grade));
+  return { x: along * Math.cos(relHeadingRad), y: -along * Math.sin(relHeadingRad) };
+}
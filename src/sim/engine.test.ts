@@ -1,7 +1,9 @@
 import { describe, expect, it } from "vitest";
 import {
+  addFuel,
   createEngineState,
   defaultEngineParams,
+  fuelMassKg,
   stepEngine,
   samplePowerCurve,
   rpmFraction,
@@ -165,3 +167,112 @@ describe("engine simulation", () => {
     expect(result1.torqueScale).toBeGreaterThan(result6.torqueScale);
   });
 });
+
+describe("clutch", () => {
+  const dt = 1 / 120;
+
+  it("stalls in manual when the clutch is dropped at a standstill", () => {
+    const params = defaultEngineParams();
+    let state = createEngineState();
+    for (let i = 0; i < 120; i++) {
+      state = stepEngine(state, params, { throttle: 0, speedMS: 0, manualTransmission: true }, dt).state;
+    }
+
+    expect(state.stalled).toBe(true);
+    expect(state.rpm).toBe(0);
+    const dead = stepEngine(state, params, { throttle: 1, speedMS: 0, manualTransmission: true }, dt);
+    expect(Math.abs(dead.clutchTorqueNm)).toBe(0);
+    expect(dead.powerMultiplier).toBe(0);
+  });
+
+  it("never stalls in auto", () => {
+    const params = defaultEngineParams();
+    let state = createEngineState();
+    for (let i = 0; i < 240; i++) {
+      state = stepEngine(state, params, { throttle: 0, speedMS: 0 }, dt).state;
+    }
+
+    expect(state.stalled).toBe(false);
+    expect(state.rpm).toBe(params.idleRpm);
+  });
+
+  it("restarts a stalled engine once the clutch is pressed", () => {
+    const params = defaultEngineParams();
+    let state = { ...createEngineState(), stalled: true, rpm: 0, clutch01: 1 };
+    for (let i = 0; i < 60; i++) {
+      state = stepEngine(state, params, { throttle: 0, speedMS: 0, manualTransmission: true, clutchPedal: 1 }, dt).state;
+    }
+
+    expect(state.stalled).toBe(false);
+    expect(state.rpm).toBeGreaterThanOrEqual(params.idleRpm);
+  });
+
+  it("launch control holds the launch RPM with the clutch open", () => {
+    const params = defaultEngineParams();
+    let state = createEngineState();
+    let clutchTorqueNm = 1;
+    for (let i = 0; i < 240; i++) {
+      const result = stepEngine(state, params, { throttle: 1, speedMS: 0, launchControl: true, antiLag: true }, dt);
+      state = result.state;
+      clutchTorqueNm = result.clutchTorqueNm;
+    }
+
+    expect(state.launchArmed).toBe(true);
+    expect(state.clutch01).toBe(0);
+    expect(clutchTorqueNm).toBe(0);
+    expect(state.rpm).toBeGreaterThan(params.launchRpm - 200);
+    expect(state.rpm).toBeLessThan(params.launchRpm + 200);
+    expect(state.boost01).toBeGreaterThan(0.5);
+  });
+
+  it("brakes the car off throttle with the clutch locked", () => {
+    const params = defaultEngineParams();
+    let state = { ...createEngineState(), gear: 2, rpm: 5000, clutch01: 1, clutchLocked: true };
+    const speedMS = 18;
+    const result = stepEngine(state, params, { throttle: 0, speedMS }, dt);
+    state = result.state;
+
+    expect(state.clutchLocked).toBe(true);
+    expect(result.clutchTorqueNm).toBeLessThan(0);
+    expect(result.reflectedInertiaKgM2).toBeGreaterThan(0);
+  });
+});
+
+describe("fuel", () => {
+  const dt = 1 / 60;
+
+  it("burns more fuel at high revs and full throttle than at idle", () => {
+    const params = defaultEngineParams();
+    const full = createEngineState(params);
+    expect(full.fuelL).toBe(params.fuelTankL);
+
+    const idle = stepEngine(full, params, { throttle: 0, speedMS: 0 }, 1).state;
+    const flatOut = stepEngine({ ...full, rpm: 6000 }, params, { throttle: 1, speedMS: 0 }, 1).state;
+    const idleBurn = full.fuelL - idle.fuelL;
+    const flatOutBurn = full.fuelL - flatOut.fuelL;
+    expect(idleBurn).toBeGreaterThan(0);
+    expect(flatOutBurn).toBeGreaterThan(idleBurn * 20);
+  });
+
+  it("cuts power on an empty tank", () => {
+    const params = defaultEngineParams();
+    let state = { ...createEngineState(params), fuelL: 0, gear: 2, rpm: 4000, clutch01: 1, clutchLocked: true };
+    const result = stepEngine(state, params, { throttle: 1, speedMS: 10 }, dt);
+    state = result.state;
+
+    expect(state.fuelL).toBe(0);
+    expect(result.powerMultiplier).toBe(0);
+    expect(result.clutchTorqueNm).toBeLessThanOrEqual(0);
+  });
+
+  it("refuels up to the tank size and weighs the fuel", () => {
+    const params = defaultEngineParams();
+    const empty = { ...createEngineState(params), fuelL: 0 };
+    expect(fuelMassKg(empty)).toBe(0);
+
+    const topped = addFuel(empty, params, 1000);
+    expect(topped.fuelL).toBe(params.fuelTankL);
+    expect(fuelMassKg(topped)).toBeGreaterThan(params.fuelTankL * 0.7);
+    expect(addFuel(topped, params, 5)).toBe(topped);
+  });
+});
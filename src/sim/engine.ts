@@ -17,12 +17,33 @@ export type EngineParams = {
     rpmGainRate: number; // how fast RPM rises under throttle
     rpmDecayRate: number; // how fast RPM falls without throttle
     clutchEngageRpm: number; // RPM at which clutch starts engaging
+    // Driveline
+    peakTorqueNm: number; // crank torque at the power curve's 1.0 point
+    drivetrainEfficiency: number; // 0..1, gearbox and differential losses
+    // Clutch and stalling
+    clutchMaxTorqueNm: number; // torque the fully engaged clutch holds before it slips
+    engineInertiaKgM2: number; // crank + flywheel; sets how hard the clutch pulls revs down
+    stallRpm: number; // engine dies below this with the clutch engaged (manual only)
+    engineBrakeTorqueNm: number; // drag torque off-throttle at redline
+    // Launch control / anti-lag
+    launchRpm: number; // revs held while launch control is armed
+    turboTorqueShare: number; // 0..1, share of peak torque that needs boost (0 = no turbo)
+    turboSpoolRate: number; // boost (0..1) gained per second at full throttle
+    // Fuel
+    fuelTankL: number;
+    fuelPerRevMl: number; // burned per crank revolution at full throttle (a fraction of that at idle)
 };
 
 export type EngineState = {
     rpm: number;
     gear: number; // 1-indexed (1, 2, 3...)
     throttleInput: number; // 0..1
+    clutch01: number; // engagement: 0 = disengaged, 1 = fully engaged
+    clutchLocked: boolean;
+    stalled: boolean;
+    boost01: number; // turbo boost
+    launchArmed: boolean;
+    fuelL: number;
 };
 
 export function defaultEngineParams(): EngineParams {
@@ -47,14 +68,31 @@ export function defaultEngineParams(): EngineParams {
         rpmGainRate: 4500, // RPM per second at full throttle (no load)
         rpmDecayRate: 3000, // RPM per second decay (no throttle)
         clutchEngageRpm: 1200,
+        peakTorqueNm: 1500,
+        drivetrainEfficiency: 0.9,
+        clutchMaxTorqueNm: 2400,
+        engineInertiaKgM2: 0.6,
+        stallRpm: 500,
+        engineBrakeTorqueNm: 260,
+        launchRpm: 4500,
+        turboTorqueShare: 0.3,
+        turboSpoolRate: 1.6,
+        fuelTankL: 50,
+        fuelPerRevMl: 0.35,
     };
 }
 
-export function createEngineState(): EngineState {
+export function createEngineState(params: EngineParams = defaultEngineParams()): EngineState {
     return {
         rpm: 900,
         gear: 1,
         throttleInput: 0,
+        clutch01: 0,
+        clutchLocked: false,
+        stalled: false,
+        boost01: 0,
+        launchArmed: false,
+        fuelL: params.fuelTankL,
     };
 }
 
@@ -119,69 +157,184 @@ export function shiftDown(state: EngineState): EngineState {
     return { ...state, gear: state.gear - 1 };
 }
 
+// Petrol density, for the weight the tank adds to the car.
+const FUEL_DENSITY_KG_PER_L = 0.745;
+// Share of full-throttle consumption the engine burns with the throttle closed.
+const FUEL_IDLE_SHARE = 0.08;
+
+/**
+ * Pour fuel into the tank, up to its capacity
+ */
+export function addFuel(state: EngineState, params: EngineParams, liters: number): EngineState {
+    const fuelL = Math.max(0, Math.min(params.fuelTankL, state.fuelL + liters));
+    return fuelL === state.fuelL ? state : { ...state, fuelL };
+}
+
+/**
+ * Mass of the fuel on board
+ */
+export function fuelMassKg(state: EngineState): number {
+    return Math.max(0, state.fuelL) * FUEL_DENSITY_KG_PER_L;
+}
+
+// Auto clutch: engagement ramps in over this many RPM above clutchEngageRpm (a centrifugal clutch), so
+// a standing start slips the clutch with the engine near its torque.
+const AUTO_CLUTCH_RANGE_RPM = 2500;
+// How fast clutch engagement follows its target (per second). The pedal is usually a key, so smooth it.
+const CLUTCH_ENGAGE_RATE = 5;
+// Anti-lag keeps this much boost with the throttle closed.
+const ANTI_LAG_BOOST = 0.85;
+const RAD_S_PER_RPM = (2 * Math.PI) / 60;
+
 /**
  * Step the engine simulation
- * Returns updated state and effective power multiplier
+ * Returns updated state, effective power multiplier, the torque the clutch passes to the gearbox
+ * (negative when the engine is braking the car) and the engine inertia the wheels carry while the
+ * clutch is locked (already multiplied through the gearing)
  */
 export function stepEngine(
     state: EngineState,
     params: EngineParams,
     inputs: {
         throttle: number; // 0..1
-        speedMS: number; // current car speed
+        speedMS: number; // driven wheel speed; negative when turning against the selected gear
         wheelRadiusM?: number;
+        wheelInertiaKgM2?: number; // driven wheels together, at the axle
         manualTransmission?: boolean; // if true, skip auto-shifting
+        clutchPedal?: number; // 0..1, manual only (1 = pressed, clutch disengaged)
+        reverse?: boolean; // reverse uses the first gear ratio and never auto-shifts
+        launchControl?: boolean; // armed: hold launchRpm with the clutch out, launch on release
+        antiLag?: boolean; // keep the turbo spooled off-throttle
     },
     dtSeconds: number
-): { state: EngineState; powerMultiplier: number; torqueScale: number } {
-    const throttle = Math.max(0, Math.min(1, inputs.throttle));
+): {
+    state: EngineState;
+    powerMultiplier: number;
+    torqueScale: number;
+    clutchTorqueNm: number;
+    reflectedInertiaKgM2: number;
+} {
+    // An empty tank cuts the throttle; engine braking still works.
+    const dry = state.fuelL <= 0;
+    const throttle = dry ? 0 : Math.max(0, Math.min(1, inputs.throttle));
     const wheelRadius = inputs.wheelRadiusM ?? 0.32; // default tire radius
     const speedMS = Math.abs(inputs.speedMS);
+    const manualMode = inputs.manualTransmission ?? false;
+    const reverse = inputs.reverse ?? false;
+    const launchArmed = inputs.launchControl ?? false;
 
-    // Calculate target RPM from wheel speed (what the engine "wants" to be at)
+    // RPM of the gearbox input shaft, i.e. where the engine sits with the clutch locked
     const wheelRpm = wheelRpmFromSpeed(speedMS, wheelRadius);
-    const gearRatio = params.gearRatios[Math.min(state.gear - 1, params.gearRatios.length - 1)];
-    const targetRpmFromSpeed = engineRpmFromWheelRpm(wheelRpm, gearRatio, params.finalDriveRatio);
-
-    // RPM behavior depends on clutch engagement
-    let newRpm = state.rpm;
-    const clutchEngaged = state.rpm > params.clutchEngageRpm && speedMS > 0.5;
-
-    if (clutchEngaged) {
-        // Clutch engaged: RPM tied to wheel speed, but can rev higher under load
-        const baseRpm = Math.max(params.idleRpm, targetRpmFromSpeed);
-        // Throttle can push RPM above wheel-dictated value (engine spinning wheels)
-        const revBoost = throttle * (params.redlineRpm - baseRpm) * 0.15;
-        const targetRpm = baseRpm + revBoost;
-
-        // Blend toward target
-        const blendRate = throttle > 0.1 ? params.rpmGainRate : params.rpmDecayRate;
-        const diff = targetRpm - newRpm;
-        const maxDelta = blendRate * dtSeconds;
-        newRpm += Math.sign(diff) * Math.min(Math.abs(diff), maxDelta);
+    const gearIndex = reverse ? 0 : Math.min(state.gear - 1, params.gearRatios.length - 1);
+    const gearRatio = params.gearRatios[gearIndex];
+    const drivelineRpm = Math.sign(inputs.speedMS) * engineRpmFromWheelRpm(wheelRpm, gearRatio, params.finalDriveRatio);
+
+    // Clutch engagement target: pedal in manual, centrifugal in auto (staying in once locked, until the
+    // revs drop to where it lets go). Launch control holds it open.
+    const pedal = Math.max(0, Math.min(1, inputs.clutchPedal ?? 0));
+    const autoEngage01 = state.clutchLocked && state.rpm > params.clutchEngageRpm
+        ? 1
+        : Math.max(0, Math.min(1, (state.rpm - params.clutchEngageRpm) / AUTO_CLUTCH_RANGE_RPM));
+    let clutchTarget = manualMode ? 1 - pedal : autoEngage01;
+    if (launchArmed) clutchTarget = 0;
+    const clutchStep = CLUTCH_ENGAGE_RATE * dtSeconds;
+    const clutch01 = state.clutch01 + Math.max(-clutchStep, Math.min(clutchStep, clutchTarget - state.clutch01));
+    const capacityNm = Math.max(0, params.clutchMaxTorqueNm) * clutch01;
+
+    // A stalled engine restarts once the clutch is pressed (or the gearbox is back in auto).
+    let stalled = state.stalled && manualMode && clutch01 > 0.05;
+    const restarted = state.stalled && !stalled;
+
+    // Turbo: spools with throttle and revs; anti-lag keeps it up when lifting.
+    const spoolTarget = Math.max(
+        throttle * Math.min(1, state.rpm / Math.max(1, params.clutchEngageRpm * 2)),
+        (inputs.antiLag ?? false) && !stalled ? ANTI_LAG_BOOST : 0
+    );
+    const boostStep = Math.max(0, params.turboSpoolRate) * dtSeconds;
+    const boost01 = state.boost01 + Math.max(-boostStep * 2, Math.min(boostStep, spoolTarget - state.boost01));
+
+    // Engine torque at the crank: power curve and boost under throttle, drag off it.
+    // Launch control and the rev limiter cut the throttle.
+    const limiterRpm = launchArmed ? Math.min(params.launchRpm, params.redlineRpm) : params.maxRpm;
+    const turboShare = Math.max(0, Math.min(1, params.turboTorqueShare));
+    const engineTorqueAt = (rpm: number): number => {
+        const throttleEff = rpm >= limiterRpm ? 0 : throttle;
+        const driveNm =
+            throttleEff * params.peakTorqueNm * samplePowerCurve(params, rpm) * (1 - turboShare * (1 - boost01));
+        const aboveIdle01 = Math.max(0, Math.min(1, (rpm - params.idleRpm) / Math.max(1, params.redlineRpm - params.idleRpm)));
+        return driveNm - params.engineBrakeTorqueNm * aboveIdle01 * (1 - throttleEff);
+    };
+
+    // Clutch. Locked: the engine turns with the gearbox and passes its torque straight through (its
+    // inertia rides on the wheels). Slipping: engagement-scaled capacity towards the slower side, but
+    // never more than it takes to bring both sides together this step; if that fits, and the clutch can
+    // also hold the engine's torque, it locks.
+    const totalRatio = gearRatio * params.finalDriveRatio;
+    // rpmGainRate is the free-rev rate at full throttle, so while slipping the clutch pulls against the
+    // inertia that makes peak torque produce exactly that rate (never less than the real flywheel).
+    const revInertia = Math.max(
+        params.engineInertiaKgM2,
+        params.peakTorqueNm / (Math.max(1, params.rpmGainRate) * RAD_S_PER_RPM),
+        1e-3
+    );
+    const wheelInertiaAtCrank = Math.max(1e-3, inputs.wheelInertiaKgM2 ?? 2.4) / (totalRatio * totalRatio);
+    const pairInertia = 1 / (1 / revInertia + 1 / wheelInertiaAtCrank);
+    let rpm = restarted ? params.idleRpm : state.rpm;
+    let clutchTorqueNm = 0;
+    let clutchLocked = false;
+    if (stalled) {
+        // Dead engine in gear: it just turns with the wheels and drags.
+        rpm = clutch01 > 0.5 ? Math.abs(drivelineRpm) : 0;
+        clutchTorqueNm = clutch01 > 0.5 ? -Math.sign(drivelineRpm) * params.engineBrakeTorqueNm : 0;
     } else {
-        // Clutch disengaged (low speed or low RPM): free-revving
-        if (throttle > 0.05) {
-            newRpm += throttle * params.rpmGainRate * dtSeconds;
+        // The auto clutch lets go below its engagement RPM; in manual the driver can lug the engine.
+        const canLock = clutch01 > 0.05 && (manualMode || drivelineRpm >= params.clutchEngageRpm);
+        const lockedTorqueNm = engineTorqueAt(drivelineRpm);
+        const holds = canLock && Math.abs(lockedTorqueNm) <= capacityNm;
+        if (state.clutchLocked && holds) {
+            rpm = drivelineRpm;
+            clutchTorqueNm = lockedTorqueNm;
+            clutchLocked = true;
         } else {
-            // Decay toward idle
-            const diff = params.idleRpm - newRpm;
-            newRpm += Math.sign(diff) * Math.min(Math.abs(diff), params.rpmDecayRate * dtSeconds);
+            const syncTorqueNm = ((rpm - drivelineRpm) * RAD_S_PER_RPM * pairInertia) / dtSeconds;
+            if (holds && Math.abs(syncTorqueNm) <= capacityNm) {
+                clutchTorqueNm = syncTorqueNm;
+                clutchLocked = true;
+            } else {
+                clutchTorqueNm = capacityNm * Math.sign(syncTorqueNm);
+            }
+            const freeRevRpmS = rpm < limiterRpm && throttle > 0.05 ? throttle * params.rpmGainRate : -params.rpmDecayRate;
+            rpm += (freeRevRpmS - clutchTorqueNm / revInertia / RAD_S_PER_RPM) * dtSeconds;
+        }
+
+        // The idle governor holds idle unless an engaged clutch drags the engine down (manual only).
+        if (rpm < params.idleRpm) {
+            const governorTorqueNm = params.peakTorqueNm * samplePowerCurve(params, params.idleRpm);
+            const clutchLoadNm = clutchLocked ? capacityNm : clutchTorqueNm;
+            if (manualMode && clutchLoadNm > governorTorqueNm) {
+                stalled = rpm < params.stallRpm;
+            } else {
+                rpm = params.idleRpm;
+                clutchLocked = false;
+            }
+        }
+        if (stalled) {
+            rpm = 0;
+            clutchTorqueNm = 0;
+            clutchLocked = false;
         }
     }
 
     // Clamp RPM
-    newRpm = Math.max(params.idleRpm, Math.min(params.maxRpm, newRpm));
+    rpm = Math.max(0, Math.min(params.maxRpm, rpm));
 
     // Auto transmission: shift up near redline, shift down at low RPM
     let newGear = state.gear;
-    const manualMode = inputs.manualTransmission ?? false;
-    
-    if (!manualMode) {
+    if (!manualMode && !reverse && !launchArmed) {
         // Automatic shifting - shift at high RPM for racing performance
-        if (newRpm > params.redlineRpm * 0.95 && newGear < params.gearRatios.length) {
+        if (rpm > params.redlineRpm * 0.95 && newGear < params.gearRatios.length) {
             newGear++;
-        } else if (newRpm < params.idleRpm * 2.5 && newGear > 1 && speedMS > 2) {
+        } else if (rpm < params.idleRpm * 2.5 && newGear > 1 && speedMS > 2) {
             // Check if downshifting wouldn't over-rev
             const lowerGearRatio = params.gearRatios[newGear - 2];
             const lowerGearRpm = engineRpmFromWheelRpm(wheelRpm, lowerGearRatio, params.finalDriveRatio);
@@ -191,21 +344,40 @@ export function stepEngine(
         }
     }
     // In manual mode, gear stays the same (controlled by player)
+    if (newGear !== state.gear) {
+        // Shifts are quick enough to treat as instant: the revs drop (or rise) to the new ratio.
+        const newRatio = params.gearRatios[newGear - 1] * params.finalDriveRatio;
+        rpm = Math.max(params.idleRpm, Math.min(params.maxRpm, (Math.abs(drivelineRpm) * newRatio) / totalRatio));
+    }
+
+    // Fuel burned per revolution, scaled by throttle
+    const burnedL = stalled
+        ? 0
+        : (params.fuelPerRevMl / 1000) * (rpm / 60) * (FUEL_IDLE_SHARE + (1 - FUEL_IDLE_SHARE) * throttle) * dtSeconds;
+    const fuelL = Math.max(0, state.fuelL - burnedL);
 
     // Calculate power output
-    const powerMultiplier = samplePowerCurve(params, newRpm);
+    const powerMultiplier = stalled || dry ? 0 : samplePowerCurve(params, rpm);
 
     // Torque scale: higher in lower gears
     const torqueScale = gearRatio / params.gearRatios[params.gearRatios.length - 1];
 
     return {
         state: {
-            rpm: newRpm,
+            rpm,
             gear: newGear,
             throttleInput: throttle,
+            clutch01,
+            clutchLocked,
+            stalled,
+            boost01,
+            launchArmed,
+            fuelL,
         },
         powerMultiplier,
         torqueScale,
+        clutchTorqueNm,
+        reflectedInertiaKgM2: clutchLocked ? params.engineInertiaKgM2 * totalRatio * totalRatio : 0,
     };
 }
 
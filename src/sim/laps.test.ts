@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { alongTrackGapM, circuitCheckpointsSM, clampLapCount, completeLap, createLapTiming, parseLapTiming } from "./laps";
+
+describe("lap timing", () => {
+  it("counts laps, keeps the best and finishes after the last", () => {
+    let timing = createLapTiming(3, 10);
+    const first = completeLap(timing, 52);
+    expect(first.lapTimeS).toBeCloseTo(42);
+    expect(first.isBestLap).toBe(true);
+    expect(first.finished).toBe(false);
+    timing = first.timing;
+    expect(timing.lap).toBe(2);
+
+    const second = completeLap(timing, 92);
+    expect(second.isBestLap).toBe(true);
+    timing = second.timing;
+    const third = completeLap(timing, 135);
+    expect(third.isBestLap).toBe(false);
+    expect(third.finished).toBe(true);
+    expect(third.timing.bestLapS).toBeCloseTo(40);
+    expect(third.timing.lapTimesS).toHaveLength(3);
+  });
+
+  it("clamps lap counts", () => {
+    expect(clampLapCount("5")).toBe(5);
+    expect(clampLapCount(0)).toBe(1);
+    expect(clampLapCount(99)).toBe(10);
+    expect(clampLapCount("nope", 3)).toBe(3);
+  });
+
+  it("measures gaps the short way round a circuit", () => {
+    expect(alongTrackGapM(995, 5, 1000, true)).toBeCloseTo(10);
+    expect(alongTrackGapM(995, 5, 1000, false)).toBeCloseTo(990);
+    expect(circuitCheckpointsSM(900, 50)).toEqual([50, 350, 650, 50]);
+  });
+
+  it("rejects malformed lap timing", () => {
+    expect(parseLapTiming(null)).toBeNull();
+    expect(parseLapTiming({ lapsTotal: 3, lap: 1, lapStartS: 0, lapTimesS: ["x"] })).toBeNull();
+    const parsed = parseLapTiming({ lapsTotal: 3, lap: 7, lapStartS: 4, lapTimesS: [40], bestLapS: 40 });
+    expect(parsed).toMatchObject({ lapsTotal: 3, lap: 3, bestLapS: 40 });
+  });
+});
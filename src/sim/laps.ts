@@ -0,0 +1,77 @@
+// Lap timing for circuits. Times are sim-clock seconds (the same clock as the race timer).
+export type LapTiming = {
+  lapsTotal: number;
+  lap: number; // the lap being driven, from 1
+  lapStartS: number;
+  lapTimesS: number[]; // completed laps, in order
+  bestLapS: number | null;
+};
+
+export const DEFAULT_CIRCUIT_LAPS = 3;
+export const MAX_CIRCUIT_LAPS = 10;
+export const CIRCUIT_LAP_CHOICES: readonly number[] = [1, 3, 5, 10];
+
+/** A lap count from settings, a URL or a track file, as a whole number of laps in range. */
+export function clampLapCount(raw: unknown, fallback: number = DEFAULT_CIRCUIT_LAPS): number {
+  const n = typeof raw === "string" ? Number.parseInt(raw, 10) : typeof raw === "number" ? Math.floor(raw) : NaN;
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(1, Math.min(MAX_CIRCUIT_LAPS, n));
+}
+
+export function createLapTiming(lapsTotal: number, startS: number): LapTiming {
+  return { lapsTotal: clampLapCount(lapsTotal, 1), lap: 1, lapStartS: startS, lapTimesS: [], bestLapS: null };
+}
+
+/** Cross the line: close the current lap and start the next, or finish after the last one. */
+export function completeLap(
+  timing: LapTiming,
+  nowS: number
+): { timing: LapTiming; lapTimeS: number; isBestLap: boolean; finished: boolean } {
+  const lapTimeS = Math.max(0, nowS - timing.lapStartS);
+  const isBestLap = timing.bestLapS === null || lapTimeS < timing.bestLapS;
+  const finished = timing.lap >= timing.lapsTotal;
+  return {
+    timing: {
+      ...timing,
+      lap: finished ? timing.lap : timing.lap + 1,
+      lapStartS: nowS,
+      lapTimesS: [...timing.lapTimesS, lapTimeS],
+      bestLapS: isBestLap ? lapTimeS : timing.bestLapS
+    },
+    lapTimeS,
+    isBestLap,
+    finished
+  };
+}
+
+/**
+ * Start line, two split gates and the line again as the finish. The line sits `startLineSM` into the
+ * lap so the grid is behind it.
+ */
+export function circuitCheckpointsSM(totalLengthM: number, startLineSM: number): number[] {
+  const wrap = (sM: number): number => ((sM % totalLengthM) + totalLengthM) % totalLengthM;
+  return [startLineSM, wrap(startLineSM + totalLengthM / 3), wrap(startLineSM + (totalLengthM * 2) / 3), startLineSM];
+}
+
+/** Distance between two points along the road, the short way round on a circuit. */
+export function alongTrackGapM(aSM: number, bSM: number, totalLengthM: number, closed: boolean): number {
+  const d = Math.abs(aSM - bSM);
+  return closed && totalLengthM > 0 ? Math.min(d % totalLengthM, totalLengthM - (d % totalLengthM)) : d;
+}
+
+/** Validate lap timing from the network or a replay; stage races and older recordings send none. */
+export function parseLapTiming(raw: unknown): LapTiming | null {
+  if (!raw || typeof raw !== "object") return null;
+  const v = raw as Record<string, unknown>;
+  const num = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+  if (!num(v.lapsTotal) || !num(v.lap) || !num(v.lapStartS) || !Array.isArray(v.lapTimesS)) return null;
+  if (!v.lapTimesS.every(num)) return null;
+  const lapsTotal = clampLapCount(v.lapsTotal, 1);
+  return {
+    lapsTotal,
+    lap: Math.max(1, Math.min(lapsTotal, Math.floor(v.lap))),
+    lapStartS: v.lapStartS,
+    lapTimesS: v.lapTimesS.slice(0, lapsTotal) as number[],
+    bestLapS: num(v.bestLapS) ? v.bestLapS : null
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { generatePacenotes, pacenoteCalls, upcomingPacenotes } from "./pacenotes";
+import type { DebrisObstacle } from "./props";
+import type { SurfaceRun } from "./surface";
+import { createPointToPointTrackDefinition, createTrackFromDefinition, type Vec2 } from "./track";
+
+// A road from pieces of given length and total heading change (positive turns right, y being down).
+function road(pieces: { lengthM: number; turnRad: number }[]): Vec2[] {
+  const points: Vec2[] = [{ x: 0, y: 0 }];
+  let heading = 0;
+  for (const piece of pieces) {
+    const n = Math.ceil(piece.lengthM / 4);
+    for (let i = 0; i < n; i++) {
+      heading += piece.turnRad / n;
+      const last = points[points.length - 1];
+      points.push({ x: last.x + Math.cos(heading) * (piece.lengthM / n), y: last.y + Math.sin(heading) * (piece.lengthM / n) });
+    }
+  }
+  return points;
+}
+
+function debrisAt(p: Vec2): DebrisObstacle {
+  return { id: 1, kind: "debris", sM: 0, x: p.x, y: p.y, lengthM: 1, widthM: 1, rotationRad: 0, integrity01: 1, vx: 0, vy: 0, angularVelRadS: 0, isDynamic: false };
+}
+
+const quarter = (Math.PI / 2) * 20; // a quarter turn of radius 20 m
+const tarmac: SurfaceRun[] = [{ start01: 0, end01: 1, name: "tarmac", mu: 1, rr: 160 }];
+
+describe("pacenotes", () => {
+  it("calls a corner and warns off the apex when something sits inside it", () => {
+    const track = createTrackFromDefinition({
+      points: road([{ lengthM: 150, turnRad: 0 }, { lengthM: quarter, turnRad: Math.PI / 2 }, { lengthM: 150, turnRad: 0 }]),
+      baseWidthM: 10,
+      surfaces: tarmac
+    });
+    expect(pacenoteCalls(track).filter((c) => c.kind === "corner").map((c) => c.text)).toEqual(["2 right"]);
+
+    // Centre of the turn is at (150, 20); just inside the apex.
+    const inside = debrisAt({ x: 150 + Math.cos(-Math.PI / 4) * 16, y: 20 + Math.sin(-Math.PI / 4) * 16 });
+    const notes = generatePacenotes(track, { debris: [inside] });
+    expect(notes).toHaveLength(1);
+    expect(notes[0].text).toBe("2 right, don't cut");
+    expect(notes[0].severity).toBe(2);
+  });
+
+  it("links a corner straight into the next", () => {
+    const track = createTrackFromDefinition({
+      points: road([
+        { lengthM: 150, turnRad: 0 },
+        { lengthM: quarter, turnRad: Math.PI / 2 },
+        { lengthM: 20, turnRad: 0 },
+        { lengthM: quarter, turnRad: -Math.PI / 2 },
+        { lengthM: 150, turnRad: 0 }
+      ]),
+      baseWidthM: 10,
+      surfaces: tarmac
+    });
+    expect(generatePacenotes(track).map((n) => n.text)).toEqual(["2 right, into 2 left"]);
+  });
+
+  it("calls a bridge and a ford from the near bank", () => {
+    const straight = createTrackFromDefinition({ points: road([{ lengthM: 600, turnRad: 0 }]), baseWidthM: 8, surfaces: tarmac });
+    const river = { id: 1, points: [], widthM: 8, depthM: 0.5, crossingSM: 200, spanM: 10, bridge: null };
+    const bridged = { ...river, id: 2, crossingSM: 400, depthM: 1.5, bridge: { deckWidthM: 5, railings: [[], []] as [Vec2[], Vec2[]] } };
+    const calls = pacenoteCalls(straight, { rivers: [river, bridged] }).filter((c) => c.kind === "crossing");
+    expect(calls.map((c) => [c.sM, c.text])).toEqual([
+      [195, "deep ford"],
+      [395, "narrow bridge"]
+    ]);
+  });
+
+  it("shows only what is coming up, wrapping round a circuit", () => {
+    const stage = createTrackFromDefinition(createPointToPointTrackDefinition(42));
+    const notes = generatePacenotes(stage);
+    expect(notes.length).toBeGreaterThan(2);
+    const i = notes.findIndex((n, k) => k > 0 && n.sM - 50 > notes[k - 1].endSM);
+    expect(upcomingPacenotes(notes, stage, notes[i].sM - 50, 160)[0]).toEqual({ note: notes[i], distanceM: 50 });
+
+    // A rounded square, starting halfway along a side.
+    const side = { lengthM: 150, turnRad: 0 };
+    const corner = { lengthM: quarter, turnRad: Math.PI / 2 };
+    const points = road([{ lengthM: 75, turnRad: 0 }, corner, side, corner, side, corner, side, corner, { lengthM: 75, turnRad: 0 }]);
+    points[points.length - 1] = { ...points[0] };
+    const circuit = createTrackFromDefinition({ points, closed: true, baseWidthM: 10, surfaces: tarmac });
+    const lap = generatePacenotes(circuit);
+    expect(lap.map((n) => n.text)).toEqual(["2 right", "2 right", "2 right", "2 right"]);
+    const afterLast = lap[3].endSM + 10;
+    const ahead = upcomingPacenotes(lap, circuit, afterLast, 200, 1);
+    expect(ahead).toHaveLength(1);
+    expect(ahead[0].note).toBe(lap[0]);
+    expect(ahead[0].distanceM).toBeCloseTo(lap[0].sM + circuit.totalLengthM - afterLast, 6);
+  });
+});
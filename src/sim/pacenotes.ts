@@ -0,0 +1,238 @@
+import { elevationAtTrackSM } from "./elevation";
+import type { DebrisObstacle, WaterBody } from "./props";
+import type { River } from "./river";
+import type { StageThemeKind, TrackZone } from "./stage";
+import { surfaceAlongTrack } from "./surface";
+import { pointOnTrack, projectToTrack, type Track } from "./track";
+import { curvatureProfile, findCorners, type TrackCorner } from "./track-analysis";
+import { DEFAULT_WIND_PROFILE } from "./wind";
+
+// Rally-style notes for a stage, the way a co-driver would read them: "4 left long, into 2 right,
+// don't cut, over crest". Built from the track's curvature, height, surfaces and the hazards on it.
+
+// Calls closer together than this are read as one note; a corner that follows another is "into" it.
+// A note holds at most MAX_NOTE_PARTS calls and MAX_NOTE_CORNERS corners, so it can be read in one breath.
+const LINK_GAP_M = 40;
+const MAX_NOTE_PARTS = 4;
+const MAX_NOTE_CORNERS = 2;
+// Corners at least this long are "long"; shorter ones of at least TIGHTENS_MIN_M can tighten or open.
+const LONG_CORNER_M = 60;
+const TIGHTENS_MIN_M = 30;
+// A slow corner that turns this far is a hairpin.
+const HAIRPIN_TURN_RAD = 2.3;
+// A crest rises at least CREST_RISE_M above the road CREST_WINDOW_M either side of it.
+const CREST_WINDOW_M = 30;
+const CREST_RISE_M = 1.5;
+const SAMPLE_STEP_M = 5;
+// Hazards this close along the road are one call.
+const HAZARD_CLUSTER_M = 20;
+// Lateral offset (m) within which a hazard is in the middle of the road.
+const HAZARD_MIDDLE_M = 1.5;
+// Wind within this angle (rad) of the road is head- or tailwind, not crosswind, and gets no call.
+const CROSSWIND_MIN_RAD = 0.5;
+// Gustier than this, the call says so.
+const GUSTY_01 = 0.7;
+// A ford at least this deep midstream is "deep".
+const DEEP_FORD_M = 0.45;
+
+export type PacenoteCall = {
+  sM: number;
+  endSM: number;
+  kind: "corner" | "crest" | "hazard" | "surface" | "wind" | "crossing";
+  text: string;
+  severity: number | null; // corners only
+};
+
+export type Pacenote = {
+  sM: number;
+  endSM: number;
+  text: string;
+  severity: number | null; // tightest corner in the note, 1-6
+};
+
+type Hazard = { sM: number; lateralM: number; name: "debris" | "water" };
+
+function hazardsOnTrack(track: Track, debris: readonly DebrisObstacle[], water: readonly WaterBody[]): Hazard[] {
+  const hazards: Hazard[] = [];
+  for (const d of debris) {
+    const proj = projectToTrack(track, d);
+    if (proj.branchIndex === undefined) hazards.push({ sM: proj.sM, lateralM: proj.lateralOffsetM, name: "debris" });
+  }
+  for (const w of water) {
+    const proj = projectToTrack(track, w);
+    if (proj.branchIndex === undefined) hazards.push({ sM: proj.sM, lateralM: proj.lateralOffsetM, name: "water" });
+  }
+  return hazards.sort((a, b) => a.sM - b.sM);
+}
+
+// Positive lateral offsets are on the same side as a positive-curvature (right) bend.
+function sideOf(lateralM: number): "left" | "right" | "middle" {
+  if (Math.abs(lateralM) < HAZARD_MIDDLE_M) return "middle";
+  return lateralM > 0 ? "right" : "left";
+}
+
+function cornerText(c: TrackCorner): string {
+  const words = [c.severity <= 2 && c.turnRad >= HAIRPIN_TURN_RAD ? `hairpin ${c.direction}` : `${c.severity} ${c.direction}`];
+  if (c.lengthM >= LONG_CORNER_M) words.push("long");
+  if (c.lengthM >= TIGHTENS_MIN_M) {
+    const apex01 = (c.apexSM - c.startSM) / Math.max(1, c.lengthM);
+    if (apex01 > 0.75) words.push("tightens");
+    else if (apex01 < 0.25) words.push("opens");
+  }
+  return words.join(" ");
+}
+
+function crestsAlong(track: Track): number[] {
+  if (!track.elevationsM) return [];
+  const crests: number[] = [];
+  const at = (sM: number): number => elevationAtTrackSM(track, sM).elevationM;
+  for (let sM = CREST_WINDOW_M; sM <= track.totalLengthM - CREST_WINDOW_M; sM += SAMPLE_STEP_M) {
+    const h = at(sM);
+    if (h < at(sM - SAMPLE_STEP_M) || h < at(sM + SAMPLE_STEP_M)) continue;
+    if (h - (at(sM - CREST_WINDOW_M) + at(sM + CREST_WINDOW_M)) / 2 < CREST_RISE_M) continue;
+    if (crests.length > 0 && sM - crests[crests.length - 1] < CREST_WINDOW_M) continue;
+    crests.push(sM);
+  }
+  return crests;
+}
+
+/** Every call along the main line, in track order. */
+export function pacenoteCalls(
+  track: Track,
+  opts?: {
+    trackSeed?: number;
+    themeKind?: StageThemeKind;
+    debris?: readonly DebrisObstacle[];
+    water?: readonly WaterBody[];
+    rivers?: readonly River[];
+    zones?: readonly TrackZone[];
+  }
+): PacenoteCall[] {
+  const calls: PacenoteCall[] = [];
+  const hazards = hazardsOnTrack(track, opts?.debris ?? [], opts?.water ?? []);
+  const cutWarned = new Set<Hazard>();
+
+  for (const c of findCorners(curvatureProfile(track))) {
+    let text = cornerText(c);
+    // Something on the inside of the corner: stay off the apex.
+    const inside = hazards.filter(
+      (h) => h.sM >= c.startSM && h.sM <= c.endSM && sideOf(h.lateralM) === c.direction
+    );
+    if (inside.length > 0) {
+      text += ", don't cut";
+      for (const h of inside) cutWarned.add(h);
+    }
+    calls.push({ sM: c.startSM, endSM: c.endSM, kind: "corner", text, severity: c.severity });
+  }
+
+  for (const sM of crestsAlong(track)) calls.push({ sM, endSM: sM, kind: "crest", text: "over crest", severity: null });
+
+  let cluster: Hazard[] = [];
+  const flushHazards = (): void => {
+    if (cluster.length === 0) return;
+    const names = [...new Set(cluster.map((h) => h.name))].join(" and ");
+    const sides = [...new Set(cluster.map((h) => sideOf(h.lateralM)))];
+    calls.push({
+      sM: cluster[0].sM,
+      endSM: cluster[cluster.length - 1].sM,
+      kind: "hazard",
+      text: sides.length === 1 ? `${names} ${sides[0]}` : `${names} both sides`,
+      severity: null
+    });
+    cluster = [];
+  };
+  for (const h of hazards) {
+    if (cutWarned.has(h)) continue;
+    if (cluster.length > 0 && h.sM - cluster[cluster.length - 1].sM > HAZARD_CLUSTER_M) flushHazards();
+    cluster.push(h);
+  }
+  flushHazards();
+
+  let prev: string | null = null;
+  for (let sM = SAMPLE_STEP_M * 0.5; sM < track.totalLengthM; sM += SAMPLE_STEP_M) {
+    const name = surfaceAlongTrack(track.surfaces, track.totalLengthM, sM, false, opts?.trackSeed, opts?.themeKind).name;
+    if (prev !== null && name !== prev) calls.push({ sM, endSM: sM, kind: "surface", text: `onto ${name.replace("-", " ")}`, severity: null });
+    prev = name;
+  }
+
+  // Crosswind where a wind zone begins, from the side it blows across the road.
+  for (const z of opts?.zones ?? []) {
+    if (z.kind !== "wind") continue;
+    const sM = z.start01 * track.totalLengthM;
+    const wind = z.wind ?? DEFAULT_WIND_PROFILE;
+    const across = Math.sin(wind.towardRad - pointOnTrack(track, sM).headingRad);
+    if (Math.abs(across) < Math.sin(CROSSWIND_MIN_RAD)) continue;
+    // Blowing toward the right of the road means it comes from the left.
+    const side = across > 0 ? "left" : "right";
+    calls.push({ sM, endSM: sM, kind: "wind", text: `${wind.gust01 > GUSTY_01 ? "gusts" : "crosswind"} from ${side}`, severity: null });
+  }
+
+  // Rivers, called from the near bank.
+  for (const r of opts?.rivers ?? []) {
+    const text = r.bridge ? "narrow bridge" : r.depthM >= DEEP_FORD_M ? "deep ford" : "ford";
+    calls.push({ sM: r.crossingSM - r.spanM * 0.5, endSM: r.crossingSM + r.spanM * 0.5, kind: "crossing", text, severity: null });
+  }
+
+  return calls.sort((a, b) => a.sM - b.sM);
+}
+
+/** Calls grouped into the notes a co-driver reads out, one breath each. */
+export function generatePacenotes(
+  track: Track,
+  opts?: {
+    trackSeed?: number;
+    themeKind?: StageThemeKind;
+    debris?: readonly DebrisObstacle[];
+    water?: readonly WaterBody[];
+    rivers?: readonly River[];
+    zones?: readonly TrackZone[];
+  }
+): Pacenote[] {
+  const notes: Pacenote[] = [];
+  let note: { sM: number; endSM: number; parts: string[]; severity: number | null; corners: number; lastWasCorner: boolean } | null = null;
+  const flush = (): void => {
+    if (note) notes.push({ sM: note.sM, endSM: note.endSM, text: note.parts.join(", "), severity: note.severity });
+    note = null;
+  };
+
+  for (const call of pacenoteCalls(track, opts)) {
+    const isCorner = call.kind === "corner";
+    const full = note && (note.parts.length >= MAX_NOTE_PARTS || (isCorner && note.corners >= MAX_NOTE_CORNERS));
+    if (note && (full || call.sM - note.endSM > LINK_GAP_M)) flush();
+    const severity = call.severity;
+    if (!note) {
+      note = { sM: call.sM, endSM: call.endSM, parts: [call.text], severity, corners: isCorner ? 1 : 0, lastWasCorner: isCorner };
+      continue;
+    }
+    note.parts.push(isCorner && note.lastWasCorner ? `into ${call.text}` : call.text);
+    note.endSM = Math.max(note.endSM, call.endSM);
+    if (severity !== null) note.severity = note.severity === null ? severity : Math.min(note.severity, severity);
+    if (isCorner) note.corners++;
+    note.lastWasCorner = isCorner;
+  }
+  flush();
+  return notes;
+}
+
+/**
+ * Notes still ahead of `sM` (or under way there), nearest first, with the distance to each. Circuits
+ * wrap, so the first notes of the lap follow the last.
+ */
+export function upcomingPacenotes(
+  notes: readonly Pacenote[],
+  track: Track,
+  sM: number,
+  lookaheadM: number,
+  maxCount: number = 2
+): { note: Pacenote; distanceM: number }[] {
+  const lengthM = track.totalLengthM;
+  const ahead: { note: Pacenote; distanceM: number }[] = [];
+  for (const note of notes) {
+    // How far past the note's start we are; on a circuit always counted forwards from it.
+    const pastM = track.closed ? (((sM - note.sM) % lengthM) + lengthM) % lengthM : sM - note.sM;
+    const underWay = pastM >= 0 && pastM <= note.endSM - note.sM;
+    const distanceM = underWay ? 0 : track.closed ? lengthM - pastM : -pastM;
+    if (distanceM >= 0 && distanceM <= lookaheadM) ahead.push({ note, distanceM });
+  }
+  return ahead.sort((a, b) => a.distanceM - b.distanceM).slice(0, maxCount);
+}
@@ -1,8 +1,8 @@
 import { mulberry32 } from "./rng";
 import { isQuietAtTrackDistance, quietZoneContainsTrackDistance } from "./stage";
 import type { QuietZone, StageThemeKind } from "./stage";
-import { surfaceForTrackSM } from "./surface";
-import type { Track, Vec2 } from "./track";
+import { isLooseSurface, surfaceAlongTrack } from "./surface";
+import { distanceToBranchRoadM, type Track, type Vec2 } from "./track";
 
 export type CircleObstacle = {
   id: number;
@@ -15,6 +15,104 @@ export type CircleObstacle = {
   rotationRad?: number;
   // For rocks: convex polygon in local space (meters), centered around (0,0).
   poly?: Vec2[];
+  // How the theme dresses it; absent for the plain tree or rock.
+  look?: PropLook;
+};
+
+// Trees: burnt-out trunks, swamp cypress, the stumps of concrete pillars. Rocks: basalt, rubble.
+export type PropLook = "charred" | "cypress" | "pillar" | "basalt" | "rubble";
+
+// What stands along the road in each theme, and how thickly.
+type PropSet = {
+  treeSpacingM: number;
+  treeRowsPerSide: 1 | 2;
+  treeMinGapM: number; // from the road edge
+  treeMaxGapM: number;
+  treeClearM: number; // from the edge of any road, other stretches and branches included
+  treeRadiusM: number;
+  treeRadiusSpreadM: number;
+  treeLook?: PropLook;
+  rocks: boolean;
+  rockStepM: number;
+  rockGutterM: number;
+  rockLook?: PropLook;
+  debrisSpacingM: [number, number];
+  debrisPerCluster: number; // at most
+};
+
+const TEMPERATE_PROPS: PropSet = {
+  treeSpacingM: 12,
+  treeRowsPerSide: 1,
+  treeMinGapM: 1.2,
+  treeMaxGapM: 4.2,
+  treeClearM: 3.0,
+  treeRadiusM: 0.9,
+  treeRadiusSpreadM: 0.6,
+  rocks: true,
+  rockStepM: 8.5,
+  rockGutterM: 2.7,
+  debrisSpacingM: [185, 340],
+  debrisPerCluster: 3
+};
+
+const PROP_SETS: Record<StageThemeKind, PropSet> = {
+  temperate: TEMPERATE_PROPS,
+  rainforest: {
+    ...TEMPERATE_PROPS,
+    treeSpacingM: 8,
+    treeRowsPerSide: 2,
+    treeMinGapM: 1.0,
+    treeMaxGapM: 5.2,
+    treeClearM: 2.6,
+    treeRadiusM: 1.0,
+    treeRadiusSpreadM: 0.8,
+    rockStepM: 7.5,
+    rockGutterM: 3.2,
+    debrisSpacingM: [150, 300]
+  },
+  desert: { ...TEMPERATE_PROPS, rocks: false },
+  arctic: { ...TEMPERATE_PROPS, treeSpacingM: 14, rockStepM: 9.0, rockGutterM: 2.9, debrisSpacingM: [240, 430], debrisPerCluster: 2 },
+  // Few trees survive; the lava left its rock everywhere.
+  volcanic: {
+    ...TEMPERATE_PROPS,
+    treeSpacingM: 20,
+    treeMinGapM: 1.4,
+    treeMaxGapM: 4.8,
+    treeRadiusM: 0.7,
+    treeRadiusSpreadM: 0.5,
+    treeLook: "charred",
+    rockStepM: 6.5,
+    rockGutterM: 3.0,
+    rockLook: "basalt",
+    debrisSpacingM: [230, 420],
+    debrisPerCluster: 2
+  },
+  swamp: {
+    ...TEMPERATE_PROPS,
+    treeSpacingM: 9,
+    treeRowsPerSide: 2,
+    treeMinGapM: 1.0,
+    treeMaxGapM: 4.8,
+    treeClearM: 2.6,
+    treeRadiusM: 1.1,
+    treeRadiusSpreadM: 0.7,
+    treeLook: "cypress",
+    rockStepM: 12.0,
+    debrisSpacingM: [140, 280]
+  },
+  ruins: {
+    ...TEMPERATE_PROPS,
+    treeSpacingM: 16,
+    treeMinGapM: 1.3,
+    treeMaxGapM: 3.8,
+    treeRadiusM: 0.8,
+    treeRadiusSpreadM: 0.5,
+    treeLook: "pillar",
+    rockStepM: 6.0,
+    rockGutterM: 2.8,
+    rockLook: "rubble",
+    debrisSpacingM: [170, 320]
+  }
 };
 
 export type DebrisObstacle = {
@@ -49,15 +147,16 @@ export function generateTrees(track: Track, opts?: { seed?: number; themeKind?:
   const rand = mulberry32(seed);
 
   const themeKind: StageThemeKind = opts?.themeKind ?? "temperate";
+  const set = PROP_SETS[themeKind];
 
   const trees: CircleObstacle[] = [];
-  const spacingM = themeKind === "rainforest" ? 8 : (themeKind === "arctic" ? 14 : 12);
+  const spacingM = set.treeSpacingM;
   const roadHalfWidthM = track.widthM * 0.5;
-  const minOffsetM = roadHalfWidthM + (themeKind === "rainforest" ? 1.0 : 1.2);
-  const maxOffsetM = roadHalfWidthM + (themeKind === "rainforest" ? 5.2 : 4.2);
+  const minOffsetM = roadHalfWidthM + set.treeMinGapM;
+  const maxOffsetM = roadHalfWidthM + set.treeMaxGapM;
   
   // Minimum distance from tree to ANY track segment (not just local one)
-  const minDistanceToAnyRoad = roadHalfWidthM + (themeKind === "rainforest" ? 2.6 : 3.0);
+  const minDistanceToAnyRoad = roadHalfWidthM + set.treeClearM;
 
   let id = 1;
   for (let s = 0; s < track.totalLengthM; s += spacingM) {
@@ -66,10 +165,10 @@ export function generateTrees(track: Track, opts?: { seed?: number; themeKind?:
     // Don't place too close to start.
     if (s < 18) continue;
 
-    const sideCount = themeKind === "rainforest" ? 4 : 2;
+    const sideCount = set.treeRowsPerSide * 2;
     for (let side = 0; side < sideCount; side++) {
       const sign = sideCount === 4 ? (side < 2 ? -1 : 1) : (side === 0 ? -1 : 1);
-      const row = sideCount === 4 ? (side % 2) : 0; // rainforest: inner/outer row per side
+      const row = sideCount === 4 ? (side % 2) : 0; // two rows: inner/outer row per side
       const jitterAlong = (rand() - 0.5) * 10;
       const jitterOut = (rand() - 0.5) * 1.2;
       const rowBoost = row === 1 ? (roadHalfWidthM * 0.45 + 1.2) : 0;
@@ -79,7 +178,7 @@ export function generateTrees(track: Track, opts?: { seed?: number; themeKind?:
       const ty = normal.x;
       const x = p.x + normal.x * sign * offset + tx * jitterAlong;
       const y = p.y + normal.y * sign * offset + ty * jitterAlong;
-      const r = (themeKind === "rainforest" ? 1.0 : 0.9) + rand() * (themeKind === "rainforest" ? 0.8 : 0.6);
+      const r = set.treeRadiusM + rand() * set.treeRadiusSpreadM;
 
       // CHECK AGAINST ENTIRE TRACK: Ensure tree isn't too close to any other road segment
       let tooCloseToRoad = false;
@@ -94,9 +193,14 @@ export function generateTrees(track: Track, opts?: { seed?: number; themeKind?:
         }
       }
       
+      // Branch roads too.
+      if (distanceToBranchRoadM(track, { x, y }) < minDistanceToAnyRoad - roadHalfWidthM) {
+        tooCloseToRoad = true;
+      }
+
       // Only add tree if it's safe (not overlapping any part of the track)
       if (!tooCloseToRoad) {
-        trees.push({ id: id++, kind: "tree", x, y, r });
+        trees.push(set.treeLook ? { id: id++, kind: "tree", x, y, r, look: set.treeLook } : { id: id++, kind: "tree", x, y, r });
       }
     }
   }
@@ -109,8 +213,9 @@ export function generateEdgeRocks(track: Track, opts?: { seed?: number; themeKin
   const rand = mulberry32((Math.floor(seed) ^ 0x7f4a7c15) >>> 0);
 
   const themeKind: StageThemeKind = opts?.themeKind ?? "temperate";
-  // Requested: allow temperate, rainforest, arctic. Never spawn on desert.
-  if (themeKind === "desert") return [];
+  const set = PROP_SETS[themeKind];
+  // Never spawn on desert.
+  if (!set.rocks) return [];
 
   const rocks: CircleObstacle[] = [];
 
@@ -132,8 +237,8 @@ export function generateEdgeRocks(track: Track, opts?: { seed?: number; themeKin
   for (let s = 0; s < track.totalLengthM; s += sampleStepM) {
     if (s < 70 || s > track.totalLengthM - 70) continue;
     const { widthM } = pointNormalWidthAndSegmentOnTrack(track, s);
-    const surface = surfaceForTrackSM(track.totalLengthM, s, false, trackSeed, themeKind);
-    const gravel01 = surface.name === "gravel" || surface.name === "sand" ? 1 : 0;
+    const surface = surfaceAlongTrack(track.surfaces, track.totalLengthM, s, false, trackSeed, themeKind);
+    const gravel01 = isLooseSurface(surface.name) ? 1 : 0;
     const narrowness01 = clamp01((narrowThreshold - widthM) / Math.max(1e-6, narrowThreshold));
     // Lore: narrow parts are rockier. Bias clumps heavily towards narrowness.
     const w = 0.10 + 2.9 * (narrowness01 * narrowness01) + 1.0 * gravel01;
@@ -181,7 +286,7 @@ export function generateEdgeRocks(track: Track, opts?: { seed?: number; themeKin
     return clamp01(best);
   };
 
-  const gutterWidthM = themeKind === "rainforest" ? 3.2 : (themeKind === "arctic" ? 2.9 : 2.7);
+  const gutterWidthM = set.rockGutterM;
 
   const clamp01Hash = (x: number): number => {
     // Deterministic hash -> [0..1)
@@ -263,17 +368,17 @@ export function generateEdgeRocks(track: Track, opts?: { seed?: number; themeKin
     const zone01 = zoneFactorAt(s);
     // Non-uniform stepping keeps distribution from looking "placed on a grid".
     // Make empty zones sparser (fewer attempts).
-    const baseStep = themeKind === "rainforest" ? 7.5 : (themeKind === "arctic" ? 9.0 : 8.5);
+    const baseStep = set.rockStepM;
     const zoneStepScale = zone01 <= 1e-6 ? 2.2 : (zone01 < 1.0 ? 1.00 : 0.55);
     const step = baseStep * zoneStepScale * (0.55 + rand() * 1.00);
     s += step;
     if (s < 70 || s > track.totalLengthM - 70) continue;
 
     const { p, normal, widthM } = pointNormalWidthAndSegmentOnTrack(track, s);
-    const surface = surfaceForTrackSM(track.totalLengthM, s, false, trackSeed, themeKind);
+    const surface = surfaceAlongTrack(track.surfaces, track.totalLengthM, s, false, trackSeed, themeKind);
 
     const narrowness01 = clamp01((narrowThreshold - widthM) / Math.max(1e-6, narrowThreshold));
-    const gravel01 = surface.name === "gravel" || surface.name === "sand" ? 1 : 0;
+    const gravel01 = isLooseSurface(surface.name) ? 1 : 0;
     const feature01 = clamp01(0.72 * narrowness01 + 0.55 * gravel01);
     const clump01 = clumpBoostAt(s);
 
@@ -349,9 +454,15 @@ export function generateEdgeRocks(track: Track, opts?: { seed?: number; themeKin
           }
         }
 
+        if (distanceToBranchRoadM(track, { x, y }) < extentR + safetyGapM) {
+          overlapsRoad = true;
+        }
+
         if (!overlapsRoad) {
           // Keep a conservative circle radius for quick checks, but collisions should use `poly`.
-          rocks.push({ id: id++, kind: "rock", x, y, r: extentR, collR: extentR, rotationRad, poly });
+          const rock: CircleObstacle = { id: id++, kind: "rock", x, y, r: extentR, collR: extentR, rotationRad, poly };
+          if (set.rockLook) rock.look = set.rockLook;
+          rocks.push(rock);
         }
       }
     }
@@ -538,6 +649,10 @@ export function generateWaterBodies(track: Track, opts?: { seed?: number; quietZ
         }
       }
       
+      if (distanceToBranchRoadM(track, { x, y }) < maxRadius) {
+        overlapsTrack = true;
+      }
+
       if (!overlapsTrack) {
         waterBodies.push({ id: id++, x, y, radiusX, radiusY, rotation });
       }
@@ -567,8 +682,7 @@ export function generateDebris(track: Track, opts?: { seed?: number; themeKind?:
 
   // Place debris clusters with biome tuning.
   // Reduce overall density to make debris feel like events, not constant spam.
-  const minSpacing = themeKind === "rainforest" ? 150 : (themeKind === "arctic" ? 240 : 185);
-  const maxSpacing = themeKind === "rainforest" ? 300 : (themeKind === "arctic" ? 430 : 340);
+  const [minSpacing, maxSpacing] = PROP_SETS[themeKind].debrisSpacingM;
   let nextAt = 100 + rand() * 80;
   let id = 1;
 
@@ -593,9 +707,7 @@ export function generateDebris(track: Track, opts?: { seed?: number; themeKind?:
     const ty = normal.x;
 
     // Logs per cluster.
-    const count = themeKind === "rainforest"
-      ? (1 + Math.floor(rand() * 3))
-      : (themeKind === "arctic" ? (1 + Math.floor(rand() * 2)) : (1 + Math.floor(rand() * 3)));
+    const count = 1 + Math.floor(rand() * PROP_SETS[themeKind].debrisPerCluster);
 
     const tangentAngle = Math.atan2(ty, tx);
 
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { applyExposureDamage, createDamageState, isWrecked } from "./damage";
+import {
+  PURSUER_WARN_GAP_M,
+  createPursuerState,
+  parsePursuerState,
+  pursuerDamagePerS,
+  pursuerEngulfed,
+  pursuerFromSeed,
+  pursuerGapM,
+  pursuerThreat01,
+  stepPursuer,
+  type PursuerPlan
+} from "./pursuer";
+
+const PLAN: PursuerPlan = { kind: "storm", startGapM: 150, cruiseMS: 18, surgeMS: 34, rampS: 15 };
+
+describe("pursuer", () => {
+  it("chases some stages, slower on hard ones", () => {
+    const seeds = Array.from({ length: 60 }, (_, i) => i + 1);
+    const chased = seeds.filter((seed) => pursuerFromSeed(seed, "desert", 5) !== null);
+    expect(chased.length).toBeGreaterThan(5);
+    expect(chased.length).toBeLessThan(40);
+
+    const seed = chased[0];
+    expect(pursuerFromSeed(seed, "desert", 5)).toEqual(pursuerFromSeed(seed, "desert", 5));
+    expect(pursuerFromSeed(seed, "desert", 9)!.cruiseMS).toBeLessThan(pursuerFromSeed(seed, "desert", 2)!.cruiseMS);
+    expect(pursuerFromSeed(seed, "swamp", 5)!.kind).toBe("swarm");
+  });
+
+  it("builds up speed from the start, and surges when left far behind", () => {
+    let state = createPursuerState(PLAN, 50);
+    expect(pursuerGapM(state, 50)).toBe(150);
+    state = stepPursuer(PLAN, state, 0, 60, 1 / 60);
+    const early = state.speedMS;
+    state = stepPursuer(PLAN, state, 20, 60, 1 / 60);
+    expect(early).toBeLessThan(state.speedMS);
+    expect(state.speedMS).toBeCloseTo(PLAN.cruiseMS, 6);
+    expect(stepPursuer(PLAN, state, 20, state.sM + 700, 1 / 60).speedMS).toBe(PLAN.surgeMS);
+  });
+
+  it("wears down a car it catches and swallows one that stays", () => {
+    let state = createPursuerState(PLAN, 50);
+    let damage = createDamageState();
+    const carSM = 120;
+    let firstHitS: number | null = null;
+    for (let i = 0; i < 60 * 60 && !pursuerEngulfed(pursuerGapM(state, carSM)); i++) {
+      state = stepPursuer(PLAN, state, i / 60, carSM, 1 / 60);
+      const gap = pursuerGapM(state, carSM);
+      if (gap < 0 && firstHitS === null) firstHitS = i / 60;
+      damage = applyExposureDamage(damage, pursuerDamagePerS(gap) * (1 / 60));
+    }
+    expect(firstHitS).not.toBeNull();
+    expect(pursuerEngulfed(pursuerGapM(state, carSM))).toBe(true);
+    expect(damage.body01).toBeGreaterThan(0.05);
+    expect(damage.radiator01).toBeGreaterThan(0);
+    expect(isWrecked(damage)).toBe(false);
+
+    expect(pursuerThreat01(PURSUER_WARN_GAP_M * 2)).toBe(0);
+    expect(pursuerThreat01(PURSUER_WARN_GAP_M / 2)).toBeCloseTo(0.5, 9);
+    expect(pursuerThreat01(-5)).toBe(1);
+    expect(pursuerDamagePerS(10)).toBe(0);
+  });
+
+  it("reads its state back from a snapshot", () => {
+    const state = { kind: "swarm" as const, sM: 312.5, speedMS: 19 };
+    expect(parsePursuerState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+    expect(parsePursuerState(null)).toBeNull();
+    expect(parsePursuerState({ kind: "dragon", sM: 1, speedMS: 1 })).toBeNull();
+    expect(parsePursuerState({ kind: "storm", sM: "far" })).toBeNull();
+  });
+});
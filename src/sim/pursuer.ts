@@ -0,0 +1,96 @@
+import { clamp } from "../runtime/math";
+import { mulberry32 } from "./rng";
+import type { StageThemeKind } from "./stage";
+
+// Something coming up the road behind the car: a storm wall, or a swarm. It sets off from behind the start
+// line when the race starts and follows the road by track distance, so it only ever closes in from behind.
+// Lose the car and it speeds up; catch it and the car takes damage until it pulls away or is swallowed.
+
+export type PursuerKind = "storm" | "swarm";
+
+export type PursuerPlan = {
+  kind: PursuerKind;
+  startGapM: number; // behind the start line when the race starts
+  cruiseMS: number; // the speed it settles into
+  surgeMS: number; // top speed, while it is far behind
+  rampS: number; // from a standing start to cruising speed
+};
+
+// The part that changes, and all a peer needs to draw it.
+export type PursuerState = {
+  kind: PursuerKind;
+  sM: number; // its front, along the main line
+  speedMS: number;
+};
+
+// Within this gap the pursuer makes itself felt: threat rises from 0 to 1 at contact.
+export const PURSUER_WARN_GAP_M = 220;
+// This far inside it the car is lost and the run ends.
+export const PURSUER_ENGULF_M = 40;
+// Beyond this gap it surges, reaching surgeMS at twice the distance.
+const SURGE_GAP_M = 260;
+// Body damage per second at its front edge and at the engulf depth.
+const EDGE_DAMAGE_PER_S = 0.06;
+const DEEP_DAMAGE_PER_S = 0.3;
+
+/**
+ * The pursuer a seed's stage gets, if any. Harder stages (`difficulty` 1 to 10, see track-analysis) are
+ * slower to drive, so the pursuer cruises slower on them.
+ */
+export function pursuerFromSeed(seed: number, themeKind: StageThemeKind, difficulty: number): PursuerPlan | null {
+  const safeSeed = Math.floor(seed) || 1;
+  const rand = mulberry32((safeSeed ^ 0x7a3d91e5) >>> 0);
+  if (rand() >= 0.3) return null;
+  const hard01 = clamp((difficulty - 1) / 9, 0, 1);
+  const kind: PursuerKind = themeKind === "rainforest" || themeKind === "swamp" ? "swarm" : "storm";
+  return {
+    kind,
+    startGapM: 120 + rand() * 60,
+    cruiseMS: 20 - 5 * hard01 + rand() * 2,
+    surgeMS: 34,
+    rampS: 12 + rand() * 8
+  };
+}
+
+export function createPursuerState(plan: PursuerPlan, startLineSM: number): PursuerState {
+  return { kind: plan.kind, sM: startLineSM - plan.startGapM, speedMS: 0 };
+}
+
+/** Track distance from the pursuer's front up to the car; negative once the car is inside it. */
+export function pursuerGapM(state: PursuerState, carSM: number): number {
+  return carSM - state.sM;
+}
+
+/** Advance the pursuer `dtSeconds`, `raceTimeS` into the race, with the car at `carSM`. */
+export function stepPursuer(plan: PursuerPlan, state: PursuerState, raceTimeS: number, carSM: number, dtSeconds: number): PursuerState {
+  const ramp01 = clamp(raceTimeS / plan.rampS, 0, 1);
+  let speedMS = plan.cruiseMS * (0.4 + 0.6 * ramp01 * ramp01 * (3 - 2 * ramp01));
+  const gapM = pursuerGapM(state, carSM);
+  if (gapM > SURGE_GAP_M) speedMS += (plan.surgeMS - speedMS) * clamp((gapM - SURGE_GAP_M) / SURGE_GAP_M, 0, 1);
+  return { ...state, sM: state.sM + speedMS * Math.max(0, dtSeconds), speedMS };
+}
+
+/** How close it is, 0 (out of reach) to 1 (on the car's bumper or over it). */
+export function pursuerThreat01(gapM: number): number {
+  return 1 - clamp(gapM / PURSUER_WARN_GAP_M, 0, 1);
+}
+
+/** Body damage per second to a car `gapM` from the pursuer's front: nothing until it is inside. */
+export function pursuerDamagePerS(gapM: number): number {
+  if (gapM >= 0) return 0;
+  return EDGE_DAMAGE_PER_S + (DEEP_DAMAGE_PER_S - EDGE_DAMAGE_PER_S) * clamp(-gapM / PURSUER_ENGULF_M, 0, 1);
+}
+
+/** Whether the car is so deep inside that the run is over. */
+export function pursuerEngulfed(gapM: number): boolean {
+  return gapM <= -PURSUER_ENGULF_M;
+}
+
+/** A pursuer from a snapshot or replay, or null when it is missing or malformed. */
+export function parsePursuerState(raw: unknown): PursuerState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const v = raw as Record<string, unknown>;
+  const num = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+  if ((v.kind !== "storm" && v.kind !== "swarm") || !num(v.sM) || !num(v.speedMS)) return null;
+  return { kind: v.kind, sM: v.sM, speedMS: v.speedMS };
+}
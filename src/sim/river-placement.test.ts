@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { applyFloodDamage, createDamageState } from "./damage";
+import {
+  INTAKE_HEIGHT_M,
+  bowWaveHeightM,
+  floodDamagePerS,
+  floodStalls,
+  generateRivers,
+  onBridgeDeck,
+  riverDepthAt,
+  wadingSpeedKeep,
+  type River
+} from "./river";
+import { createPointToPointTrackDefinition, createTrackFromDefinition, pointOnTrack, projectToTrack } from "./track";
+
+function stage(seed: number) {
+  const track = createTrackFromDefinition(createPointToPointTrackDefinition(seed));
+  return { track, rivers: generateRivers(track, { seed: seed + 2929 }) };
+}
+
+// Track distances where the river's water reaches the main road.
+function wetRoadSM(track: ReturnType<typeof createTrackFromDefinition>, river: River): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < river.points.length - 1; i++) {
+    const a = river.points[i];
+    const b = river.points[i + 1];
+    for (let k = 0; k < 4; k++) {
+      const p = { x: a.x + ((b.x - a.x) * k) / 4, y: a.y + ((b.y - a.y) * k) / 4 };
+      const proj = projectToTrack(track, p);
+      if (proj.distanceToCenterlineM - proj.widthM * 0.5 < river.widthM * 0.5) out.push(proj.sM);
+    }
+  }
+  return out;
+}
+
+describe("River Placement - One Crossing Each", () => {
+  it("rivers reach the road only at their own crossing (100 tracks)", () => {
+    let rivers = 0;
+    for (let i = 0; i < 100; i++) {
+      const { track, rivers: found } = stage(5000 + i * 31);
+      rivers += found.length;
+      for (const river of found) {
+        const wet = wetRoadSM(track, river);
+        expect(wet.length).toBeGreaterThan(0);
+        for (const sM of wet) expect(Math.abs(sM - river.crossingSM)).toBeLessThan(river.spanM + 20);
+      }
+    }
+    expect(rivers).toBeGreaterThan(50);
+  });
+
+  it("keeps crossings apart, clear of the cities, and on fairly straight road", () => {
+    for (let i = 0; i < 60; i++) {
+      const { track, rivers } = stage(8000 + i * 23);
+      expect(rivers.length).toBeLessThanOrEqual(2);
+      for (let j = 0; j < rivers.length; j++) {
+        const r = rivers[j];
+        expect(r.id).toBe(j + 1);
+        expect(r.crossingSM).toBeGreaterThanOrEqual(150);
+        expect(r.crossingSM).toBeLessThanOrEqual(track.totalLengthM - 150);
+        if (j > 0) expect(r.crossingSM - rivers[j - 1].crossingSM).toBeGreaterThanOrEqual(350);
+        const before = pointOnTrack(track, r.crossingSM - r.spanM * 0.5).headingRad;
+        const after = pointOnTrack(track, r.crossingSM + r.spanM * 0.5).headingRad;
+        expect(Math.abs(Math.atan2(Math.sin(after - before), Math.cos(after - before)))).toBeLessThan(0.7);
+      }
+    }
+  });
+
+  it("is seeded, bridges some crossings and fords others, and skips quiet stretches", () => {
+    const { track } = stage(12345);
+    expect(generateRivers(track, { seed: 42 })).toEqual(generateRivers(track, { seed: 42 }));
+    expect(generateRivers(track, { seed: 42, quietZones: [{ start01: 0, end01: 1 }] })).toEqual([]);
+
+    let bridges = 0;
+    let fords = 0;
+    for (let i = 0; i < 50; i++) {
+      for (const r of stage(9000 + i * 17).rivers) {
+        if (r.bridge) {
+          bridges++;
+          expect(r.depthM).toBeGreaterThan(1);
+        } else {
+          fords++;
+          expect(r.widthM).toBeLessThanOrEqual(12);
+          expect(r.depthM).toBeLessThan(INTAKE_HEIGHT_M);
+        }
+      }
+    }
+    expect(bridges).toBeGreaterThan(5);
+    expect(fords).toBeGreaterThan(5);
+  });
+
+  it("narrows the road on a bridge, between two railings", () => {
+    const found = Array.from({ length: 40 }, (_, i) => stage(3000 + i * 13)).flatMap(({ track, rivers }) =>
+      rivers.filter((r) => r.bridge).map((river) => ({ track, river }))
+    );
+    expect(found.length).toBeGreaterThan(0);
+    const { track, river } = found[0];
+    const bridge = river.bridge!;
+    const roadWidthM = projectToTrack(track, pointOnTrack(track, river.crossingSM).p).widthM;
+    expect(bridge.deckWidthM).toBeLessThan(roadWidthM);
+
+    for (const railing of bridge.railings) {
+      expect(railing.length).toBeGreaterThan(2);
+      for (const p of railing) {
+        const proj = projectToTrack(track, p);
+        expect(Math.abs(proj.lateralOffsetM)).toBeCloseTo(bridge.deckWidthM * 0.5, 0);
+      }
+    }
+
+    expect(onBridgeDeck(river, river.crossingSM, 0)).toBe(true);
+    expect(onBridgeDeck(river, river.crossingSM, bridge.deckWidthM)).toBe(false);
+    expect(onBridgeDeck(river, river.crossingSM - river.spanM - 10, 0)).toBe(false);
+  });
+});
+
+describe("fords", () => {
+  const ford: River = {
+    id: 1,
+    points: [{ x: 0, y: -50 }, { x: 0, y: 50 }],
+    widthM: 10,
+    depthM: 0.5,
+    crossingSM: 100,
+    spanM: 10,
+    bridge: null
+  };
+
+  it("are deepest midstream and dry on the banks", () => {
+    expect(riverDepthAt(ford, { x: 0, y: 0 })).toBeCloseTo(0.5, 9);
+    expect(riverDepthAt(ford, { x: 2.5, y: 0 })).toBeCloseTo(0.375, 9);
+    expect(riverDepthAt(ford, { x: 6, y: 0 })).toBe(0);
+    expect(onBridgeDeck(ford, 100, 0)).toBe(false);
+  });
+
+  it("drag harder the deeper they are", () => {
+    expect(wadingSpeedKeep(0, 1)).toBe(1);
+    expect(wadingSpeedKeep(0.5, 1)).toBeLessThan(wadingSpeedKeep(0.25, 1));
+    expect(wadingSpeedKeep(0.5, 0.5) ** 2).toBeCloseTo(wadingSpeedKeep(0.5, 1), 9);
+  });
+
+  it("flood the engine of a car that charges them, and spare one that crawls", () => {
+    const crawl = bowWaveHeightM(0.5, 3);
+    const charge = bowWaveHeightM(0.5, 15);
+    expect(floodDamagePerS(crawl)).toBe(0);
+    expect(floodStalls(crawl)).toBe(false);
+    expect(floodDamagePerS(charge)).toBeGreaterThan(0);
+    expect(floodStalls(charge)).toBe(true);
+
+    const damage = applyFloodDamage(createDamageState(), floodDamagePerS(charge));
+    expect(damage.engine01).toBeGreaterThan(0);
+    expect(damage.body01).toBe(0);
+  });
+});
@@ -0,0 +1,227 @@
+import { clamp } from "../runtime/math";
+import { pointToSegmentDistance } from "./props";
+import { mulberry32 } from "./rng";
+import { isQuietAtTrackDistance, type QuietZone, type StageThemeKind } from "./stage";
+import { distanceToBranchRoadM, pointOnRoute, type Track, type Vec2 } from "./track";
+
+// Rivers run across the stage rather than lying beside it. Each one crosses the main road once, at
+// `crossingSM`: over a bridge, whose deck is narrower than the road and fenced in by railings, or through
+// a ford, open water on the road that drags at the car and drowns the engine of one that charges it.
+
+export type Bridge = {
+  deckWidthM: number;
+  // Left and right railings, each a polyline along the road from one abutment to the other.
+  railings: [Vec2[], Vec2[]];
+};
+
+export type River = {
+  id: number;
+  points: Vec2[]; // centerline, crossing the road once
+  widthM: number;
+  depthM: number; // midstream
+  crossingSM: number;
+  spanM: number; // along the road, bank to bank
+  bridge: Bridge | null; // null for a ford
+};
+
+const MAX_ATTEMPTS = 12;
+// Crossings at least this far apart along the road, and this far from either end of it (the cities).
+const RIVER_SPACING_M = 350;
+const RIVER_END_CLEAR_M = 150;
+// Each side of the crossing the river runs up to ARM_LENGTH_M; shorter than MIN_ARM_M and it is dropped.
+const ARM_LENGTH_M = 140;
+const ARM_STEP_M = 6;
+const MIN_ARM_M = 40;
+// Ground kept between a river and any road it does not cross, and between two rivers.
+const BANK_CLEAR_M = 4;
+// Nobody builds a bridge on a hairpin: the road turns at most this much (rad) over a crossing.
+const MAX_CROSSING_TURN_RAD = 0.35;
+// No crossings this close to a junction.
+const JUNCTION_CLEAR_M = 30;
+// Rivers wider than this are always bridged.
+const MAX_FORD_WIDTH_M = 12;
+// Bridge abutments reach this far onto each bank; railing posts stand every RAILING_STEP_M.
+export const ABUTMENT_M = 3;
+const RAILING_STEP_M = 3;
+
+// Water drag: the share of its speed a wading car loses per second, for each metre of depth.
+const WATER_DRAG_PER_M = 2.4;
+// The air intake sits this high; water over it goes into the engine.
+export const INTAKE_HEIGHT_M = 0.65;
+// At this speed the bow wave stands half the depth again above the water.
+const BOW_WAVE_REF_MS = 12;
+// Engine damage per second once the water is FLOOD_FULL_M over the intake, and the depth over it that stalls it.
+const FLOOD_DAMAGE_PER_S = 0.5;
+const FLOOD_FULL_M = 0.3;
+const FLOOD_STALL_M = 0.15;
+
+function distanceToPolyline(points: readonly Vec2[], p: Vec2): number {
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < points.length - 1; i++) {
+    best = Math.min(best, pointToSegmentDistance(p.x, p.y, points[i].x, points[i].y, points[i + 1].x, points[i + 1].y));
+  }
+  return best;
+}
+
+function wrapAngle(rad: number): number {
+  return Math.atan2(Math.sin(rad), Math.cos(rad));
+}
+
+// Whether water `widthM` wide can run at `p` without reaching a road or another river. Main-line
+// segments between `ignoreFromSM` and `ignoreToSM` are left out: that is where the river crosses.
+function clearOfRoads(track: Track, p: Vec2, widthM: number, others: readonly River[], ignoreFromSM: number, ignoreToSM: number): boolean {
+  const halfM = widthM * 0.5;
+  for (let i = 0; i < track.points.length - 1; i++) {
+    const s = track.cumulativeLengthsM[i];
+    if (s + track.segmentLengthsM[i] >= ignoreFromSM && s <= ignoreToSM) continue;
+    const a = track.points[i];
+    const b = track.points[i + 1];
+    const roadHalfM = (track.segmentWidthsM?.[i] ?? track.widthM) * 0.5;
+    if (pointToSegmentDistance(p.x, p.y, a.x, a.y, b.x, b.y) - roadHalfM < halfM + BANK_CLEAR_M) return false;
+  }
+  if (distanceToBranchRoadM(track, p) < halfM + BANK_CLEAR_M) return false;
+  return others.every((r) => distanceToPolyline(r.points, p) >= halfM + r.widthM * 0.5 + BANK_CLEAR_M);
+}
+
+// One side of a river, walked out from the crossing. It leaves the road straight and only starts to
+// meander once clear of it; it ends early where it would run into a road or another river.
+function riverArm(
+  track: Track,
+  from: Vec2,
+  headingRad: number,
+  widthM: number,
+  clearM: number,
+  others: readonly River[],
+  crossingSM: number,
+  rand: () => number
+): Vec2[] {
+  const points: Vec2[] = [];
+  let { x, y } = from;
+  let heading = headingRad;
+  let turn = 0;
+  for (let along = ARM_STEP_M; along <= ARM_LENGTH_M; along += ARM_STEP_M) {
+    turn = clamp(turn * 0.8 + (rand() - 0.5) * 0.12, -0.1, 0.1);
+    if (along > clearM) heading += turn;
+    x += Math.cos(heading) * ARM_STEP_M;
+    y += Math.sin(heading) * ARM_STEP_M;
+    const nearCrossing = along <= clearM;
+    const ignoreM = clearM + ARM_STEP_M * 2;
+    if (!clearOfRoads(track, { x, y }, widthM, others, nearCrossing ? crossingSM - ignoreM : Infinity, nearCrossing ? crossingSM + ignoreM : -Infinity)) break;
+    points.push({ x, y });
+  }
+  return points;
+}
+
+function bridgeRailings(track: Track, crossingSM: number, spanM: number, deckWidthM: number): [Vec2[], Vec2[]] {
+  const fromSM = crossingSM - spanM * 0.5 - ABUTMENT_M;
+  const lengthM = spanM + ABUTMENT_M * 2;
+  const steps = Math.max(1, Math.ceil(lengthM / RAILING_STEP_M));
+  const left: Vec2[] = [];
+  const right: Vec2[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const at = pointOnRoute(track, fromSM + (lengthM * i) / steps);
+    // The right-hand normal of the road (y is down).
+    const nx = -Math.sin(at.headingRad) * deckWidthM * 0.5;
+    const ny = Math.cos(at.headingRad) * deckWidthM * 0.5;
+    left.push({ x: at.p.x - nx, y: at.p.y - ny });
+    right.push({ x: at.p.x + nx, y: at.p.y + ny });
+  }
+  return [left, right];
+}
+
+/**
+ * Rivers crossing the main road, none in quiet stretches or near a junction, and never crossing a
+ * road anywhere but at their own crossing. Deserts mostly have dry beds.
+ */
+export function generateRivers(track: Track, opts?: { seed?: number; themeKind?: StageThemeKind; quietZones?: QuietZone[] }): River[] {
+  const rand = mulberry32(opts?.seed ?? 2929);
+  const quietZones = opts?.quietZones ?? [];
+  const rivers: River[] = [];
+  const loSM = RIVER_END_CLEAR_M;
+  const hiSM = track.totalLengthM - RIVER_END_CLEAR_M;
+  if (hiSM <= loSM) return rivers;
+
+  const chance = opts?.themeKind === "desert" ? 0.25 : 0.8;
+  const wanted = rand() < chance ? (rand() < 0.35 ? 2 : 1) : 0;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && rivers.length < wanted; attempt++) {
+    const crossingSM = loSM + rand() * (hiSM - loSM);
+    const widthM = 6 + rand() * 12;
+    // Across the road, at most 30 degrees off square.
+    const crossAngleRad = Math.PI / 3 + rand() * (Math.PI / 3);
+    const ford = widthM <= MAX_FORD_WIDTH_M && rand() < 0.55;
+    const depthM = ford ? 0.25 + rand() * 0.35 : 1.2 + rand() * 0.8;
+    const deckRoll = rand();
+
+    if (isQuietAtTrackDistance(track.totalLengthM, crossingSM, quietZones)) continue;
+    if (rivers.some((r) => Math.abs(r.crossingSM - crossingSM) < RIVER_SPACING_M)) continue;
+
+    const at = pointOnRoute(track, crossingSM);
+    const spanM = widthM / Math.sin(crossAngleRad);
+    const reachM = spanM * 0.5 + ABUTMENT_M + 10;
+    const turnRad = Math.max(
+      Math.abs(wrapAngle(pointOnRoute(track, crossingSM - reachM).headingRad - at.headingRad)),
+      Math.abs(wrapAngle(pointOnRoute(track, crossingSM + reachM).headingRad - at.headingRad))
+    );
+    if (turnRad > MAX_CROSSING_TURN_RAD) continue;
+    if (distanceToBranchRoadM(track, at.p) < JUNCTION_CLEAR_M) continue;
+
+    // Out of the water on either side of the road before it is allowed to wander.
+    const clearM = (at.widthM * 0.5 + widthM * 0.5 + BANK_CLEAR_M) / Math.sin(crossAngleRad) + ARM_STEP_M;
+    const riverHeading = at.headingRad + crossAngleRad;
+    const downstream = riverArm(track, at.p, riverHeading, widthM, clearM, rivers, crossingSM, rand);
+    const upstream = riverArm(track, at.p, riverHeading + Math.PI, widthM, clearM, rivers, crossingSM, rand);
+    if (downstream.length * ARM_STEP_M < MIN_ARM_M || upstream.length * ARM_STEP_M < MIN_ARM_M) continue;
+
+    const deckWidthM = Math.min(at.widthM - 1, 4.8 + deckRoll * 1.4);
+    rivers.push({
+      id: 0,
+      points: [...upstream.reverse(), at.p, ...downstream],
+      widthM,
+      depthM,
+      crossingSM,
+      spanM,
+      bridge: ford ? null : { deckWidthM, railings: bridgeRailings(track, crossingSM, spanM, deckWidthM) }
+    });
+  }
+
+  return rivers.sort((a, b) => a.crossingSM - b.crossingSM).map((r, i) => ({ ...r, id: i + 1 }));
+}
+
+/** Depth of water (m) at `p`: deepest midstream, shallowing to nothing at the banks. Bridges are ignored. */
+export function riverDepthAt(river: River, p: Vec2): number {
+  const halfM = river.widthM * 0.5;
+  const d = distanceToPolyline(river.points, p);
+  if (d >= halfM) return 0;
+  const u = d / halfM;
+  return river.depthM * (1 - u * u);
+}
+
+/** Whether a point `lateralOffsetM` off the main line at `trackDistanceM` is on the river's bridge deck. */
+export function onBridgeDeck(river: River, trackDistanceM: number, lateralOffsetM: number): boolean {
+  if (!river.bridge) return false;
+  return Math.abs(trackDistanceM - river.crossingSM) <= river.spanM * 0.5 + ABUTMENT_M && Math.abs(lateralOffsetM) <= river.bridge.deckWidthM * 0.5;
+}
+
+/** The share of its speed a car keeps after wading `dtSeconds` through water `depthM` deep. */
+export function wadingSpeedKeep(depthM: number, dtSeconds: number): number {
+  return Math.exp(-WATER_DRAG_PER_M * Math.max(0, depthM) * Math.max(0, dtSeconds));
+}
+
+/** How high the water stands at the nose of a car wading `depthM` deep at `speedMS`: the depth plus its bow wave. */
+export function bowWaveHeightM(depthM: number, speedMS: number): number {
+  const r = speedMS / BOW_WAVE_REF_MS;
+  return Math.max(0, depthM) * (1 + 0.5 * r * r);
+}
+
+/** Engine damage per second with water standing `waterHeightM` at the nose: nothing below the intake. */
+export function floodDamagePerS(waterHeightM: number): number {
+  const overM = waterHeightM - INTAKE_HEIGHT_M;
+  if (overM <= 0) return 0;
+  return FLOOD_DAMAGE_PER_S * clamp(overM / FLOOD_FULL_M, 0, 1);
+}
+
+/** Whether that much water in the intake stalls the engine. */
+export function floodStalls(waterHeightM: number): boolean {
+  return waterHeightM - INTAKE_HEIGHT_M >= FLOOD_STALL_M;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { auditStage, summarizeStageAudits } from "./stage-audit";
+import { createPointToPointTrackDefinition, generatePointToPointTrack } from "./track";
+
+describe("stage audit", () => {
+  it("reports how a stage was generated and that it passes", () => {
+    const audit = auditStage(100);
+    expect(audit.failures).toEqual([]);
+    expect(audit.attempts).toBeGreaterThanOrEqual(1);
+    expect(audit.cornerTypes.length).toBeGreaterThanOrEqual(5);
+    expect(audit.counts.enemies).toBeGreaterThan(0);
+    expect(generatePointToPointTrack(100).def).toEqual(createPointToPointTrackDefinition(100));
+  });
+
+  it("sums audits into histograms", () => {
+    const audits = [auditStage(3), auditStage(4)];
+    audits[1] = { ...audits[1], failures: ["looping"] };
+    const summary = summarizeStageAudits(audits);
+    expect(summary.seeds).toBe(2);
+    expect(summary.failed).toBe(1);
+    expect(summary.failuresByCheck).toEqual({ looping: [4] });
+    expect(Object.values(summary.attemptsHistogram).reduce((a, b) => a + b, 0)).toBe(2);
+    expect(Object.values(summary.lengthHistogramM).reduce((a, b) => a + b, 0)).toBe(2);
+    expect(Object.values(summary.cornerTypeHistogram).reduce((a, b) => a + b, 0)).toBe(audits[0].cornerTypes.length + audits[1].cornerTypes.length);
+  });
+});
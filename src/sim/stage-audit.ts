@@ -0,0 +1,160 @@
+import { generateEnemies } from "./enemy";
+import { generateDebris, generateEdgeRocks, generateTrees, generateWaterBodies } from "./props";
+import { quietZonesFromSeed, stageMetaFromSeed } from "./stage";
+import { createTrackFromDefinition, generatePointToPointTrack, projectToTrack, type CornerType, type Track, type Vec2 } from "./track";
+import { findLongStraights, findSelfIntersections } from "./track-validation";
+
+// Every rule a generated point-to-point stage is held to, checked for one seed at a time, so a change to
+// the generator can be judged across the whole seed range instead of the handful of seeds the tests use.
+// The thresholds are the ones the track tests assert.
+
+const MIN_CITY_SEPARATION_M = 350 - 1;
+const MIN_LENGTH_M = 850;
+const MAX_LENGTH_M = 1900;
+// Sum of the turns between segments (rad); below this a stage is too straight to be a rally stage.
+const MIN_TOTAL_TURN_RAD = 4;
+// Start-to-finish distance over the length driven; below this the road loops back on itself.
+const MIN_DIRECTNESS = 0.2;
+const LENGTH_BIN_M = 100;
+
+export type StageCheck =
+  | "retries-exhausted"
+  | "crossing"
+  | "straight"
+  | "city-separation"
+  | "length"
+  | "waviness"
+  | "looping"
+  | "water-on-road"
+  | "tree-on-road";
+
+export type StageAudit = {
+  seed: number;
+  failures: StageCheck[];
+  attempts: number;
+  rejections: { crossing: number; straight: number };
+  lengthM: number;
+  totalTurnRad: number;
+  cornerTypes: CornerType[];
+  counts: { trees: number; rocks: number; debris: number; water: number; enemies: number };
+  timingsMs: { generate: number; props: number; water: number; enemies: number };
+};
+
+export type StageAuditSummary = {
+  seeds: number;
+  failed: number;
+  failuresByCheck: Partial<Record<StageCheck, number[]>>; // the seeds failing each check
+  attemptsHistogram: Record<number, number>;
+  lengthHistogramM: Record<number, number>; // keyed by the bottom of each LENGTH_BIN_M bin
+  cornerTypeHistogram: Record<CornerType, number>;
+  timingsMs: Record<keyof StageAudit["timingsMs"], { mean: number; max: number; maxSeed: number }>;
+};
+
+function totalTurnRad(points: Vec2[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const a = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+    const b = Math.atan2(points[i + 1].y - points[i].y, points[i + 1].x - points[i].x);
+    let turn = b - a;
+    while (turn > Math.PI) turn -= Math.PI * 2;
+    while (turn < -Math.PI) turn += Math.PI * 2;
+    total += Math.abs(turn);
+  }
+  return total;
+}
+
+// Props place themselves against the base width, so that is the road they must keep off.
+function isOnRoad(track: Track, p: Vec2, radiusM: number): boolean {
+  return projectToTrack(track, p).distanceToCenterlineM - radiusM < track.widthM * 0.5;
+}
+
+function timed<T>(fn: () => T): { value: T; ms: number } {
+  const t0 = performance.now();
+  const value = fn();
+  return { value, ms: performance.now() - t0 };
+}
+
+/** Generate the stage for `seed` with its props, hazards and enemies as the game does, and check it. */
+export function auditStage(seed: number): StageAudit {
+  const generation = timed(() => generatePointToPointTrack(seed));
+  const { def, attempts, accepted, rejections, cornerTypes } = generation.value;
+  const track = createTrackFromDefinition(def);
+
+  const themeKind = stageMetaFromSeed(seed).theme.kind;
+  const quietZones = quietZonesFromSeed(seed);
+  const props = timed(() => ({
+    trees: generateTrees(track, { seed, themeKind }),
+    rocks: generateEdgeRocks(track, { seed: seed + 4242, themeKind, trackSeed: seed }),
+    debris: generateDebris(track, { seed: seed + 3333, themeKind, quietZones })
+  }));
+  const water = timed(() => generateWaterBodies(track, { seed: seed + 777, quietZones }));
+  const enemies = timed(() => generateEnemies(track, { seed: seed + 1337, quietZones }));
+
+  const points = def.points;
+  const turnRad = totalTurnRad(points);
+  const failures: StageCheck[] = [];
+  if (!accepted) failures.push("retries-exhausted");
+  if (findSelfIntersections(points).length > 0) failures.push("crossing");
+  if (findLongStraights(points).length > 0) failures.push("straight");
+  const cities = def.startCity && def.endCity ? Math.hypot(def.endCity.centerX - def.startCity.centerX, def.endCity.centerY - def.startCity.centerY) : 0;
+  if (cities < MIN_CITY_SEPARATION_M) failures.push("city-separation");
+  if (track.totalLengthM <= MIN_LENGTH_M || track.totalLengthM >= MAX_LENGTH_M) failures.push("length");
+  if (turnRad < MIN_TOTAL_TURN_RAD) failures.push("waviness");
+  const endToEndM = Math.hypot(points[points.length - 1].x - points[0].x, points[points.length - 1].y - points[0].y);
+  if (endToEndM / Math.max(1, track.totalLengthM) <= MIN_DIRECTNESS) failures.push("looping");
+  if (water.value.some((w) => isOnRoad(track, w, Math.max(w.radiusX, w.radiusY)))) failures.push("water-on-road");
+  if (props.value.trees.some((t) => isOnRoad(track, t, t.collR ?? t.r))) failures.push("tree-on-road");
+
+  return {
+    seed,
+    failures,
+    attempts,
+    rejections,
+    lengthM: track.totalLengthM,
+    totalTurnRad: turnRad,
+    cornerTypes,
+    counts: {
+      trees: props.value.trees.length,
+      rocks: props.value.rocks.length,
+      debris: props.value.debris.length,
+      water: water.value.length,
+      enemies: enemies.value.length
+    },
+    timingsMs: { generate: generation.ms, props: props.ms, water: water.ms, enemies: enemies.ms }
+  };
+}
+
+export function summarizeStageAudits(audits: readonly StageAudit[]): StageAuditSummary {
+  const failuresByCheck: StageAuditSummary["failuresByCheck"] = {};
+  const attemptsHistogram: Record<number, number> = {};
+  const lengthHistogramM: Record<number, number> = {};
+  const cornerTypeHistogram: Record<CornerType, number> = { gentle: 0, medium: 0, sharp: 0, hairpin: 0, chicane: 0 };
+  const phases = ["generate", "props", "water", "enemies"] as const;
+  const timingsMs = Object.fromEntries(phases.map((p) => [p, { mean: 0, max: 0, maxSeed: -1 }])) as StageAuditSummary["timingsMs"];
+
+  for (const a of audits) {
+    for (const check of a.failures) (failuresByCheck[check] ??= []).push(a.seed);
+    attemptsHistogram[a.attempts] = (attemptsHistogram[a.attempts] ?? 0) + 1;
+    const bin = Math.floor(a.lengthM / LENGTH_BIN_M) * LENGTH_BIN_M;
+    lengthHistogramM[bin] = (lengthHistogramM[bin] ?? 0) + 1;
+    for (const type of a.cornerTypes) cornerTypeHistogram[type]++;
+    for (const phase of phases) {
+      const t = timingsMs[phase];
+      t.mean += a.timingsMs[phase] / audits.length;
+      if (a.timingsMs[phase] > t.max) {
+        t.max = a.timingsMs[phase];
+        t.maxSeed = a.seed;
+      }
+    }
+  }
+
+  return {
+    seeds: audits.length,
+    failed: audits.filter((a) => a.failures.length > 0).length,
+    failuresByCheck,
+    attemptsHistogram,
+    lengthHistogramM,
+    cornerTypeHistogram,
+    timingsMs
+  };
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "vitest";
+import { mulberry32 } from "./rng";
 import { stageMetaFromSeed, resolveStageTheme, type TrackZone } from "./stage";
 
 function overlaps(a: TrackZone, b: TrackZone): boolean {
@@ -41,4 +42,43 @@ describe("stageMetaFromSeed", () => {
       }
     }
   });
+
+  it("keeps existing seeds' zones where they were before rain and fog became weather", () => {
+    const spans = (seed: number) => stageMetaFromSeed(seed).zones.map((z) => [z.kind, +z.start01.toFixed(4), +z.end01.toFixed(4)]);
+    expect(spans(11)).toEqual([["eclipse", 0.0163, 0.2853], ["wind", 0.2999, 0.4344]]);
+    expect(spans(15)).toEqual([["eclipse", 0.3677, 0.6562]]);
+    expect(spans(2026)).toEqual([["eclipse", 0.7197, 0.9227]]);
+    for (let seed = 1; seed <= 100; seed++) {
+      expect(stageMetaFromSeed(seed).zones.some((z) => z.kind === "rain" || z.kind === "fog")).toBe(false);
+    }
+  });
+
+  it("picks every theme from some seed and keeps each to its own zones", () => {
+    const kinds = new Set<string>();
+    for (let seed = 1; seed <= 300; seed++) {
+      const { theme, zones } = stageMetaFromSeed(seed);
+      kinds.add(theme.kind);
+      const resolved = resolveStageTheme(theme);
+      for (const z of zones) {
+        if (z.kind === "rain") expect(resolved.allowsRain).toBe(true);
+        if (z.kind === "electrical") expect(resolved.allowsElectrical).toBe(true);
+      }
+    }
+    expect([...kinds].sort()).toEqual(["arctic", "desert", "rainforest", "ruins", "swamp", "temperate", "volcanic"]);
+    expect(resolveStageTheme({ kind: "volcanic" }).allowsRain).toBe(false);
+    expect(resolveStageTheme({ kind: "swamp" }).allowsElectrical).toBe(false);
+  });
+
+  it("leaves a seed its original theme unless a newer theme took its slice of that band", () => {
+    const originalTheme = (seed: number): string => {
+      const roll = mulberry32(seed)();
+      return roll < 0.22 ? "desert" : roll < 0.44 ? "arctic" : roll < 0.70 ? "temperate" : "rainforest";
+    };
+    const carvedFrom: Record<string, string[]> = { volcanic: ["desert", "arctic"], ruins: ["temperate"], swamp: ["rainforest"] };
+    for (let seed = 1; seed <= 500; seed++) {
+      const kind = stageMetaFromSeed(seed).theme.kind;
+      if (kind in carvedFrom) expect(carvedFrom[kind]).toContain(originalTheme(seed));
+      else expect(kind).toBe(originalTheme(seed));
+    }
+  });
 });
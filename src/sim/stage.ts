@@ -1,6 +1,9 @@
 import { mulberry32 } from "./rng";
 
-export type StageThemeKind = "temperate" | "rainforest" | "desert" | "arctic";
+export type StageThemeKind = "temperate" | "rainforest" | "desert" | "arctic" | "volcanic" | "swamp" | "ruins";
+
+// Order is part of the share-link format (track-code): append new kinds, never reorder.
+export const STAGE_THEME_KINDS: readonly StageThemeKind[] = ["temperate", "rainforest", "desert", "arctic", "volcanic", "swamp", "ruins"];
 
 // Keep what we serialize small + stable.
 export type StageThemeRef = { kind: StageThemeKind };
@@ -17,15 +20,24 @@ export type StageTheme = StageThemeRef & {
   allowsDarkness: boolean;
   allowsElectrical: boolean;
   allowsSandstorm: boolean;
+  allowsWind: boolean;
 };
 
-export type TrackZoneKind = "rain" | "fog" | "eclipse" | "electrical" | "sandstorm";
+export type TrackZoneKind = "rain" | "fog" | "eclipse" | "electrical" | "sandstorm" | "wind";
+
+// How a wind zone blows (see wind.ts): its direction and the size and rhythm of its gusts.
+export type WindProfile = {
+  towardRad: number; // world direction the air moves toward
+  gust01: number; // 0 = steady, 1 = gusts up to a bit over twice the mean
+  gustPeriodS: number; // time from one gust to the next
+};
 
 export type TrackZone = {
   kind: TrackZoneKind;
   start01: number;
   end01: number;
   intensity01: number;
+  wind?: WindProfile; // wind zones only
 };
 
 // Quiet zones are stretches intended to be "just driving" (reduced hazards/enemies).
@@ -51,7 +63,8 @@ export function resolveStageTheme(ref: StageThemeRef): StageTheme {
         allowsFog: true,
         allowsDarkness: true,
         allowsElectrical: true,
-        allowsSandstorm: false
+        allowsSandstorm: false,
+        allowsWind: false
       };
     case "desert":
       return {
@@ -67,7 +80,8 @@ export function resolveStageTheme(ref: StageThemeRef): StageTheme {
         allowsFog: false,
         allowsDarkness: true,
         allowsElectrical: true,
-        allowsSandstorm: false
+        allowsSandstorm: false,
+        allowsWind: true
       };
     case "arctic":
       return {
@@ -83,7 +97,59 @@ export function resolveStageTheme(ref: StageThemeRef): StageTheme {
         allowsFog: true,
         allowsDarkness: true,
         allowsElectrical: true,
-        allowsSandstorm: false
+        allowsSandstorm: false,
+        allowsWind: true
+      };
+    case "volcanic":
+      return {
+        kind: "volcanic",
+        name: "Volcanic Rim",
+        // Charcoal ground with a hint of ember.
+        terrainColor: "rgba(62, 52, 50, 1)",
+        bgColor: "rgba(44, 36, 35, 1)",
+        minimapBgColor: "rgba(62, 52, 50, 0.22)",
+        offtrackBgColor: "rgba(62, 52, 50, 1)",
+        allowsIce: false,
+        allowsRain: false,
+        allowsFog: true, // ash haze
+        allowsDarkness: true,
+        allowsElectrical: true,
+        allowsSandstorm: false,
+        allowsWind: true
+      };
+    case "swamp":
+      return {
+        kind: "swamp",
+        name: "Swamp Crossing",
+        // Murky olive water and moss.
+        terrainColor: "rgba(70, 78, 52, 1)",
+        bgColor: "rgba(50, 58, 40, 1)",
+        minimapBgColor: "rgba(70, 78, 52, 0.22)",
+        offtrackBgColor: "rgba(70, 78, 52, 1)",
+        allowsIce: false,
+        allowsRain: true,
+        allowsFog: true,
+        allowsDarkness: true,
+        allowsElectrical: false,
+        allowsSandstorm: false,
+        allowsWind: false
+      };
+    case "ruins":
+      return {
+        kind: "ruins",
+        name: "Urban Ruins",
+        // Dusty concrete gray.
+        terrainColor: "rgba(110, 108, 102, 1)",
+        bgColor: "rgba(88, 86, 82, 1)",
+        minimapBgColor: "rgba(110, 108, 102, 0.22)",
+        offtrackBgColor: "rgba(110, 108, 102, 1)",
+        allowsIce: false,
+        allowsRain: true,
+        allowsFog: true,
+        allowsDarkness: true,
+        allowsElectrical: true,
+        allowsSandstorm: false,
+        allowsWind: true
       };
     case "temperate":
     default:
@@ -100,7 +166,8 @@ export function resolveStageTheme(ref: StageThemeRef): StageTheme {
         allowsFog: true,
         allowsDarkness: true,
         allowsElectrical: true,
-        allowsSandstorm: false
+        allowsSandstorm: false,
+        allowsWind: true
       };
   }
 }
@@ -112,10 +179,16 @@ function clamp01(v: number): number {
 function pickThemeRef(seed: number): StageThemeRef {
   const r = mulberry32(Math.floor(seed) || 1);
   const roll = r();
-  if (roll < 0.22) return { kind: "desert" };
-  if (roll < 0.44) return { kind: "arctic" };
-  if (roll < 0.70) return { kind: "temperate" };
-  return { kind: "rainforest" };
+  // The four original bands (desert < 0.22 < arctic < 0.44 < temperate < 0.70 < rainforest) keep their
+  // edges; the newer themes take the top slice of one, so every other seed keeps the theme it had.
+  if (roll < 0.16) return { kind: "desert" };
+  if (roll < 0.22) return { kind: "volcanic" };
+  if (roll < 0.38) return { kind: "arctic" };
+  if (roll < 0.44) return { kind: "volcanic" };
+  if (roll < 0.60) return { kind: "temperate" };
+  if (roll < 0.70) return { kind: "ruins" };
+  if (roll < 0.90) return { kind: "rainforest" };
+  return { kind: "swamp" };
 }
 
 function allowedZoneKinds(theme: StageTheme): TrackZoneKind[] {
@@ -126,6 +199,7 @@ function allowedZoneKinds(theme: StageTheme): TrackZoneKind[] {
   if (theme.allowsFog) out.push("fog");
   if (theme.allowsDarkness) out.push("eclipse");
   if (theme.allowsElectrical) out.push("electrical");
+  if (theme.allowsWind) out.push("wind");
   return out.length > 0 ? out : ["electrical"];
 }
 
@@ -143,34 +217,30 @@ export function stageMetaFromSeed(seed: number): { theme: StageThemeRef; zones:
   const zoneKinds = allowedZoneKinds(theme);
   const zones: TrackZone[] = [];
 
-  // Rain happens 0-1 times per map, covering 20-35% of the track.
-  // Fog is a weather zone that reduces visibility (arctic: very common for testing, temperate: moderate).
-  const hasRain = theme.allowsRain && rand() < 0.65; // 65% chance of rain zone
-  // Fog: arctic is intentionally common; bump slightly for more frequent arctic fog.
-  const fogChance = themeRef.kind === "arctic" ? 0.92 : themeRef.kind === "temperate" ? 0.35 : 0.04;
+  // Rain and fog are weather now: they come and go on the race clock (see weather.ts), not at fixed
+  // places. Their spans are still drawn, and kept out of the way of the zones below until the end, so
+  // every seed's other zones land where they always did.
+  const hasRain = theme.allowsRain && rand() < 0.65;
+  const fogChance = themeRef.kind === "arctic" ? 0.92 : themeRef.kind === "swamp" ? 0.7 : themeRef.kind === "volcanic" ? 0.5 : themeRef.kind === "temperate" ? 0.35 : 0.04;
   const hasFog = theme.allowsFog && rand() < fogChance;
   // Eclipse: rarer than rain, more common than electrical.
   const eclipseChance = 0.22;
   const hasEclipse = theme.allowsDarkness && rand() < eclipseChance;
   const hasElectrical = theme.allowsElectrical && rand() < 0.06; // 6% chance electrical
 
-  // Add rain zone if applicable
   if (hasRain) {
-    const start01 = clamp01(rand() * 0.60); // Start in first 60% of track
-    const len01 = 0.20 + rand() * 0.15; // 20-35% of track
+    const start01 = clamp01(rand() * 0.60);
+    const len01 = 0.20 + rand() * 0.15;
     const end01 = clamp01(start01 + len01);
     const intensity01 = clamp01(0.75 + rand() * 0.25);
     zones.push({ kind: "rain", start01, end01, intensity01 });
   }
 
-  // Add fog zone if applicable (non-overlapping) - weather fog that reduces visibility
   if (hasFog) {
     for (let attempt = 0; attempt < 12; attempt++) {
       const start01 = clamp01(rand() * 0.70);
-      // Fog covers 15-30% of the track
       const len01 = 0.15 + rand() * 0.15;
       const end01 = clamp01(start01 + len01);
-      // Intensity affects visibility radius
       const intensity01 = clamp01(0.5 + rand() * 0.5);
       const candidate: TrackZone = { kind: "fog", start01, end01, intensity01 };
       if (!zones.some((z) => overlaps(z, candidate))) {
@@ -210,6 +280,24 @@ export function stageMetaFromSeed(seed: number): { theme: StageThemeRef; zones:
     }
   }
 
+  // Add wind zone if applicable (non-overlapping). Drawn last so the zones above stay as they were.
+  const windChance = themeRef.kind === "desert" ? 0.4 : 0.25;
+  const hasWind = theme.allowsWind && rand() < windChance;
+  if (hasWind) {
+    for (let attempt = 0; attempt < 12; attempt++) {
+      const start01 = clamp01(rand() * 0.75);
+      const len01 = 0.12 + rand() * 0.14;
+      const end01 = clamp01(start01 + len01);
+      const intensity01 = clamp01(0.55 + rand() * 0.45);
+      const wind: WindProfile = { towardRad: rand() * Math.PI * 2, gust01: 0.4 + rand() * 0.6, gustPeriodS: 5 + rand() * 6 };
+      const candidate: TrackZone = { kind: "wind", start01, end01, intensity01, wind };
+      if (!zones.some((z) => overlaps(z, candidate))) {
+        zones.push(candidate);
+        break;
+      }
+    }
+  }
+
   // Legacy loop kept for compatibility but now empty since we handle zones above
   const zoneCount = 0;
   for (let i = 0; i < zoneCount; i++) {
@@ -238,7 +326,7 @@ export function stageMetaFromSeed(seed: number): { theme: StageThemeRef; zones:
 
   zones.sort((a, b) => a.start01 - b.start01);
 
-  return { theme: themeRef, zones };
+  return { theme: themeRef, zones: zones.filter((z) => z.kind !== "rain" && z.kind !== "fog") };
 }
 
 function overlaps01(a: { start01: number; end01: number }, b: { start01: number; end01: number }): boolean {
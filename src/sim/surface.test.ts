@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { surfaceForTrackSM } from "./surface";
+import { bakeSurfaceRuns, parseSurfaceRuns, surfaceAlongTrack, surfaceForRoad, surfaceForTrackSM } from "./surface";
+import { generatePointToPointTrack } from "./track";
 
 describe("surface types", () => {
   it("returns valid surface types throughout track with randomization", () => {
@@ -99,4 +100,73 @@ describe("surface types", () => {
     // If this seed happens to not generate ice, the test is inconclusive but should not fail.
     expect(true).toBe(true);
   });
+
+  it("baked runs reproduce the seed's surfaces", () => {
+    const totalLength = 2000;
+    const trackSeed = 4242;
+    const runs = bakeSurfaceRuns(trackSeed, "temperate");
+    expect(runs[0].start01).toBe(0);
+    expect(runs[runs.length - 1].end01).toBe(1);
+    for (let s = 5; s < totalLength; s += 10) {
+      const seeded = surfaceForTrackSM(totalLength, s, false, trackSeed, "temperate");
+      const authored = surfaceAlongTrack(runs, totalLength, s, false, trackSeed, "temperate");
+      expect(authored.name).toBe(seeded.name);
+      expect(authored.frictionMu).toBeCloseTo(seeded.frictionMu, 2);
+    }
+  });
+
+  it("generated tracks bake their surfaces from the base seed, even after retries", () => {
+    let retried = 0;
+    for (const seed of [10, 14, 16, 65, 91]) {
+      const { def, attempts } = generatePointToPointTrack(seed);
+      if (attempts > 1) retried++;
+      expect(def.surfaces).toEqual(bakeSurfaceRuns(seed, def.meta?.theme?.kind));
+    }
+    expect(retried).toBeGreaterThan(0);
+  });
+
+  it("authored runs override the seed and leave gaps to it", () => {
+    const runs = [{ start01: 0.25, end01: 0.5, name: "ice" as const, mu: 0.3, rr: 200 }];
+    const onRun = surfaceAlongTrack(runs, 1000, 300, false, 7);
+    expect(onRun.name).toBe("ice");
+    expect(onRun.frictionMu).toBe(0.3);
+    expect(surfaceAlongTrack(runs, 1000, 300, true, 7).frictionMu).toBeLessThanOrEqual(0.3 * 0.85 + 1e-9);
+    expect(surfaceAlongTrack(runs, 1000, 700, false, 7)).toEqual(surfaceForTrackSM(1000, 700, false, 7));
+  });
+
+  it("drops malformed and overlapping runs when parsing", () => {
+    const runs = parseSurfaceRuns([
+      { start01: 0.5, end01: 1.2, name: "sand", mu: 0.6, rr: 400 },
+      { start01: 0, end01: 0.5, name: "tarmac", mu: 1.0, rr: 250 },
+      { start01: 0.6, end01: 0.8, name: "gravel", mu: 0.7, rr: 300 },
+      { start01: 0.1, end01: 0.2, name: "lava", mu: 0.5, rr: 300 },
+      { start01: 0.3, end01: 0.2, name: "ice", mu: 0.3, rr: 200 },
+      { start01: 0, end01: 1, name: "ice", mu: Number.NaN, rr: 200 }
+    ]);
+    expect(runs).toEqual([
+      { start01: 0, end01: 0.5, name: "tarmac", mu: 1.0, rr: 250 },
+      { start01: 0.5, end01: 1, name: "sand", mu: 0.6, rr: 400 }
+    ]);
+    expect(parseSurfaceRuns([{ start01: 0, end01: 1 }])).toBeUndefined();
+    expect(parseSurfaceRuns("ice")).toBeUndefined();
+  });
+
+  it("volcanic, swamp and ruins stages lay their own surfaces", () => {
+    const namesFor = (theme: "volcanic" | "swamp" | "ruins"): Set<string> => {
+      const names = new Set<string>();
+      for (const trackSeed of [11, 222, 3333, 44444]) {
+        for (let s = 0; s < 1000; s += 10) names.add(surfaceForTrackSM(1000, s, false, trackSeed, theme).name);
+      }
+      return names;
+    };
+    expect([...namesFor("volcanic")].sort()).toEqual(["ash", "lava-crust", "tarmac"]);
+    expect([...namesFor("swamp")].sort()).toEqual(["gravel", "mud", "tarmac"]);
+    expect([...namesFor("ruins")].sort()).toEqual(["broken-tarmac", "rubble"]);
+
+    // Mud drags far more than any other road, and the bog beside it more still.
+    const mud = surfaceForRoad("mud", false, "swamp");
+    expect(mud.rollingResistanceN).toBeGreaterThan(2 * surfaceForRoad("gravel", false).rollingResistanceN);
+    expect(surfaceForRoad("mud", true, "swamp").rollingResistanceN).toBeGreaterThan(surfaceForRoad("gravel", true, "temperate").rollingResistanceN * 2);
+    expect(parseSurfaceRuns([{ start01: 0, end01: 1, name: "lava-crust", mu: 1, rr: 300 }])).toHaveLength(1);
+  });
 });
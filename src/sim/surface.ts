@@ -1,10 +1,47 @@
+import type { TireCoefficients } from "./tire";
+
 export type Surface = {
-  name: "tarmac" | "gravel" | "sand" | "ice" | "offtrack";
+  name: "tarmac" | "gravel" | "sand" | "ice" | "ash" | "lava-crust" | "mud" | "broken-tarmac" | "rubble" | "offtrack";
   frictionMu: number;
   rollingResistanceN: number;
+  tire: TireCoefficients;
 };
 
-export type StageThemeKind = "temperate" | "rainforest" | "desert" | "arctic";
+// What a road can be paved with; "offtrack" is everything beside it.
+export type RoadSurfaceName = Exclude<Surface["name"], "offtrack">;
+
+export const ROAD_SURFACE_NAMES: readonly RoadSurfaceName[] = [
+  "tarmac",
+  "gravel",
+  "sand",
+  "ice",
+  "ash",
+  "lava-crust",
+  "mud",
+  "broken-tarmac",
+  "rubble"
+];
+
+export function isRoadSurfaceName(name: unknown): name is RoadSurfaceName {
+  return typeof name === "string" && (ROAD_SURFACE_NAMES as readonly string[]).includes(name);
+}
+
+// Surfaces that give way under the tires: they throw up dust, slow braking and are where rocks collect.
+export function isLooseSurface(name: Surface["name"]): boolean {
+  return name === "gravel" || name === "sand" || name === "ash" || name === "mud" || name === "rubble";
+}
+
+// An authored stretch of road as fractions of the track length, with its friction coefficient and
+// rolling resistance (N).
+export type SurfaceRun = {
+  start01: number;
+  end01: number;
+  name: RoadSurfaceName;
+  mu: number;
+  rr: number;
+};
+
+export type StageThemeKind = "temperate" | "rainforest" | "desert" | "arctic" | "volcanic" | "swamp" | "ruins";
 
 // Simple pseudo-random function for surface generation
 function surfaceRand(seed: number): number {
@@ -12,17 +49,52 @@ function surfaceRand(seed: number): number {
   return x - Math.floor(x);
 }
 
+// Force-curve shape per surface: tarmac is stiff with a clear peak, loose surfaces build force
+// slowly and keep it (plowing), ice has little stiffness and falls off hard once it lets go.
+export function tireCoefficientsForSurface(name: Surface["name"]): TireCoefficients {
+  switch (name) {
+    case "tarmac":
+      return { stiffnessScale: 1.0, shapeC: 1.35, curvatureE: -0.4 };
+    case "gravel":
+      return { stiffnessScale: 0.8, shapeC: 1.3, curvatureE: 0.1 };
+    case "sand":
+      return { stiffnessScale: 0.55, shapeC: 1.1, curvatureE: 0.5 };
+    case "ice":
+      return { stiffnessScale: 0.3, shapeC: 1.6, curvatureE: -1.5 };
+    case "ash":
+      return { stiffnessScale: 0.6, shapeC: 1.15, curvatureE: 0.4 };
+    case "lava-crust":
+      // Rough and hard: plenty of bite, but it lets go abruptly.
+      return { stiffnessScale: 0.9, shapeC: 1.45, curvatureE: -0.7 };
+    case "mud":
+      return { stiffnessScale: 0.45, shapeC: 1.05, curvatureE: 0.6 };
+    case "broken-tarmac":
+      return { stiffnessScale: 0.85, shapeC: 1.3, curvatureE: -0.2 };
+    case "rubble":
+      return { stiffnessScale: 0.7, shapeC: 1.2, curvatureE: 0.3 };
+    case "offtrack":
+      return { stiffnessScale: 0.6, shapeC: 1.15, curvatureE: 0.3 };
+  }
+}
+
 function offtrackSurfaceForTheme(themeKind?: StageThemeKind): Surface {
   switch (themeKind) {
     case "desert":
-      return { name: "offtrack", frictionMu: 0.66, rollingResistanceN: 300 };
+      return { name: "offtrack", frictionMu: 0.66, rollingResistanceN: 300, tire: tireCoefficientsForSurface("offtrack") };
     case "arctic":
-      return { name: "offtrack", frictionMu: 0.38, rollingResistanceN: 260 };
+      return { name: "offtrack", frictionMu: 0.38, rollingResistanceN: 260, tire: tireCoefficientsForSurface("offtrack") };
     case "rainforest":
-      return { name: "offtrack", frictionMu: 0.56, rollingResistanceN: 300 };
+      return { name: "offtrack", frictionMu: 0.56, rollingResistanceN: 300, tire: tireCoefficientsForSurface("offtrack") };
+    case "volcanic":
+      return { name: "offtrack", frictionMu: 0.54, rollingResistanceN: 340, tire: tireCoefficientsForSurface("offtrack") };
+    case "swamp":
+      // Bog: the verge is where cars go to stop.
+      return { name: "offtrack", frictionMu: 0.44, rollingResistanceN: 720, tire: tireCoefficientsForSurface("offtrack") };
+    case "ruins":
+      return { name: "offtrack", frictionMu: 0.62, rollingResistanceN: 330, tire: tireCoefficientsForSurface("offtrack") };
     case "temperate":
     default:
-      return { name: "offtrack", frictionMu: 0.58, rollingResistanceN: 280 };
+      return { name: "offtrack", frictionMu: 0.58, rollingResistanceN: 280, tire: tireCoefficientsForSurface("offtrack") };
   }
 }
 
@@ -36,6 +108,14 @@ function surfaceWeightsForTheme(themeKind?: StageThemeKind): { tarmac: number; g
     case "rainforest":
       // Wet, earthy, but never icy.
       return { tarmac: 0.34, gravel: 0.66, ice: 0.0 };
+    case "volcanic":
+      // Loose ash, with short runs over lava crust.
+      return { tarmac: 0.26, gravel: 0.52, ice: 0.22 };
+    case "swamp":
+      return { tarmac: 0.30, gravel: 0.36, ice: 0.34 };
+    case "ruins":
+      // What is left of the paving, and what fell on it.
+      return { tarmac: 0.44, gravel: 0.56, ice: 0.0 };
     case "temperate":
     default:
       // Rally-friendly default: non-tarmac is common, but allow occasional ice patches.
@@ -43,13 +123,80 @@ function surfaceWeightsForTheme(themeKind?: StageThemeKind): { tarmac: number; g
   }
 }
 
+// The plan is made of paved, loose and treacherous runs (named after the temperate surfaces); each theme
+// lays its own surface on each.
+function themeSurfaceName(run: "tarmac" | "gravel" | "ice", themeKind?: StageThemeKind): RoadSurfaceName {
+  switch (themeKind) {
+    case "desert":
+      return run === "gravel" ? "sand" : run;
+    case "volcanic":
+      return run === "gravel" ? "ash" : run === "ice" ? "lava-crust" : run;
+    case "swamp":
+      return run === "ice" ? "mud" : run;
+    case "ruins":
+      return run === "tarmac" ? "broken-tarmac" : run === "gravel" ? "rubble" : run;
+    default:
+      return run;
+  }
+}
+
+// Friction and rolling resistance (N) of a planned run: base plus a seeded share of the spread. `rrSalt`
+// decorrelates the two draws.
+const PLANNED_SURFACES: Record<RoadSurfaceName, { mu: number; muSpread: number; rr: number; rrSpread: number; rrSalt: number }> = {
+  tarmac: { mu: 1.16, muSpread: 0.04, rr: 210, rrSpread: 20, rrSalt: 1.5 },
+  gravel: { mu: 0.91, muSpread: 0.06, rr: 420, rrSpread: 40, rrSalt: 1.7 },
+  // Sand: a bit lower grip and more drag than gravel.
+  sand: { mu: 0.84, muSpread: 0.06, rr: 520, rrSpread: 60, rrSalt: 1.7 },
+  // Ice: good acceleration to allow chaos, but stiffness/damping scaling makes it slidey.
+  ice: { mu: 0.55, muSpread: 0.10, rr: 80, rrSpread: 20, rrSalt: 2.1 },
+  ash: { mu: 0.78, muSpread: 0.06, rr: 480, rrSpread: 60, rrSalt: 1.7 },
+  "lava-crust": { mu: 1.0, muSpread: 0.06, rr: 300, rrSpread: 30, rrSalt: 2.1 },
+  // Mud: the grip of wet gravel, and it drags like nothing else.
+  mud: { mu: 0.66, muSpread: 0.06, rr: 1050, rrSpread: 150, rrSalt: 2.1 },
+  "broken-tarmac": { mu: 1.02, muSpread: 0.06, rr: 280, rrSpread: 40, rrSalt: 1.5 },
+  rubble: { mu: 0.8, muSpread: 0.06, rr: 500, rrSpread: 60, rrSalt: 1.7 }
+};
+
+// A soaked road: the grip left and the rolling resistance it has at full wetness. Water films over
+// sealed and hard surfaces, turns ash to paste and gravel heavy, and packs sand firmer.
+const WET_SURFACES: Record<Surface["name"], { mu: number; rr: number }> = {
+  tarmac: { mu: 0.72, rr: 1.1 },
+  gravel: { mu: 0.88, rr: 1.15 },
+  sand: { mu: 1.0, rr: 0.85 },
+  ice: { mu: 0.75, rr: 1.0 },
+  ash: { mu: 0.78, rr: 1.25 },
+  "lava-crust": { mu: 0.82, rr: 1.05 },
+  mud: { mu: 0.85, rr: 1.2 },
+  "broken-tarmac": { mu: 0.7, rr: 1.1 },
+  rubble: { mu: 0.86, rr: 1.1 },
+  offtrack: { mu: 0.85, rr: 1.2 }
+};
+
+/** `surface` with `wetness01` of water on it (0 dry, 1 soaked). */
+export function wetSurface(surface: Surface, wetness01: number): Surface {
+  const w = Math.max(0, Math.min(1, wetness01));
+  if (w <= 0) return surface;
+  const wet = WET_SURFACES[surface.name];
+  return {
+    ...surface,
+    frictionMu: surface.frictionMu * (1 + (wet.mu - 1) * w),
+    rollingResistanceN: surface.rollingResistanceN * (1 + (wet.rr - 1) * w)
+  };
+}
+
+function surfaceSegmentCount(trackSeed: number): number {
+  return 8 + Math.floor(surfaceRand(trackSeed * 1.1) * 5);
+}
+
 export function surfaceForTrackSM(
   totalLengthM: number,
   sM: number,
   offTrack: boolean,
   trackSeed?: number,
-  themeKind?: StageThemeKind
+  themeKind?: StageThemeKind,
+  wetness01: number = 0
 ): Surface {
+  if (wetness01 > 0) return wetSurface(surfaceForTrackSM(totalLengthM, sM, offTrack, trackSeed, themeKind), wetness01);
   if (offTrack) {
     const off = offtrackSurfaceForTheme(themeKind);
     // If the on-road segment is icy, off-road should not magically have better grip.
@@ -68,7 +215,7 @@ export function surfaceForTrackSM(
   
   // Generate random surface transitions based on track seed
   // Create 8-12 surface segments with random order (more segments = shorter patches)
-  const numSegments = 8 + Math.floor(surfaceRand(seed * 1.1) * 5);
+  const numSegments = surfaceSegmentCount(seed);
   const segmentSize = 1.0 / numSegments;
   
   // Determine which segment we're in
@@ -168,17 +315,111 @@ export function surfaceForTrackSM(
   if (segmentIdx === forcedVarietyIdx && surfaceName === "tarmac") surfaceName = forcedVarietySurface;
   
   // Return surface with properties
-  switch (surfaceName) {
+  const name = themeSurfaceName(surfaceName, themeKind);
+  const p = PLANNED_SURFACES[name];
+  return {
+    name,
+    frictionMu: p.mu + surfaceRand(seed + segmentIdx) * p.muSpread,
+    rollingResistanceN: p.rr + surfaceRand(seed * p.rrSalt + segmentIdx) * p.rrSpread,
+    tire: tireCoefficientsForSurface(name)
+  };
+}
+
+/** A road laid with one surface end to end (a track branch), and what lies beside it. */
+export function surfaceForRoad(name: RoadSurfaceName, offTrack: boolean, themeKind?: StageThemeKind, wetness01: number = 0): Surface {
+  return wetSurface(besideRoad(roadSurface(name), offTrack, themeKind), wetness01);
+}
+
+// Off the road the theme's ground, except that an icy road keeps its verge no grippier than itself.
+function besideRoad(road: Surface, offTrack: boolean, themeKind?: StageThemeKind): Surface {
+  if (!offTrack) return road;
+  const off = offtrackSurfaceForTheme(themeKind);
+  return road.name === "ice" ? { ...off, frictionMu: Math.min(off.frictionMu, road.frictionMu * 0.85) } : off;
+}
+
+/**
+ * Road surface at `sM`. Authored runs win where they cover it; the rest of the road, and tracks
+ * without runs, follow the seed's plan. `wetness01` is how much water is on it (see wetSurface).
+ */
+export function surfaceAlongTrack(
+  runs: readonly SurfaceRun[] | undefined,
+  totalLengthM: number,
+  sM: number,
+  offTrack: boolean,
+  trackSeed?: number,
+  themeKind?: StageThemeKind,
+  wetness01: number = 0
+): Surface {
+  const t = totalLengthM > 0 ? (sM % totalLengthM) / totalLengthM : 0;
+  const run = runs?.find((r, i) => t >= r.start01 && (t < r.end01 || (i === runs.length - 1 && t <= r.end01)));
+  if (!run) return surfaceForTrackSM(totalLengthM, sM, offTrack, trackSeed, themeKind, wetness01);
+  const road: Surface = { name: run.name, frictionMu: run.mu, rollingResistanceN: run.rr, tire: tireCoefficientsForSurface(run.name) };
+  return wetSurface(besideRoad(road, offTrack, themeKind), wetness01);
+}
+
+/** The seed's surface plan written out as runs, so a generated track carries its own surfaces. */
+export function bakeSurfaceRuns(trackSeed: number, themeKind?: StageThemeKind): SurfaceRun[] {
+  const n = surfaceSegmentCount(trackSeed);
+  const runs: SurfaceRun[] = [];
+  for (let i = 0; i < n; i++) {
+    const surface = surfaceForTrackSM(1, (i + 0.5) / n, false, trackSeed, themeKind);
+    runs.push({
+      start01: i / n,
+      end01: (i + 1) / n,
+      name: surface.name === "offtrack" ? "gravel" : surface.name,
+      mu: Math.round(surface.frictionMu * 1000) / 1000,
+      rr: Math.round(surface.rollingResistanceN * 10) / 10
+    });
+  }
+  return runs;
+}
+
+/**
+ * Validate authored runs from a track file. Malformed runs, and runs overlapping an earlier one, are
+ * dropped; the rest come back in order along the track.
+ */
+export function parseSurfaceRuns(raw: unknown): SurfaceRun[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const runs: SurfaceRun[] = [];
+  for (const r of raw) {
+    if (!r || typeof r !== "object") continue;
+    const v = r as Record<string, unknown>;
+    const { start01, end01, mu, rr } = v;
+    if (typeof start01 !== "number" || typeof end01 !== "number" || typeof mu !== "number" || typeof rr !== "number") continue;
+    if (!isRoadSurfaceName(v.name)) continue;
+    const start = Math.max(0, Math.min(1, start01));
+    const end = Math.max(0, Math.min(1, end01));
+    if (!(end > start) || !(mu >= 0.05 && mu <= 2) || !(rr >= 0 && rr <= 3000)) continue;
+    runs.push({ start01: start, end01: end, name: v.name, mu, rr });
+  }
+  runs.sort((a, b) => a.start01 - b.start01);
+  const out: SurfaceRun[] = [];
+  for (const run of runs) {
+    if (out.length > 0 && run.start01 < out[out.length - 1].end01 - 1e-9) continue;
+    out.push(run);
+  }
+  return out.length > 0 ? out : undefined;
+}
+
+function roadSurface(name: RoadSurfaceName): Surface {
+  switch (name) {
     case "tarmac":
-      return { name: "tarmac", frictionMu: 1.16 + surfaceRand(seed + segmentIdx) * 0.04, rollingResistanceN: 210 + surfaceRand(seed * 1.5 + segmentIdx) * 20 };
+      return { name, frictionMu: 1.18, rollingResistanceN: 220, tire: tireCoefficientsForSurface(name) };
     case "gravel":
-      if (themeKind === "desert") {
-        // Sand: a bit lower grip and more drag than gravel.
-        return { name: "sand", frictionMu: 0.84 + surfaceRand(seed + segmentIdx) * 0.06, rollingResistanceN: 520 + surfaceRand(seed * 1.7 + segmentIdx) * 60 };
-      }
-      return { name: "gravel", frictionMu: 0.91 + surfaceRand(seed + segmentIdx) * 0.06, rollingResistanceN: 420 + surfaceRand(seed * 1.7 + segmentIdx) * 40 };
+      return { name, frictionMu: 0.94, rollingResistanceN: 440, tire: tireCoefficientsForSurface(name) };
+    case "sand":
+      return { name, frictionMu: 0.87, rollingResistanceN: 550, tire: tireCoefficientsForSurface(name) };
     case "ice":
-      // Ice: good acceleration to allow chaos, but stiffness/damping scaling makes it slidey.
-      return { name: "ice", frictionMu: 0.55 + surfaceRand(seed + segmentIdx) * 0.10, rollingResistanceN: 80 + surfaceRand(seed * 2.1 + segmentIdx) * 20 };
+      return { name, frictionMu: 0.6, rollingResistanceN: 90, tire: tireCoefficientsForSurface(name) };
+    case "ash":
+      return { name, frictionMu: 0.81, rollingResistanceN: 510, tire: tireCoefficientsForSurface(name) };
+    case "lava-crust":
+      return { name, frictionMu: 1.03, rollingResistanceN: 315, tire: tireCoefficientsForSurface(name) };
+    case "mud":
+      return { name, frictionMu: 0.69, rollingResistanceN: 1120, tire: tireCoefficientsForSurface(name) };
+    case "broken-tarmac":
+      return { name, frictionMu: 1.05, rollingResistanceN: 300, tire: tireCoefficientsForSurface(name) };
+    case "rubble":
+      return { name, frictionMu: 0.83, rollingResistanceN: 530, tire: tireCoefficientsForSurface(name) };
   }
 }
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, defaultCarParams, stepCar, type CarTelemetry } from "./car";
+import {
+  TIRE_OPTIMAL_MAX_C,
+  TIRE_OPTIMAL_MIN_C,
+  createTireWearState,
+  stepTireWear,
+  tireGripScale,
+  tireStiffnessScale,
+  tireWearCarParams,
+  type TireWearState
+} from "./tire-wear";
+
+function drive(surface: "tarmac" | "gravel", seconds: number): TireWearState {
+  const params = defaultCarParams();
+  const dt = 1 / 120;
+  let car = { ...createCarState(), vxMS: 15 };
+  let tires = createTireWearState(16);
+  for (let i = 0; i < seconds / dt; i++) {
+    const steer = Math.sin(i * dt * 0.8) * 0.5;
+    const out = stepCar(car, tireWearCarParams(params, tires), { steer, throttle: 0.8, brake: 0, handbrake: 0 }, dt, {
+      frictionMu: surface === "tarmac" ? 1.1 : 0.9,
+      rollingResistanceN: 260,
+      gripScaleFront: tireGripScale(tires.front),
+      gripScaleRear: tireGripScale(tires.rear)
+    });
+    car = out.state;
+    tires = stepTireWear(tires, out.telemetry, Math.hypot(car.vxMS, car.vyMS), surface, 16, dt);
+  }
+  return tires;
+}
+
+describe("tire temperature and wear", () => {
+  it("grips best inside the temperature window and loses grip as it wears", () => {
+    const at = (tempC: number, wear01 = 0) => ({ tempC, wear01 });
+    const optimal = tireGripScale(at((TIRE_OPTIMAL_MIN_C + TIRE_OPTIMAL_MAX_C) / 2));
+    expect(optimal).toBe(1);
+    expect(tireGripScale(at(0))).toBeLessThan(optimal);
+    expect(tireGripScale(at(TIRE_OPTIMAL_MAX_C + 30))).toBeLessThan(optimal);
+    expect(tireGripScale(at(85, 1))).toBeLessThan(0.75);
+    expect(tireStiffnessScale(at(0))).toBeGreaterThan(tireStiffnessScale(at(85)));
+  });
+
+  it("heats up with slip and cools back to ambient", () => {
+    const hot = drive("tarmac", 30);
+    expect(hot.front.tempC).toBeGreaterThan(TIRE_OPTIMAL_MIN_C);
+    expect(hot.front.wear01).toBeGreaterThan(0);
+
+    // Rolling straight at 20 m/s with no slip: only airflow.
+    const idle: CarTelemetry = stepCar(createCarState(), defaultCarParams(), { steer: 0, throttle: 0, brake: 0, handbrake: 0 }, 1 / 120).telemetry;
+    let tires = hot;
+    for (let i = 0; i < 120 * 120; i++) tires = stepTireWear(tires, idle, 20, "tarmac", 16, 1 / 120);
+    expect(tires.front.tempC).toBeLessThan(20);
+    expect(tires.front.tempC).toBeGreaterThanOrEqual(16);
+    expect(tires.front.wear01).toBe(hot.front.wear01);
+  });
+
+  it("wears faster on gravel than on tarmac", () => {
+    const tarmac = drive("tarmac", 40);
+    const gravel = drive("gravel", 40);
+    expect(gravel.front.wear01).toBeGreaterThan(tarmac.front.wear01 * 1.5);
+  });
+});
@@ -0,0 +1,146 @@
+import { clamp } from "../runtime/math";
+import type { CarParams, CarTelemetry, WheelTelemetry } from "./car";
+import type { StageThemeKind, Surface } from "./surface";
+
+// Tread temperature and wear, lumped per axle. Slip (sliding the contact patch) turns tire force into
+// heat and tread loss; airflow cools the tire back towards ambient.
+export type AxleTireState = {
+  tempC: number;
+  wear01: number; // 0 = new, 1 = down to the carcass
+};
+
+export type TireWearState = {
+  front: AxleTireState;
+  rear: AxleTireState;
+};
+
+// Grip is best inside this window; cold tires are stiff and slippery, hot ones greasy.
+export const TIRE_OPTIMAL_MIN_C = 70;
+export const TIRE_OPTIMAL_MAX_C = 100;
+// Degrees over the window at which overheating costs its full grip penalty.
+const TIRE_OVERHEAT_RANGE_C = 40;
+// Share of slip energy that ends up in the tread (the rest goes into the road and the air).
+const TIRE_TREAD_HEAT_SHARE = 0.4;
+// Heat capacity of one axle's treads (J/K) and cooling (W/K) while stationary.
+const TIRE_HEAT_CAPACITY_J_PER_K = 5000;
+const TIRE_COOLING_W_PER_K = 100;
+// Airflow cooling doubles at this speed.
+const TIRE_COOLING_SPEED_MS = 15;
+// Slip energy (J) that wears one axle out completely on tarmac.
+const TIRE_LIFE_J = 80e6;
+
+/** Tread loss per unit of slip energy relative to tarmac. Loose and sharp surfaces chew tires. */
+export function tireWearRateForSurface(name: Surface["name"]): number {
+  switch (name) {
+    case "tarmac":
+      return 1.0;
+    case "gravel":
+      return 2.6;
+    case "sand":
+      return 1.8;
+    case "ice":
+      return 0.4;
+    case "ash":
+      return 1.5;
+    case "lava-crust":
+      return 3.4;
+    case "mud":
+      return 0.8;
+    case "broken-tarmac":
+      return 1.6;
+    case "rubble":
+      return 2.8;
+    case "offtrack":
+      return 2.2;
+  }
+}
+
+export function ambientTempForTheme(themeKind: StageThemeKind): number {
+  switch (themeKind) {
+    case "arctic":
+      return -8;
+    case "desert":
+      return 38;
+    case "rainforest":
+      return 27;
+    case "volcanic":
+      return 34;
+    case "swamp":
+      return 24;
+    case "ruins":
+      return 18;
+    case "temperate":
+    default:
+      return 16;
+  }
+}
+
+export function createTireWearState(ambientC: number): TireWearState {
+  return { front: { tempC: ambientC, wear01: 0 }, rear: { tempC: ambientC, wear01: 0 } };
+}
+
+// Power dissipated in a sliding contact patch: force times slip speed, lateral and longitudinal.
+function wheelSlipPowerW(w: WheelTelemetry, speedMS: number): number {
+  const lateral = Math.abs(w.lateralForceN) * speedMS * Math.abs(Math.sin(w.slipAngleRad));
+  const longitudinal = Math.abs(w.longitudinalForceN) * Math.abs(w.slipRatio) * Math.max(3, speedMS);
+  return lateral + longitudinal;
+}
+
+function stepAxle(axle: AxleTireState, slipPowerW: number, speedMS: number, ambientC: number, wearRate: number, dt: number): AxleTireState {
+  const coolingWPerK = TIRE_COOLING_W_PER_K * (1 + Math.abs(speedMS) / TIRE_COOLING_SPEED_MS);
+  // Implicit in the cooling term so a long dt can't overshoot ambient.
+  const tempC =
+    (axle.tempC + (dt * (TIRE_TREAD_HEAT_SHARE * slipPowerW + coolingWPerK * ambientC)) / TIRE_HEAT_CAPACITY_J_PER_K) /
+    (1 + (dt * coolingWPerK) / TIRE_HEAT_CAPACITY_J_PER_K);
+  // Overheated rubber tears faster.
+  const hot01 = clamp((axle.tempC - TIRE_OPTIMAL_MAX_C) / TIRE_OVERHEAT_RANGE_C, 0, 1);
+  const wear01 = clamp(axle.wear01 + (slipPowerW * wearRate * (1 + hot01) * dt) / TIRE_LIFE_J, 0, 1);
+  return { tempC, wear01 };
+}
+
+export function stepTireWear(
+  state: TireWearState,
+  telemetry: CarTelemetry,
+  speedMS: number,
+  surfaceName: Surface["name"],
+  ambientC: number,
+  dtSeconds: number
+): TireWearState {
+  if (dtSeconds <= 0) return state;
+  const [fl, fr, rl, rr] = telemetry.wheels;
+  const wearRate = tireWearRateForSurface(surfaceName);
+  const frontW = wheelSlipPowerW(fl, speedMS) + wheelSlipPowerW(fr, speedMS);
+  const rearW = wheelSlipPowerW(rl, speedMS) + wheelSlipPowerW(rr, speedMS);
+  return {
+    front: stepAxle(state.front, frontW, speedMS, ambientC, wearRate, dtSeconds),
+    rear: stepAxle(state.rear, rearW, speedMS, ambientC, wearRate, dtSeconds)
+  };
+}
+
+function coldHot01(axle: AxleTireState): { cold01: number; hot01: number } {
+  return {
+    cold01: clamp((TIRE_OPTIMAL_MIN_C - axle.tempC) / TIRE_OPTIMAL_MIN_C, 0, 1),
+    hot01: clamp((axle.tempC - TIRE_OPTIMAL_MAX_C) / TIRE_OVERHEAT_RANGE_C, 0, 1)
+  };
+}
+
+/** Multiplier on surface friction for one axle. */
+export function tireGripScale(axle: AxleTireState): number {
+  const { cold01, hot01 } = coldHot01(axle);
+  return (1 - 0.12 * cold01 - 0.15 * hot01) * (1 - 0.3 * clamp(axle.wear01, 0, 1));
+}
+
+/** Multiplier on cornering stiffness for one axle: cold carcasses are stiff, hot and worn ones soft. */
+export function tireStiffnessScale(axle: AxleTireState): number {
+  const { cold01, hot01 } = coldHot01(axle);
+  return (1 + 0.1 * cold01 - 0.25 * hot01) * (1 - 0.2 * clamp(axle.wear01, 0, 1));
+}
+
+/** Car parameters with tire temperature and wear applied to cornering stiffness. */
+export function tireWearCarParams(params: CarParams, state: TireWearState): CarParams {
+  return {
+    ...params,
+    corneringStiffnessFrontNPerRad: params.corneringStiffnessFrontNPerRad * tireStiffnessScale(state.front),
+    corneringStiffnessRearNPerRad: params.corneringStiffnessRearNPerRad * tireStiffnessScale(state.rear)
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { tireCoefficientsForSurface } from "./surface";
+import { linearTireModel, pacejkaTireModel, type TireLateralInput } from "./tire";
+
+const baseInput = (overrides: Partial<TireLateralInput> = {}): TireLateralInput => ({
+  slipAngleRad: 0.05,
+  longitudinalForceN: 0,
+  normalLoadN: 6000,
+  frictionMu: 1.1,
+  corneringStiffnessNPerRad: 105000,
+  tractionEllipseP: 5.5,
+  gripScale: 1,
+  coefficients: tireCoefficientsForSurface("tarmac"),
+  ...overrides
+});
+
+describe("tire models", () => {
+  it("linear model is clamped to the friction limit", () => {
+    const fy = linearTireModel.lateralForceN(baseInput({ slipAngleRad: 0.5 }));
+    expect(fy).toBeCloseTo(-1.1 * 6000, 6);
+  });
+
+  it("pacejka initial slope follows cornering stiffness and surface scale", () => {
+    const alpha = 1e-4;
+    for (const name of ["tarmac", "gravel", "ice"] as const) {
+      const coefficients = tireCoefficientsForSurface(name);
+      const fy = pacejkaTireModel.lateralForceN(baseInput({ slipAngleRad: alpha, coefficients }));
+      expect(-fy / alpha).toBeCloseTo(105000 * coefficients.stiffnessScale, -2);
+    }
+  });
+
+  it("pacejka never exceeds the friction peak and opposes slip", () => {
+    for (let i = -40; i <= 40; i++) {
+      const alpha = i * 0.02;
+      const fy = pacejkaTireModel.lateralForceN(baseInput({ slipAngleRad: alpha }));
+      expect(Math.abs(fy)).toBeLessThanOrEqual(1.1 * 6000 + 1e-6);
+      if (alpha !== 0) expect(Math.sign(fy)).toBe(-Math.sign(alpha));
+    }
+  });
+
+  it("surfaces differ in curve shape, not only peak", () => {
+    // Same mu for both, so any difference comes from the coefficient set.
+    const ratioPastPeak = (name: "sand" | "ice") => {
+      const coefficients = tireCoefficientsForSurface(name);
+      let peak = 0;
+      for (let i = 1; i <= 100; i++) {
+        const fy = Math.abs(pacejkaTireModel.lateralForceN(baseInput({ slipAngleRad: i * 0.01, coefficients })));
+        peak = Math.max(peak, fy);
+      }
+      const farOut = Math.abs(pacejkaTireModel.lateralForceN(baseInput({ slipAngleRad: 1.0, coefficients })));
+      return farOut / peak;
+    };
+
+    // Sand keeps building (plowing); ice lets go past the peak.
+    expect(ratioPastPeak("sand")).toBeGreaterThan(0.97);
+    expect(ratioPastPeak("ice")).toBeLessThan(0.9);
+  });
+
+  it("longitudinal force reduces available lateral force (combined slip)", () => {
+    const free = pacejkaTireModel.lateralForceN(baseInput({ slipAngleRad: 0.2, tractionEllipseP: 2 }));
+    const braking = pacejkaTireModel.lateralForceN(
+      baseInput({ slipAngleRad: 0.2, tractionEllipseP: 2, longitudinalForceN: -6000 })
+    );
+    expect(Math.abs(braking)).toBeLessThan(Math.abs(free) * 0.5);
+  });
+});
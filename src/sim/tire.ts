@@ -0,0 +1,80 @@
+import { clamp } from "../runtime/math";
+
+// Per-surface shape of the lateral force curve. The peak comes from frictionMu; these set how the
+// tire gets there and what happens past it.
+export type TireCoefficients = {
+  stiffnessScale: number; // cornering stiffness relative to the car's tarmac value (sets Pacejka B)
+  shapeC: number; // Pacejka C: > ~1.3 drops off harder after the peak
+  curvatureE: number; // Pacejka E: < 0 sharper peak, > 0 rounder and more progressive
+};
+
+export type TireModelKind = "linear" | "pacejka";
+
+export type TireLateralInput = {
+  slipAngleRad: number;
+  // Longitudinal force the tire is already carrying; it consumes grip via the traction ellipse.
+  longitudinalForceN: number;
+  normalLoadN: number;
+  frictionMu: number;
+  corneringStiffnessNPerRad: number;
+  tractionEllipseP: number;
+  gripScale: number; // 0..1, e.g. handbrake on the rear
+  coefficients: TireCoefficients;
+};
+
+export type TireModel = {
+  kind: TireModelKind;
+  lateralForceN(input: TireLateralInput): number;
+};
+
+/** Original model: linear in slip angle, clamped to the traction ellipse. Ignores the surface shape. */
+export const linearTireModel: TireModel = {
+  kind: "linear",
+  lateralForceN(input) {
+    // On low-grip surfaces, cornering stiffness drops dramatically (tires respond less to slip angle).
+    // This makes ice/rain feel "floaty" and unpredictable rather than just slow.
+    // Blend: high-grip surfaces (mu~1.2) get full stiffness; ice (mu~0.1) gets ~15% stiffness.
+    const stiffnessScale = clamp(0.1 + 0.75 * (input.frictionMu / 1.2), 0.1, 1.0);
+    const maxF = input.frictionMu * input.normalLoadN;
+    const capN = lateralCapacity(maxF, input.longitudinalForceN, input.tractionEllipseP) * input.gripScale;
+    return clamp(
+      -input.corneringStiffnessNPerRad * stiffnessScale * input.gripScale * input.slipAngleRad,
+      -capN,
+      capN
+    );
+  }
+};
+
+/**
+ * Pacejka "magic formula" with combined slip. B is solved so the initial slope matches the car's
+ * cornering stiffness times the surface scale; the longitudinal force shrinks the peak through the
+ * traction ellipse so braking or power still steals side grip.
+ */
+export const pacejkaTireModel: TireModel = {
+  kind: "pacejka",
+  lateralForceN(input) {
+    const { shapeC, curvatureE, stiffnessScale } = input.coefficients;
+    const peakPureN = input.frictionMu * input.normalLoadN;
+    if (peakPureN <= 0) return 0;
+
+    const c = Math.max(0.5, shapeC);
+    const e = clamp(curvatureE, -4, 1);
+    const b = (input.corneringStiffnessNPerRad * Math.max(0, stiffnessScale)) / (c * peakPureN);
+    const bx = b * input.slipAngleRad;
+    const shape = Math.sin(c * Math.atan(bx - e * (bx - Math.atan(bx))));
+
+    const peakCombinedN = lateralCapacity(peakPureN, input.longitudinalForceN, input.tractionEllipseP);
+    return -peakCombinedN * shape * input.gripScale;
+  }
+};
+
+export function tireModelForKind(kind: TireModelKind): TireModel {
+  return kind === "pacejka" ? pacejkaTireModel : linearTireModel;
+}
+
+function lateralCapacity(maxF: number, fx: number, p: number): number {
+  if (maxF <= 0) return 0;
+  const x = clamp(Math.abs(fx) / maxF, 0, 1);
+  const inside = 1 - Math.pow(x, p);
+  return maxF * Math.pow(Math.max(0, inside), 1 / p);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createCircuitTrackDefinition, createPointToPointTrackDefinition, createTrackFromDefinition, type Vec2 } from "./track";
+import { analyzeStage, analyzeTrack, cornerSeverity } from "./track-analysis";
+
+// Along +x, a quarter turn of radius `radiusM` towards +y (a right-hander, y being down), then along +y.
+function rightHander(radiusM: number): Vec2[] {
+  const points: Vec2[] = [];
+  for (let x = 0; x < 150; x += 10) points.push({ x, y: 0 });
+  for (let i = 0; i <= 12; i++) {
+    const a = -Math.PI / 2 + (i / 12) * (Math.PI / 2);
+    points.push({ x: 150 + Math.cos(a) * radiusM, y: radiusM + Math.sin(a) * radiusM });
+  }
+  for (let y = radiusM + 10; y < radiusM + 150; y += 10) points.push({ x: 150 + radiusM, y });
+  return points;
+}
+
+describe("track analysis", () => {
+  it("grades corners like pacenotes", () => {
+    expect(cornerSeverity(10)).toBe(1);
+    expect(cornerSeverity(45)).toBe(3);
+    expect(cornerSeverity(500)).toBe(6);
+
+    const track = createTrackFromDefinition({ points: rightHander(20), baseWidthM: 10 });
+    const a = analyzeTrack(track);
+    expect(a.corners).toHaveLength(1);
+    expect(a.corners[0].direction).toBe("right");
+    expect(a.corners[0].severity).toBeLessThanOrEqual(2);
+    expect(a.corners[0].turnRad).toBeCloseTo(Math.PI / 2, 1);
+    expect(a.longestStraightM).toBeGreaterThan(100);
+  });
+
+  it("rates a straight road as easy", () => {
+    const points = Array.from({ length: 40 }, (_, i) => ({ x: i * 25, y: 0 }));
+    const a = analyzeTrack(createTrackFromDefinition({ points, baseWidthM: 10 }));
+    expect(a.corners).toEqual([]);
+    expect(a.difficulty).toBeLessThan(2);
+  });
+
+  it("rates generated stages the same way every time", () => {
+    for (const def of [createPointToPointTrackDefinition(38), createCircuitTrackDefinition(38)]) {
+      const a = analyzeStage(def);
+      expect(analyzeStage(def).difficulty).toBe(a.difficulty);
+      expect(a.difficulty).toBeGreaterThanOrEqual(1);
+      expect(a.difficulty).toBeLessThanOrEqual(10);
+      expect(a.corners.length).toBeGreaterThan(0);
+      expect(Object.values(a.surfaceMix).reduce((sum, v) => sum + v, 0)).toBeCloseTo(1, 6);
+      expect(a.hazardsPerKm.enemies).toBeGreaterThan(0);
+    }
+  });
+});
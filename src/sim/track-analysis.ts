@@ -0,0 +1,241 @@
+import { clamp } from "../runtime/math";
+import { generateEnemies } from "./enemy";
+import { generateDebris, generateWaterBodies } from "./props";
+import { quietZonesFromSeed, stageMetaFromSeed, type StageThemeKind } from "./stage";
+import { ROAD_SURFACE_NAMES, surfaceAlongTrack, type RoadSurfaceName } from "./surface";
+import { createTrackFromDefinition, pointOnTrack, type Track, type TrackDefinition } from "./track";
+
+// How hard a stage is before anyone drives it: the corners a co-driver would call, the longest flat-out
+// run, what the road is made of and how much is in the way, boiled down to one score.
+
+// Distance between curvature samples, and half the window each sample's heading change is measured over.
+// The window spans more than a generated segment, so a bend doesn't read as straight between its points.
+const SAMPLE_STEP_M = 5;
+const CURVATURE_HALF_WINDOW_M = 20;
+// Tighter than this radius (m) the road is bending; a corner has to turn at least MIN_CORNER_TURN_RAD.
+const CORNER_MAX_RADIUS_M = 250;
+const MIN_CORNER_TURN_RAD = 0.35;
+// Road this close to straight counts towards the longest straight.
+const STRAIGHT_MAX_CURVATURE = 1 / 500;
+// Tightest radius (m) for each pacenote severity, 1 (hairpin-slow) to 6 (nearly flat). Anything wider is 6.
+const SEVERITY_MAX_RADIUS_M = [15, 30, 50, 80, 130];
+// How much a corner of each severity adds to the score, per km of stage.
+const SEVERITY_WEIGHT = [1, 0.7, 0.45, 0.25, 0.12, 0.05];
+// How loose each surface is, 0 (tarmac) to 1 (ice).
+const SURFACE_LOOSENESS: Record<RoadSurfaceName, number> = {
+  tarmac: 0,
+  gravel: 0.4,
+  sand: 0.6,
+  ice: 1,
+  ash: 0.55,
+  "lava-crust": 0.2,
+  mud: 0.8,
+  "broken-tarmac": 0.15,
+  rubble: 0.5
+};
+
+export type CornerDirection = "left" | "right";
+
+export type TrackCorner = {
+  startSM: number;
+  endSM: number;
+  apexSM: number; // where it is tightest
+  direction: CornerDirection;
+  severity: number; // 1 (tightest) to 6 (fastest), as in rally pacenotes
+  lengthM: number;
+  minRadiusM: number;
+  turnRad: number; // total heading change, always positive
+};
+
+export type CurvatureSample = {
+  sM: number;
+  curvature: number; // 1/m; positive bends right
+};
+
+export type HazardCounts = { debris: number; water: number; enemies: number };
+
+export type TrackAnalysis = {
+  lengthM: number;
+  curvature: CurvatureSample[];
+  corners: TrackCorner[];
+  longestStraightM: number;
+  surfaceMix: Record<RoadSurfaceName, number>; // share of the road, sums to 1
+  hazardsPerKm: HazardCounts;
+  difficulty: number; // 1 (easy) to 10, one decimal
+};
+
+export type DifficultyLabel = "Easy" | "Moderate" | "Hard" | "Extreme";
+
+function headingAt(track: Track, sM: number): number {
+  const s = track.closed ? ((sM % track.totalLengthM) + track.totalLengthM) % track.totalLengthM : sM;
+  // The very end belongs to the last segment, not the first.
+  return pointOnTrack(track, Math.min(s, track.totalLengthM - 1e-3)).headingRad;
+}
+
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= Math.PI * 2;
+  while (a < -Math.PI) a += Math.PI * 2;
+  return a;
+}
+
+/** Signed curvature every few metres along the main line. */
+export function curvatureProfile(track: Track): CurvatureSample[] {
+  const samples: CurvatureSample[] = [];
+  const count = Math.floor(track.totalLengthM / SAMPLE_STEP_M) + 1;
+  for (let i = 0; i < count; i++) {
+    const sM = i * SAMPLE_STEP_M;
+    const from = track.closed ? sM - CURVATURE_HALF_WINDOW_M : Math.max(0, sM - CURVATURE_HALF_WINDOW_M);
+    const to = track.closed ? sM + CURVATURE_HALF_WINDOW_M : Math.min(track.totalLengthM, sM + CURVATURE_HALF_WINDOW_M);
+    const spanM = to - from;
+    const curvature = spanM > 1e-6 ? wrapAngle(headingAt(track, to) - headingAt(track, from)) / spanM : 0;
+    samples.push({ sM, curvature });
+  }
+  return samples;
+}
+
+/** Pacenote severity for a corner this tight: 1 is the slowest, 6 nearly flat out. */
+export function cornerSeverity(minRadiusM: number): number {
+  const i = SEVERITY_MAX_RADIUS_M.findIndex((r) => minRadiusM <= r);
+  return i < 0 ? 6 : i + 1;
+}
+
+/** Runs of the profile bending one way, tight enough and long enough to be called as corners. */
+export function findCorners(profile: CurvatureSample[]): TrackCorner[] {
+  const corners: TrackCorner[] = [];
+  const minCurvature = 1 / CORNER_MAX_RADIUS_M;
+  let i = 0;
+  while (i < profile.length) {
+    const sign = Math.sign(profile[i].curvature);
+    if (Math.abs(profile[i].curvature) < minCurvature) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let turnRad = 0;
+    let apex = i;
+    while (j < profile.length && Math.sign(profile[j].curvature) === sign && Math.abs(profile[j].curvature) >= minCurvature) {
+      turnRad += Math.abs(profile[j].curvature) * SAMPLE_STEP_M;
+      if (Math.abs(profile[j].curvature) > Math.abs(profile[apex].curvature)) apex = j;
+      j++;
+    }
+    if (turnRad >= MIN_CORNER_TURN_RAD) {
+      const peak = Math.abs(profile[apex].curvature);
+      const minRadiusM = 1 / peak;
+      // The smoothing window smears a bend out; it runs where the curvature is at least half its peak.
+      let first = i;
+      let last = j - 1;
+      while (Math.abs(profile[first].curvature) < peak / 2) first++;
+      while (Math.abs(profile[last].curvature) < peak / 2) last--;
+      // On a steady bend the apex is the middle of the tightest stretch, not wherever it first peaks.
+      let apexSum = 0;
+      let apexCount = 0;
+      for (let k = first; k <= last; k++) {
+        if (Math.abs(profile[k].curvature) < peak * 0.95) continue;
+        apexSum += profile[k].sM;
+        apexCount++;
+      }
+      const startSM = profile[first].sM;
+      const endSM = profile[last].sM + SAMPLE_STEP_M;
+      corners.push({
+        startSM,
+        endSM,
+        apexSM: apexSum / apexCount,
+        direction: sign > 0 ? "right" : "left",
+        severity: cornerSeverity(minRadiusM),
+        lengthM: endSM - startSM,
+        minRadiusM,
+        turnRad
+      });
+    }
+    i = j;
+  }
+  return corners;
+}
+
+function longestStraightM(profile: CurvatureSample[]): number {
+  let best = 0;
+  let run = 0;
+  for (const s of profile) {
+    run = Math.abs(s.curvature) <= STRAIGHT_MAX_CURVATURE ? run + SAMPLE_STEP_M : 0;
+    best = Math.max(best, run);
+  }
+  return best;
+}
+
+function surfaceMix(track: Track, trackSeed?: number, themeKind?: StageThemeKind): Record<RoadSurfaceName, number> {
+  const mix = Object.fromEntries(ROAD_SURFACE_NAMES.map((n) => [n, 0])) as Record<RoadSurfaceName, number>;
+  let samples = 0;
+  for (let sM = SAMPLE_STEP_M * 0.5; sM < track.totalLengthM; sM += SAMPLE_STEP_M) {
+    const name = surfaceAlongTrack(track.surfaces, track.totalLengthM, sM, false, trackSeed, themeKind).name;
+    if (name === "offtrack") continue;
+    mix[name]++;
+    samples++;
+  }
+  if (samples > 0) for (const name of Object.keys(mix) as RoadSurfaceName[]) mix[name] /= samples;
+  return mix;
+}
+
+function difficultyScore(a: Omit<TrackAnalysis, "difficulty">): number {
+  const km = Math.max(0.1, a.lengthM / 1000);
+  const cornersPerKm = a.corners.reduce((sum, c) => sum + SEVERITY_WEIGHT[c.severity - 1], 0) / km;
+  const looseness = (Object.keys(a.surfaceMix) as RoadSurfaceName[]).reduce((sum, n) => sum + a.surfaceMix[n] * SURFACE_LOOSENESS[n], 0);
+  const h = a.hazardsPerKm;
+  const hazards = h.debris * 0.1 + h.water * 0.2 + h.enemies * 0.05;
+  // Long straights are where time is easy to make; they soften the rest a little.
+  const straightRelief = Math.min(1, a.longestStraightM / 400);
+  const raw = 0.5 + cornersPerKm * 1.2 + looseness * 3 + hazards - straightRelief * 0.5;
+  return Math.round(clamp(raw, 1, 10) * 10) / 10;
+}
+
+/**
+ * Everything the rating is built from, for `track` as it is laid out. `hazards` are counts for the whole
+ * stage; without them the stage is rated as if clear.
+ */
+export function analyzeTrack(
+  track: Track,
+  opts?: { trackSeed?: number; themeKind?: StageThemeKind; hazards?: HazardCounts }
+): TrackAnalysis {
+  const km = Math.max(0.1, track.totalLengthM / 1000);
+  const curvature = curvatureProfile(track);
+  const hazards = opts?.hazards ?? { debris: 0, water: 0, enemies: 0 };
+  const analysis = {
+    lengthM: track.totalLengthM,
+    curvature,
+    corners: findCorners(curvature),
+    longestStraightM: longestStraightM(curvature),
+    surfaceMix: surfaceMix(track, opts?.trackSeed, opts?.themeKind),
+    hazardsPerKm: { debris: hazards.debris / km, water: hazards.water / km, enemies: hazards.enemies / km }
+  };
+  return { ...analysis, difficulty: difficultyScore(analysis) };
+}
+
+/**
+ * Rate a stage the way the game lays it out: theme, quiet zones and hazards come from the seed with the
+ * same offsets the game uses, so the menu, the finish panel and the server agree on the number.
+ */
+export function analyzeStage(def: TrackDefinition): TrackAnalysis {
+  const seed = def.meta?.seed;
+  const trackSeed = seed ?? 1;
+  const themeKind = (def.meta?.theme ?? (seed !== undefined ? stageMetaFromSeed(seed).theme : { kind: "temperate" as const })).kind;
+  const quietZones = def.meta?.quietZones ?? quietZonesFromSeed(trackSeed);
+  const hazardSeed = Math.floor(seed ?? 20260123);
+  const track = createTrackFromDefinition(def);
+  const hazards: HazardCounts = {
+    debris: generateDebris(track, { seed: hazardSeed + 3333, themeKind, quietZones }).length,
+    water: generateWaterBodies(track, { seed: hazardSeed + 777, quietZones }).length,
+    enemies: generateEnemies(track, { seed: hazardSeed + 1337, quietZones }).length
+  };
+  return analyzeTrack(track, { trackSeed, themeKind, hazards });
+}
+
+export function difficultyLabel(difficulty: number): DifficultyLabel {
+  if (difficulty < 4) return "Easy";
+  if (difficulty < 5.5) return "Moderate";
+  if (difficulty < 7) return "Hard";
+  return "Extreme";
+}
+
+/** "6.4 HARD"-style text for the menus and panels. */
+export function formatDifficulty(difficulty: number): string {
+  return `${difficulty.toFixed(1)} ${difficultyLabel(difficulty).toUpperCase()}`;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  createPointToPointTrackDefinition,
+  createTrackFromDefinition,
+  parseTrackDefinition,
+  pointOnRoute,
+  projectToTrack,
+  serializeTrackDefinition,
+  type TrackDefinition
+} from "./track";
+
+// A straight road with a detour bulging out to the north between x=100 and x=200.
+function forkedDef(): TrackDefinition {
+  return {
+    points: [0, 50, 100, 150, 200, 250, 300].map((x) => ({ x, y: 0 })),
+    baseWidthM: 8,
+    branches: [
+      {
+        fromIndex: 2,
+        toIndex: 4,
+        points: [
+          { x: 100, y: 0 },
+          { x: 110, y: 40 },
+          { x: 150, y: 60 },
+          { x: 190, y: 40 },
+          { x: 200, y: 0 }
+        ],
+        surface: "ice"
+      }
+    ]
+  };
+}
+
+describe("track branches", () => {
+  it("round-trips branches and drops invalid ones", () => {
+    const def = forkedDef();
+    const raw = JSON.parse(serializeTrackDefinition(def));
+    raw.branches.push({ fromIndex: 4, toIndex: 2, points: def.branches![0].points });
+    raw.branches.push({ fromIndex: 1, toIndex: 3, points: def.branches![0].points, surface: "lava" });
+
+    const parsed = parseTrackDefinition(JSON.stringify(raw));
+    expect(parsed?.branches).toHaveLength(1);
+    expect(parsed?.branches?.[0]).toMatchObject({ fromIndex: 2, toIndex: 4, surface: "ice" });
+    expect(parsed?.branches?.[0].points).toEqual(def.branches![0].points);
+  });
+
+  it("projects onto a branch with sM mapped into the main span", () => {
+    const track = createTrackFromDefinition(forkedDef());
+    const branch = track.branches![0];
+    expect(branch.fromSM).toBeCloseTo(100);
+    expect(branch.toSM).toBeCloseTo(200);
+
+    const onBranch = projectToTrack(track, { x: 150, y: 58 });
+    expect(onBranch.branchIndex).toBe(0);
+    expect(onBranch.sM).toBeGreaterThan(140);
+    expect(onBranch.sM).toBeLessThan(160);
+
+    const onMain = projectToTrack(track, { x: 150, y: 2 });
+    expect(onMain.branchIndex).toBeUndefined();
+    expect(onMain.sM).toBeCloseTo(150);
+
+    // A gate at the middle of the span stands on whichever route the car takes.
+    expect(pointOnRoute(track, 150, 0).p.y).toBeGreaterThan(50);
+    expect(pointOnRoute(track, 150).p.y).toBeCloseTo(0);
+  });
+
+  it("generates shortcut forks on some stages, clear of the main road", () => {
+    let forks = 0;
+    for (let seed = 1; seed <= 30; seed++) {
+      const track = createTrackFromDefinition(createPointToPointTrackDefinition(seed));
+      for (const branch of track.branches ?? []) {
+        forks++;
+        expect(branch.surface).toBeDefined();
+        expect(branch.fromSM).toBeGreaterThan(50);
+        expect(branch.toSM).toBeLessThan(track.totalLengthM - 50);
+        // The shortcut is shorter than the road it bypasses.
+        expect(branch.route.totalLengthM).toBeLessThan(branch.toSM - branch.fromSM);
+        const mid = branch.route.points[Math.floor(branch.route.points.length / 2)];
+        expect(projectToTrack(track, mid).branchIndex).toBe(0);
+      }
+    }
+    expect(forks).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createCircuitTrackDefinition, createPointToPointTrackDefinition, serializeTrackDefinition, type TrackDefinition } from "./track";
+import { decodeTrackDefinition, encodeTrackDefinition, trackCodeKey, trackFromShareCode, trackShareCode } from "./track-code";
+
+function expectClose(a: number[] | undefined, b: number[] | undefined, tolerance: number): void {
+  expect(a?.length).toBe(b?.length);
+  a?.forEach((v, i) => expect(Math.abs(v - b![i])).toBeLessThanOrEqual(tolerance));
+}
+
+describe("track share codes", () => {
+  it("round-trips a hand-built track exactly", () => {
+    const def: TrackDefinition = {
+      points: [
+        { x: 0, y: 0 },
+        { x: 12.3, y: -4.5 },
+        { x: 30, y: 8.1 },
+        { x: 41.7, y: 40 }
+      ],
+      baseWidthM: 8,
+      segmentWidthsM: [8, 9.5, 12, 6.5],
+      elevationsM: [0, 1.25, 3.5, -0.75],
+      surfaces: [{ start01: 0, end01: 0.5, name: "ice", mu: 0.35, rr: 180 }],
+      meta: {
+        name: "Hairpins ✓",
+        source: "editor",
+        theme: { kind: "arctic" },
+        zones: [
+          { kind: "fog", start01: 0.25, end01: 0.5, intensity01: 0.4 },
+          { kind: "wind", start01: 0.5, end01: 0.8, intensity01: 0.9, wind: { towardRad: 2, gust01: 0.75, gustPeriodS: 6.5 } }
+        ],
+        quietZones: [{ start01: 0.6, end01: 0.7 }]
+      }
+    };
+    const decoded = trackFromShareCode(trackShareCode(def));
+    expect(decoded).not.toBeNull();
+    expect(decoded!.points).toEqual(def.points);
+    expect(decoded!.segmentWidthsM).toEqual(def.segmentWidthsM);
+    expect(decoded!.elevationsM).toEqual(def.elevationsM);
+    expect(decoded!.surfaces).toEqual(def.surfaces);
+    expect(decoded!.meta).toMatchObject({ name: "Hairpins ✓", source: "editor", theme: { kind: "arctic" }, quietZones: def.meta!.quietZones });
+    expect(decoded!.meta!.zones![0].intensity01).toBeCloseTo(0.4, 2);
+    const wind = decoded!.meta!.zones![1].wind!;
+    expect(wind.towardRad).toBeCloseTo(2, 1);
+    expect(wind.gust01).toBeCloseTo(0.75, 2);
+    expect(wind.gustPeriodS).toBeCloseTo(6.5, 6);
+  });
+
+  it("packs a generated stage far smaller than JSON, to within the quantization", () => {
+    const def = createPointToPointTrackDefinition(321);
+    const code = trackShareCode(def);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(code.length * 4).toBeLessThan(serializeTrackDefinition(def).length);
+
+    const decoded = trackFromShareCode(code)!;
+    expectClose(decoded.points.map((p) => p.x), def.points.map((p) => p.x), 0.05 + 1e-9);
+    expectClose(decoded.points.map((p) => p.y), def.points.map((p) => p.y), 0.05 + 1e-9);
+    expectClose(decoded.segmentWidthsM, def.segmentWidthsM, 0.05 + 1e-9);
+    expectClose(decoded.elevationsM, def.elevationsM, 0.005 + 1e-9);
+    expect(decoded.branches?.length).toBe(def.branches?.length);
+    expect(decoded.meta?.seed).toBe(321);
+    // Decoding settles on the quantized values, so a shared track re-encodes to the same code.
+    expect(trackShareCode(decoded)).toBe(code);
+    expect(trackCodeKey(trackShareCode(decoded))).toBe(trackCodeKey(code));
+  });
+
+  it("keeps circuits closed with their lap count", () => {
+    const decoded = decodeTrackDefinition(encodeTrackDefinition(createCircuitTrackDefinition(9, 5)))!;
+    expect(decoded.closed).toBe(true);
+    expect(decoded.meta?.laps).toBe(5);
+    expect(decoded.points[decoded.points.length - 1]).toEqual(decoded.points[0]);
+  });
+
+  it("rejects codes that aren't tracks", () => {
+    expect(trackFromShareCode("")).toBeNull();
+    expect(trackFromShareCode("not a code!")).toBeNull();
+    expect(trackFromShareCode("AAAA")).toBeNull();
+    const bytes = encodeTrackDefinition(createPointToPointTrackDefinition(5));
+    expect(decodeTrackDefinition(bytes.subarray(0, bytes.length >> 1))).toBeNull();
+    expect(decodeTrackDefinition(Uint8Array.from([9, ...bytes.subarray(1)]))).toBeNull();
+  });
+});
@@ -0,0 +1,349 @@
+import { STAGE_THEME_KINDS, type TrackZoneKind } from "./stage";
+import type { RoadSurfaceName } from "./surface";
+import { DEFAULT_WIND_PROFILE } from "./wind";
+import { parseTrackDefinition, type TrackDefinition, type Vec2 } from "./track";
+
+// Compact binary form of a TrackDefinition for share links. Positions are quantized and delta-coded
+// as variable-length integers, so a hand-built track fits in a URL. Decoding goes through
+// `parseTrackDefinition`, so a shared track is checked exactly like a loaded one.
+//
+// Layout (version 1): version byte, flags (varint), base width, points, then each optional channel in
+// flag order. Start/end cities are not encoded; like the JSON form, they don't survive a round trip.
+
+const VERSION = 1;
+
+const POINT_STEP_M = 0.1;
+const WIDTH_STEP_M = 0.1;
+const ELEVATION_STEP_M = 0.01;
+const FRACTION_STEPS = 10000; // start01/end01
+const MU_STEPS = 1000;
+const RR_STEP_N = 0.1;
+
+const FLAG_CLOSED = 1 << 0;
+const FLAG_WIDTHS = 1 << 1;
+const FLAG_ELEVATIONS = 1 << 2;
+const FLAG_SURFACES = 1 << 3;
+const FLAG_BRANCHES = 1 << 4;
+const FLAG_NAME = 1 << 5;
+const FLAG_SEED = 1 << 6;
+const FLAG_SOURCE = 1 << 7;
+const FLAG_THEME = 1 << 8;
+const FLAG_ZONES = 1 << 9;
+const FLAG_QUIET_ZONES = 1 << 10;
+const FLAG_LAPS = 1 << 11;
+
+const SOURCES = ["procedural", "editor", "point-to-point", "circuit", "import"] as const;
+const ZONE_KINDS: readonly TrackZoneKind[] = ["rain", "fog", "eclipse", "electrical", "sandstorm", "wind"];
+const WIND_DIRECTION_STEPS = 256; // per turn
+const GUST_PERIOD_STEP_S = 0.1;
+const ROAD_SURFACES: readonly RoadSurfaceName[] = ["tarmac", "gravel", "sand", "ice", "ash", "lava-crust", "mud", "broken-tarmac", "rubble"];
+
+class Writer {
+  private bytes: number[] = [];
+
+  uint(n: number): void {
+    let v = Math.max(0, Math.round(n));
+    while (v >= 0x80) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+
+  // Zigzag: small magnitudes of either sign stay short.
+  int(n: number): void {
+    const v = Math.round(n);
+    this.uint(v < 0 ? -2 * v - 1 : 2 * v);
+  }
+
+  text(s: string): void {
+    const utf8 = new TextEncoder().encode(s);
+    this.uint(utf8.length);
+    for (const b of utf8) this.bytes.push(b);
+  }
+
+  // Delta from the previous value, each quantized to `step`.
+  deltas(values: number[], step: number): void {
+    let prev = 0;
+    for (const v of values) {
+      const q = Math.round(v / step);
+      this.int(q - prev);
+      prev = q;
+    }
+  }
+
+  points(points: Vec2[]): void {
+    this.uint(points.length);
+    this.deltas(points.map((p) => p.x), POINT_STEP_M);
+    this.deltas(points.map((p) => p.y), POINT_STEP_M);
+  }
+
+  fraction(v: number): void {
+    this.uint(Math.max(0, Math.min(1, v)) * FRACTION_STEPS);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class Reader {
+  private at = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  uint(): number {
+    let v = 0;
+    let scale = 1;
+    for (;;) {
+      if (this.at >= this.bytes.length) throw new Error("truncated track code");
+      const b = this.bytes[this.at++];
+      v += (b & 0x7f) * scale;
+      if (b < 0x80) return v;
+      scale *= 0x80;
+      if (scale > 2 ** 49) throw new Error("varint too long");
+    }
+  }
+
+  int(): number {
+    const v = this.uint();
+    return v % 2 === 1 ? -(v + 1) / 2 : v / 2;
+  }
+
+  text(): string {
+    const n = this.uint();
+    if (this.at + n > this.bytes.length) throw new Error("truncated track code");
+    const s = new TextDecoder().decode(this.bytes.subarray(this.at, this.at + n));
+    this.at += n;
+    return s;
+  }
+
+  deltas(count: number, step: number): number[] {
+    const out: number[] = [];
+    let q = 0;
+    for (let i = 0; i < count; i++) {
+      q += this.int();
+      out.push(q * step);
+    }
+    return out;
+  }
+
+  count(): number {
+    // Every entry takes at least a byte, which bounds what a corrupt count can allocate.
+    const n = this.uint();
+    if (n > this.bytes.length) throw new Error("bad count in track code");
+    return n;
+  }
+
+  points(): Vec2[] {
+    const n = this.count();
+    const xs = this.deltas(n, POINT_STEP_M);
+    const ys = this.deltas(n, POINT_STEP_M);
+    return xs.map((x, i) => ({ x: roundTo(x, POINT_STEP_M), y: roundTo(ys[i], POINT_STEP_M) }));
+  }
+
+  fraction(): number {
+    return this.uint() / FRACTION_STEPS;
+  }
+
+  pick<T>(list: readonly T[]): T {
+    const i = this.uint();
+    if (i >= list.length) throw new Error("bad enum in track code");
+    return list[i];
+  }
+}
+
+// Strip the float noise multiplying by the step leaves behind (0.30000000000000004 and the like).
+function roundTo(v: number, step: number): number {
+  const decimals = Math.max(0, Math.round(-Math.log10(step)));
+  return Number(v.toFixed(decimals));
+}
+
+function perPoint(values: number[] | undefined, count: number): values is number[] {
+  return !!values && values.length === count;
+}
+
+export function encodeTrackDefinition(def: TrackDefinition): Uint8Array {
+  const meta = def.meta;
+  const n = def.points.length;
+  let flags = 0;
+  if (def.closed) flags |= FLAG_CLOSED;
+  if (perPoint(def.segmentWidthsM, n)) flags |= FLAG_WIDTHS;
+  if (perPoint(def.elevationsM, n)) flags |= FLAG_ELEVATIONS;
+  if (def.surfaces && def.surfaces.length > 0) flags |= FLAG_SURFACES;
+  if (def.branches && def.branches.length > 0) flags |= FLAG_BRANCHES;
+  if (meta?.name) flags |= FLAG_NAME;
+  if (typeof meta?.seed === "number" && Number.isFinite(meta.seed)) flags |= FLAG_SEED;
+  if (meta?.source) flags |= FLAG_SOURCE;
+  if (meta?.theme) flags |= FLAG_THEME;
+  // Written even when empty: no zones is a choice, and a seed would otherwise fill them back in.
+  if (meta?.zones) flags |= FLAG_ZONES;
+  if (meta?.quietZones) flags |= FLAG_QUIET_ZONES;
+  if (meta?.laps !== undefined) flags |= FLAG_LAPS;
+
+  const w = new Writer();
+  w.uint(VERSION);
+  w.uint(flags);
+  w.uint(def.baseWidthM / WIDTH_STEP_M);
+  w.points(def.points);
+  if (flags & FLAG_WIDTHS) w.deltas(def.segmentWidthsM!, WIDTH_STEP_M);
+  if (flags & FLAG_ELEVATIONS) w.deltas(def.elevationsM!, ELEVATION_STEP_M);
+  if (flags & FLAG_SURFACES) {
+    w.uint(def.surfaces!.length);
+    for (const run of def.surfaces!) {
+      w.fraction(run.start01);
+      w.fraction(run.end01);
+      w.uint(ROAD_SURFACES.indexOf(run.name));
+      w.uint(run.mu * MU_STEPS);
+      w.uint(run.rr / RR_STEP_N);
+    }
+  }
+  if (flags & FLAG_BRANCHES) {
+    w.uint(def.branches!.length);
+    for (const b of def.branches!) {
+      w.uint(b.fromIndex);
+      w.uint(b.toIndex);
+      w.points(b.points);
+      const bn = b.points.length;
+      const hasWidths = perPoint(b.segmentWidthsM, bn);
+      const hasElevations = perPoint(b.elevationsM, bn);
+      w.uint((hasWidths ? 1 : 0) | (hasElevations ? 2 : 0));
+      if (hasWidths) w.deltas(b.segmentWidthsM!, WIDTH_STEP_M);
+      if (hasElevations) w.deltas(b.elevationsM!, ELEVATION_STEP_M);
+      w.uint(b.surface ? ROAD_SURFACES.indexOf(b.surface) + 1 : 0);
+    }
+  }
+  if (flags & FLAG_NAME) w.text(meta!.name!);
+  if (flags & FLAG_SEED) w.int(meta!.seed!);
+  if (flags & FLAG_SOURCE) w.uint(SOURCES.indexOf(meta!.source!));
+  if (flags & FLAG_THEME) w.uint(STAGE_THEME_KINDS.indexOf(meta!.theme!.kind));
+  if (flags & FLAG_ZONES) {
+    w.uint(meta!.zones!.length);
+    for (const z of meta!.zones!) {
+      w.uint(ZONE_KINDS.indexOf(z.kind));
+      w.fraction(z.start01);
+      w.fraction(z.end01);
+      w.uint(Math.max(0, Math.min(1, z.intensity01)) * 255);
+      if (z.kind === "wind") {
+        const wind = z.wind ?? DEFAULT_WIND_PROFILE;
+        const turn = (((wind.towardRad / (Math.PI * 2)) % 1) + 1) % 1;
+        w.uint(Math.round(turn * WIND_DIRECTION_STEPS) % WIND_DIRECTION_STEPS);
+        w.uint(Math.max(0, Math.min(1, wind.gust01)) * 255);
+        w.uint(wind.gustPeriodS / GUST_PERIOD_STEP_S);
+      }
+    }
+  }
+  if (flags & FLAG_QUIET_ZONES) {
+    w.uint(meta!.quietZones!.length);
+    for (const z of meta!.quietZones!) {
+      w.fraction(z.start01);
+      w.fraction(z.end01);
+    }
+  }
+  if (flags & FLAG_LAPS) w.uint(meta!.laps!);
+  return w.finish();
+}
+
+/** The definition in `bytes`, or null when they aren't a (supported) track code. */
+export function decodeTrackDefinition(bytes: Uint8Array): TrackDefinition | null {
+  try {
+    const r = new Reader(bytes);
+    if (r.uint() !== VERSION) return null;
+    const flags = r.uint();
+    const baseWidthM = roundTo(r.uint() * WIDTH_STEP_M, WIDTH_STEP_M);
+    const points = r.points();
+    const n = points.length;
+    const raw: Record<string, unknown> = { points, baseWidthM };
+    const meta: Record<string, unknown> = {};
+    if (flags & FLAG_CLOSED) raw.closed = true;
+    if (flags & FLAG_WIDTHS) raw.segmentWidthsM = r.deltas(n, WIDTH_STEP_M).map((v) => roundTo(v, WIDTH_STEP_M));
+    if (flags & FLAG_ELEVATIONS) raw.elevationsM = r.deltas(n, ELEVATION_STEP_M).map((v) => roundTo(v, ELEVATION_STEP_M));
+    if (flags & FLAG_SURFACES) {
+      const count = r.count();
+      const runs = [];
+      for (let i = 0; i < count; i++) {
+        runs.push({ start01: r.fraction(), end01: r.fraction(), name: r.pick(ROAD_SURFACES), mu: r.uint() / MU_STEPS, rr: roundTo(r.uint() * RR_STEP_N, RR_STEP_N) });
+      }
+      raw.surfaces = runs;
+    }
+    if (flags & FLAG_BRANCHES) {
+      const count = r.count();
+      const branches = [];
+      for (let i = 0; i < count; i++) {
+        const fromIndex = r.uint();
+        const toIndex = r.uint();
+        const branchPoints = r.points();
+        const channels = r.uint();
+        const bn = branchPoints.length;
+        const segmentWidthsM = channels & 1 ? r.deltas(bn, WIDTH_STEP_M).map((v) => roundTo(v, WIDTH_STEP_M)) : undefined;
+        const elevationsM = channels & 2 ? r.deltas(bn, ELEVATION_STEP_M).map((v) => roundTo(v, ELEVATION_STEP_M)) : undefined;
+        const surface = r.uint();
+        if (surface > ROAD_SURFACES.length) return null;
+        branches.push({ fromIndex, toIndex, points: branchPoints, segmentWidthsM, elevationsM, surface: surface > 0 ? ROAD_SURFACES[surface - 1] : undefined });
+      }
+      raw.branches = branches;
+    }
+    if (flags & FLAG_NAME) meta.name = r.text();
+    if (flags & FLAG_SEED) meta.seed = r.int();
+    if (flags & FLAG_SOURCE) meta.source = r.pick(SOURCES);
+    if (flags & FLAG_THEME) meta.theme = { kind: r.pick(STAGE_THEME_KINDS) };
+    if (flags & FLAG_ZONES) {
+      const count = r.count();
+      const zones = [];
+      for (let i = 0; i < count; i++) {
+        const zone: Record<string, unknown> = { kind: r.pick(ZONE_KINDS), start01: r.fraction(), end01: r.fraction(), intensity01: r.uint() / 255 };
+        if (zone.kind === "wind") {
+          zone.wind = {
+            towardRad: (r.uint() / WIND_DIRECTION_STEPS) * Math.PI * 2,
+            gust01: r.uint() / 255,
+            gustPeriodS: roundTo(r.uint() * GUST_PERIOD_STEP_S, GUST_PERIOD_STEP_S)
+          };
+        }
+        zones.push(zone);
+      }
+      meta.zones = zones;
+    }
+    if (flags & FLAG_QUIET_ZONES) {
+      const count = r.count();
+      const quietZones = [];
+      for (let i = 0; i < count; i++) quietZones.push({ start01: r.fraction(), end01: r.fraction() });
+      meta.quietZones = quietZones;
+    }
+    if (flags & FLAG_LAPS) meta.laps = r.uint();
+    if (Object.keys(meta).length > 0) raw.meta = meta;
+    return parseTrackDefinition(JSON.stringify(raw));
+  } catch {
+    return null;
+  }
+}
+
+/** Short stable name for a track code, e.g. a leaderboard key for tracks that have no seed. */
+export function trackCodeKey(code: string): string {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    h ^= code.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return `t${h.toString(16).padStart(8, "0")}`;
+}
+
+/** URL-safe base64 of the binary form, for `?track=` links. */
+export function trackShareCode(def: TrackDefinition): string {
+  let binary = "";
+  for (const b of encodeTrackDefinition(def)) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function trackFromShareCode(code: string): TrackDefinition | null {
+  const trimmed = code.trim();
+  if (!/^[A-Za-z0-9_-]+$/.test(trimmed)) return null;
+  try {
+    const binary = atob(trimmed.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return decodeTrackDefinition(bytes);
+  } catch {
+    return null;
+  }
+}
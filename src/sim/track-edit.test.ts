@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { TrackDefinition } from "./track";
+import { appendTrackPoint, deleteTrackPoint, insertTrackPoint, moveTrackPoint, paintSpan, setTrackPointWidth } from "./track-edit";
+
+function line(): TrackDefinition {
+  return {
+    points: [0, 10, 20, 30, 40, 50].map((x) => ({ x, y: 0 })),
+    baseWidthM: 8,
+    segmentWidthsM: [8, 8, 10, 10, 8, 8],
+    elevationsM: [0, 0, 2, 4, 0, 0],
+    branches: [{ fromIndex: 1, toIndex: 4, points: [{ x: 10, y: 0 }, { x: 25, y: 10 }, { x: 40, y: 0 }] }]
+  };
+}
+
+describe("track editing", () => {
+  it("splits a segment, interpolating widths and heights and shifting branch junctions", () => {
+    const def = insertTrackPoint(line(), 2, { x: 25, y: 3 });
+    expect(def.points[3]).toEqual({ x: 25, y: 3 });
+    expect(def.points).toHaveLength(7);
+    expect(def.elevationsM?.[3]).toBeCloseTo(3, 6);
+    expect(def.segmentWidthsM?.[3]).toBeCloseTo(10, 6);
+    expect(def.branches?.[0]).toMatchObject({ fromIndex: 1, toIndex: 5 });
+  });
+
+  it("deleting a junction point drops its branch; appending extends the per-point channels", () => {
+    const deleted = deleteTrackPoint(line(), 4);
+    expect(deleted.points).toHaveLength(5);
+    expect(deleted.branches).toBeUndefined();
+    const appended = appendTrackPoint(line(), { x: 60, y: 5 });
+    expect(appended.segmentWidthsM).toHaveLength(7);
+    expect(appended.elevationsM?.[6]).toBe(0);
+  });
+
+  it("keeps a circuit closed", () => {
+    const loop: TrackDefinition = { ...line(), closed: true, points: [...line().points.slice(0, 5), { x: 0, y: 0 }] };
+    const moved = moveTrackPoint(loop, 0, { x: -5, y: 1 });
+    expect(moved.points[moved.points.length - 1]).toEqual({ x: -5, y: 1 });
+    expect(deleteTrackPoint(loop, 0)).toBe(loop);
+    const appended = appendTrackPoint(loop, { x: 20, y: -20 });
+    expect(appended.points[appended.points.length - 1]).toEqual({ x: 0, y: 0 });
+    expect(appended.points[appended.points.length - 2]).toEqual({ x: 20, y: -20 });
+  });
+
+  it("clamps painted widths to the editor's range", () => {
+    expect(setTrackPointWidth(line(), 0, 1).segmentWidthsM?.[0]).toBe(3);
+    const noWidths = { ...line(), segmentWidthsM: undefined };
+    expect(setTrackPointWidth(noWidths, 2, 12).segmentWidthsM).toEqual([8, 8, 12, 8, 8, 8]);
+  });
+
+  it("painting cuts back spans on the same layer only", () => {
+    const zones = [
+      { kind: "rain", start01: 0.1, end01: 0.5, intensity01: 1 },
+      { kind: "fog", start01: 0.2, end01: 0.4, intensity01: 1 }
+    ];
+    const painted = paintSpan(zones, { kind: "rain", start01: 0.25, end01: 0.3, intensity01: 0.5 }, (z) => z.kind === "rain");
+    expect(painted.map((z) => [z.kind, z.start01, z.end01])).toEqual([
+      ["rain", 0.1, 0.25],
+      ["fog", 0.2, 0.4],
+      ["rain", 0.25, 0.3],
+      ["rain", 0.3, 0.5]
+    ]);
+  });
+});
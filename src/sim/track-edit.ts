@@ -0,0 +1,135 @@
+import type { TrackDefinition, Vec2 } from "./track";
+
+// Edits the track editor makes to a definition. Each returns a new definition and keeps the per-point
+// channels (widths, elevations) and branch junctions lined up with the points.
+
+export const EDITOR_MIN_WIDTH_M = 3;
+export const EDITOR_MAX_WIDTH_M = 30;
+// Pieces shorter than this (as a share of the track) left over after painting are dropped.
+const MIN_SPAN_01 = 0.005;
+
+// A stretch of the track as fractions of its length: track zones, quiet zones.
+export type TrackSpan = { start01: number; end01: number };
+
+function perPoint(def: TrackDefinition, values: number[] | undefined): number[] | undefined {
+  return values && values.length === def.points.length ? values.slice() : undefined;
+}
+
+function widthsOf(def: TrackDefinition): number[] {
+  return perPoint(def, def.segmentWidthsM) ?? def.points.map(() => def.baseWidthM);
+}
+
+/** Add a point after the last one (before the closing point of a circuit). */
+export function appendTrackPoint(def: TrackDefinition, p: Vec2): TrackDefinition {
+  const last = def.points.length - 1;
+  if (def.closed && last > 0) return insertTrackPoint(def, last - 1, p);
+  const segmentWidthsM = perPoint(def, def.segmentWidthsM);
+  segmentWidthsM?.push(segmentWidthsM[segmentWidthsM.length - 1] ?? def.baseWidthM);
+  // New points continue from the height of the last one.
+  const elevationsM = perPoint(def, def.elevationsM);
+  elevationsM?.push(elevationsM[elevationsM.length - 1] ?? 0);
+  return { ...def, points: def.points.concat([{ x: p.x, y: p.y }]), segmentWidthsM, elevationsM };
+}
+
+/** Split segment `segmentIndex` at `p`. Width and height are interpolated where `p` falls along it. */
+export function insertTrackPoint(def: TrackDefinition, segmentIndex: number, p: Vec2): TrackDefinition {
+  if (segmentIndex < 0 || segmentIndex >= def.points.length - 1) return def;
+  const a = def.points[segmentIndex];
+  const b = def.points[segmentIndex + 1];
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const len2 = abx * abx + aby * aby;
+  const t = len2 > 1e-9 ? Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / len2)) : 0.5;
+  const at = segmentIndex + 1;
+  const splice = (values: number[] | undefined): number[] | undefined => {
+    if (!values) return undefined;
+    values.splice(at, 0, values[segmentIndex] + (values[at] - values[segmentIndex]) * t);
+    return values;
+  };
+
+  const points = def.points.slice();
+  points.splice(at, 0, { x: p.x, y: p.y });
+  const branches = def.branches?.map((br) => ({
+    ...br,
+    fromIndex: br.fromIndex >= at ? br.fromIndex + 1 : br.fromIndex,
+    toIndex: br.toIndex >= at ? br.toIndex + 1 : br.toIndex
+  }));
+  return {
+    ...def,
+    points,
+    segmentWidthsM: splice(perPoint(def, def.segmentWidthsM)),
+    elevationsM: splice(perPoint(def, def.elevationsM)),
+    branches
+  };
+}
+
+/**
+ * Remove point `index`. Later branch junctions shift down, and a branch that joined at the deleted
+ * point goes with it. A circuit's start/finish point stays.
+ */
+export function deleteTrackPoint(def: TrackDefinition, index: number): TrackDefinition {
+  if (index < 0 || index >= def.points.length) return def;
+  if (def.closed && (index === 0 || index === def.points.length - 1)) return def;
+  const points = def.points.slice();
+  points.splice(index, 1);
+  const segmentWidthsM = perPoint(def, def.segmentWidthsM);
+  segmentWidthsM?.splice(index, 1);
+  const elevationsM = perPoint(def, def.elevationsM);
+  elevationsM?.splice(index, 1);
+  const branches = def.branches
+    ?.filter((b) => b.fromIndex !== index && b.toIndex !== index)
+    .map((b) => ({
+      ...b,
+      fromIndex: b.fromIndex > index ? b.fromIndex - 1 : b.fromIndex,
+      toIndex: b.toIndex > index ? b.toIndex - 1 : b.toIndex
+    }));
+  return { ...def, points, segmentWidthsM, elevationsM, branches: branches && branches.length > 0 ? branches : undefined };
+}
+
+/** Move point `index`; a circuit's start and closing points move together. */
+export function moveTrackPoint(def: TrackDefinition, index: number, p: Vec2): TrackDefinition {
+  if (index < 0 || index >= def.points.length) return def;
+  const points = def.points.slice();
+  points[index] = { x: p.x, y: p.y };
+  const last = points.length - 1;
+  if (def.closed && last > 0 && (index === 0 || index === last)) points[index === 0 ? last : 0] = { x: p.x, y: p.y };
+  return { ...def, points };
+}
+
+/** Road width at point `index`, within what the editor allows. */
+export function setTrackPointWidth(def: TrackDefinition, index: number, widthM: number): TrackDefinition {
+  if (index < 0 || index >= def.points.length || !Number.isFinite(widthM)) return def;
+  const segmentWidthsM = widthsOf(def);
+  segmentWidthsM[index] = Math.max(EDITOR_MIN_WIDTH_M, Math.min(EDITOR_MAX_WIDTH_M, widthM));
+  return { ...def, segmentWidthsM };
+}
+
+/** Road width at point `index` as the definition has it. */
+export function trackPointWidthM(def: TrackDefinition, index: number): number {
+  return widthsOf(def)[index] ?? def.baseWidthM;
+}
+
+/**
+ * Lay `painted` over `spans`. Spans on the same layer are cut back (or split) where it covers them;
+ * spans on other layers may overlap it. Returns the spans in track order.
+ */
+export function paintSpan<T extends TrackSpan>(spans: readonly T[], painted: T, sameLayer: (s: T) => boolean = () => true): T[] {
+  const start01 = Math.max(0, Math.min(1, Math.min(painted.start01, painted.end01)));
+  const end01 = Math.max(0, Math.min(1, Math.max(painted.start01, painted.end01)));
+  const out: T[] = [];
+  for (const s of spans) {
+    if (!sameLayer(s) || s.end01 <= start01 || s.start01 >= end01) {
+      out.push(s);
+      continue;
+    }
+    if (start01 - s.start01 >= MIN_SPAN_01) out.push({ ...s, end01: start01 });
+    if (s.end01 - end01 >= MIN_SPAN_01) out.push({ ...s, start01: end01 });
+  }
+  if (end01 - start01 >= MIN_SPAN_01) out.push({ ...painted, start01, end01 });
+  return out.sort((a, b) => a.start01 - b.start01);
+}
+
+/** Remove the spans on a layer that cover `t01`. */
+export function eraseSpansAt<T extends TrackSpan>(spans: readonly T[], t01: number, sameLayer: (s: T) => boolean = () => true): T[] {
+  return spans.filter((s) => !(sameLayer(s) && t01 >= s.start01 && t01 <= s.end01));
+}
@@ -0,0 +1,52 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from "vitest";
+import gravelLoop from "../../samples/tracks/gravel-loop.geojson?raw";
+import mountainPass from "../../samples/tracks/mountain-pass.gpx?raw";
+import { createTrackFromDefinition } from "./track";
+import { importTrack } from "./track-import";
+
+function segmentLengths(points: { x: number; y: number }[]): number[] {
+  return points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+}
+
+describe("track import", () => {
+  it("imports a GPX track as an open stage", () => {
+    const result = importTrack(mountainPass, { fileName: "mountain-pass.gpx" });
+    if (!result.ok) throw new Error(result.error);
+    const def = result.def;
+    expect(def.meta).toEqual({ name: "Col Sample & Switchbacks", source: "import", theme: { kind: "temperate" } });
+    expect(def.closed).toBeUndefined();
+    expect(def.segmentWidthsM).toHaveLength(def.points.length);
+    expect(def.elevationsM).toHaveLength(def.points.length);
+    // Resampled evenly, the last piece excepted.
+    const lengths = segmentLengths(def.points);
+    for (const l of lengths.slice(0, -1)) expect(l).toBeGreaterThan(12);
+    for (const l of lengths) expect(l).toBeLessThan(16);
+    // Climbing from the start; the hairpins are wider than the road into them.
+    expect(def.elevationsM![def.elevationsM!.length - 1]).toBeGreaterThan(100);
+    expect(Math.max(...def.segmentWidthsM!)).toBeGreaterThan(def.baseWidthM);
+    const track = createTrackFromDefinition(def);
+    expect(track.totalLengthM).toBeGreaterThan(1700);
+    expect(track.totalLengthM).toBeLessThan(2100);
+  });
+
+  it("imports a closed GeoJSON line as a circuit with its tags", () => {
+    const result = importTrack(gravelLoop);
+    if (!result.ok) throw new Error(result.error);
+    const def = result.def;
+    expect(def.closed).toBe(true);
+    expect(def.points[def.points.length - 1]).toEqual(def.points[0]);
+    expect(def.meta).toMatchObject({ name: "Forest Gravel Loop", source: "import", theme: { kind: "arctic" } });
+    expect(def.baseWidthM).toBe(4.5);
+    expect(def.surfaces).toEqual([expect.objectContaining({ start01: 0, end01: 1, name: "gravel" })]);
+  });
+
+  it("explains what is wrong with an unusable file", () => {
+    expect(importTrack("not a track")).toEqual({ ok: false, error: "Not a GPX or GeoJSON file" });
+    expect(importTrack('{"type":"Point","coordinates":[7.38,43.97]}')).toEqual({ ok: false, error: "Not a GPX or GeoJSON file" });
+    expect(importTrack("<html><body>a road</body></html>")).toEqual({ ok: false, error: "Not a GPX file" });
+    expect(importTrack("<gpx><trk><name>Empty</name></trk></gpx>")).toEqual({ ok: false, error: "No road in the file" });
+    const short = '<gpx><trk><trkseg><trkpt lat="43.97" lon="7.38"/><trkpt lat="43.9701" lon="7.38"/></trkseg></trk></gpx>';
+    expect(importTrack(short)).toEqual({ ok: false, error: "Road too short (11 m)" });
+  });
+});
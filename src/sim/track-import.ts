@@ -0,0 +1,297 @@
+import { clamp } from "../runtime/math";
+import type { StageThemeKind } from "./stage";
+import { surfaceForRoad, type RoadSurfaceName, type SurfaceRun } from "./surface";
+import type { TrackDefinition, Vec2 } from "./track";
+
+// Real roads as stages: a GPX track (or route) or a GeoJSON LineString, projected from lat/lon onto
+// local metres, smoothed of GPS jitter and resampled to the spacing generated tracks have.
+
+const EARTH_RADIUS_M = 6_371_008.8;
+// GPS fixes are resampled this finely first, then averaged over SMOOTH_HALF_WINDOW_M either side.
+const RAW_STEP_M = 5;
+const SMOOTH_HALF_WINDOW_M = 15;
+// Heights jitter more than positions; a bump in them would throw the car.
+const ELEVATION_HALF_WINDOW_M = 40;
+// Spacing of the finished track's points, about that of a generated stage.
+const POINT_SPACING_M = 15;
+// Ends closer than this on a road at least CLOSED_MIN_LENGTH_M long make a circuit.
+const CLOSE_GAP_M = 30;
+const CLOSED_MIN_LENGTH_M = 300;
+const MIN_LENGTH_M = 200;
+const MAX_LENGTH_M = 20_000;
+const DEFAULT_WIDTH_M = 7;
+const LANE_WIDTH_M = 3.2;
+// Road widths by OSM highway class, for GeoJSON exported from OpenStreetMap.
+const HIGHWAY_WIDTH_M: Record<string, number> = {
+  motorway: 12,
+  trunk: 10,
+  primary: 9,
+  secondary: 8,
+  tertiary: 7,
+  unclassified: 6,
+  residential: 6,
+  service: 4.5,
+  track: 4.5
+};
+// Hairpins are built wider than the road into them; radius (m) below which a bend gets the extra.
+const HAIRPIN_RADIUS_M = 25;
+const HAIRPIN_WIDENING = 0.25;
+// OSM surface tags by the road surface they drive like.
+const SURFACE_TAGS: Record<string, RoadSurfaceName> = {
+  asphalt: "tarmac",
+  paved: "tarmac",
+  concrete: "tarmac",
+  chipseal: "tarmac",
+  gravel: "gravel",
+  fine_gravel: "gravel",
+  compacted: "gravel",
+  unpaved: "gravel",
+  dirt: "gravel",
+  ground: "gravel",
+  sand: "sand",
+  mud: "mud",
+  rock: "rubble",
+  ice: "ice",
+  snow: "ice"
+};
+
+type Fix = { lat: number; lon: number; ele?: number };
+
+type ImportedRoad = {
+  name?: string;
+  fixes: Fix[];
+  tags: { width?: number; lanes?: number; highway?: string; surface?: string };
+};
+
+export type TrackImportResult = { ok: true; def: TrackDefinition } | { ok: false; error: string };
+
+function decodeXmlText(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function xmlAttr(attrs: string, name: string): number {
+  const m = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return m ? Number.parseFloat(m[1]) : Number.NaN;
+}
+
+// Track points, or route points when there is no track. Only the few tags used here are read, so a
+// pattern match does and it works without a DOM.
+function parseGpx(text: string): ImportedRoad | null {
+  if (!/<(gpx|trkpt|rtept)\b/.test(text)) return null;
+  const read = (tag: string): Fix[] => {
+    const fixes: Fix[] = [];
+    const re = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+    for (const m of text.matchAll(re)) {
+      const lat = xmlAttr(m[1], "lat");
+      const lon = xmlAttr(m[1], "lon");
+      const ele = Number.parseFloat(m[2]?.match(/<ele>([^<]*)<\/ele>/)?.[1] ?? "");
+      fixes.push(Number.isFinite(ele) ? { lat, lon, ele } : { lat, lon });
+    }
+    return fixes;
+  };
+  const fixes = read("trkpt");
+  const name = text.match(/<trk>[\s\S]*?<name>([\s\S]*?)<\/name>/)?.[1] ?? text.match(/<name>([\s\S]*?)<\/name>/)?.[1];
+  return { name: name !== undefined ? decodeXmlText(name) : undefined, fixes: fixes.length > 0 ? fixes : read("rtept"), tags: {} };
+}
+
+// The longest line in a Feature, FeatureCollection or bare geometry, with its feature's properties.
+function parseGeoJson(text: string): ImportedRoad | null {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const lines: { coords: unknown[]; props: Record<string, unknown> }[] = [];
+  const visit = (node: unknown, props: Record<string, unknown>): void => {
+    if (!node || typeof node !== "object") return;
+    const n = node as Record<string, unknown>;
+    if (n.type === "FeatureCollection" && Array.isArray(n.features)) for (const f of n.features) visit(f, {});
+    else if (n.type === "Feature") visit(n.geometry, n.properties && typeof n.properties === "object" ? (n.properties as Record<string, unknown>) : {});
+    else if (n.type === "GeometryCollection" && Array.isArray(n.geometries)) for (const g of n.geometries) visit(g, props);
+    else if (n.type === "LineString" && Array.isArray(n.coordinates)) lines.push({ coords: n.coordinates, props });
+    else if (n.type === "MultiLineString" && Array.isArray(n.coordinates)) {
+      for (const c of n.coordinates) if (Array.isArray(c)) lines.push({ coords: c, props });
+    }
+  };
+  visit(root, {});
+  if (lines.length === 0) return null;
+
+  const best = lines.reduce((a, b) => (b.coords.length > a.coords.length ? b : a));
+  const fixes: Fix[] = [];
+  for (const c of best.coords) {
+    if (!Array.isArray(c) || typeof c[0] !== "number" || typeof c[1] !== "number") continue;
+    fixes.push(typeof c[2] === "number" ? { lon: c[0], lat: c[1], ele: c[2] } : { lon: c[0], lat: c[1] });
+  }
+  const num = (v: unknown): number | undefined => {
+    const x = typeof v === "number" ? v : typeof v === "string" ? Number.parseFloat(v) : Number.NaN;
+    return Number.isFinite(x) ? x : undefined;
+  };
+  const p = best.props;
+  return {
+    name: typeof p.name === "string" ? p.name : undefined,
+    fixes,
+    tags: {
+      width: num(p.width),
+      lanes: num(p.lanes),
+      highway: typeof p.highway === "string" ? p.highway : undefined,
+      surface: typeof p.surface === "string" ? p.surface : undefined
+    }
+  };
+}
+
+type Sample = { p: Vec2; ele: number };
+
+// Points every `stepM` along the polyline, both ends included.
+function resample(points: Sample[], stepM: number): Sample[] {
+  const out: Sample[] = [points[0]];
+  let carryM = 0; // distance since the last sample
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const lengthM = Math.hypot(b.p.x - a.p.x, b.p.y - a.p.y);
+    let alongM = stepM - carryM;
+    while (alongM < lengthM) {
+      const t = alongM / lengthM;
+      out.push({ p: { x: a.p.x + (b.p.x - a.p.x) * t, y: a.p.y + (b.p.y - a.p.y) * t }, ele: a.ele + (b.ele - a.ele) * t });
+      alongM += stepM;
+    }
+    carryM = lengthM - (alongM - stepM);
+  }
+  const last = points[points.length - 1];
+  if (carryM > stepM * 0.25 || out.length === 1) out.push(last);
+  else out[out.length - 1] = last;
+  return out;
+}
+
+// Moving average over `halfWindow` samples either side; the ends stay put unless the road is a loop.
+function smooth(values: number[], halfWindow: number, closed: boolean): number[] {
+  const n = values.length;
+  return values.map((_, i) => {
+    if (!closed && (i === 0 || i === n - 1)) return values[i];
+    const reach = closed ? halfWindow : Math.min(halfWindow, i, n - 1 - i);
+    let sum = 0;
+    for (let k = -reach; k <= reach; k++) sum += values[(((i + k) % n) + n) % n];
+    return sum / (reach * 2 + 1);
+  });
+}
+
+function polylineLengthM(points: Vec2[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  return total;
+}
+
+// A rough guess from where the road is: cold near the poles and high up, jungle near the equator,
+// dry in the subtropics.
+function inferTheme(fixes: Fix[]): StageThemeKind {
+  const lat = Math.abs(fixes.reduce((sum, f) => sum + f.lat, 0) / fixes.length);
+  const maxEle = Math.max(...fixes.map((f) => f.ele ?? 0));
+  if (lat >= 60 || maxEle >= 2000) return "arctic";
+  if (lat < 15) return "rainforest";
+  if (lat < 35) return "desert";
+  return "temperate";
+}
+
+function baseWidthM(tags: ImportedRoad["tags"]): number {
+  if (tags.width !== undefined) return clamp(tags.width, 4, 14);
+  if (tags.lanes !== undefined) return clamp(tags.lanes * LANE_WIDTH_M, 4, 14);
+  return tags.highway !== undefined && Object.hasOwn(HIGHWAY_WIDTH_M, tags.highway) ? HIGHWAY_WIDTH_M[tags.highway] : DEFAULT_WIDTH_M;
+}
+
+// Base width, with the extra a hairpin gets where the road turns tighter than HAIRPIN_RADIUS_M.
+function widthsAlong(points: Vec2[], baseM: number, closed: boolean): number[] {
+  const n = points.length;
+  const reach = Math.max(1, Math.round(SMOOTH_HALF_WINDOW_M / POINT_SPACING_M));
+  const heading = (i: number): number => {
+    const a = points[Math.max(0, Math.min(n - 2, i))];
+    const b = points[Math.max(1, Math.min(n - 1, i + 1))];
+    return Math.atan2(b.y - a.y, b.x - a.x);
+  };
+  const widths = points.map((_, i) => {
+    const from = closed ? (i - reach + n - 1) % (n - 1) : Math.max(0, i - reach);
+    const to = closed ? (i + reach) % (n - 1) : Math.min(n - 2, i + reach);
+    const turn = Math.abs(Math.atan2(Math.sin(heading(to) - heading(from)), Math.cos(heading(to) - heading(from))));
+    const radiusM = (reach * 2 * POINT_SPACING_M) / Math.max(1e-6, turn);
+    return radiusM < HAIRPIN_RADIUS_M ? baseM * (1 + HAIRPIN_WIDENING) : baseM;
+  });
+  return smooth(widths, reach, closed).map((w) => Math.round(w * 100) / 100);
+}
+
+/**
+ * A track from the text of a GPX or GeoJSON file. `fileName` names the track when the file doesn't.
+ * Fails with a message for the player when there is no usable line in it.
+ */
+export function importTrack(text: string, opts?: { fileName?: string }): TrackImportResult {
+  const isXml = text.trimStart().startsWith("<");
+  const road = isXml ? parseGpx(text) : parseGeoJson(text);
+  if (!road) return { ok: false, error: isXml ? "Not a GPX file" : "Not a GPX or GeoJSON file" };
+  const fixes = road.fixes.filter((f) => Number.isFinite(f.lat) && Number.isFinite(f.lon) && Math.abs(f.lat) <= 90 && Math.abs(f.lon) <= 180);
+  if (fixes.length < 2) return { ok: false, error: "No road in the file" };
+
+  // Equirectangular about the middle of the road: good to well under a metre over a stage.
+  const lat0 = fixes.reduce((sum, f) => sum + f.lat, 0) / fixes.length;
+  const lon0 = fixes.reduce((sum, f) => sum + f.lon, 0) / fixes.length;
+  const cosLat0 = Math.cos((lat0 * Math.PI) / 180);
+  const startEle = fixes[0].ele ?? 0;
+  const projected: Sample[] = [];
+  for (const f of fixes) {
+    // North is up the screen, and y runs down it.
+    const p = {
+      x: EARTH_RADIUS_M * (((f.lon - lon0) * Math.PI) / 180) * cosLat0,
+      y: -EARTH_RADIUS_M * (((f.lat - lat0) * Math.PI) / 180)
+    };
+    const prev = projected[projected.length - 1];
+    if (prev && Math.hypot(p.x - prev.p.x, p.y - prev.p.y) < 0.5) continue;
+    projected.push({ p, ele: (f.ele ?? startEle) - startEle });
+  }
+  const rawLengthM = polylineLengthM(projected.map((s) => s.p));
+  if (projected.length < 2 || rawLengthM < MIN_LENGTH_M) return { ok: false, error: `Road too short (${Math.round(rawLengthM)} m)` };
+  if (rawLengthM > MAX_LENGTH_M) return { ok: false, error: `Road too long (${(rawLengthM / 1000).toFixed(1)} km, at most ${MAX_LENGTH_M / 1000} km)` };
+
+  const first = projected[0].p;
+  const last = projected[projected.length - 1].p;
+  const closed = rawLengthM >= CLOSED_MIN_LENGTH_M && Math.hypot(last.x - first.x, last.y - first.y) < CLOSE_GAP_M;
+  // A loop's last fix stands in for its first; the samples then run round to just short of the start.
+  const fine = resample(closed ? [...projected.slice(0, -1), projected[0]] : projected, RAW_STEP_M);
+  if (closed) fine.pop();
+  const halfWindow = Math.round(SMOOTH_HALF_WINDOW_M / RAW_STEP_M);
+  const xs = smooth(fine.map((s) => s.p.x), halfWindow, closed);
+  const ys = smooth(fine.map((s) => s.p.y), halfWindow, closed);
+  const eles = smooth(fine.map((s) => s.ele), Math.round(ELEVATION_HALF_WINDOW_M / RAW_STEP_M), closed);
+  const smoothed: Sample[] = fine.map((_, i) => ({ p: { x: xs[i], y: ys[i] }, ele: eles[i] }));
+  if (closed) smoothed.push(smoothed[0]);
+  const samples = resample(smoothed, POINT_SPACING_M);
+  if (closed) samples[samples.length - 1] = samples[0];
+
+  const points = samples.map((s) => ({ x: Math.round(s.p.x * 100) / 100, y: Math.round(s.p.y * 100) / 100 }));
+  const baseM = baseWidthM(road.tags);
+  const surfaceTag = road.tags.surface;
+  const surfaceName = surfaceTag !== undefined && Object.hasOwn(SURFACE_TAGS, surfaceTag) ? SURFACE_TAGS[surfaceTag] : undefined;
+  let surfaces: SurfaceRun[] | undefined;
+  if (surfaceName) {
+    const surface = surfaceForRoad(surfaceName, false);
+    surfaces = [{ start01: 0, end01: 1, name: surfaceName, mu: surface.frictionMu, rr: surface.rollingResistanceN }];
+  }
+  const name = road.name || opts?.fileName?.replace(/\.[^.]*$/, "") || "Imported road";
+
+  return {
+    ok: true,
+    def: {
+      points,
+      ...(closed ? { closed: true } : {}),
+      baseWidthM: baseM,
+      segmentWidthsM: widthsAlong(points, baseM, closed),
+      elevationsM: samples.map((s) => Math.round(s.ele * 100) / 100),
+      ...(surfaces ? { surfaces } : {}),
+      meta: { name, source: "import", theme: { kind: inferTheme(fixes) } }
+    }
+  };
+}
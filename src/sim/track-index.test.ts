@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { mulberry32 } from "./rng";
+import { createCircuitTrackDefinition, createPointToPointTrackDefinition, createTrackFromDefinition, pointOnTrack, projectToTrack } from "./track";
+import { segmentIndexAtSM } from "./track-index";
+
+describe("track index", () => {
+  it("projects exactly like a scan of every segment", () => {
+    const rand = mulberry32(7);
+    for (const def of [createPointToPointTrackDefinition(11), createCircuitTrackDefinition(11)]) {
+      const track = createTrackFromDefinition(def);
+      expect(track.index).toBeDefined();
+      const unindexed = { ...track, index: undefined };
+      for (let i = 0; i < 400; i++) {
+        // Mostly near the road, some well off it, a few outside the grid altogether.
+        const on = pointOnTrack(track, rand() * track.totalLengthM).p;
+        const spreadM = i % 10 === 0 ? 2000 : i % 3 === 0 ? 150 : 12;
+        const p = { x: on.x + (rand() - 0.5) * spreadM, y: on.y + (rand() - 0.5) * spreadM };
+        const expected = projectToTrack(unindexed, p);
+        expect(projectToTrack(track, p)).toEqual(expected);
+        expect(projectToTrack(track, p, projectToTrack(track, on))).toEqual(expected);
+      }
+      // On a vertex two segments are equally close; the earlier one wins either way.
+      const vertex = track.points[5];
+      expect(projectToTrack(track, vertex).segmentIndex).toBe(projectToTrack(unindexed, vertex).segmentIndex);
+    }
+  });
+
+  it("finds the segment for a distance by binary search", () => {
+    const cumulative = [0, 10, 10, 25, 40];
+    const lengths = [10, 0, 15, 15, 0];
+    expect(segmentIndexAtSM(cumulative, lengths, 0)).toBe(0);
+    expect(segmentIndexAtSM(cumulative, lengths, 9.99)).toBe(0);
+    // The empty segment at 10 holds nothing.
+    expect(segmentIndexAtSM(cumulative, lengths, 10)).toBe(2);
+    expect(segmentIndexAtSM(cumulative, lengths, 39)).toBe(3);
+    // As before the index, the very end falls back to the first segment.
+    expect(segmentIndexAtSM(cumulative, lengths, 40)).toBe(0);
+  });
+});
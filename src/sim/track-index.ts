@@ -0,0 +1,153 @@
+import type { Vec2 } from "./track";
+
+// A uniform grid over a polyline's segments, so the nearest segment to a point can be found by looking
+// at the cells around it instead of every segment of the stage. Built once per track; tracks are never
+// edited in place (the editor rebuilds them), so it never goes stale.
+
+// Cell edge (m). About one generated segment, so a cell holds a handful of them.
+const CELL_SIZE_M = 20;
+// Imported or hand-drawn tracks can cover a lot of ground; past this many cells they get coarser.
+const MAX_CELLS = 250_000;
+// Room around the road's bounding box, so cars beside (or a little off) the road still land in the grid.
+const MARGIN_M = 100;
+
+export type TrackIndex = {
+  cellSizeM: number;
+  minX: number;
+  minY: number;
+  cols: number;
+  rows: number;
+  // Segments of cell c are cellSegments[cellStart[c] .. cellStart[c + 1]).
+  cellStart: Int32Array;
+  cellSegments: Int32Array;
+};
+
+export function buildTrackIndex(points: readonly Vec2[]): TrackIndex | undefined {
+  const numSegments = points.length - 1;
+  if (numSegments < 1) return undefined;
+
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  if (!Number.isFinite(minX + minY + maxX + maxY)) return undefined;
+  minX -= MARGIN_M;
+  minY -= MARGIN_M;
+  maxX += MARGIN_M;
+  maxY += MARGIN_M;
+
+  const areaM2 = (maxX - minX) * (maxY - minY);
+  const cellSizeM = Math.max(CELL_SIZE_M, Math.sqrt(areaM2 / MAX_CELLS));
+  const cols = Math.floor((maxX - minX) / cellSizeM) + 1;
+  const rows = Math.floor((maxY - minY) / cellSizeM) + 1;
+  const index = { cellSizeM, minX, minY, cols, rows, cellStart: new Int32Array(cols * rows + 1), cellSegments: new Int32Array(0) };
+
+  // Two passes over each segment's cells: count, then fill.
+  const counts = new Int32Array(cols * rows);
+  const eachCell = (i: number, visit: (cell: number) => void): void => {
+    const a = points[i];
+    const b = points[i + 1];
+    const c0 = cellCol(index, Math.min(a.x, b.x));
+    const c1 = cellCol(index, Math.max(a.x, b.x));
+    const r0 = cellRow(index, Math.min(a.y, b.y));
+    const r1 = cellRow(index, Math.max(a.y, b.y));
+    for (let r = r0; r <= r1; r++) for (let c = c0; c <= c1; c++) visit(r * cols + c);
+  };
+  for (let i = 0; i < numSegments; i++) eachCell(i, (cell) => counts[cell]++);
+  for (let cell = 0; cell < counts.length; cell++) index.cellStart[cell + 1] = index.cellStart[cell] + counts[cell];
+  index.cellSegments = new Int32Array(index.cellStart[counts.length]);
+  const fill = index.cellStart.slice(0, counts.length);
+  for (let i = 0; i < numSegments; i++) eachCell(i, (cell) => (index.cellSegments[fill[cell]++] = i));
+  return index;
+}
+
+function cellCol(index: TrackIndex, x: number): number {
+  return Math.floor((x - index.minX) / index.cellSizeM);
+}
+
+function cellRow(index: TrackIndex, y: number): number {
+  return Math.floor((y - index.minY) / index.cellSizeM);
+}
+
+/** Whether `p` lies inside the grid; outside it a query has to fall back to scanning every segment. */
+export function isInTrackIndex(index: TrackIndex, p: Vec2): boolean {
+  const c = cellCol(index, p.x);
+  const r = cellRow(index, p.y);
+  return c >= 0 && c < index.cols && r >= 0 && r < index.rows;
+}
+
+/**
+ * Visit the segments filed under the cells `ring` cells away from `p`'s (0 is its own cell); `p` must be
+ * inside the grid. A segment spanning several cells is visited once per cell; anything not yet visited
+ * after ring r is at least `trackIndexReachM(index, p, r)` from `p`. Returns false once the ring lies
+ * wholly outside the grid, so there is nothing further out to find.
+ */
+export function visitTrackIndexRing(index: TrackIndex, p: Vec2, ring: number, visit: (segmentIndex: number) => void): boolean {
+  const pc = cellCol(index, p.x);
+  const pr = cellRow(index, p.y);
+  const r0 = Math.max(0, pr - ring);
+  const r1 = Math.min(index.rows - 1, pr + ring);
+  const c0 = Math.max(0, pc - ring);
+  const c1 = Math.min(index.cols - 1, pc + ring);
+  if (pc - ring < 0 && pc + ring >= index.cols && pr - ring < 0 && pr + ring >= index.rows) return false;
+  const visitCell = (cell: number): void => {
+    for (let k = index.cellStart[cell]; k < index.cellStart[cell + 1]; k++) visit(index.cellSegments[k]);
+  };
+  for (let r = r0; r <= r1; r++) {
+    const edgeRow = r === pr - ring || r === pr + ring;
+    if (edgeRow) {
+      for (let c = c0; c <= c1; c++) visitCell(r * index.cols + c);
+      continue;
+    }
+    if (pc - ring >= 0) visitCell(r * index.cols + pc - ring);
+    if (ring > 0 && pc + ring < index.cols) visitCell(r * index.cols + pc + ring);
+  }
+  return true;
+}
+
+/** Visit the segments filed under every cell within `radiusM` of `p` (once per cell, as above). */
+export function visitTrackIndexBox(index: TrackIndex, p: Vec2, radiusM: number, visit: (segmentIndex: number) => void): void {
+  const c0 = Math.max(0, cellCol(index, p.x - radiusM));
+  const c1 = Math.min(index.cols - 1, cellCol(index, p.x + radiusM));
+  const r0 = Math.max(0, cellRow(index, p.y - radiusM));
+  const r1 = Math.min(index.rows - 1, cellRow(index, p.y + radiusM));
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      const cell = r * index.cols + c;
+      for (let k = index.cellStart[cell]; k < index.cellStart[cell + 1]; k++) visit(index.cellSegments[k]);
+    }
+  }
+}
+
+/** How far `p` is from the edge of the block of cells out to `ring`. */
+export function trackIndexReachM(index: TrackIndex, p: Vec2, ring: number): number {
+  const fx = (p.x - index.minX) / index.cellSizeM;
+  const fy = (p.y - index.minY) / index.cellSizeM;
+  const inCellX = fx - Math.floor(fx);
+  const inCellY = fy - Math.floor(fy);
+  return (ring + Math.min(inCellX, 1 - inCellX, inCellY, 1 - inCellY)) * index.cellSizeM;
+}
+
+/**
+ * Segment holding distance `s`, found by binary search of the cumulative lengths: the one with
+ * start <= s < end, or 0 when none does (at or past the end).
+ */
+export function segmentIndexAtSM(cumulativeLengthsM: readonly number[], segmentLengthsM: readonly number[], s: number): number {
+  const numSegments = segmentLengthsM.length - 1;
+  const holds = (i: number): boolean => s >= cumulativeLengthsM[i] && s < cumulativeLengthsM[i] + segmentLengthsM[i];
+  // Last segment starting at or before s.
+  let lo = 0;
+  let hi = numSegments - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (cumulativeLengthsM[mid] <= s) lo = mid;
+    else hi = mid - 1;
+  }
+  return numSegments > 0 && holds(lo) ? lo : 0;
+}
@@ -63,6 +63,27 @@ describe("TrackDefinition serialization/parsing", () => {
     expect(parsed?.meta?.zones?.[1]).toEqual({ kind: "rain", start01: 0.25, end01: 0.3, intensity01: 0.8 });
   });
 
+  it("keeps elevations only when there is one per point", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 }
+    ];
+    const parsed = parseTrackDefinition(JSON.stringify({ points, baseWidthM: 7.5, elevationsM: [0, 2.5, "bad"] }));
+    expect(parsed?.elevationsM).toEqual([0, 2.5, 0]);
+    expect(createTrackFromDefinition(parsed!).elevationsM).toEqual([0, 2.5, 0]);
+
+    expect(parseTrackDefinition(JSON.stringify({ points, baseWidthM: 7.5, elevationsM: [1, 2] }))?.elevationsM).toBeUndefined();
+  });
+
+  it("round-trips authored surfaces onto the track", () => {
+    const surfaces = [{ start01: 0, end01: 1, name: "gravel" as const, mu: 0.72, rr: 310 }];
+    const def: TrackDefinition = { points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], baseWidthM: 7.5, surfaces };
+    const parsed = parseTrackDefinition(serializeTrackDefinition(def));
+    expect(parsed?.surfaces).toEqual(surfaces);
+    expect(createTrackFromDefinition(parsed!).surfaces).toEqual(surfaces);
+  });
+
   it("creates a track with consistent length metadata", () => {
     const def: TrackDefinition = {
       points: [
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { createPointToPointTrackDefinition } from "./track";
+import { validateTrackShape } from "./track-validation";
+
+describe("track shape validation", () => {
+  it("passes generated stages", () => {
+    for (const seed of [11, 222, 3333]) {
+      expect(validateTrackShape(createPointToPointTrackDefinition(seed).points)).toEqual([]);
+    }
+  });
+
+  it("reports a figure of eight and a long straight", () => {
+    const eight = [
+      { x: 0, y: 0 },
+      { x: 20, y: 20 },
+      { x: 30, y: 20 },
+      { x: 30, y: 0 },
+      { x: 0, y: 20 }
+    ];
+    expect(validateTrackShape(eight)).toEqual([{ kind: "crossing", segmentA: 0, segmentB: 3 }]);
+
+    const straight = [0, 40, 80, 120, 160].map((x) => ({ x, y: 0 })).concat([{ x: 170, y: 30 }]);
+    const issues = validateTrackShape(straight);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: "straight", startIndex: 0, lengthM: 120 });
+  });
+});
@@ -0,0 +1,92 @@
+import type { Vec2 } from "./track";
+
+// Shape rules every generated stage passes: no crossing segments and no long dead-straight runs.
+// The editor checks hand-built tracks against the same rules.
+
+export const MAX_STRAIGHT_M = 100;
+// Heading change (rad) between consecutive segments below which the road counts as straight.
+const STRAIGHT_HEADING_CHANGE_RAD = 0.01;
+
+export type TrackIssue =
+  | { kind: "crossing"; segmentA: number; segmentB: number }
+  | { kind: "straight"; startIndex: number; endIndex: number; lengthM: number };
+
+/** Pairs of non-adjacent segments that cross. Segments that only touch at an end don't count. */
+export function findSelfIntersections(points: Vec2[]): { i: number; j: number }[] {
+  const found: { i: number; j: number }[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    for (let j = i + 3; j < points.length - 1; j++) {
+      const p3 = points[j];
+      const p4 = points[j + 1];
+      if (segmentsIntersect(p1.x, p1.y, p2.x, p2.y, p3.x, p3.y, p4.x, p4.y)) found.push({ i, j });
+    }
+  }
+  return found;
+}
+
+/** Runs of near-collinear segments longer than `maxLengthM`, from the first point to the last. */
+export function findLongStraights(
+  points: Vec2[],
+  maxLengthM: number = MAX_STRAIGHT_M
+): { startIndex: number; endIndex: number; lengthM: number }[] {
+  const found: { startIndex: number; endIndex: number; lengthM: number }[] = [];
+  if (points.length < 4) return found;
+
+  let runStart = -1;
+  let runLengthM = 0;
+  const endRun = (endIndex: number): void => {
+    if (runStart >= 0 && runLengthM > maxLengthM) found.push({ startIndex: runStart, endIndex, lengthM: runLengthM });
+    runStart = -1;
+    runLengthM = 0;
+  };
+  for (let i = 0; i < points.length - 2; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[i + 2];
+    const angle1 = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+    const angle2 = Math.atan2(p3.y - p2.y, p3.x - p2.x);
+    let angleChange = angle2 - angle1;
+    while (angleChange > Math.PI) angleChange -= Math.PI * 2;
+    while (angleChange < -Math.PI) angleChange += Math.PI * 2;
+
+    if (Math.abs(angleChange) < STRAIGHT_HEADING_CHANGE_RAD) {
+      if (runStart < 0) runStart = i;
+      runLengthM += Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    } else {
+      endRun(i);
+    }
+  }
+  endRun(points.length - 1);
+  return found;
+}
+
+/** Everything wrong with a track's shape, crossings first. Empty when it would pass as generated. */
+export function validateTrackShape(points: Vec2[]): TrackIssue[] {
+  return [
+    ...findSelfIntersections(points).map(({ i, j }): TrackIssue => ({ kind: "crossing", segmentA: i, segmentB: j })),
+    ...findLongStraights(points).map((s): TrackIssue => ({ kind: "straight", ...s }))
+  ];
+}
+
+function segmentsIntersect(
+  p1x: number, p1y: number,
+  p2x: number, p2y: number,
+  p3x: number, p3y: number,
+  p4x: number, p4y: number
+): boolean {
+  const d1x = p2x - p1x;
+  const d1y = p2y - p1y;
+  const d2x = p4x - p3x;
+  const d2y = p4y - p3y;
+
+  const denominator = d1x * d2y - d1y * d2x;
+  if (Math.abs(denominator) < 1e-10) return false;
+
+  const t1 = ((p3x - p1x) * d2y - (p3y - p1y) * d2x) / denominator;
+  const t2 = ((p3x - p1x) * d1y - (p3y - p1y) * d1x) / denominator;
+
+  const epsilon = 0.01;
+  return t1 > epsilon && t1 < (1 - epsilon) && t2 > epsilon && t2 < (1 - epsilon);
+}
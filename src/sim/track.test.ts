@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vitest";
 import {
+  createCircuitTrackDefinition,
   createProceduralTrackDefinition,
   createPointToPointTrackDefinition,
   createTrackFromDefinition,
+  parseTrackDefinition,
   projectToTrack,
   pointOnTrack,
+  serializeTrackDefinition,
 } from "./track";
 
 describe("track generation", () => {
@@ -160,4 +163,24 @@ describe("track generation", () => {
 
     expect(narrow.baseWidthM).toBeLessThan(normal.baseWidthM);
   });
+
+  it("creates closed circuits that keep their lap count through serialization", () => {
+    const def = createCircuitTrackDefinition(7, 5);
+    const first = def.points[0];
+    const last = def.points[def.points.length - 1];
+    expect(Math.hypot(last.x - first.x, last.y - first.y)).toBeLessThan(1e-9);
+    expect(def.segmentWidthsM).toHaveLength(def.points.length);
+    expect(def.elevationsM).toHaveLength(def.points.length);
+
+    const parsed = parseTrackDefinition(serializeTrackDefinition(def));
+    expect(parsed?.closed).toBe(true);
+    expect(parsed?.meta?.laps).toBe(5);
+
+    const track = createTrackFromDefinition(parsed!);
+    expect(track.closed).toBe(true);
+    expect(track.totalLengthM).toBeGreaterThan(800);
+    // Just past the line projects to the start of the lap, not the end.
+    const ahead = pointOnTrack(track, 3).p;
+    expect(projectToTrack(track, ahead).sM).toBeLessThan(10);
+  });
 });
@@ -1,6 +1,12 @@
 import { mulberry32 } from "./rng";
 import { generateCity, type City } from "./city";
-import { stageMetaFromSeed, type StageThemeKind, type StageThemeRef, type TrackZone, type TrackZoneKind } from "./stage";
+import { generateElevationProfile } from "./elevation";
+import { clampLapCount, DEFAULT_CIRCUIT_LAPS } from "./laps";
+import { STAGE_THEME_KINDS, stageMetaFromSeed, type QuietZone, type StageThemeKind, type StageThemeRef, type TrackZone, type TrackZoneKind } from "./stage";
+import { bakeSurfaceRuns, isRoadSurfaceName, parseSurfaceRuns, type RoadSurfaceName, type SurfaceRun } from "./surface";
+import { buildTrackIndex, isInTrackIndex, segmentIndexAtSM, trackIndexReachM, visitTrackIndexBox, visitTrackIndexRing, type TrackIndex } from "./track-index";
+import { findLongStraights, findSelfIntersections } from "./track-validation";
+import { parseWindProfile } from "./wind";
 
 export type Vec2 = { x: number; y: number };
 
@@ -26,28 +32,61 @@ function smoothWidths(widths: number[], windowSize: number = 5): number[] {
 
 export type TrackDefinition = {
   points: Vec2[]; // Point-to-point: last point is the end
+  closed?: boolean; // a circuit: the last point repeats the first
   baseWidthM: number;
   segmentWidthsM?: number[]; // optional per-segment widths (same length as points)
+  elevationsM?: number[]; // optional road height at each point (same length as points); flat when absent
+  surfaces?: SurfaceRun[]; // authored road surfaces along the track; the seed decides where there are none
+  branches?: TrackBranchDefinition[]; // alternate routes through parts of the stage
   startCity?: City;
   endCity?: City;
   meta?: {
     name?: string;
     seed?: number;
-    source?: "procedural" | "editor" | "point-to-point";
+    source?: "procedural" | "editor" | "point-to-point" | "circuit" | "import";
     theme?: StageThemeRef;
     zones?: TrackZone[];
+    quietZones?: QuietZone[]; // authored; otherwise derived from the seed
+    laps?: number; // circuits: laps in a race
   };
 };
 
+// An alternate route: it leaves the main line at point `fromIndex` and rejoins it at point `toIndex`.
+// Its own points run from the split to the merge, both ends included.
+export type TrackBranchDefinition = {
+  fromIndex: number;
+  toIndex: number;
+  points: Vec2[];
+  segmentWidthsM?: number[]; // same length as points
+  elevationsM?: number[]; // same length as points; blends between the split and merge heights when absent
+  surface?: RoadSurfaceName; // the whole branch is this surface; otherwise it follows the main line's
+};
+
 export type Track = {
   points: Vec2[];
   widthM: number; // default/base width
   segmentWidthsM?: number[]; // optional per-segment widths (same length as points)
+  elevationsM?: number[]; // optional road height at each point (same length as points)
   segmentLengthsM: number[];
   cumulativeLengthsM: number[]; // same length as points; cumulative at each point
   totalLengthM: number;
+  closed?: boolean; // sM wraps from totalLengthM back to 0
+  surfaces?: SurfaceRun[];
+  branches?: TrackBranch[];
   startCity?: City;
   endCity?: City;
+  index?: TrackIndex; // spatial grid over the segments; queries scan them all without one
+};
+
+// Progress on a branch is measured on the main line's sM axis, scaled between the split and the merge,
+// so checkpoints, zones and surfaces keyed on sM work on either route.
+export type TrackBranch = {
+  fromIndex: number;
+  toIndex: number;
+  fromSM: number; // main-line distance of the split
+  toSM: number; // and of the merge
+  surface?: RoadSurfaceName;
+  route: Track; // the branch as a polyline of its own
 };
 
 export type TrackProjection = {
@@ -59,15 +98,97 @@ export type TrackProjection = {
   lateralOffsetM: number; // signed distance from centerline (approx)
   distanceToCenterlineM: number;
   widthM: number; // width at this segment
+  // Set when the closest road is a branch. segmentIndex, t, normal and widthM then refer to the
+  // branch's route, and sM is mapped onto the main line.
+  branchIndex?: number;
+  branchSM?: number; // distance along the branch
 };
 
 export function createTrackFromDefinition(def: TrackDefinition): Track {
   const track = buildTrackFromPoints(def.points, def.baseWidthM, def.segmentWidthsM);
+  if (def.elevationsM && def.elevationsM.length === def.points.length) track.elevationsM = def.elevationsM;
+  if (def.closed) track.closed = true;
+  if (def.surfaces && def.surfaces.length > 0) track.surfaces = def.surfaces;
+  const branches = (def.branches ?? [])
+    .filter((b) => isBranchInRange(b, def.points.length))
+    .map((b) => createBranch(track, b, def.baseWidthM));
+  if (branches.length > 0) track.branches = branches;
   track.startCity = def.startCity;
   track.endCity = def.endCity;
   return track;
 }
 
+function isBranchInRange(b: TrackBranchDefinition, pointCount: number): boolean {
+  return Number.isInteger(b.fromIndex) && Number.isInteger(b.toIndex) && b.fromIndex >= 0 && b.fromIndex < b.toIndex && b.toIndex < pointCount && b.points.length >= 2;
+}
+
+function createBranch(main: Track, def: TrackBranchDefinition, baseWidthM: number): TrackBranch {
+  // The ends belong to the main line; snapping them keeps the junctions closed when it is edited.
+  const points = def.points.slice();
+  points[0] = main.points[def.fromIndex];
+  points[points.length - 1] = main.points[def.toIndex];
+  const widths = def.segmentWidthsM && def.segmentWidthsM.length === points.length ? def.segmentWidthsM : undefined;
+  const route = buildTrackFromPoints(points, baseWidthM, widths);
+  if (def.elevationsM && def.elevationsM.length === points.length) {
+    route.elevationsM = def.elevationsM;
+  } else if (main.elevationsM) {
+    const fromM = main.elevationsM[def.fromIndex];
+    const toM = main.elevationsM[def.toIndex];
+    route.elevationsM = route.cumulativeLengthsM.map((s) => lerp(fromM, toM, route.totalLengthM > 0 ? s / route.totalLengthM : 0));
+  }
+  return {
+    fromIndex: def.fromIndex,
+    toIndex: def.toIndex,
+    fromSM: main.cumulativeLengthsM[def.fromIndex],
+    toSM: main.cumulativeLengthsM[def.toIndex],
+    surface: def.surface,
+    route
+  };
+}
+
+/** Main-line sM for a distance along a branch. */
+export function branchToMainSM(branch: TrackBranch, branchSM: number): number {
+  const u = branch.route.totalLengthM > 1e-6 ? clamp(branchSM / branch.route.totalLengthM, 0, 1) : 0;
+  return lerp(branch.fromSM, branch.toSM, u);
+}
+
+/** Distance along a branch for a main-line sM inside its span. */
+export function mainToBranchSM(branch: TrackBranch, sM: number): number {
+  const spanM = branch.toSM - branch.fromSM;
+  const u = spanM > 1e-6 ? clamp((sM - branch.fromSM) / spanM, 0, 1) : 0;
+  return u * branch.route.totalLengthM;
+}
+
+/**
+ * Point and heading at main-line distance `sM` on the route the car is on: the branch when
+ * `branchIndex` names one whose span covers `sM`, the main line otherwise.
+ */
+export function pointOnRoute(track: Track, sM: number, branchIndex?: number): { p: Vec2; headingRad: number; widthM: number } {
+  const branch = branchIndex !== undefined ? track.branches?.[branchIndex] : undefined;
+  const onBranch = !!branch && sM >= branch.fromSM && sM <= branch.toSM;
+  const route = onBranch ? branch.route : track;
+  const routeSM = onBranch ? mainToBranchSM(branch, sM) : sM;
+  const { p, headingRad } = pointOnTrack(route, routeSM);
+  return { p, headingRad, widthM: widthOnTrackAt(route, routeSM) };
+}
+
+function widthOnTrackAt(track: Track, sM: number): number {
+  if (!track.segmentWidthsM) return track.widthM;
+  let i = 0;
+  while (i < track.cumulativeLengthsM.length - 2 && track.cumulativeLengthsM[i + 1] <= sM) i++;
+  return track.segmentWidthsM[i] ?? track.widthM;
+}
+
+/** How far `p` is from the edge of the nearest branch road (negative on it); Infinity without branches. */
+export function distanceToBranchRoadM(track: Track, p: Vec2): number {
+  let best = Number.POSITIVE_INFINITY;
+  for (const branch of track.branches ?? []) {
+    const proj = projectOntoPolyline(branch.route, p);
+    best = Math.min(best, proj.distanceToCenterlineM - proj.widthM * 0.5);
+  }
+  return best;
+}
+
 export function serializeTrackDefinition(def: TrackDefinition): string {
   return JSON.stringify(def);
 }
@@ -86,18 +207,21 @@ export function parseTrackDefinition(json: string): TrackDefinition | null {
       Array.isArray(v.segmentWidthsM) && v.segmentWidthsM.length === points.length
         ? v.segmentWidthsM.map((n) => (typeof n === "number" && Number.isFinite(n) ? n : baseWidthM))
         : undefined;
+    const elevationsM =
+      Array.isArray(v.elevationsM) && v.elevationsM.length === points.length
+        ? v.elevationsM.map((n) => (typeof n === "number" && Number.isFinite(n) ? n : 0))
+        : undefined;
 
     const meta = v.meta && typeof v.meta === "object" ? (v.meta as any) : undefined;
 
-    const isThemeKind = (k: any): k is StageThemeKind =>
-      k === "temperate" || k === "rainforest" || k === "desert" || k === "arctic";
+    const isThemeKind = (k: any): k is StageThemeKind => STAGE_THEME_KINDS.includes(k);
     const safeTheme: StageThemeRef | undefined =
       meta?.theme && typeof meta.theme === "object" && isThemeKind((meta.theme as any).kind)
         ? { kind: (meta.theme as any).kind as StageThemeKind }
         : undefined;
 
     const isZoneKind = (k: any): k is TrackZoneKind =>
-      k === "rain" || k === "fog" || k === "eclipse" || k === "electrical" || k === "sandstorm";
+      k === "rain" || k === "fog" || k === "eclipse" || k === "electrical" || k === "sandstorm" || k === "wind";
 
     const safeZones: TrackZone[] | undefined = Array.isArray(meta?.zones)
       ? (meta.zones as any[])
@@ -108,19 +232,30 @@ export function parseTrackDefinition(json: string): TrackDefinition | null {
             const end01 = typeof (z as any).end01 === "number" ? (z as any).end01 : NaN;
             const intensity01 = typeof (z as any).intensity01 === "number" ? (z as any).intensity01 : NaN;
             if (!Number.isFinite(start01) || !Number.isFinite(end01) || !Number.isFinite(intensity01)) return null;
-            return {
+            const zone: TrackZone = {
               kind: (z as any).kind as TrackZoneKind,
               start01: Math.max(0, Math.min(1, start01)),
               end01: Math.max(0, Math.min(1, end01)),
               intensity01: Math.max(0, Math.min(1, intensity01))
-            } satisfies TrackZone;
+            };
+            if (zone.kind === "wind") zone.wind = parseWindProfile((z as any).wind);
+            return zone;
           })
           .filter(Boolean) as TrackZone[]
       : undefined;
 
+    const safeQuietZones: QuietZone[] | undefined = Array.isArray(meta?.quietZones)
+      ? (meta.quietZones as any[])
+          .filter((z) => z && typeof z === "object" && Number.isFinite(z.start01) && Number.isFinite(z.end01))
+          .map((z) => ({ start01: Math.max(0, Math.min(1, z.start01)), end01: Math.max(0, Math.min(1, z.end01)) }))
+          .filter((z) => z.end01 > z.start01)
+      : undefined;
+
+    const laps = meta?.laps !== undefined ? clampLapCount(meta.laps, 1) : undefined;
+
     const hasAnyMeta = !!(
       meta &&
-      (meta.name || meta.seed || meta.source || safeTheme || (safeZones && safeZones.length > 0))
+      (meta.name || meta.seed || meta.source || safeTheme || (safeZones && safeZones.length > 0) || safeQuietZones || laps)
     );
 
     const safeMeta = hasAnyMeta
@@ -128,18 +263,30 @@ export function parseTrackDefinition(json: string): TrackDefinition | null {
           name: typeof meta?.name === "string" ? meta.name : undefined,
           seed: typeof meta?.seed === "number" ? meta.seed : undefined,
           source:
-            meta?.source === "procedural" || meta?.source === "editor" || meta?.source === "point-to-point"
+            meta?.source === "procedural" || meta?.source === "editor" || meta?.source === "point-to-point" || meta?.source === "circuit" || meta?.source === "import"
               ? meta.source
               : undefined,
           theme: safeTheme,
-          zones: safeZones
+          zones: safeZones,
+          quietZones: safeQuietZones,
+          laps
         }
       : undefined;
 
+    const branches = Array.isArray((v as any).branches)
+      ? ((v as any).branches as unknown[])
+          .map((b) => parseBranchDefinition(b, baseWidthM))
+          .filter((b): b is TrackBranchDefinition => !!b && isBranchInRange(b, points.length))
+      : [];
+
     return {
       points,
+      closed: v.closed === true ? true : undefined,
       baseWidthM,
       segmentWidthsM,
+      elevationsM,
+      surfaces: parseSurfaceRuns(v.surfaces),
+      branches: branches.length > 0 ? branches : undefined,
       meta: safeMeta
     };
   } catch {
@@ -147,6 +294,31 @@ export function parseTrackDefinition(json: string): TrackDefinition | null {
   }
 }
 
+function parseBranchDefinition(raw: unknown, baseWidthM: number): TrackBranchDefinition | null {
+  if (!raw || typeof raw !== "object") return null;
+  const b = raw as Record<string, unknown>;
+  if (typeof b.fromIndex !== "number" || typeof b.toIndex !== "number" || !Array.isArray(b.points)) return null;
+  const points: Vec2[] = [];
+  for (const p of b.points) {
+    if (!p || typeof (p as any).x !== "number" || typeof (p as any).y !== "number") return null;
+    points.push({ x: (p as any).x, y: (p as any).y });
+  }
+  const numbers = (list: unknown, fallback: number): number[] | undefined =>
+    Array.isArray(list) && list.length === points.length
+      ? list.map((n) => (typeof n === "number" && Number.isFinite(n) ? n : fallback))
+      : undefined;
+  const surface = isRoadSurfaceName(b.surface) ? b.surface : undefined;
+  if (b.surface !== undefined && !surface) return null;
+  return {
+    fromIndex: b.fromIndex,
+    toIndex: b.toIndex,
+    points,
+    segmentWidthsM: numbers(b.segmentWidthsM, baseWidthM),
+    elevationsM: numbers(b.elevationsM, 0),
+    surface
+  };
+}
+
 export type ProceduralTrackOptions = {
   controlPoints?: number;
   baseRadiusM?: number;
@@ -213,6 +385,8 @@ export function createProceduralTrackDefinition(seed: number, opts?: ProceduralT
     points,
     baseWidthM,
     segmentWidthsM,
+    elevationsM: generateElevationProfile(points, seed, { closed: true }),
+    surfaces: bakeSurfaceRuns(seed, stageMeta.theme.kind),
     meta: { name: `Procedural ${seed}`, seed, source: "procedural", theme: stageMeta.theme, zones: stageMeta.zones }
   };
 }
@@ -221,8 +395,25 @@ export function createProceduralTrack(seed: number, opts?: ProceduralTrackOption
   return createTrackFromDefinition(createProceduralTrackDefinition(seed, opts));
 }
 
+/**
+ * A race circuit: a procedural loop sized for laps of about a kilometre, closed explicitly (the first
+ * point repeated at the end) so projection, widths and elevation all run the full lap.
+ */
+export function createCircuitTrackDefinition(seed: number, laps: number = DEFAULT_CIRCUIT_LAPS): TrackDefinition {
+  const loop = createProceduralTrackDefinition(seed, { controlPoints: 16, baseRadiusM: 160, radiusJitterM: 60, samplesPerSegment: 12 });
+  const close = <T>(list: T[] | undefined): T[] | undefined => (list && list.length > 0 ? [...list, list[0]] : list);
+  return {
+    ...loop,
+    points: close(loop.points)!,
+    closed: true,
+    segmentWidthsM: close(loop.segmentWidthsM),
+    elevationsM: close(loop.elevationsM),
+    meta: { ...loop.meta, name: `Circuit ${seed}`, source: "circuit", laps: clampLapCount(laps) }
+  };
+}
+
 // Corner type definitions - predefined turning patterns
-type CornerType = "gentle" | "medium" | "sharp" | "hairpin" | "chicane";
+export type CornerType = "gentle" | "medium" | "sharp" | "hairpin" | "chicane";
 
 interface Corner {
   type: CornerType;
@@ -247,85 +438,21 @@ function createCorner(type: CornerType, direction: 1 | -1): Corner {
   }
 }
 
-/**
- * Check if a track has any self-intersections
- */
-function hasTrackSelfIntersection(points: Vec2[]): boolean {
-  // Simple check for crossing segments
-  for (let i = 0; i < points.length - 1; i++) {
-    const p1 = points[i];
-    const p2 = points[i + 1];
-    
-    for (let j = i + 3; j < points.length - 1; j++) {
-      const p3 = points[j];
-      const p4 = points[j + 1];
-      
-      if (segmentsIntersect(p1.x, p1.y, p2.x, p2.y, p3.x, p3.y, p4.x, p4.y)) {
-        return true;
-      }
-    }
-  }
-  return false;
-}
-
-/**
- * Check if a track has long straight sections
- */
-function hasLongStraightSection(points: Vec2[], maxLengthM: number = 100): boolean {
-  if (points.length < 4) return false;
-  
-  const curvatureThreshold = 0.01; // Very low curvature = straight
-  let currentStraightLength = 0;
-  
-  for (let i = 0; i < points.length - 2; i++) {
-    const p1 = points[i];
-    const p2 = points[i + 1];
-    const p3 = points[i + 2];
-    
-    const angle1 = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-    const angle2 = Math.atan2(p3.y - p2.y, p3.x - p2.x);
-    
-    let angleChange = angle2 - angle1;
-    while (angleChange > Math.PI) angleChange -= Math.PI * 2;
-    while (angleChange < -Math.PI) angleChange += Math.PI * 2;
-    
-    const segmentLength = Math.hypot(p2.x - p1.x, p2.y - p1.y);
-    
-    if (Math.abs(angleChange) < curvatureThreshold) {
-      currentStraightLength += segmentLength;
-      if (currentStraightLength > maxLengthM) {
-        return true; // Found a long straight!
-      }
-    } else {
-      currentStraightLength = 0; // Reset
-    }
-  }
-  
-  return false;
-}
+/** How a point-to-point stage came out of the generator's retry loop. */
+export type PointToPointGeneration = {
+  def: TrackDefinition;
+  attempts: number; // layouts tried, the kept one included
+  accepted: boolean; // false when every attempt failed the shape checks and the last was kept anyway
+  rejections: { crossing: number; straight: number }; // attempts turned down for each (both can count)
+  cornerTypes: CornerType[]; // the corners planned for the kept layout, in order
+};
 
-function segmentsIntersect(
-  p1x: number, p1y: number,
-  p2x: number, p2y: number,
-  p3x: number, p3y: number,
-  p4x: number, p4y: number
-): boolean {
-  const d1x = p2x - p1x;
-  const d1y = p2y - p1y;
-  const d2x = p4x - p3x;
-  const d2y = p4y - p3y;
-  
-  const denominator = d1x * d2y - d1y * d2x;
-  if (Math.abs(denominator) < 1e-10) return false;
-  
-  const t1 = ((p3x - p1x) * d2y - (p3y - p1y) * d2x) / denominator;
-  const t2 = ((p3x - p1x) * d1y - (p3y - p1y) * d1x) / denominator;
-  
-  const epsilon = 0.01;
-  return t1 > epsilon && t1 < (1 - epsilon) && t2 > epsilon && t2 < (1 - epsilon);
+export function createPointToPointTrackDefinition(seed: number): TrackDefinition {
+  return generatePointToPointTrack(seed).def;
 }
 
-export function createPointToPointTrackDefinition(seed: number): TrackDefinition {
+/** `createPointToPointTrackDefinition`, with what it took to get there. */
+export function generatePointToPointTrack(seed: number): PointToPointGeneration {
   // HACK/TODO: Retry logic to avoid self-intersections and straights
   // 
   // PROBLEM: This makes tracks samey and boring! Hairpins often cause loops,
@@ -339,35 +466,39 @@ export function createPointToPointTrackDefinition(seed: number): TrackDefinition
   // For now, this ensures NO broken tracks, but at the cost of variety.
   
   const maxAttempts = 15; // More attempts for stricter criteria
+  const rejections = { crossing: 0, straight: 0 };
   
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const attemptSeed = seed + attempt * 1000;
-    const result = tryCreatePointToPointTrackDefinition(attemptSeed);
+    const cornerTypes: CornerType[] = [];
+    const result = tryCreatePointToPointTrackDefinition(attemptSeed, cornerTypes);
     
     // Check if this track meets quality standards
-    const hasIntersection = hasTrackSelfIntersection(result.points);
-    const hasStraights = hasLongStraightSection(result.points, 100);
+    const hasIntersection = findSelfIntersections(result.points).length > 0;
+    const hasStraights = findLongStraights(result.points).length > 0;
+    if (hasIntersection) rejections.crossing++;
+    if (hasStraights) rejections.straight++;
     
     if (!hasIntersection && !hasStraights) {
       // Success! Keep the retry seed internal; present the base seed to UI/serialization.
-      const meta = result.meta ?? {};
-      return {
-        ...result,
-        meta: {
-          ...meta,
-          seed,
-          name: `Route ${seed}`
-        }
-      };
+      return { def: finishPointToPointTrack(result, seed), attempts: attempt + 1, accepted: true, rejections, cornerTypes };
     }
   }
   
   // If all attempts failed, return the best one we can find
   console.warn(`Track generation: All ${maxAttempts} attempts failed quality checks for seed ${seed}`);
-  const result = tryCreatePointToPointTrackDefinition(seed + (maxAttempts - 1) * 1000);
+  const cornerTypes: CornerType[] = [];
+  const result = tryCreatePointToPointTrackDefinition(seed + (maxAttempts - 1) * 1000, cornerTypes);
+  return { def: finishPointToPointTrack(result, seed), attempts: maxAttempts, accepted: false, rejections, cornerTypes };
+}
+
+// The kept layout under the base seed. Surfaces are baked from the base seed too, as the runtime drew
+// them before tracks carried their own, so a seed that needed retries keeps its surface plan.
+function finishPointToPointTrack(result: TrackDefinition, seed: number): TrackDefinition {
   const meta = result.meta ?? {};
+  const surfaced = { ...result, surfaces: bakeSurfaceRuns(seed, meta.theme?.kind) };
   return {
-    ...result,
+    ...withShortcutFork(surfaced, seed),
     meta: {
       ...meta,
       seed,
@@ -376,7 +507,156 @@ export function createPointToPointTrackDefinition(seed: number): TrackDefinition
   };
 }
 
-function tryCreatePointToPointTrackDefinition(seed: number): TrackDefinition {
+// Forks: a shortcut across a sweeping bend, on a surface that makes it a gamble. The main road stays
+// the long way round.
+const FORK_MIN_SPAN_M = 120;
+const FORK_MAX_SPAN_M = 480;
+const FORK_MIN_DETOUR = 1.2; // main-road span over the straight-line distance it covers
+// Clear of the start and finish lines, so both routes share them.
+const FORK_LINE_MARGIN_M = 80;
+// Near the junctions the roads run together; past this they must keep clear of each other.
+const FORK_JUNCTION_M = 35;
+
+function shortcutSurfaceForTheme(themeKind?: StageThemeKind): RoadSurfaceName {
+  switch (themeKind) {
+    case "desert":
+      return "sand";
+    case "rainforest":
+      return "gravel";
+    case "volcanic":
+      return "ash";
+    case "swamp":
+      return "mud";
+    case "ruins":
+      return "rubble";
+    default:
+      return "ice";
+  }
+}
+
+function withShortcutFork(def: TrackDefinition, seed: number): TrackDefinition {
+  const cityLength = 50;
+  const fork = generateShortcutFork(def.points, def.baseWidthM, seed, def.meta?.theme?.kind, cityLength, cityLength);
+  return fork ? { ...def, branches: [fork] } : def;
+}
+
+/**
+ * A shortcut branch across a bend of the main road, or null when the route has no bend that takes
+ * one cleanly. `startMarginM`/`endMarginM` keep it off the ends of the route (the cities).
+ */
+export function generateShortcutFork(
+  points: Vec2[],
+  widthM: number,
+  seed: number,
+  themeKind: StageThemeKind | undefined,
+  startMarginM: number,
+  endMarginM: number
+): TrackBranchDefinition | null {
+  if (points.length < 4) return null;
+  const rand = mulberry32((Math.floor(seed) ^ 0x0f04c) >>> 0 || 1);
+  const sAt: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    sAt.push(sAt[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const totalM = sAt[sAt.length - 1];
+  const firstS = startMarginM + FORK_LINE_MARGIN_M;
+  const lastS = totalM - endMarginM - FORK_LINE_MARGIN_M;
+
+  const dirAt = (i: number): Vec2 => {
+    const a = points[Math.max(0, i - 1)];
+    const b = points[Math.min(points.length - 1, i + 1)];
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+  };
+
+  // Spans where the road swings well out and comes back heading roughly the same way.
+  const candidates: [number, number][] = [];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (sAt[i] < firstS) continue;
+    for (let j = i + 1; j < points.length - 1; j++) {
+      const spanM = sAt[j] - sAt[i];
+      if (sAt[j] > lastS || spanM > FORK_MAX_SPAN_M) break;
+      if (spanM < FORK_MIN_SPAN_M) continue;
+      const chordM = Math.hypot(points[j].x - points[i].x, points[j].y - points[i].y);
+      if (chordM < 1 || spanM / chordM < FORK_MIN_DETOUR) continue;
+      const cx = (points[j].x - points[i].x) / chordM;
+      const cy = (points[j].y - points[i].y) / chordM;
+      const d0 = dirAt(i);
+      const d1 = dirAt(j);
+      if (d0.x * cx + d0.y * cy < 0.1 || d1.x * cx + d1.y * cy < 0.1) continue;
+      candidates.push([i, j]);
+    }
+  }
+
+  for (let attempt = 0; attempt < 24 && candidates.length > 0; attempt++) {
+    const pick = Math.floor(rand() * candidates.length);
+    const [fromIndex, toIndex] = candidates[pick];
+    candidates.splice(pick, 1);
+    const branchPoints = shortcutCurve(points[fromIndex], dirAt(fromIndex), points[toIndex], dirAt(toIndex));
+    if (!isShortcutClear(points, sAt, branchPoints, sAt[fromIndex], sAt[toIndex], widthM)) continue;
+    const branchWidthM = widthM * 0.85;
+    return {
+      fromIndex,
+      toIndex,
+      points: branchPoints,
+      segmentWidthsM: branchPoints.map(() => branchWidthM),
+      surface: shortcutSurfaceForTheme(themeKind)
+    };
+  }
+  return null;
+}
+
+// Cubic Hermite from `a` to `b`, leaving and arriving along the main road's direction.
+function shortcutCurve(a: Vec2, dirA: Vec2, b: Vec2, dirB: Vec2): Vec2[] {
+  const chordM = Math.hypot(b.x - a.x, b.y - a.y);
+  const steps = Math.max(4, Math.ceil(chordM / 10));
+  const out: Vec2[] = [];
+  for (let k = 0; k <= steps; k++) {
+    const t = k / steps;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+    out.push({
+      x: h00 * a.x + h10 * dirA.x * chordM + h01 * b.x + h11 * dirB.x * chordM,
+      y: h00 * a.y + h10 * dirA.y * chordM + h01 * b.y + h11 * dirB.y * chordM
+    });
+  }
+  return out;
+}
+
+// The shortcut may only meet the main road at its two junctions.
+function isShortcutClear(main: Vec2[], sAt: number[], branch: Vec2[], fromS: number, toS: number, widthM: number): boolean {
+  const clearanceM = widthM * 2;
+  let branchS = 0;
+  const branchTotal = branch.reduce((sum, p, k) => (k === 0 ? 0 : sum + Math.hypot(p.x - branch[k - 1].x, p.y - branch[k - 1].y)), 0);
+  for (let k = 0; k < branch.length; k++) {
+    if (k > 0) branchS += Math.hypot(branch[k].x - branch[k - 1].x, branch[k].y - branch[k - 1].y);
+    const nearFrom = branchS < FORK_JUNCTION_M;
+    const nearTo = branchTotal - branchS < FORK_JUNCTION_M;
+    const p = branch[k];
+    for (let i = 0; i < main.length - 1; i++) {
+      const segS = (sAt[i] + sAt[i + 1]) * 0.5;
+      if (nearFrom && Math.abs(segS - fromS) < FORK_JUNCTION_M * 2) continue;
+      if (nearTo && Math.abs(segS - toS) < FORK_JUNCTION_M * 2) continue;
+      if (distanceToSegmentM(p, main[i], main[i + 1]) < clearanceM) return false;
+    }
+  }
+  return true;
+}
+
+function distanceToSegmentM(p: Vec2, a: Vec2, b: Vec2): number {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const len2 = abx * abx + aby * aby;
+  const t = len2 > 1e-9 ? clamp01(((p.x - a.x) * abx + (p.y - a.y) * aby) / len2) : 0;
+  return Math.hypot(p.x - (a.x + abx * t), p.y - (a.y + aby * t));
+}
+
+// `cornerTypes` collects the corners planned, for reports.
+function tryCreatePointToPointTrackDefinition(seed: number, cornerTypes?: CornerType[]): TrackDefinition {
   const rand = mulberry32(Math.floor(seed) || 1);
 
   const stageMeta = stageMetaFromSeed(seed);
@@ -418,6 +698,7 @@ function tryCreatePointToPointTrackDefinition(seed: number): TrackDefinition {
     }
     
     corners.push(createCorner(cornerType, direction as 1 | -1));
+    cornerTypes?.push(cornerType);
   }
   
   // Calculate total control points needed
@@ -684,6 +965,7 @@ function tryCreatePointToPointTrackDefinition(seed: number): TrackDefinition {
       points: allPoints,
       baseWidthM,
       segmentWidthsM,
+      elevationsM: generateElevationProfile(allPoints, seed, { flatEndsM: cityLength }),
       startCity,
       endCity,
       meta: { name: `Route ${seed}`, seed, source: "point-to-point", theme: stageMeta.theme, zones: stageMeta.zones }
@@ -728,6 +1010,7 @@ function tryCreatePointToPointTrackDefinition(seed: number): TrackDefinition {
     points: allPoints,
     baseWidthM,
     segmentWidthsM,
+    elevationsM: generateElevationProfile(allPoints, seed, { flatEndsM: cityLength }),
     startCity,
     endCity,
     meta: { name: `Route ${seed}`, seed, source: "point-to-point", theme: stageMeta.theme, zones: stageMeta.zones }
@@ -787,7 +1070,8 @@ function buildTrackFromPoints(points: Vec2[], widthM: number, segmentWidthsM?: n
     segmentWidthsM,
     segmentLengthsM,
     cumulativeLengthsM,
-    totalLengthM: total
+    totalLengthM: total,
+    index: buildTrackIndex(points)
   };
 }
 
@@ -842,13 +1126,30 @@ function circular01Distance(a: number, b: number): number {
   return Math.min(d, 1 - d);
 }
 
-export function projectToTrack(track: Track, p: Vec2): TrackProjection {
+/**
+ * Closest point on the road, branches included. `hint` is an earlier projection of a nearby point (the
+ * car's last one, say); its segment seeds the search, so it ends sooner. The answer is the same without.
+ */
+export function projectToTrack(track: Track, p: Vec2, hint?: TrackProjection): TrackProjection {
+  let best = projectOntoPolyline(track, p, hint && hint.branchIndex === undefined ? hint.segmentIndex : undefined);
+  const branches = track.branches ?? [];
+  for (let branchIndex = 0; branchIndex < branches.length; branchIndex++) {
+    const branch = branches[branchIndex];
+    const proj = projectOntoPolyline(branch.route, p, hint?.branchIndex === branchIndex ? hint.segmentIndex : undefined);
+    if (proj.distanceToCenterlineM >= best.distanceToCenterlineM) continue;
+    best = { ...proj, sM: branchToMainSM(branch, proj.sM), branchIndex, branchSM: proj.sM };
+  }
+  return best;
+}
+
+function projectOntoPolyline(track: Track, p: Vec2, hintSegmentIndex?: number): TrackProjection {
   let bestDist2 = Number.POSITIVE_INFINITY;
   let best: TrackProjection | null = null;
 
   const numSegments = track.points.length - 1;
 
-  for (let i = 0; i < numSegments; i++) {
+  // Ties go to the lower segment, so the grid search lands where a scan from the start would.
+  const consider = (i: number): void => {
     const a = track.points[i];
     const b = track.points[i + 1];
 
@@ -865,7 +1166,7 @@ export function projectToTrack(track: Track, p: Vec2): TrackProjection {
     const dx = p.x - cx;
     const dy = p.y - cy;
     const dist2 = dx * dx + dy * dy;
-    if (dist2 >= bestDist2) continue;
+    if (dist2 > bestDist2 || (dist2 === bestDist2 && best && i >= best.segmentIndex)) return;
 
     const segLen = track.segmentLengthsM[i];
     const sM = track.cumulativeLengthsM[i] + segLen * t;
@@ -890,6 +1191,23 @@ export function projectToTrack(track: Track, p: Vec2): TrackProjection {
       distanceToCenterlineM: Math.sqrt(dist2),
       widthM
     };
+  };
+
+  const index = track.index;
+  if (index && isInTrackIndex(index, p)) {
+    if (hintSegmentIndex !== undefined && hintSegmentIndex >= 0 && hintSegmentIndex < numSegments) {
+      // Nothing closer than the hinted segment can lie outside the cells within its distance.
+      consider(hintSegmentIndex);
+      visitTrackIndexBox(index, p, Math.sqrt(bestDist2), consider);
+    } else {
+      // Widen ring by ring until nothing unvisited could be closer than the best so far.
+      for (let ring = 0; visitTrackIndexRing(index, p, ring, consider); ring++) {
+        const reachM = trackIndexReachM(index, p, ring);
+        if (bestDist2 < reachM * reachM) break;
+      }
+    }
+  } else {
+    for (let i = 0; i < numSegments; i++) consider(i);
   }
 
   if (!best) {
@@ -910,16 +1228,7 @@ export function projectToTrack(track: Track, p: Vec2): TrackProjection {
 
 export function pointOnTrack(track: Track, sM: number): { p: Vec2; headingRad: number } {
   const s = clamp(sM, 0, track.totalLengthM);
-
-  let segmentIndex = 0;
-  for (let i = 0; i < track.segmentLengthsM.length - 1; i++) {
-    const start = track.cumulativeLengthsM[i];
-    const end = start + track.segmentLengthsM[i];
-    if (s >= start && s < end) {
-      segmentIndex = i;
-      break;
-    }
-  }
+  const segmentIndex = segmentIndexAtSM(track.cumulativeLengthsM, track.segmentLengthsM, s);
 
   const a = track.points[segmentIndex];
   const b = track.points[segmentIndex + 1];
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, stepCar } from "./car";
+import {
+  builtInVehicle,
+  builtInVehicles,
+  parseVehicleDefinition,
+  serializeVehicleDefinition,
+  VEHICLE_CLASS_IDS
+} from "./vehicle";
+
+describe("VehicleDefinition", () => {
+  it("ships the four built-in classes with distinct drivetrains", () => {
+    const byId = new Map(builtInVehicles().map((v) => [v.id, v]));
+    expect([...byId.keys()]).toEqual([...VEHICLE_CLASS_IDS]);
+    expect(byId.get("hatch")?.car.driveBiasFront).toBe(1);
+    expect(byId.get("muscle")?.car.driveBiasFront).toBe(0);
+    expect(byId.get("truck")!.car.massKg).toBeGreaterThan(byId.get("rally")!.car.massKg * 2);
+  });
+
+  it("round-trips every built-in class", () => {
+    for (const id of VEHICLE_CLASS_IDS) {
+      const def = builtInVehicle(id);
+      const parsed = parseVehicleDefinition(serializeVehicleDefinition(def));
+      expect(parsed).toEqual(def);
+    }
+  });
+
+  it("returns null for invalid JSON, missing sections or impossible cars", () => {
+    expect(parseVehicleDefinition("not-json")).toBeNull();
+    expect(parseVehicleDefinition(JSON.stringify({ id: "x" }))).toBeNull();
+    expect(parseVehicleDefinition(JSON.stringify({ car: {}, engine: {} }))).toBeNull();
+    expect(parseVehicleDefinition(JSON.stringify({ id: "x", car: { massKg: -5 }, engine: {} }))).toBeNull();
+    expect(parseVehicleDefinition(JSON.stringify({ id: "x", car: { cgToFrontAxleM: 9 }, engine: {} }))).toBeNull();
+    expect(parseVehicleDefinition(JSON.stringify({ id: "x", car: {}, engine: { gearRatios: [] } }))).toBeNull();
+  });
+
+  it("fills missing or bad fields from the matching built-in", () => {
+    const parsed = parseVehicleDefinition(
+      JSON.stringify({
+        id: "truck",
+        car: { massKg: 4000, engineForceN: "lots", vehicleModel: "tank", driveBiasFront: 3 },
+        engine: { idleRpm: 700 },
+        visual: { bodyColor: "#123456", lengthM: -1 }
+      })
+    );
+    const truck = builtInVehicle("truck");
+    expect(parsed).not.toBeNull();
+    expect(parsed?.name).toBe(truck.name);
+    expect(parsed?.car.massKg).toBe(4000);
+    expect(parsed?.car.engineForceN).toBe(truck.car.engineForceN);
+    expect(parsed?.car.vehicleModel).toBe(truck.car.vehicleModel);
+    expect(parsed?.car.driveBiasFront).toBe(1);
+    expect(parsed?.engine.idleRpm).toBe(700);
+    expect(parsed?.visual).toEqual({ ...truck.visual, bodyColor: "#123456" });
+  });
+
+  it("every class drives forward under throttle", () => {
+    for (const def of builtInVehicles()) {
+      let cur = createCarState();
+      for (let i = 0; i < 240; i++) {
+        cur = stepCar(cur, def.car, { steer: 0, throttle: 1, brake: 0, handbrake: 0 }, 1 / 120).state;
+      }
+      expect(cur.vxMS).toBeGreaterThan(5);
+      expect(Math.abs(cur.yM)).toBeLessThan(0.1);
+    }
+  });
+});
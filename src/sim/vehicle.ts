@@ -0,0 +1,392 @@
+import { defaultEngineAudioParams, type EngineAudioParams } from "../audio/audio-engine";
+import { defaultCarParams, type CarParams } from "./car";
+import { isDifferentialType, type DifferentialParams } from "./driveline";
+import { defaultEngineParams, type EngineParams } from "./engine";
+
+export type VehicleClassId = "hatch" | "muscle" | "rally" | "truck";
+
+// Rendered body size (the car sprite is stylized, so this is not the physical wheelbase).
+export type VehicleVisual = {
+  lengthM: number;
+  widthM: number;
+  bodyColor: string;
+};
+
+export type VehicleDefinition = {
+  id: string;
+  name: string;
+  car: CarParams;
+  engine: EngineParams;
+  audio: EngineAudioParams;
+  visual: VehicleVisual;
+};
+
+export const DEFAULT_VEHICLE_CLASS: VehicleClassId = "rally";
+
+export const VEHICLE_CLASS_IDS: readonly VehicleClassId[] = ["hatch", "muscle", "rally", "truck"];
+
+export function isVehicleClassId(v: unknown): v is VehicleClassId {
+  return v === "hatch" || v === "muscle" || v === "rally" || v === "truck";
+}
+
+export function builtInVehicle(id: VehicleClassId): VehicleDefinition {
+  switch (id) {
+    case "hatch":
+      return fwdHatch();
+    case "muscle":
+      return rwdMuscle();
+    case "truck":
+      return cargoTruck();
+    case "rally":
+    default:
+      return awdRally();
+  }
+}
+
+export function builtInVehicles(): VehicleDefinition[] {
+  return VEHICLE_CLASS_IDS.map((id) => builtInVehicle(id));
+}
+
+// The original car: front-biased AWD, light and very eager.
+function awdRally(): VehicleDefinition {
+  return {
+    id: "rally",
+    name: "AWD Rally",
+    car: defaultCarParams(),
+    engine: defaultEngineParams(),
+    audio: defaultEngineAudioParams(),
+    visual: { lengthM: 1.85, widthM: 0.93, bodyColor: "rgba(242, 246, 250, 0.95)" }
+  };
+}
+
+// Light, nose-heavy and short-geared: grips well, runs out of power early.
+function fwdHatch(): VehicleDefinition {
+  const wheelbaseM = 2.45;
+  const cgToFrontAxleM = 1.0;
+  return {
+    id: "hatch",
+    name: "FWD Hatch",
+    car: {
+      ...defaultCarParams(),
+      massKg: 950,
+      inertiaYawKgM2: 1150,
+      wheelbaseM,
+      cgToFrontAxleM,
+      cgToRearAxleM: wheelbaseM - cgToFrontAxleM,
+      cgHeightM: 0.52,
+      trackWidthM: 1.45,
+      maxSteerRad: 1.05,
+      engineForceN: 23000,
+      engineFadeSpeedMS: 50,
+      driveBiasFront: 1.0,
+      frontDiff: { type: "open", preloadNm: 0, lockingCoeff: 0 },
+      brakeBiasFront: 0.68,
+      torqueCutOnSteer01: 0.38
+    },
+    engine: {
+      ...defaultEngineParams(),
+      idleRpm: 950,
+      redlineRpm: 6500,
+      maxRpm: 6700,
+      powerCurve: [
+        [950, 0.18],
+        [2500, 0.45],
+        [4000, 0.78],
+        [5200, 1.0],
+        [6200, 0.9],
+        [6500, 0.72],
+        [6650, 0.2],
+        [6700, 0.05]
+      ],
+      gearRatios: [3.4, 2.1, 1.5, 1.15, 0.92],
+      finalDriveRatio: 4.1,
+      rpmGainRate: 5200,
+      peakTorqueNm: 1000,
+      fuelTankL: 40,
+      fuelPerRevMl: 0.25
+    },
+    audio: {
+      baseFrequency: 68,
+      maxFrequency: 270,
+      harmonics: [1, 2, 3, 4, 5, 6],
+      harmonicGains: [0.8, 0.6, 0.45, 0.3, 0.18, 0.1]
+    },
+    visual: { lengthM: 1.7, widthM: 0.88, bodyColor: "rgba(250, 214, 90, 0.95)" }
+  };
+}
+
+// Heavy rear-drive V8: lots of low-rpm torque, happy to slide the rear.
+function rwdMuscle(): VehicleDefinition {
+  const wheelbaseM = 2.8;
+  const cgToFrontAxleM = 1.3;
+  return {
+    id: "muscle",
+    name: "RWD Muscle",
+    car: {
+      ...defaultCarParams(),
+      massKg: 1550,
+      inertiaYawKgM2: 2300,
+      wheelbaseM,
+      cgToFrontAxleM,
+      cgToRearAxleM: wheelbaseM - cgToFrontAxleM,
+      cgHeightM: 0.5,
+      trackWidthM: 1.6,
+      corneringStiffnessFrontNPerRad: 118000,
+      corneringStiffnessRearNPerRad: 104000,
+      maxSteerRad: 0.9,
+      engineForceN: 38000,
+      engineFadeSpeedMS: 64,
+      brakeForceN: 26000,
+      handbrakeRearGripScale: 0.5,
+      driveBiasFront: 0.0,
+      rearDiff: { type: "lsd", preloadNm: 120, lockingCoeff: 0.45 },
+      brakeBiasFront: 0.62,
+      aeroDragNPerMS2: 12,
+      torqueCutOnSteer01: 0.15
+    },
+    engine: {
+      ...defaultEngineParams(),
+      idleRpm: 750,
+      redlineRpm: 5800,
+      maxRpm: 6000,
+      powerCurve: [
+        [750, 0.3],
+        [1800, 0.62],
+        [3000, 0.88],
+        [4200, 1.0],
+        [5200, 0.95],
+        [5800, 0.8],
+        [5950, 0.25],
+        [6000, 0.05]
+      ],
+      gearRatios: [2.9, 1.9, 1.35, 1.0, 0.8],
+      finalDriveRatio: 3.4,
+      rpmGainRate: 3800,
+      rpmDecayRate: 2400,
+      clutchEngageRpm: 1000,
+      peakTorqueNm: 1700,
+      fuelTankL: 65,
+      fuelPerRevMl: 0.6
+    },
+    audio: {
+      baseFrequency: 42,
+      maxFrequency: 170,
+      harmonics: [0.5, 1, 2, 3, 4, 6],
+      harmonicGains: [0.7, 1.0, 0.55, 0.3, 0.18, 0.08]
+    },
+    visual: { lengthM: 2.05, widthM: 0.98, bodyColor: "rgba(220, 60, 60, 0.95)" }
+  };
+}
+
+// Tall and heavy: slow to turn in, leans hard (four-wheel model so roll shows up).
+function cargoTruck(): VehicleDefinition {
+  const wheelbaseM = 3.6;
+  const cgToFrontAxleM = 1.5;
+  return {
+    id: "truck",
+    name: "Cargo Truck",
+    car: {
+      ...defaultCarParams(),
+      vehicleModel: "fourWheel",
+      massKg: 3400,
+      inertiaYawKgM2: 7800,
+      wheelbaseM,
+      cgToFrontAxleM,
+      cgToRearAxleM: wheelbaseM - cgToFrontAxleM,
+      cgHeightM: 1.05,
+      trackWidthM: 1.9,
+      rollStiffnessFront01: 0.6,
+      corneringStiffnessFrontNPerRad: 230000,
+      corneringStiffnessRearNPerRad: 250000,
+      frictionMu: 1.1,
+      maxSteerRad: 0.8,
+      maxSteerRateRadS: 4.5,
+      engineForceN: 33000,
+      engineFadeSpeedMS: 40,
+      brakeForceN: 42000,
+      handbrakeForceN: 12000,
+      handbrakeRearGripScale: 0.7,
+      driveBiasFront: 0.0,
+      rearDiff: { type: "locked", preloadNm: 0, lockingCoeff: 0 },
+      brakeBiasFront: 0.6,
+      relaxationLengthFrontM: 1.0,
+      relaxationLengthRearM: 1.2,
+      rollingResistanceN: 700,
+      aeroDragNPerMS2: 22,
+      maxReverseSpeedMS: 8,
+      aligningYawDampingNmPerRadS: 4200
+    },
+    engine: {
+      ...defaultEngineParams(),
+      idleRpm: 650,
+      redlineRpm: 3200,
+      maxRpm: 3400,
+      powerCurve: [
+        [650, 0.35],
+        [1200, 0.7],
+        [1800, 0.95],
+        [2400, 1.0],
+        [3000, 0.86],
+        [3200, 0.7],
+        [3350, 0.2],
+        [3400, 0.05]
+      ],
+      gearRatios: [5.5, 3.6, 2.4, 1.7, 1.25, 1.0],
+      finalDriveRatio: 4.6,
+      rpmGainRate: 2200,
+      rpmDecayRate: 1500,
+      clutchEngageRpm: 900,
+      peakTorqueNm: 3000,
+      clutchMaxTorqueNm: 4500,
+      engineInertiaKgM2: 2.5,
+      engineBrakeTorqueNm: 650,
+      turboTorqueShare: 0.4,
+      turboSpoolRate: 0.9,
+      fuelTankL: 150,
+      fuelPerRevMl: 1.2
+    },
+    audio: {
+      baseFrequency: 34,
+      maxFrequency: 120,
+      harmonics: [0.5, 1, 1.5, 2, 3, 4],
+      harmonicGains: [0.9, 1.0, 0.5, 0.4, 0.2, 0.1]
+    },
+    visual: { lengthM: 2.6, widthM: 1.15, bodyColor: "rgba(120, 150, 110, 0.95)" }
+  };
+}
+
+export function serializeVehicleDefinition(def: VehicleDefinition): string {
+  return JSON.stringify(def);
+}
+
+/**
+ * Parse a vehicle from JSON. Unknown or non-finite numbers fall back to the base class (the built-in with
+ * the same id, or the rally car), so older files keep working as CarParams grows. Returns null when the
+ * shape is wrong or the car could not physically exist (non-positive mass, wheelbase, ...).
+ */
+export function parseVehicleDefinition(json: string): VehicleDefinition | null {
+  try {
+    const v = JSON.parse(json) as any;
+    if (!v || typeof v !== "object") return null;
+    if (typeof v.id !== "string" || v.id.length === 0) return null;
+    if (!v.car || typeof v.car !== "object" || !v.engine || typeof v.engine !== "object") return null;
+
+    const base = builtInVehicle(isVehicleClassId(v.id) ? v.id : DEFAULT_VEHICLE_CLASS);
+
+    const car: CarParams = { ...base.car };
+    for (const key of Object.keys(base.car) as (keyof CarParams)[]) {
+      const n = v.car[key];
+      if (typeof base.car[key] === "number" && typeof n === "number" && Number.isFinite(n)) {
+        (car as any)[key] = n;
+      }
+    }
+    if (v.car.vehicleModel === "bicycle" || v.car.vehicleModel === "fourWheel") car.vehicleModel = v.car.vehicleModel;
+    if (v.car.tireModel === "linear" || v.car.tireModel === "pacejka") car.tireModel = v.car.tireModel;
+    if (car.massKg <= 0 || car.inertiaYawKgM2 <= 0 || car.wheelbaseM <= 0 || car.trackWidthM <= 0) return null;
+    if (car.cgToFrontAxleM <= 0 || car.cgToFrontAxleM >= car.wheelbaseM || car.cgHeightM < 0) return null;
+    // Keep the axle split consistent with the wheelbase.
+    car.cgToRearAxleM = car.wheelbaseM - car.cgToFrontAxleM;
+    car.driveBiasFront = clamp01(car.driveBiasFront);
+    car.brakeBiasFront = clamp01(car.brakeBiasFront);
+    car.rollStiffnessFront01 = clamp01(car.rollStiffnessFront01);
+    if (car.wheelRadiusM <= 0 || car.wheelInertiaKgM2 <= 0) return null;
+    for (const key of ["centerDiff", "frontDiff", "rearDiff"] as const) {
+      car[key] = parseDifferential(v.car[key], base.car[key]);
+    }
+
+    const engine: EngineParams = { ...base.engine };
+    const engineKeys = [
+      "idleRpm",
+      "redlineRpm",
+      "maxRpm",
+      "finalDriveRatio",
+      "rpmGainRate",
+      "rpmDecayRate",
+      "clutchEngageRpm",
+      "peakTorqueNm",
+      "drivetrainEfficiency",
+      "clutchMaxTorqueNm",
+      "engineInertiaKgM2",
+      "stallRpm",
+      "engineBrakeTorqueNm",
+      "launchRpm",
+      "turboTorqueShare",
+      "turboSpoolRate",
+      "fuelTankL",
+      "fuelPerRevMl"
+    ] as const;
+    for (const key of engineKeys) {
+      const n = v.engine[key];
+      if (typeof n === "number" && Number.isFinite(n)) engine[key] = n;
+    }
+    if (Array.isArray(v.engine.gearRatios)) {
+      const ratios = (v.engine.gearRatios as unknown[]).filter(
+        (n): n is number => typeof n === "number" && Number.isFinite(n) && n > 0
+      );
+      if (ratios.length === 0) return null;
+      engine.gearRatios = ratios;
+    }
+    if (Array.isArray(v.engine.powerCurve)) {
+      const curve: [number, number][] = [];
+      for (const p of v.engine.powerCurve as unknown[]) {
+        if (!Array.isArray(p) || typeof p[0] !== "number" || typeof p[1] !== "number") return null;
+        if (!Number.isFinite(p[0]) || !Number.isFinite(p[1])) return null;
+        curve.push([p[0], Math.max(0, p[1])]);
+      }
+      if (curve.length === 0) return null;
+      curve.sort((a, b) => a[0] - b[0]);
+      engine.powerCurve = curve;
+    }
+    engine.drivetrainEfficiency = clamp01(engine.drivetrainEfficiency);
+    engine.turboTorqueShare = clamp01(engine.turboTorqueShare);
+    if (engine.clutchMaxTorqueNm <= 0 || engine.engineInertiaKgM2 <= 0) return null;
+    if (engine.fuelTankL <= 0 || engine.fuelPerRevMl < 0) return null;
+    if (!(engine.idleRpm > 0 && engine.redlineRpm > engine.idleRpm && engine.maxRpm >= engine.redlineRpm)) return null;
+
+    const audio: EngineAudioParams = { ...base.audio };
+    if (v.audio && typeof v.audio === "object") {
+      if (typeof v.audio.baseFrequency === "number" && v.audio.baseFrequency > 0) audio.baseFrequency = v.audio.baseFrequency;
+      if (typeof v.audio.maxFrequency === "number" && v.audio.maxFrequency > 0) audio.maxFrequency = v.audio.maxFrequency;
+      const harmonics = Array.isArray(v.audio.harmonics) ? (v.audio.harmonics as unknown[]) : null;
+      const gains = Array.isArray(v.audio.harmonicGains) ? (v.audio.harmonicGains as unknown[]) : null;
+      const finite = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+      if (harmonics && gains && harmonics.length === gains.length && harmonics.every(finite) && gains.every(finite)) {
+        audio.harmonics = harmonics;
+        audio.harmonicGains = gains;
+      }
+    }
+
+    const visual: VehicleVisual = { ...base.visual };
+    if (v.visual && typeof v.visual === "object") {
+      if (typeof v.visual.lengthM === "number" && v.visual.lengthM > 0) visual.lengthM = Math.min(6, v.visual.lengthM);
+      if (typeof v.visual.widthM === "number" && v.visual.widthM > 0) visual.widthM = Math.min(3, v.visual.widthM);
+      if (typeof v.visual.bodyColor === "string") visual.bodyColor = v.visual.bodyColor;
+    }
+
+    return {
+      id: v.id,
+      name: typeof v.name === "string" && v.name.length > 0 ? v.name : base.name,
+      car,
+      engine,
+      audio,
+      visual
+    };
+  } catch {
+    return null;
+  }
+}
+
+function parseDifferential(v: any, base: DifferentialParams): DifferentialParams {
+  if (!v || typeof v !== "object" || !isDifferentialType(v.type)) return { ...base };
+  const nonNegative = (n: unknown, fallback: number) =>
+    typeof n === "number" && Number.isFinite(n) ? Math.max(0, n) : fallback;
+  return {
+    type: v.type,
+    preloadNm: nonNegative(v.preloadNm, base.preloadNm),
+    lockingCoeff: clamp01(nonNegative(v.lockingCoeff, base.lockingCoeff))
+  };
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
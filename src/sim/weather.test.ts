@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { surfaceForTrackSM } from "./surface";
+import { createTrackFromDefinition } from "./track";
+import {
+  createWeather,
+  findPuddles,
+  fogAtTrackDistance,
+  nextShowerInS,
+  puddleDepthAt,
+  puddleFill01,
+  rainAtTime,
+  weatherClockS,
+  weatherFromSeed,
+  wetnessAtTime
+} from "./weather";
+
+describe("weather", () => {
+  it("plans the same weather from the same seed, and none of it rain in the desert", () => {
+    expect(weatherFromSeed(77, "temperate")).toEqual(weatherFromSeed(77, "temperate"));
+    let showers = 0;
+    for (let seed = 1; seed <= 40; seed++) {
+      expect(weatherFromSeed(seed, "desert").showers).toEqual([]);
+      showers += weatherFromSeed(seed, "temperate").showers.length;
+    }
+    expect(showers).toBeGreaterThan(10);
+  });
+
+  it("wets the road while it rains and dries it after", () => {
+    const weather = createWeather({ showers: [{ startS: 10, buildS: 20, holdS: 60, clearS: 20, peak01: 1 }], fogBanks: [] });
+    expect(rainAtTime(weather, 5)).toBe(0);
+    expect(rainAtTime(weather, 60)).toBe(1);
+    expect(nextShowerInS(weather, 0, 20)).toBe(10);
+    expect(nextShowerInS(weather, 20, 60)).toBeNull();
+
+    expect(wetnessAtTime(weather, 5)).toBe(0);
+    // Soaking lags the rain...
+    expect(wetnessAtTime(weather, 35)).toBeLessThan(rainAtTime(weather, 35));
+    expect(wetnessAtTime(weather, 90)).toBeGreaterThan(0.8);
+    // ...and the road is still wet well after the sky clears, drying all the while.
+    const after = [120, 180, 300, 600].map((t) => wetnessAtTime(weather, t));
+    expect(after[0]).toBeGreaterThan(0.6);
+    for (let i = 1; i < after.length; i++) expect(after[i]).toBeLessThan(after[i - 1]);
+
+    const dry = surfaceForTrackSM(1000, 300, false, 5, "temperate");
+    const wet = surfaceForTrackSM(1000, 300, false, 5, "temperate", wetnessAtTime(weather, 90));
+    expect(wet.name).toBe(dry.name);
+    expect(wet.frictionMu).toBeLessThan(dry.frictionMu);
+  });
+
+  it("replays the same weather when the stage is restarted", () => {
+    const seed = Array.from({ length: 40 }, (_, i) => i + 1).find((s) => weatherFromSeed(s, "temperate").showers.length > 0)!;
+    // The game clock keeps running: the first run starts 40 s after load, the restart 900 s after.
+    const run = (raceStartS: number) => {
+      const weather = weatherFromSeed(seed, "temperate");
+      const waiting = weatherClockS(raceStartS - 5, null);
+      const samples = [0, 30, 90, 200].map((t) => {
+        const clockS = weatherClockS(raceStartS + t, raceStartS);
+        return [rainAtTime(weather, clockS), wetnessAtTime(weather, clockS), fogAtTrackDistance(weather, 1000, 500, clockS)];
+      });
+      return { waiting: wetnessAtTime(weather, waiting), samples };
+    };
+    expect(run(900)).toEqual(run(40));
+    expect(weatherClockS(123, null)).toBe(0);
+  });
+
+  it("rolls a fog bank in and drifts it along the road", () => {
+    const weather = createWeather({
+      showers: [],
+      fogBanks: [{ startS: 0, durationS: 100, center01: 0.5, halfLength01: 0.1, driftMS: 2, peak01: 0.8 }]
+    });
+    expect(fogAtTrackDistance(weather, 1000, 500, 0)).toBe(0);
+    expect(fogAtTrackDistance(weather, 1000, 500, 10)).toBeLessThan(fogAtTrackDistance(weather, 1000, 600, 50));
+    expect(fogAtTrackDistance(weather, 1000, 600, 50)).toBeCloseTo(0.8, 6);
+    expect(fogAtTrackDistance(weather, 1000, 420, 50)).toBe(0);
+    expect(fogAtTrackDistance(weather, 1000, 600, 100)).toBe(0);
+  });
+
+  it("puts puddles in the dips, filled once the road is wet", () => {
+    const points = Array.from({ length: 13 }, (_, i) => ({ x: i * 10, y: 0 }));
+    const dip = createTrackFromDefinition({ points, baseWidthM: 8, elevationsM: points.map((_, i) => Math.abs(i - 6) * 0.3) });
+    const puddles = findPuddles(dip);
+    expect(puddles).toHaveLength(1);
+    expect(puddles[0]).toMatchObject({ sM: 60, x: 60, y: 0 });
+    expect(findPuddles(createTrackFromDefinition({ points, baseWidthM: 8 }))).toEqual([]);
+
+    expect(puddleFill01(0.2)).toBe(0);
+    expect(puddleDepthAt(puddles, 60, 0, puddleFill01(0.2))).toBe(0);
+    expect(puddleDepthAt(puddles, 60, 0, puddleFill01(1))).toBeGreaterThan(0.5);
+    expect(puddleDepthAt(puddles, 30, 0, puddleFill01(1))).toBe(0);
+  });
+});
@@ -0,0 +1,255 @@
+import { clamp } from "../runtime/math";
+import { mulberry32 } from "./rng";
+import { resolveStageTheme, type StageThemeKind } from "./stage";
+import type { Track } from "./track";
+
+// Weather on the race clock. A stage's seed plans its showers and fog banks; rain builds and clears over
+// minutes, the road soaks up water while it falls and dries after, and puddles fill in the dips. All of
+// it is a function of the seed and the race time, so host, client and replays agree without syncing it.
+
+// A shower over the whole stage: rain builds up, holds at its peak, then clears.
+export type Shower = {
+  startS: number;
+  buildS: number;
+  holdS: number;
+  clearS: number;
+  peak01: number;
+};
+
+// A bank of fog lying over part of the road and drifting along it, rolling in and lifting again.
+export type FogBank = {
+  startS: number;
+  durationS: number;
+  center01: number; // where it lies at startS, as a fraction of the track length
+  halfLength01: number;
+  driftMS: number; // along the road; negative drifts back toward the start
+  peak01: number;
+};
+
+export type WeatherPlan = { showers: Shower[]; fogBanks: FogBank[] };
+
+// A plan with road wetness baked out on a fixed time step from `wetFromS`.
+export type Weather = WeatherPlan & { wetFromS: number; wetness01: number[] };
+
+// Low points of the road where water collects once it is wet enough.
+export type Puddle = {
+  sM: number;
+  x: number;
+  y: number;
+  rotationRad: number; // along the road
+  lengthM: number;
+  widthM: number;
+  depth01: number; // how deep the dip is; deeper dips hold bigger, deeper puddles
+};
+
+// How fast (1/s) heavy rain soaks the road, and how fast a dry sky dries it.
+const WET_RATE = 1 / 30;
+const DRY_RATE = 1 / 120;
+const WETNESS_STEP_S = 0.5;
+// Fog banks thin out over this share of their length at each end.
+const FOG_EDGE_SHARE = 0.35;
+// Rolling in and lifting each take this share of a bank's time.
+const FOG_ROLL_SHARE = 0.25;
+
+const PUDDLE_WINDOW_M = 30;
+const PUDDLE_MIN_DEPTH_M = 0.25;
+const PUDDLE_SPACING_M = 25;
+// Puddles start filling once the road is this wet, and are full at PUDDLE_FULL_WETNESS.
+const PUDDLE_MIN_WETNESS = 0.45;
+const PUDDLE_FULL_WETNESS = 0.85;
+
+function smoothstep01(x: number): number {
+  const t = clamp(x, 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * The race clock the weather runs on: seconds since the car crossed the start line (`raceStartS` on the
+ * game clock), held at 0 until it has. The game clock runs on across restarts; this one starts over.
+ */
+export function weatherClockS(gameTimeS: number, raceStartS: number | null): number {
+  return raceStartS === null ? 0 : gameTimeS - raceStartS;
+}
+
+/** Bake road wetness for `plan`, so it can be read at any race time. */
+export function createWeather(plan: WeatherPlan): Weather {
+  const fromS = Math.min(0, ...plan.showers.map((s) => s.startS));
+  const toS = Math.max(fromS, ...plan.showers.map((s) => s.startS + s.buildS + s.holdS + s.clearS));
+  const wetness01: number[] = [0];
+  let w = 0;
+  for (let t = fromS; t < toS; t += WETNESS_STEP_S) {
+    // Rain held steady over the step: w relaxes exactly toward the balance between soaking and drying.
+    const rain = rainAtTime(plan, t + WETNESS_STEP_S * 0.5);
+    const soak = WET_RATE * rain;
+    const dry = DRY_RATE * (1 - rain);
+    const rate = soak + dry;
+    const balance = rate > 0 ? soak / rate : w;
+    w = balance + (w - balance) * Math.exp(-rate * WETNESS_STEP_S);
+    wetness01.push(w);
+  }
+  return { ...plan, wetFromS: fromS, wetness01 };
+}
+
+export const CLEAR_WEATHER: Weather = createWeather({ showers: [], fogBanks: [] });
+
+/** The weather a seed's stage gets: showers where the theme sees rain, fog banks where it sees fog. */
+export function weatherFromSeed(seed: number, themeKind: StageThemeKind): Weather {
+  const safeSeed = Math.floor(seed) || 1;
+  const theme = resolveStageTheme({ kind: themeKind });
+  const rand = mulberry32((safeSeed ^ 0x2c1b3c6d) >>> 0);
+
+  const showers: Shower[] = [];
+  if (theme.allowsRain && rand() < 0.65) {
+    // Sometimes it has been raining since before the start, so the road is wet from the off.
+    let startS = -90 + rand() * 180;
+    const count = rand() < 0.4 ? 2 : 1;
+    for (let i = 0; i < count; i++) {
+      const shower = {
+        startS,
+        buildS: 15 + rand() * 25,
+        holdS: 20 + rand() * 50,
+        clearS: 15 + rand() * 25,
+        peak01: 0.55 + rand() * 0.45
+      };
+      showers.push(shower);
+      startS += shower.buildS + shower.holdS + shower.clearS + 60 + rand() * 120;
+    }
+  }
+
+  // Fog: arctic is intentionally common; swamps steam and volcanoes smoke, so both see a lot of it.
+  const fogChance =
+    themeKind === "arctic" ? 0.92 : themeKind === "swamp" ? 0.7 : themeKind === "volcanic" ? 0.5 : themeKind === "temperate" ? 0.35 : 0.04;
+  const fogBanks: FogBank[] = [];
+  if (theme.allowsFog && rand() < fogChance) {
+    const count = rand() < 0.35 ? 2 : 1;
+    for (let i = 0; i < count; i++) {
+      fogBanks.push({
+        startS: -30 + rand() * 150,
+        durationS: 60 + rand() * 90,
+        center01: 0.1 + rand() * 0.8,
+        halfLength01: 0.08 + rand() * 0.08,
+        driftMS: (rand() < 0.5 ? -1 : 1) * (1 + rand() * 2),
+        peak01: 0.5 + rand() * 0.5
+      });
+    }
+  }
+
+  return createWeather({ showers, fogBanks });
+}
+
+/** How hard it is raining at `timeS` (0..1). */
+export function rainAtTime(weather: WeatherPlan, timeS: number): number {
+  let rain = 0;
+  for (const s of weather.showers) {
+    const t = timeS - s.startS;
+    if (t <= 0) continue;
+    let level: number;
+    if (t < s.buildS) level = smoothstep01(t / s.buildS);
+    else if (t < s.buildS + s.holdS) level = 1;
+    else level = 1 - smoothstep01((t - s.buildS - s.holdS) / s.clearS);
+    rain = Math.max(rain, s.peak01 * level);
+  }
+  return rain;
+}
+
+/** Water on the road at `timeS`: 0 dry, 1 soaked. Lags the rain, and keeps drying after the last shower. */
+export function wetnessAtTime(weather: Weather, timeS: number): number {
+  const table = weather.wetness01;
+  const x = (timeS - weather.wetFromS) / WETNESS_STEP_S;
+  if (x <= 0) return table[0];
+  const last = table.length - 1;
+  if (x >= last) return table[last] * Math.exp(-DRY_RATE * (x - last) * WETNESS_STEP_S);
+  const i = Math.floor(x);
+  return table[i] + (table[i + 1] - table[i]) * (x - i);
+}
+
+/** Seconds until the next shower starts, if one starts within `horizonS`. */
+export function nextShowerInS(weather: WeatherPlan, timeS: number, horizonS: number): number | null {
+  let best: number | null = null;
+  for (const s of weather.showers) {
+    const d = s.startS - timeS;
+    if (d > 0 && d <= horizonS && (best === null || d < best)) best = d;
+  }
+  return best;
+}
+
+/** Fog from the drifting banks over `trackDistanceM` at `timeS` (0..1). */
+export function fogAtTrackDistance(weather: WeatherPlan, totalLengthM: number, trackDistanceM: number, timeS: number): number {
+  let fog = 0;
+  for (const b of weather.fogBanks) {
+    const t = timeS - b.startS;
+    if (t <= 0 || t >= b.durationS) continue;
+    const rollS = b.durationS * FOG_ROLL_SHARE;
+    const inTime = smoothstep01(t / rollS) * smoothstep01((b.durationS - t) / rollS);
+    const centerM = b.center01 * totalLengthM + b.driftMS * t;
+    const halfM = b.halfLength01 * totalLengthM;
+    const d = Math.abs(trackDistanceM - centerM);
+    const inSpace = smoothstep01((halfM - d) / (halfM * FOG_EDGE_SHARE));
+    fog = Math.max(fog, b.peak01 * inTime * inSpace);
+  }
+  return fog;
+}
+
+/** Dips in the road deep enough to hold water. None on a track without elevation. */
+export function findPuddles(track: Track): Puddle[] {
+  const elevations = track.elevationsM;
+  const cum = track.cumulativeLengthsM;
+  const n = track.points.length;
+  if (!elevations || elevations.length !== n || n < 3) return [];
+
+  const puddles: Puddle[] = [];
+  for (let i = 1; i < n - 1; i++) {
+    const h = elevations[i];
+    // The lowest point within the window, with ground rising to either side of it.
+    let riseBefore = 0;
+    let riseAfter = 0;
+    let lowest = true;
+    for (let j = i - 1; j >= 0 && cum[i] - cum[j] <= PUDDLE_WINDOW_M; j--) {
+      if (elevations[j] < h) lowest = false;
+      riseBefore = Math.max(riseBefore, elevations[j] - h);
+    }
+    for (let j = i + 1; j < n && cum[j] - cum[i] <= PUDDLE_WINDOW_M; j++) {
+      if (elevations[j] <= h) lowest = false;
+      riseAfter = Math.max(riseAfter, elevations[j] - h);
+    }
+    const depthM = Math.min(riseBefore, riseAfter);
+    if (!lowest || depthM < PUDDLE_MIN_DEPTH_M) continue;
+    const prev = puddles[puddles.length - 1];
+    if (prev && cum[i] - prev.sM < PUDDLE_SPACING_M) continue;
+
+    const depth01 = clamp(depthM / 1.5, 0, 1);
+    const a = track.points[i - 1];
+    const b = track.points[i + 1];
+    const roadWidthM = track.segmentWidthsM?.[i] ?? track.widthM;
+    puddles.push({
+      sM: cum[i],
+      x: track.points[i].x,
+      y: track.points[i].y,
+      rotationRad: Math.atan2(b.y - a.y, b.x - a.x),
+      lengthM: 4 + 8 * depth01,
+      widthM: roadWidthM * (0.45 + 0.4 * depth01),
+      depth01
+    });
+  }
+  return puddles;
+}
+
+/** How full the puddles are (0..1) with the road this wet. */
+export function puddleFill01(wetness01: number): number {
+  return smoothstep01((wetness01 - PUDDLE_MIN_WETNESS) / (PUDDLE_FULL_WETNESS - PUDDLE_MIN_WETNESS));
+}
+
+/** Depth of standing water (0..1) under a point `lateralOffsetM` off the centerline at `trackDistanceM`. */
+export function puddleDepthAt(puddles: readonly Puddle[], trackDistanceM: number, lateralOffsetM: number, fill01: number): number {
+  if (fill01 <= 0) return 0;
+  let depth = 0;
+  for (const p of puddles) {
+    // A part-filled puddle is a smaller one: its radii scale with the square root of the fill.
+    const u = (trackDistanceM - p.sM) / (p.lengthM * 0.5);
+    const v = lateralOffsetM / (p.widthM * 0.5);
+    const r2 = (u * u + v * v) / fill01;
+    if (r2 >= 1) continue;
+    depth = Math.max(depth, p.depth01 * fill01 * (1 - r2));
+  }
+  return clamp(depth, 0, 1);
+}
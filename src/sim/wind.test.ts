@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { createCarState, defaultCarParams, stepCar } from "./car";
+import type { TrackZone } from "./stage";
+import { BIG_GUST_FACTOR, WIND_GUST_MAX_MS, nextBigGustInS, windAtTrackDistance, windForceBody, windGustFactor } from "./wind";
+
+const NO_INPUT = { steer: 0, throttle: 0, brake: 0, handbrake: 0 };
+
+describe("wind", () => {
+  it("adds nothing in still air and pushes toward where a crosswind blows", () => {
+    expect(windForceBody(0, 0, 0.7, 25, 1.5, 0.4)).toEqual({ xN: 0, yN: 0, yawMomentNm: 0 });
+
+    // Heading +x; the car's right is +y in the world, so this wind blows from its left.
+    const fromLeft = windForceBody(0, 15, 0, 25, 0, 0.4);
+    expect(fromLeft.yN).toBeGreaterThan(100);
+    expect(fromLeft.yawMomentNm).toBeGreaterThan(0);
+    const fromRight = windForceBody(0, -15, 0, 25, 0, 0.4);
+    expect(fromRight.yN).toBeCloseTo(-fromLeft.yN, 6);
+    expect(fromRight.yawMomentNm).toBeLessThan(0);
+  });
+
+  it("blows a car off its line through stepCar", () => {
+    const params = defaultCarParams();
+    let calm = { ...createCarState(), vxMS: 25 };
+    let windy = { ...calm };
+    for (let i = 0; i < 240; i++) {
+      calm = stepCar(calm, params, NO_INPUT, 1 / 120).state;
+      windy = stepCar(windy, params, NO_INPUT, 1 / 120, { windXMS: 0, windYMS: 20 }).state;
+    }
+    expect(Math.abs(calm.yM)).toBeLessThan(1e-6);
+    expect(windy.yM).toBeGreaterThan(0.2);
+    expect(windy.headingRad).toBeGreaterThan(calm.headingRad);
+  });
+
+  it("never shifts a braked car, even in the strongest gusts a stage can have", () => {
+    // stageMetaFromSeed draws intensity01 up to 1 and gust01 up to 1.
+    const zones: TrackZone[] = [{ kind: "wind", start01: 0, end01: 1, intensity01: 1, wind: { towardRad: Math.PI / 2, gust01: 1, gustPeriodS: 5 } }];
+    const params = defaultCarParams();
+    const braked = { steer: 0, throttle: 0, brake: 1, handbrake: 0 };
+    let car = createCarState();
+    let strongestMS = 0;
+    for (let i = 0; i < 120 * 60; i++) {
+      const wind = windAtTrackDistance(1000, 500, zones, i / 120)!;
+      strongestMS = Math.max(strongestMS, wind.speedMS);
+      car = stepCar(car, params, braked, 1 / 120, { windXMS: wind.xMS, windYMS: wind.yMS }).state;
+    }
+    expect(strongestMS).toBe(WIND_GUST_MAX_MS);
+    expect(Math.hypot(car.xM, car.yM)).toBeLessThan(0.05);
+    expect(Math.abs(car.headingRad)).toBeLessThan(0.01);
+  });
+
+  it("gusts on the race clock and only inside wind zones", () => {
+    const profile = { towardRad: 1.2, gust01: 1, gustPeriodS: 6 };
+    const factors = Array.from({ length: 600 }, (_, i) => windGustFactor(profile, i * 0.1));
+    expect(factors).toEqual(Array.from({ length: 600 }, (_, i) => windGustFactor(profile, i * 0.1)));
+    expect(Math.min(...factors)).toBeLessThan(1);
+    expect(Math.max(...factors)).toBeGreaterThanOrEqual(BIG_GUST_FACTOR);
+
+    // The warning comes before the gust that earns it.
+    const bigAt = factors.findIndex((f) => f >= BIG_GUST_FACTOR) * 0.1;
+    const warnIn = nextBigGustInS(profile, bigAt - 2, 3);
+    expect(warnIn).not.toBeNull();
+    expect(warnIn!).toBeLessThanOrEqual(2);
+
+    const zones: TrackZone[] = [{ kind: "wind", start01: 0.2, end01: 0.6, intensity01: 0.8, wind: profile }];
+    expect(windAtTrackDistance(1000, 100, zones, 3)).toBeNull();
+    const wind = windAtTrackDistance(1000, 400, zones, 3)!;
+    expect(wind.speedMS).toBeGreaterThan(0);
+    expect(Math.atan2(wind.yMS, wind.xMS)).toBeCloseTo(1.2, 6);
+  });
+});
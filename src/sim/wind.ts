@@ -0,0 +1,128 @@
+import { zoneContainsTrackDistance, zoneEdgeFade, type TrackZone, type WindProfile } from "./stage";
+
+// Crosswind zones. A wind zone blows steadily in one direction with gusts on top; the gusts run on the
+// race clock, so the same stage gusts at the same moments for every peer and every replay.
+
+// Mean wind speed (m/s) in a zone of intensity 1, and the most any gust blows.
+export const WIND_MAX_MS = 22;
+export const WIND_GUST_MAX_MS = 32;
+// Distance (m) over which a zone's wind builds up and dies away at its ends.
+const WIND_RAMP_M = 40;
+// Each gust period opens with a gust lasting this share of it; the rest is a lull.
+const GUST_SHARE = 0.4;
+// A gust this far above the mean is worth a call from the navigator.
+export const BIG_GUST_FACTOR = 1.6;
+
+// Side force per (m/s)² of crosswind, 0.5·ρ·Cy·A_side for about 4 m² of flank. The car's own drag
+// coefficient is no guide here: it is tuned for how the car coasts, not for what the air pushes.
+const SIDE_FORCE_N_PER_MS2 = 2.5;
+// Center of pressure ahead of the center of mass (m), so a crosswind also turns the nose downwind.
+const PRESSURE_CENTER_AHEAD_M = 0.3;
+
+export const DEFAULT_WIND_PROFILE: WindProfile = { towardRad: 0, gust01: 0.6, gustPeriodS: 7 };
+
+export type WindSample = {
+  xMS: number; // world-frame air velocity
+  yMS: number;
+  speedMS: number;
+  gustFactor: number; // current speed over the zone's mean
+  profile: WindProfile; // of the zone it comes from
+};
+
+function hash01(n: number): number {
+  let x = n >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return (x >>> 0) / 4294967296;
+}
+
+// Peak factor of gust `index`: gusts vary, so only some of them are big.
+function gustPeak(profile: WindProfile, index: number): number {
+  const salt = Math.floor(profile.towardRad * 1000) * 7919;
+  return 1 + profile.gust01 * (0.3 + 1.0 * hash01(index * 2654435761 + salt));
+}
+
+/** Wind speed over the zone's mean at `timeS`: a lull between gusts, each gust a smooth swell. */
+export function windGustFactor(profile: WindProfile, timeS: number): number {
+  const periodS = Math.max(1, profile.gustPeriodS);
+  const index = Math.floor(timeS / periodS);
+  const phase = timeS / periodS - index;
+  const lull = 1 - 0.3 * profile.gust01;
+  if (phase >= GUST_SHARE) return lull;
+  const swell = Math.sin((Math.PI * phase) / GUST_SHARE) ** 2;
+  return lull + (gustPeak(profile, index) - lull) * swell;
+}
+
+/** Seconds until the next gust of at least BIG_GUST_FACTOR starts building, if one comes within `horizonS`. */
+export function nextBigGustInS(profile: WindProfile, timeS: number, horizonS: number): number | null {
+  const periodS = Math.max(1, profile.gustPeriodS);
+  for (let index = Math.floor(timeS / periodS); index * periodS <= timeS + horizonS; index++) {
+    const startS = index * periodS;
+    // The gust now blowing only counts while it is still building.
+    const peakS = startS + periodS * GUST_SHARE * 0.5;
+    if (peakS < timeS) continue;
+    if (gustPeak(profile, index) >= BIG_GUST_FACTOR) return Math.max(0, startS - timeS);
+  }
+  return null;
+}
+
+/** The air moving at `trackDistanceM` at `timeS`, from the strongest wind zone there; null in still air. */
+export function windAtTrackDistance(totalLengthM: number, trackDistanceM: number, zones: TrackZone[], timeS: number): WindSample | null {
+  let best: WindSample | null = null;
+  for (const z of zones) {
+    if (z.kind !== "wind" || !zoneContainsTrackDistance(totalLengthM, trackDistanceM, z)) continue;
+    const profile = z.wind ?? DEFAULT_WIND_PROFILE;
+    const gustFactor = windGustFactor(profile, timeS);
+    const meanMS = Math.max(0, Math.min(1, z.intensity01)) * WIND_MAX_MS * zoneEdgeFade(totalLengthM, trackDistanceM, z, WIND_RAMP_M);
+    const speedMS = Math.min(WIND_GUST_MAX_MS, meanMS * gustFactor);
+    if (best && best.speedMS >= speedMS) continue;
+    best = {
+      xMS: Math.cos(profile.towardRad) * speedMS,
+      yMS: Math.sin(profile.towardRad) * speedMS,
+      speedMS,
+      gustFactor,
+      profile
+    };
+  }
+  return best;
+}
+
+/**
+ * Aerodynamic force (body frame, N) and yaw moment (N·m) the wind adds to a car at `headingRad` moving at
+ * (vxMS, vyMS) in its own frame. The car's own still-air drag is already in stepCar, so this is the force
+ * on the air moving past the car minus that: zero in still air, a push in the wind's direction otherwise.
+ */
+export function windForceBody(
+  windXMS: number,
+  windYMS: number,
+  headingRad: number,
+  vxMS: number,
+  vyMS: number,
+  aeroDragNPerMS2: number
+): { xN: number; yN: number; yawMomentNm: number } {
+  const cosH = Math.cos(headingRad);
+  const sinH = Math.sin(headingRad);
+  const wx = windXMS * cosH + windYMS * sinH;
+  const wy = -windXMS * sinH + windYMS * cosH;
+  const push = (wind: number, v: number, c: number): number => {
+    const rel = wind - v;
+    return c * (rel * Math.abs(rel) + v * Math.abs(v));
+  };
+  const xN = push(wx, vxMS, Math.max(0, aeroDragNPerMS2));
+  const yN = push(wy, vyMS, SIDE_FORCE_N_PER_MS2);
+  return { xN, yN, yawMomentNm: yN * PRESSURE_CENTER_AHEAD_M };
+}
+
+/** A wind profile from a track file, with defaults for whatever is missing or malformed. */
+export function parseWindProfile(raw: unknown): WindProfile {
+  const v = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const num = (x: unknown, fallback: number): number => (typeof x === "number" && Number.isFinite(x) ? x : fallback);
+  return {
+    towardRad: num(v.towardRad, DEFAULT_WIND_PROFILE.towardRad),
+    gust01: Math.max(0, Math.min(1, num(v.gust01, DEFAULT_WIND_PROFILE.gust01))),
+    gustPeriodS: Math.max(2, Math.min(30, num(v.gustPeriodS, DEFAULT_WIND_PROFILE.gustPeriodS)))
+  };
+}